@@ -0,0 +1,111 @@
+const { ethers } = require('ethers');
+const AuthService = require('../services/core/AuthService');
+
+const wallet = new ethers.Wallet(`0x${'11'.repeat(32)}`);
+
+const signInMessage = ({ domain = 'localhost:3000', address = wallet.address, nonce, expirationTime, chainId = 42220 }) => [
+  `${domain} wants you to sign in with your Ethereum account:`,
+  address,
+  '',
+  'Sign in to Pepasur',
+  '',
+  `URI: http://${domain}`,
+  'Version: 1',
+  `Chain ID: ${chainId}`,
+  `Nonce: ${nonce}`,
+  `Issued At: ${new Date().toISOString()}`,
+  ...(expirationTime ? [`Expiration Time: ${expirationTime}`] : []),
+].join('\n');
+
+describe('AuthService', () => {
+  const originalEnv = { ...process.env };
+  let authService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    process.env.SIWE_DOMAIN = 'u2u.pepasur.xyz, localhost:3000';
+    delete process.env.CHAIN_ID;
+    authService = new AuthService();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+  });
+
+  const signIn = async (fields = {}, signer = wallet) => {
+    const { nonce } = authService.createNonce();
+    const message = signInMessage({ nonce, ...fields });
+    return { message, signature: await signer.signMessage(message) };
+  };
+
+  test('refuses to start without SIWE_DOMAIN', () => {
+    delete process.env.SIWE_DOMAIN;
+    expect(() => new AuthService()).toThrow('SIWE_DOMAIN is not configured');
+
+    process.env.SIWE_DOMAIN = ' , ';
+    expect(() => new AuthService()).toThrow('SIWE_DOMAIN is not configured');
+  });
+
+  test('starts a session for a correctly signed message', async () => {
+    const { message, signature } = await signIn();
+    const { token, address } = authService.verifyLogin(message, signature);
+
+    expect(address).toBe(wallet.address);
+    expect(authService.getSession(token)).toMatchObject({ address: wallet.address, chainId: 42220 });
+  });
+
+  test('accepts any of the configured domains', async () => {
+    const { message, signature } = await signIn({ domain: 'u2u.pepasur.xyz' });
+    expect(authService.verifyLogin(message, signature).address).toBe(wallet.address);
+  });
+
+  test('rejects a message signed for another site', async () => {
+    const { message, signature } = await signIn({ domain: 'evil.example' });
+    expect(() => authService.verifyLogin(message, signature)).toThrow('Message is for evil.example');
+  });
+
+  test('a nonce can only be used once, even after a failed attempt', async () => {
+    const { message, signature } = await signIn();
+    authService.verifyLogin(message, signature);
+    expect(() => authService.verifyLogin(message, signature)).toThrow('Invalid or expired nonce');
+
+    const other = await signIn({ domain: 'evil.example' });
+    expect(() => authService.verifyLogin(other.message, other.signature)).toThrow('Message is for');
+    expect(() => authService.verifyLogin(other.message, other.signature)).toThrow('Invalid or expired nonce');
+  });
+
+  test('rejects nonces the server did not issue', async () => {
+    const message = signInMessage({ nonce: 'deadbeef' });
+    const signature = await wallet.signMessage(message);
+    expect(() => authService.verifyLogin(message, signature)).toThrow('Invalid or expired nonce');
+  });
+
+  test('rejects a signature from another wallet', async () => {
+    const { message, signature } = await signIn({}, ethers.Wallet.createRandom());
+    expect(() => authService.verifyLogin(message, signature)).toThrow('Signature does not match address');
+  });
+
+  test('rejects an expired message', async () => {
+    const { message, signature } = await signIn({ expirationTime: new Date(Date.now() - 1000).toISOString() });
+    expect(() => authService.verifyLogin(message, signature)).toThrow('Message has expired');
+  });
+
+  test('enforces CHAIN_ID when it is set', async () => {
+    process.env.CHAIN_ID = '39';
+    authService = new AuthService();
+
+    const { message, signature } = await signIn();
+    expect(() => authService.verifyLogin(message, signature)).toThrow('Message is for chain 42220, expected 39');
+  });
+
+  test('the session ends at the message expiry or when revoked', async () => {
+    const expirationTime = new Date(Date.now() + 60 * 1000).toISOString();
+    const { message, signature } = await signIn({ expirationTime });
+    const { token, expiresAt } = authService.verifyLogin(message, signature);
+    expect(expiresAt).toBe(Date.parse(expirationTime));
+
+    authService.revoke(token);
+    expect(authService.getSession(token)).toBeNull();
+  });
+});
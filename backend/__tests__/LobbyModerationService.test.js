@@ -0,0 +1,66 @@
+const LobbyModerationService = require('../services/game/LobbyModerationService');
+
+describe('LobbyModerationService', () => {
+  let gameManager;
+  let game;
+  let emit;
+  let moderation;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    emit = jest.fn();
+
+    game = {
+      phase: 'lobby',
+      seedRound: null,
+      creator: '0xhost',
+      players: ['0xhost', '0xa', '0xb'],
+      bannedPlayers: []
+    };
+    gameManager = {
+      getGame: jest.fn(gameId => (gameId === 'game-1' ? game : undefined)),
+      removePlayer: jest.fn().mockResolvedValue({ refunded: true }),
+      setCreator: jest.fn(),
+      socketManager: {
+        io: { to: jest.fn(() => ({ emit })) },
+        emitGameStateUpdate: jest.fn()
+      }
+    };
+    moderation = new LobbyModerationService(gameManager);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('host actions are broadcast to the room sockets join', async () => {
+    await moderation.kickPlayer('game-1', '0xhost', '0xa');
+
+    expect(gameManager.removePlayer).toHaveBeenCalledWith('game-1', '0xa', 'Kicked by the host');
+    expect(gameManager.socketManager.io.to).toHaveBeenCalledWith('game-game-1');
+    expect(emit).toHaveBeenCalledWith('host_action', expect.objectContaining({
+      gameId: 'game-1', action: 'kick', host: '0xhost', playerAddress: '0xa', refunded: true
+    }));
+    expect(gameManager.socketManager.emitGameStateUpdate).toHaveBeenCalledWith('game-1');
+  });
+
+  test('a ban is in place before the refund and outlives the kick', async () => {
+    gameManager.removePlayer.mockImplementation(async () => {
+      expect(moderation.isBanned(game, '0xA')).toBe(true);
+      return { refunded: false };
+    });
+
+    await moderation.kickPlayer('game-1', '0xhost', '0xa', true);
+    expect(game.bannedPlayers).toEqual(['0xa']);
+    expect(emit).toHaveBeenCalledWith('host_action', expect.objectContaining({ action: 'ban', refunded: false }));
+  });
+
+  test('only the host can moderate, and only before the game starts', async () => {
+    await expect(moderation.kickPlayer('game-1', '0xa', '0xb')).rejects.toThrow('Only the host can do that');
+    await expect(moderation.kickPlayer('game-1', '0xhost', '0xhost')).rejects.toThrow('The host cannot kick themselves');
+
+    game.seedRound = { startedAt: Date.now() };
+    await expect(moderation.kickPlayer('game-1', '0xhost', '0xa')).rejects.toThrow('The game has already started');
+    expect(gameManager.removePlayer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+const { ethers } = require('ethers');
+const SessionKeyService = require('../services/core/SessionKeyService');
+const { buildDelegationMessage, buildActionMessage } = require('../utils/sessionKeys');
+
+const GAME_ID = 'game-1';
+const player = new ethers.Wallet(`0x${'11'.repeat(32)}`);
+const sessionKey = new ethers.Wallet(`0x${'22'.repeat(32)}`);
+
+const delegate = async ({ wallet = player, key = sessionKey, validFrom = Date.now(), validUntil = validFrom + 60 * 60 * 1000 } = {}) => ({
+  sessionKey: key.address,
+  validFrom,
+  validUntil,
+  signature: await wallet.signMessage(buildDelegationMessage({
+    gameId: GAME_ID,
+    playerAddress: player.address,
+    sessionKey: key.address,
+    validFrom,
+    validUntil,
+  })),
+});
+
+const signAction = (kind, requestId, body, key = sessionKey) =>
+  key.signMessage(buildActionMessage(kind, GAME_ID, player.address, requestId, body));
+
+describe('SessionKeyService', () => {
+  let service;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    service = new SessionKeyService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('accepts actions signed by a delegated key', async () => {
+    service.registerDelegation(GAME_ID, player.address, await delegate());
+
+    const signature = await signAction('vote', 'req-1', { vote: '0xabc' });
+    expect(() => service.verifyAction(GAME_ID, 'vote', player.address, 'req-1', { vote: '0xabc' }, signature)).not.toThrow();
+  });
+
+  test('the same delegation can be registered again, e.g. after a restart', async () => {
+    const delegation = await delegate();
+    service.registerDelegation(GAME_ID, player.address, delegation);
+
+    const restarted = new SessionKeyService();
+    const signature = await signAction('vote', 'req-1', { vote: '0xabc' });
+    expect(() => restarted.verifyAction(GAME_ID, 'vote', player.address, 'req-1', { vote: '0xabc' }, signature))
+      .toThrow('No session key registered for this game');
+
+    restarted.registerDelegation(GAME_ID, player.address, delegation);
+    expect(() => restarted.verifyAction(GAME_ID, 'vote', player.address, 'req-1', { vote: '0xabc' }, signature)).not.toThrow();
+  });
+
+  test('rejects a delegation not signed by the player', async () => {
+    const delegation = await delegate({ wallet: ethers.Wallet.createRandom() });
+    expect(() => service.registerDelegation(GAME_ID, player.address, delegation)).toThrow('Delegation was not signed by the player');
+  });
+
+  test('rejects windows that are too long or already over', async () => {
+    const now = Date.now();
+    const tooLong = await delegate({ validFrom: now, validUntil: now + 7 * 60 * 60 * 1000 });
+    expect(() => service.registerDelegation(GAME_ID, player.address, tooLong)).toThrow('Delegation window is too long');
+
+    const over = await delegate({ validFrom: now - 2000, validUntil: now - 1000 });
+    expect(() => service.registerDelegation(GAME_ID, player.address, over)).toThrow('Delegation is not valid now');
+  });
+
+  test('rejects actions signed by another key or for another body', async () => {
+    service.registerDelegation(GAME_ID, player.address, await delegate());
+
+    const otherKey = await signAction('vote', 'req-1', { vote: '0xabc' }, ethers.Wallet.createRandom());
+    expect(() => service.verifyAction(GAME_ID, 'vote', player.address, 'req-1', { vote: '0xabc' }, otherKey))
+      .toThrow('Action was not signed by the session key');
+
+    const signature = await signAction('vote', 'req-1', { vote: '0xabc' });
+    expect(() => service.verifyAction(GAME_ID, 'vote', player.address, 'req-1', { vote: '0xdef' }, signature))
+      .toThrow('Action was not signed by the session key');
+    expect(() => service.verifyAction(GAME_ID, 'vote', player.address, 'req-1', { vote: '0xabc' }, undefined))
+      .toThrow('Action is not signed');
+  });
+
+  test('rejects stale chat messages', async () => {
+    service.registerDelegation(GAME_ID, player.address, await delegate());
+
+    const body = { message: 'hi', timestamp: Date.now() - 2 * 60 * 1000 };
+    const signature = await signAction('chat', null, body);
+    expect(() => service.verifyAction(GAME_ID, 'chat', player.address, null, body, signature)).toThrow('Chat message is too old');
+  });
+
+  test('forgets keys when the player leaves or the game is cleared', async () => {
+    service.registerDelegation(GAME_ID, player.address, await delegate());
+    const signature = await signAction('vote', 'req-1', { vote: '0xabc' });
+
+    service.revoke(GAME_ID, player.address.toLowerCase());
+    expect(() => service.verifyAction(GAME_ID, 'vote', player.address, 'req-1', { vote: '0xabc' }, signature))
+      .toThrow('No session key registered for this game');
+
+    service.registerDelegation(GAME_ID, player.address, await delegate());
+    service.clearGame(GAME_ID);
+    expect(() => service.verifyAction(GAME_ID, 'vote', player.address, 'req-1', { vote: '0xabc' }, signature))
+      .toThrow('No session key registered for this game');
+  });
+});
@@ -0,0 +1,81 @@
+const StakingService = require('../services/staking/StakingService');
+
+const STAKE = 10n ** 17n + 7n; // Odd amount so the shares don't divide evenly
+const ROLES = {
+  '0xm1': 'Mafia',
+  '0xm2': 'Mafia',
+  '0xd': 'Doctor',
+  '0xr': 'Detective',
+  '0xv1': 'Villager',
+  '0xv2': 'Villager',
+  '0xv3': 'Villager',
+};
+const PLAYERS = Object.keys(ROLES);
+const TOTAL_POOL = STAKE * BigInt(PLAYERS.length);
+
+const sumRewards = rewards => rewards.reduce((sum, reward) => sum + BigInt(reward.rewardAmount), 0n);
+
+describe('StakingService.calculateRewards', () => {
+  let stakingService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    stakingService = new StakingService();
+    stakingService.stakedGames.set('game-1', { players: PLAYERS, totalStaked: TOTAL_POOL });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Pepasur.sol settleGame requires exactly this total
+  const expectedRewardPool = houseCutBps => TOTAL_POOL - (TOTAL_POOL * BigInt(houseCutBps)) / 10000n;
+
+  test.each([0, 200, 250, 1000])('payouts add up to the pool minus a %i bps house cut', houseCutBps => {
+    const mafiaWin = stakingService.calculateRewards('game-1', ['0xm1', '0xm2'], PLAYERS.slice(2), ROLES, [], houseCutBps);
+    const villageWin = stakingService.calculateRewards('game-1', PLAYERS.slice(2), ['0xm1', '0xm2'], ROLES, [], houseCutBps);
+
+    for (const result of [mafiaWin, villageWin]) {
+      expect(BigInt(result.houseCut)).toBe((TOTAL_POOL * BigInt(houseCutBps)) / 10000n);
+      expect(BigInt(result.rewardPool)).toBe(expectedRewardPool(houseCutBps));
+      expect(sumRewards(result.rewards)).toBe(expectedRewardPool(houseCutBps));
+    }
+  });
+
+  test('defaults to the contract\'s initial 2% cut', () => {
+    const result = stakingService.calculateRewards('game-1', ['0xm1', '0xm2'], PLAYERS.slice(2), ROLES, []);
+    expect(result.houseCutBps).toBe(200);
+    expect(BigInt(result.rewardPool)).toBe(expectedRewardPool(200));
+  });
+
+  test('rounding dust goes to the last winner', () => {
+    const { rewards, rewardPool } = stakingService.calculateRewards('game-1', PLAYERS.slice(2), ['0xm1', '0xm2'], ROLES, [], 200);
+    const winners = rewards.filter(reward => reward.rewardAmount !== '0');
+    const share = BigInt(rewardPool) / 5n;
+    const dust = BigInt(rewardPool) % 5n;
+
+    expect(dust).toBeGreaterThan(0n);
+    expect(winners.map(reward => reward.playerAddress)).toEqual(PLAYERS.slice(2));
+    winners.slice(0, -1).forEach(reward => expect(BigInt(reward.rewardAmount)).toBe(share));
+    expect(BigInt(winners[winners.length - 1].rewardAmount)).toBe(share + dust);
+  });
+
+  test('when the Mafia win only surviving Mafia winners are paid', () => {
+    const { rewards, rewardPool } = stakingService.calculateRewards('game-1', ['0xm2'], PLAYERS.filter(player => player !== '0xm2'), ROLES, ['0xm1'], 200);
+    const paid = rewards.filter(reward => reward.rewardAmount !== '0');
+
+    expect(paid).toEqual([expect.objectContaining({ playerAddress: '0xm2', role: 'ASUR', rewardAmount: rewardPool })]);
+  });
+
+  test('losers get nothing back', () => {
+    const { rewards } = stakingService.calculateRewards('game-1', ['0xm1', '0xm2'], PLAYERS.slice(2), ROLES, [], 200);
+    rewards
+      .filter(reward => PLAYERS.slice(2).includes(reward.playerAddress))
+      .forEach(reward => expect(reward.totalReceived).toBe('0'));
+  });
+
+  test('throws for a game it is not tracking', () => {
+    expect(() => stakingService.calculateRewards('missing', [], [], {}, [])).toThrow('Game not found in staking service');
+  });
+});
@@ -0,0 +1,113 @@
+const crypto = require('crypto');
+const { ethers } = require('ethers');
+const CommitReveal = require('../utils/commitReveal');
+const GameManager = require('../services/game/GameManager');
+const SessionKeyService = require('../services/core/SessionKeyService');
+const { buildDelegationMessage, buildActionMessage } = require('../utils/sessionKeys');
+
+const NONCE = 'ab'.repeat(32);
+const ACTION = { type: 'kill', target: '0xbbb' };
+
+describe('CommitReveal', () => {
+  let commitReveal;
+
+  beforeEach(() => {
+    commitReveal = new CommitReveal();
+  });
+
+  // frontend/utils/commitReveal.ts hashes the same string in the browser
+  test('a commit is the sha256 of JSON {action, nonce}', () => {
+    const expected = crypto.createHash('sha256').update(JSON.stringify({ action: ACTION, nonce: NONCE })).digest('hex');
+    expect(commitReveal.generateCommit(ACTION, NONCE)).toBe(expected);
+  });
+
+  test('the commit binds the action, the nonce and the key order', () => {
+    const commit = commitReveal.generateCommit(ACTION, NONCE);
+    expect(commitReveal.generateCommit({ type: 'kill', target: '0xccc' }, NONCE)).not.toBe(commit);
+    expect(commitReveal.generateCommit(ACTION, 'cd'.repeat(32))).not.toBe(commit);
+    expect(commitReveal.generateCommit({ target: '0xbbb', type: 'kill' }, NONCE)).not.toBe(commit);
+  });
+
+  test('a stored commit can be revealed once with the matching action', () => {
+    commitReveal.storeCommit('game-1', '0xaaa', commitReveal.generateCommit(ACTION, NONCE), ACTION, NONCE);
+
+    expect(() => commitReveal.revealAction('game-1', '0xaaa', ACTION, 'cd'.repeat(32))).toThrow('Commit verification failed');
+    expect(commitReveal.revealAction('game-1', '0xaaa', ACTION, NONCE)).toMatchObject({ valid: true, action: ACTION });
+    expect(() => commitReveal.revealAction('game-1', '0xaaa', ACTION, NONCE)).toThrow('Action already revealed');
+    expect(commitReveal.getRevealedActions('game-1')).toEqual({ '0xaaa': ACTION });
+  });
+});
+
+describe('GameManager.revealNightAction', () => {
+  const player = new ethers.Wallet(`0x${'11'.repeat(32)}`);
+  const sessionKey = new ethers.Wallet(`0x${'22'.repeat(32)}`);
+  let manager;
+  let game;
+
+  const reveal = async (action, nonce) => {
+    const requestId = crypto.randomUUID();
+    const sessionSignature = await sessionKey.signMessage(
+      buildActionMessage('reveal', 'game-1', player.address, requestId, { action, nonce })
+    );
+    return GameManager.prototype.revealNightAction.call(manager, 'game-1', {
+      playerAddress: player.address, requestId, action, nonce, sessionSignature
+    });
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    game = {
+      phase: 'resolution',
+      nightReveal: { pending: true },
+      pendingActions: {
+        [player.address]: { commit: new CommitReveal().generateCommit(ACTION, NONCE) }
+      }
+    };
+
+    // Just the parts of GameManager a reveal touches
+    manager = {
+      games: new Map([['game-1', game]]),
+      commitReveal: new CommitReveal(),
+      sessionKeyService: new SessionKeyService(),
+      phaseManager: { checkAndFinalizeNightReveal: jest.fn() },
+      verifySignedAction: GameManager.prototype.verifySignedAction
+    };
+
+    const validFrom = Date.now();
+    const validUntil = validFrom + 60 * 60 * 1000;
+    manager.sessionKeyService.registerDelegation('game-1', player.address, {
+      sessionKey: sessionKey.address,
+      validFrom,
+      validUntil,
+      signature: await player.signMessage(buildDelegationMessage({
+        gameId: 'game-1', playerAddress: player.address, sessionKey: sessionKey.address, validFrom, validUntil
+      }))
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('a matching reveal applies the committed action', async () => {
+    await expect(reveal(ACTION, NONCE)).resolves.toEqual({ verified: true });
+    expect(game.pendingActions[player.address]).toMatchObject({ action: ACTION, revealStatus: 'verified' });
+    expect(manager.phaseManager.checkAndFinalizeNightReveal).toHaveBeenCalledWith('game-1');
+  });
+
+  test('a reveal that does not match the commit voids the action', async () => {
+    await expect(reveal({ type: 'kill', target: '0xccc' }, NONCE)).resolves.toEqual({ verified: false });
+    expect(game.pendingActions[player.address]).toMatchObject({ action: null, revealStatus: 'voided' });
+  });
+
+  test('an action can only be revealed once', async () => {
+    await reveal({ type: 'kill', target: '0xccc' }, NONCE);
+    await expect(reveal(ACTION, NONCE)).rejects.toThrow('Night action already revealed');
+  });
+
+  test('reveals are only taken during the reveal window', async () => {
+    game.nightReveal.pending = false;
+    await expect(reveal(ACTION, NONCE)).rejects.toThrow('Night actions are not being revealed');
+  });
+});
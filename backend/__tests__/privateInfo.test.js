@@ -0,0 +1,55 @@
+const SocketManager = require('../services/core/SocketManager');
+
+describe('SocketManager private info', () => {
+  let manager;
+  let game;
+  let roomEmit;
+
+  const fakeSocket = () => ({ id: 'socket-1', emit: jest.fn(), join: jest.fn(), to: () => ({ emit: jest.fn() }) });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    roomEmit = jest.fn();
+
+    game = { gameId: 'game-1', players: ['0xAbC', '0xdef'], stateVersion: 3 };
+
+    // Just the parts of SocketManager a join and a private event touch
+    manager = {
+      gameManager: { getGame: id => (id === 'game-1' ? game : undefined) },
+      io: { to: jest.fn(() => ({ emit: roomEmit })) },
+      disconnectTimers: new Map(),
+      playerSockets: new Map(),
+      socketGames: new Map(),
+      serializeGame: () => ({}),
+      playerRoom: SocketManager.prototype.playerRoom
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const emitPrivateInfo = (...args) => SocketManager.prototype.emitPrivateInfo.apply(manager, args);
+  const join = (socket, playerAddress) =>
+    SocketManager.prototype.handleJoinGame.call(manager, socket, { gameId: 'game-1', playerAddress });
+
+  test('sends to the player\'s room and numbers the events', () => {
+    emitPrivateInfo('game-1', '0xAbC', { type: 'role', role: 'Doctor' });
+    emitPrivateInfo('game-1', '0xabc', { type: 'investigation', target: '0xdef' });
+
+    expect(manager.io.to).toHaveBeenCalledWith('player-game-1-0xabc');
+    expect(roomEmit.mock.calls.map(([, event]) => event.seq)).toEqual([0, 1]);
+  });
+
+  test('a joining player gets their private events again whatever the address casing', () => {
+    emitPrivateInfo('game-1', '0xabc', { type: 'role', role: 'Doctor' });
+    emitPrivateInfo('game-1', '0xdef', { type: 'role', role: 'Mafia' });
+
+    const socket = fakeSocket();
+    join(socket, '0xAbC');
+
+    expect(socket.join).toHaveBeenCalledWith('player-game-1-0xabc');
+    const replayed = socket.emit.mock.calls.filter(([name]) => name === 'private_info').map(([, event]) => event);
+    expect(replayed).toEqual([expect.objectContaining({ type: 'role', role: 'Doctor', seq: 0 })]);
+  });
+});
@@ -0,0 +1,76 @@
+const GameManager = require('../services/game/GameManager');
+const SocketManager = require('../services/core/SocketManager');
+
+describe('GameManager.processRequestOnce', () => {
+  let manager;
+  const processRequestOnce = (...args) => GameManager.prototype.processRequestOnce.apply(manager, args);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    manager = { processedRequests: new Map() };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('applies a request once and returns the recorded result for repeats', () => {
+    const handler = jest.fn(() => ({ accepted: true }));
+
+    expect(processRequestOnce('game-1', '0xa', 'req-1', handler)).toEqual({ result: { accepted: true }, duplicate: false });
+    expect(processRequestOnce('game-1', '0xa', 'req-1', handler)).toEqual({ result: { accepted: true }, duplicate: true });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test('request ids are scoped to their game', () => {
+    const handler = jest.fn(() => 'ok');
+    processRequestOnce('game-1', '0xa', 'req-1', handler);
+    expect(processRequestOnce('game-2', '0xa', 'req-1', handler).duplicate).toBe(false);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  test('request ids are scoped to the player that sent them', () => {
+    const vote = player => () => `${player} voted`;
+
+    processRequestOnce('game-1', '0xa', 'req-1', vote('0xa'));
+    expect(processRequestOnce('game-1', '0xb', 'req-1', vote('0xb')))
+      .toEqual({ result: '0xb voted', duplicate: false });
+    expect(processRequestOnce('game-1', '0xA', 'req-1', vote('0xA')))
+      .toEqual({ result: '0xa voted', duplicate: true });
+  });
+
+  test('a rejected request can be retried with the same id', () => {
+    const handler = jest.fn()
+      .mockImplementationOnce(() => { throw new Error('Invalid game phase'); })
+      .mockImplementationOnce(() => 'ok');
+
+    expect(() => processRequestOnce('game-1', '0xa', 'req-1', handler)).toThrow('Invalid game phase');
+    expect(processRequestOnce('game-1', '0xa', 'req-1', handler)).toEqual({ result: 'ok', duplicate: false });
+  });
+
+  test('rejected requests for a game that is gone leave nothing behind', () => {
+    expect(() => processRequestOnce('ended-game', '0xa', 'req-1', () => { throw new Error('Game not found'); })).toThrow();
+    expect(manager.processedRequests.has('ended-game')).toBe(false);
+  });
+
+  test('requests without an id are always applied', () => {
+    const handler = jest.fn(() => 'ok');
+    processRequestOnce('game-1', '0xa', undefined, handler);
+    processRequestOnce('game-1', '0xa', undefined, handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('SocketManager.rejectAction', () => {
+  test('acks with the client\'s requestId', () => {
+    const ack = jest.fn();
+    SocketManager.prototype.rejectAction({ emit: jest.fn() }, ack, 'req-1', 'Game not found');
+    expect(ack).toHaveBeenCalledWith({ ok: false, requestId: 'req-1', error: 'Game not found' });
+  });
+
+  test('falls back to a socket error when the client sent no ack', () => {
+    const socket = { emit: jest.fn() };
+    SocketManager.prototype.rejectAction(socket, undefined, 'req-1', 'Game not found');
+    expect(socket.emit).toHaveBeenCalledWith('error', { message: 'Game not found' });
+  });
+});
@@ -0,0 +1,89 @@
+const { DEFAULT_RATING, K_FACTOR, teamOf, rateGame } = require('../utils/rating');
+const MatchmakingService = require('../services/game/MatchmakingService');
+
+const ROLES = {
+  '0xm': 'Mafia',
+  '0xd': 'Doctor',
+  '0xr': 'Detective',
+  '0xv': 'Villager',
+};
+const VILLAGE = ['0xd', '0xr', '0xv'];
+
+describe('rateGame', () => {
+  test('every role but Mafia is on the village team', () => {
+    expect(teamOf('Mafia')).toBe('mafia');
+    expect(['Doctor', 'Detective', 'Villager'].map(teamOf)).toEqual(['village', 'village', 'village']);
+  });
+
+  test('evenly rated teams move half of K', () => {
+    const deltas = rateGame(new Map(), ROLES, ['0xm']);
+
+    expect(deltas.get('0xm')).toBe(K_FACTOR / 2);
+    VILLAGE.forEach(player => expect(deltas.get(player)).toBe(-K_FACTOR / 2));
+  });
+
+  test('the village gains what the Mafia loses', () => {
+    const ratings = new Map([['0xm', 1600], ['0xd', 1450], ['0xr', 1500], ['0xv', 1550]]);
+    const deltas = rateGame(ratings, ROLES, VILLAGE);
+
+    expect(deltas.get('0xm')).toBeLessThan(0);
+    VILLAGE.forEach(player => expect(deltas.get(player)).toBeCloseTo(-deltas.get('0xm')));
+  });
+
+  test('beating a stronger team is worth more', () => {
+    const strongMafia = new Map([['0xm', 1800]]);
+    const weakMafia = new Map([['0xm', 1200]]);
+
+    const upset = rateGame(strongMafia, ROLES, VILLAGE).get('0xv');
+    const expected = rateGame(weakMafia, ROLES, VILLAGE).get('0xv');
+    expect(upset).toBeGreaterThan(expected);
+    expect(upset).toBeLessThan(K_FACTOR);
+  });
+
+  test('team strength is the average rating, missing ratings count as the default', () => {
+    const ratings = new Map([['0xd', DEFAULT_RATING + 300], ['0xr', DEFAULT_RATING - 300]]);
+    expect(rateGame(ratings, ROLES, ['0xm'])).toEqual(rateGame(new Map(), ROLES, ['0xm']));
+  });
+
+  test('draws and one-sided games are not rated', () => {
+    expect(rateGame(new Map(), ROLES, []).size).toBe(0);
+    expect(rateGame(new Map(), ROLES, ['0xm', '0xv']).size).toBe(0);
+    expect(rateGame(new Map(), { '0xd': 'Doctor', '0xv': 'Villager' }, ['0xv']).size).toBe(0);
+  });
+});
+
+describe('MatchmakingService.updateRatings', () => {
+  let repository;
+  const game = { gameId: 'game-1', roles: { '0xM': 'Mafia', '0xV': 'Villager' }, winners: ['0xM'] };
+
+  const updateRatings = () => MatchmakingService.prototype.updateRatings.call({ gameManager: { gameRepository: repository } }, game);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    repository = { getRatings: jest.fn(), saveRatings: jest.fn().mockResolvedValue() };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('moves stored ratings and counts the game', async () => {
+    repository.getRatings.mockResolvedValue(new Map([['0xm', { rating: 1500, games: 4 }]]));
+
+    await updateRatings();
+
+    expect(repository.getRatings).toHaveBeenCalledWith(['0xm', '0xv']);
+    expect(repository.saveRatings).toHaveBeenCalledWith([
+      { address: '0xm', rating: 1500 + K_FACTOR / 2, games: 5 },
+      { address: '0xv', rating: DEFAULT_RATING - K_FACTOR / 2, games: 1 },
+    ]);
+  });
+
+  test('saves nothing when the stored ratings could not be loaded', async () => {
+    repository.getRatings.mockResolvedValue(null);
+
+    await updateRatings();
+
+    expect(repository.saveRatings).not.toHaveBeenCalled();
+  });
+});
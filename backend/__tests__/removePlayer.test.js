@@ -0,0 +1,94 @@
+const GameManager = require('../services/game/GameManager');
+const SocketManager = require('../services/core/SocketManager');
+
+describe('GameManager.removePlayer', () => {
+  let manager;
+  let game;
+  let emit;
+
+  const removePlayer = (...args) => GameManager.prototype.removePlayer.apply(manager, args);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    emit = jest.fn();
+
+    game = {
+      gameId: 'game-1',
+      phase: 'lobby',
+      seedRound: null,
+      creator: '0xhost',
+      players: ['0xhost', '0xafk', '0xready'],
+      lobbyReady: ['0xready'],
+      stakingRequired: true,
+      onChainGameId: 7,
+      playerStakes: new Map([['game-1-0xafk', {}], ['game-1-0xhost', {}]])
+    };
+
+    // Just the parts of GameManager a removal touches
+    manager = {
+      games: new Map([['game-1', game]]),
+      blockchainService: { removePlayer: jest.fn().mockResolvedValue('0xrefund') },
+      stakingManager: { releasePlayerStake: jest.fn() },
+      socketManager: {
+        io: { to: jest.fn(() => ({ emit })) },
+        playerRoom: SocketManager.prototype.playerRoom
+      },
+      setCreator: jest.fn(),
+      leaveGame: jest.fn().mockResolvedValue({ cancelled: false })
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('refunds a staked player on-chain before removing them', async () => {
+    await expect(removePlayer('game-1', '0xafk', 'Not ready')).resolves.toEqual({ refunded: true });
+
+    expect(manager.blockchainService.removePlayer).toHaveBeenCalledWith(7, '0xafk');
+    expect(manager.stakingManager.releasePlayerStake).toHaveBeenCalledWith('game-1', '0xafk');
+    expect(manager.leaveGame).toHaveBeenCalledWith('game-1', '0xafk');
+  });
+
+  test('tells the game room and the removed player\'s own room', async () => {
+    await removePlayer('game-1', '0xafk', 'Not ready');
+
+    expect(manager.socketManager.io.to).toHaveBeenCalledWith(['game-game-1', 'player-game-1-0xafk']);
+    expect(emit).toHaveBeenCalledWith('player_removed', {
+      gameId: 'game-1', playerAddress: '0xafk', reason: 'Not ready', refunded: true
+    });
+    expect(emit.mock.invocationCallOrder[0]).toBeLessThan(manager.leaveGame.mock.invocationCallOrder[0]);
+  });
+
+  test('a player without a stake is removed without a refund', async () => {
+    await expect(removePlayer('game-1', '0xready', 'Kicked')).resolves.toEqual({ refunded: false });
+    expect(manager.blockchainService.removePlayer).not.toHaveBeenCalled();
+  });
+
+  test('keeps the seat when the refund fails', async () => {
+    manager.blockchainService.removePlayer.mockRejectedValue(new Error('execution reverted'));
+
+    await expect(removePlayer('game-1', '0xafk', 'Not ready')).rejects.toThrow('execution reverted');
+    expect(manager.stakingManager.releasePlayerStake).not.toHaveBeenCalled();
+    expect(emit).not.toHaveBeenCalled();
+    expect(manager.leaveGame).not.toHaveBeenCalled();
+  });
+
+  test('keeps the seat when the refund transaction is not confirmed', async () => {
+    manager.blockchainService.removePlayer.mockResolvedValue(null);
+
+    await expect(removePlayer('game-1', '0xafk', 'Not ready')).rejects.toThrow('Refund transaction was not confirmed');
+    expect(manager.leaveGame).not.toHaveBeenCalled();
+  });
+
+  test('refuses once the game has started', async () => {
+    game.seedRound = { startedAt: Date.now() };
+    await expect(removePlayer('game-1', '0xafk', 'Not ready')).rejects.toThrow('Players can only be removed from the lobby');
+    expect(manager.blockchainService.removePlayer).not.toHaveBeenCalled();
+  });
+
+  test('hands the lobby to a ready player when the host is removed', async () => {
+    await removePlayer('game-1', '0xhost', 'Not ready');
+    expect(manager.setCreator).toHaveBeenCalledWith(game, '0xready');
+  });
+});
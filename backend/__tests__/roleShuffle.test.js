@@ -0,0 +1,127 @@
+const crypto = require('crypto');
+
+const {
+  randomSeedValue,
+  seedCommitFor,
+  isSeedHex,
+  combineSeed,
+  autoComposition,
+  resolveComposition,
+  compositionError,
+  roleDeck,
+  shuffleRoles,
+} = require('../utils/roleShuffle');
+
+const PLAYERS = ['0xa', '0xb', '0xc', '0xd', '0xe', '0xf'];
+
+const countRoles = assignment => Object.values(assignment).reduce((counts, role) => {
+  counts[role] = (counts[role] || 0) + 1;
+  return counts;
+}, {});
+
+describe('seed commits', () => {
+  test('random seed values are 32-byte lowercase hex', () => {
+    const value = randomSeedValue();
+    expect(isSeedHex(value)).toBe(true);
+    expect(randomSeedValue()).not.toBe(value);
+  });
+
+  test('isSeedHex rejects anything but 64 lowercase hex characters', () => {
+    expect(isSeedHex('ab'.repeat(32))).toBe(true);
+    expect(isSeedHex('AB'.repeat(32))).toBe(false);
+    expect(isSeedHex('ab'.repeat(31))).toBe(false);
+    expect(isSeedHex(`0x${'ab'.repeat(32)}`)).toBe(false);
+    expect(isSeedHex(null)).toBe(false);
+  });
+
+  test('a commit is the sha256 of the value', () => {
+    const value = '11'.repeat(32);
+    expect(seedCommitFor(value)).toBe(crypto.createHash('sha256').update(value).digest('hex'));
+  });
+});
+
+describe('combineSeed', () => {
+  const server = '33'.repeat(32);
+
+  test('does not depend on the order contributions were revealed in', () => {
+    const first = combineSeed({ '0xa': '11'.repeat(32), '0xb': '22'.repeat(32) }, server);
+    const second = combineSeed({ '0xb': '22'.repeat(32), '0xa': '11'.repeat(32) }, server);
+    expect(first).toBe(second);
+  });
+
+  test('changes when any contribution changes', () => {
+    const base = combineSeed({ '0xa': '11'.repeat(32) }, server);
+    expect(combineSeed({ '0xa': '12'.repeat(32) }, server)).not.toBe(base);
+    expect(combineSeed({ '0xa': '11'.repeat(32) }, '34'.repeat(32))).not.toBe(base);
+    expect(combineSeed({ '0xa': '11'.repeat(32), '0xb': '22'.repeat(32) }, server)).not.toBe(base);
+  });
+});
+
+describe('compositions', () => {
+  test('auto composition adds an ASUR per four players and the specials as the lobby grows', () => {
+    expect(autoComposition(2)).toEqual({ mafia: 1, doctor: false, detective: false });
+    expect(autoComposition(3)).toEqual({ mafia: 1, doctor: true, detective: false });
+    expect(autoComposition(4)).toEqual({ mafia: 1, doctor: true, detective: true });
+    expect(autoComposition(8)).toEqual({ mafia: 2, doctor: true, detective: true });
+    expect(autoComposition(13)).toEqual({ mafia: 3, doctor: true, detective: true });
+  });
+
+  test('a missing or auto role setup resolves to the auto composition', () => {
+    expect(resolveComposition(8)).toEqual(autoComposition(8));
+    expect(resolveComposition(8, { mode: 'auto', mafia: 3 })).toEqual(autoComposition(8));
+    expect(resolveComposition(8, { mode: 'custom', mafia: 3, doctor: false, detective: true }))
+      .toEqual({ mafia: 3, doctor: false, detective: true });
+  });
+
+  test('ASUR must start outnumbered', () => {
+    expect(compositionError(6, { mafia: 2, doctor: true, detective: true })).toBeNull();
+    expect(compositionError(6, { mafia: 3, doctor: false, detective: false })).toMatch(/at most 2 ASUR for 6 players/);
+    expect(compositionError(6, { mafia: 0, doctor: true, detective: true })).toMatch(/at least 1 ASUR/);
+    expect(compositionError(6, { mafia: 1.5, doctor: true, detective: true })).toMatch(/at least 1 ASUR/);
+  });
+
+  test('the deck fills the remaining seats with villagers', () => {
+    expect(roleDeck(6, { mafia: 2, doctor: true, detective: false }))
+      .toEqual(['Mafia', 'Mafia', 'Doctor', 'Villager', 'Villager', 'Villager']);
+  });
+});
+
+describe('shuffleRoles', () => {
+  const seed = combineSeed({ '0xa': '11'.repeat(32), '0xb': '22'.repeat(32) }, '33'.repeat(32));
+
+  test('deals exactly the composition', () => {
+    const composition = { mafia: 2, doctor: true, detective: true };
+    const assignment = shuffleRoles(PLAYERS, seed, composition);
+
+    expect(Object.keys(assignment)).toEqual(PLAYERS);
+    expect(countRoles(assignment)).toEqual({ Mafia: 2, Doctor: 1, Detective: 1, Villager: 2 });
+  });
+
+  test('is deterministic for a seed', () => {
+    const composition = autoComposition(PLAYERS.length);
+    expect(shuffleRoles(PLAYERS, seed, composition)).toEqual(shuffleRoles(PLAYERS, seed, composition));
+  });
+
+  // The frontend redoes this shuffle to verify its role - a change here
+  // must be made in frontend/utils/roleShuffle.ts too
+  test('matches the published shuffle for a known seed', () => {
+    expect(shuffleRoles(PLAYERS, seed, autoComposition(PLAYERS.length))).toEqual({
+      '0xa': 'Villager',
+      '0xb': 'Mafia',
+      '0xc': 'Detective',
+      '0xd': 'Villager',
+      '0xe': 'Villager',
+      '0xf': 'Doctor',
+    });
+  });
+
+  test('different seeds deal different roles', () => {
+    const composition = autoComposition(PLAYERS.length);
+    const deals = new Set();
+    for (let i = 0; i < 20; i++) {
+      const other = combineSeed({ '0xa': seedCommitFor(String(i)) }, '33'.repeat(32));
+      deals.add(JSON.stringify(shuffleRoles(PLAYERS, other, composition)));
+    }
+    expect(deals.size).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,73 @@
+const { parseSiweMessage } = require('../utils/siwe');
+
+// Same layout as frontend/utils/siwe.ts buildSiweMessage
+const buildMessage = ({ statement, expirationTime, ...overrides } = {}) => {
+  const fields = {
+    domain: 'localhost:3000',
+    address: '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A',
+    uri: 'http://localhost:3000',
+    chainId: 42220,
+    nonce: 'abc123',
+    issuedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+  const lines = [`${fields.domain} wants you to sign in with your Ethereum account:`, fields.address];
+  if (statement) {
+    lines.push('', statement);
+  }
+  lines.push(
+    '',
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+  if (expirationTime) {
+    lines.push(`Expiration Time: ${expirationTime}`);
+  }
+  return lines.join('\n');
+};
+
+describe('parseSiweMessage', () => {
+  test('reads every field of a message with a statement', () => {
+    const message = buildMessage({ statement: 'Sign in to Pepasur', expirationTime: '2026-01-02T00:00:00.000Z' });
+
+    expect(parseSiweMessage(message)).toEqual({
+      domain: 'localhost:3000',
+      address: '0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A',
+      statement: 'Sign in to Pepasur',
+      uri: 'http://localhost:3000',
+      version: '1',
+      chainId: 42220,
+      nonce: 'abc123',
+      issuedAt: '2026-01-01T00:00:00.000Z',
+      expirationTime: '2026-01-02T00:00:00.000Z',
+    });
+  });
+
+  test('the statement is optional', () => {
+    const parsed = parseSiweMessage(buildMessage());
+    expect(parsed.statement).toBeNull();
+    expect(parsed.uri).toBe('http://localhost:3000');
+  });
+
+  test('the domain is everything before the header text', () => {
+    expect(parseSiweMessage(buildMessage({ domain: 'celo.pepasur.xyz' })).domain).toBe('celo.pepasur.xyz');
+  });
+
+  test('rejects a message without the EIP-4361 header', () => {
+    expect(() => parseSiweMessage('hello\n0xabc')).toThrow('Invalid SIWE message header');
+    expect(() => parseSiweMessage(undefined)).toThrow('SIWE message must be a string');
+  });
+
+  test('rejects a message missing a required field', () => {
+    const message = buildMessage().replace(/\nNonce: .*/, '');
+    expect(() => parseSiweMessage(message)).toThrow('SIWE message is missing nonce');
+  });
+
+  test('rejects other versions and non-numeric chain IDs', () => {
+    expect(() => parseSiweMessage(buildMessage().replace('Version: 1', 'Version: 2'))).toThrow('Unsupported SIWE version: 2');
+    expect(() => parseSiweMessage(buildMessage({ chainId: 'celo' }))).toThrow('Invalid SIWE chain ID');
+  });
+});
@@ -0,0 +1,82 @@
+const { cloneSnapshot, diffSnapshots } = require('../utils/statePatch');
+
+// Mutating version of frontend/utils/gamePatch.ts applyGamePatch
+const applyPatch = (snapshot, ops) => {
+  const result = cloneSnapshot(snapshot);
+  for (const { op, path, value } of ops) {
+    let parent = result;
+    for (const key of path.slice(0, -1)) {
+      if (parent[key] === null || typeof parent[key] !== 'object' || Array.isArray(parent[key])) {
+        parent[key] = {};
+      }
+      parent = parent[key];
+    }
+    const leaf = path[path.length - 1];
+    if (op === 'set') {
+      parent[leaf] = value;
+    } else {
+      delete parent[leaf];
+    }
+  }
+  return result;
+};
+
+const SNAPSHOT = {
+  phase: 'night',
+  day: 1,
+  timeLeft: 30,
+  players: ['0xa', '0xb', '0xc', '0xd'],
+  taskCounts: { '0xa': 1, '0xb': 0 },
+  votingResult: { eliminated: '0xc' },
+};
+
+describe('diffSnapshots', () => {
+  test('identical snapshots need no operations', () => {
+    expect(diffSnapshots(SNAPSHOT, cloneSnapshot(SNAPSHOT))).toEqual([]);
+  });
+
+  test('nested objects are diffed key by key', () => {
+    const next = { ...cloneSnapshot(SNAPSHOT), timeLeft: 29, taskCounts: { '0xa': 2, '0xb': 0 } };
+    expect(diffSnapshots(SNAPSHOT, next)).toEqual([
+      { op: 'set', path: ['timeLeft'], value: 29 },
+      { op: 'set', path: ['taskCounts', '0xa'], value: 2 },
+    ]);
+  });
+
+  test('arrays are replaced whole', () => {
+    const next = { ...cloneSnapshot(SNAPSHOT), players: ['0xa', '0xb', '0xd'] };
+    expect(diffSnapshots(SNAPSHOT, next)).toEqual([
+      { op: 'set', path: ['players'], value: ['0xa', '0xb', '0xd'] },
+    ]);
+  });
+
+  test('removed keys are unset', () => {
+    const { votingResult, ...next } = cloneSnapshot(SNAPSHOT);
+    expect(diffSnapshots(SNAPSHOT, next)).toEqual([{ op: 'unset', path: ['votingResult'] }]);
+  });
+
+  test('applying the patch to the previous snapshot gives the next one', () => {
+    const next = {
+      phase: 'resolution',
+      day: 1,
+      timeLeft: 10,
+      players: ['0xa', '0xb', '0xd'],
+      taskCounts: { '0xa': 1, '0xd': 3 },
+      nightResolution: { killed: '0xc', saved: null },
+    };
+    expect(applyPatch(SNAPSHOT, diffSnapshots(SNAPSHOT, next))).toEqual(next);
+  });
+
+  test('an object replaced by a primitive is set, not diffed', () => {
+    const next = { ...cloneSnapshot(SNAPSHOT), votingResult: null };
+    expect(diffSnapshots(SNAPSHOT, next)).toEqual([{ op: 'set', path: ['votingResult'], value: null }]);
+  });
+});
+
+describe('cloneSnapshot', () => {
+  test('drops undefined values like Socket.IO serialization does', () => {
+    const clone = cloneSnapshot({ a: 1, b: undefined, nested: { c: undefined } });
+    expect(clone).toEqual({ a: 1, nested: {} });
+    expect('b' in clone).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Leaderboard seasons.
+ *
+ * LEADERBOARD_SEASONS lists seasons explicitly as JSON:
+ *   [{ "id": "s1", "name": "Season 1", "start": "2026-01-01T00:00:00Z", "end": "2026-04-01T00:00:00Z" }]
+ * Without it, every calendar month (UTC) is a season. A season covers games
+ * that ended in [start, end).
+ */
+
+// Month may be out of range (e.g. -1 for last December); Date.UTC normalizes it
+function monthSeason(year, month) {
+  const start = Date.UTC(year, month, 1);
+  const end = Date.UTC(year, month + 1, 1);
+  const first = new Date(start);
+  const id = `${first.getUTCFullYear()}-${String(first.getUTCMonth() + 1).padStart(2, '0')}`;
+  const name = new Date(start).toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  return { id, name, start, end };
+}
+
+function parseConfiguredSeasons() {
+  const raw = process.env.LEADERBOARD_SEASONS;
+  if (!raw) return null;
+
+  try {
+    const seasons = JSON.parse(raw).map(season => ({
+      id: String(season.id),
+      name: season.name || String(season.id),
+      start: new Date(season.start).getTime(),
+      end: new Date(season.end).getTime()
+    }));
+
+    for (const season of seasons) {
+      if (!season.id || Number.isNaN(season.start) || Number.isNaN(season.end) || season.end <= season.start) {
+        throw new Error(`Invalid season ${JSON.stringify(season)}`);
+      }
+    }
+    return seasons.sort((a, b) => a.start - b.start);
+  } catch (error) {
+    console.error('❌ Invalid LEADERBOARD_SEASONS, falling back to monthly seasons:', error.message);
+    return null;
+  }
+}
+
+const configuredSeasons = parseConfiguredSeasons();
+
+/**
+ * Seasons that have started by `now`, newest first
+ * @param {number} [now]
+ * @param {number} [months] - How many monthly seasons to list when none are configured
+ */
+function getSeasons(now = Date.now(), months = 12) {
+  if (configuredSeasons) {
+    return configuredSeasons.filter(season => season.start <= now).reverse();
+  }
+
+  const date = new Date(now);
+  const seasons = [];
+  for (let i = 0; i < months; i++) {
+    seasons.push(monthSeason(date.getUTCFullYear(), date.getUTCMonth() - i));
+  }
+  return seasons;
+}
+
+/**
+ * Season by id, or the current season when no id is given
+ * @param {string} [seasonId]
+ * @param {number} [now]
+ * @returns {{ id: string, name: string, start: number, end: number } | null}
+ */
+function getSeason(seasonId, now = Date.now()) {
+  if (configuredSeasons) {
+    if (seasonId) return configuredSeasons.find(season => season.id === seasonId) || null;
+    return configuredSeasons.find(season => season.start <= now && now < season.end) || getSeasons(now)[0] || null;
+  }
+
+  if (!seasonId) return getSeasons(now, 1)[0];
+
+  const match = /^(\d{4})-(\d{2})$/.exec(seasonId);
+  if (!match) return null;
+  const season = monthSeason(Number(match[1]), Number(match[2]) - 1);
+  return season.id === seasonId && season.start <= now ? season : null;
+}
+
+module.exports = { getSeasons, getSeason };
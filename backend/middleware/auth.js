@@ -0,0 +1,51 @@
+/**
+ * Express middleware for SIWE sessions.
+ *
+ * The player a request acts for comes from the `Authorization: Bearer <token>`
+ * header, never from the body. If the body names the acting player anyway, it
+ * must be the signed-in wallet; it is then overwritten with the session address
+ * so route handlers can keep reading it from req.body.
+ */
+
+function readBearerToken(req) {
+  const header = req.get('Authorization') || '';
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token : null;
+}
+
+module.exports = (authService) => {
+  /**
+   * Reject requests without a valid session
+   * @param {string} [actorField] - Body field naming the acting player (e.g. 'playerAddress')
+   */
+  function requireAuth(actorField) {
+    return (req, res, next) => {
+      const session = authService.getSession(readBearerToken(req));
+      if (!session) {
+        return res.status(401).json({ error: 'Sign in with your wallet to continue', code: 'AUTH_REQUIRED' });
+      }
+
+      if (actorField && req.body) {
+        const claimed = req.body[actorField];
+        if (claimed && claimed.toLowerCase() !== session.address.toLowerCase()) {
+          return res.status(403).json({ error: `${actorField} does not match the signed-in wallet`, code: 'AUTH_MISMATCH' });
+        }
+        req.body[actorField] = session.address;
+      }
+
+      req.playerAddress = session.address;
+      next();
+    };
+  }
+
+  /**
+   * Attach the session's player if there is one; the request still goes through without
+   */
+  function optionalAuth(req, res, next) {
+    const session = authService.getSession(readBearerToken(req));
+    req.playerAddress = session ? session.address : null;
+    next();
+  }
+
+  return { requireAuth, optionalAuth, readBearerToken };
+};
@@ -112,9 +112,36 @@ const gameSchema = new mongoose.Schema({
         default: () => parseInt(process.env.DEFAULT_MAX_TASK_COUNT) || 4,
         min: 2,
         max: 20
+      },
+      allowSpectators: {
+        type: Boolean,
+        default: () => process.env.DEFAULT_ALLOW_SPECTATORS !== 'false'
+      },
+      spectatorDelay: {
+        type: Number,
+        default: () => parseInt(process.env.DEFAULT_SPECTATOR_DELAY ?? '10'),
+        min: 0,
+        max: 120
+      },
+      // Roles dealt: 'auto' picks a balanced preset for the lobby size (see utils/roleShuffle.js)
+      roleSetup: {
+        mode: { type: String, enum: ['auto', 'custom'], default: 'auto' },
+        mafia: { type: Number, default: 1, min: 1 },
+        doctor: { type: Boolean, default: true },
+        detective: { type: Boolean, default: true }
       }
     },
     default: {}
+  },
+  // Event log of a finished game (see GameStateFormatter.getReplay)
+  replay: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  // Reward distribution of a finished staked game (see StakingService.distributeRewards)
+  settlement: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
   }
 }, {
   timestamps: true,
@@ -133,8 +160,11 @@ gameSchema.index({ isPublic: 1, status: 1, createdAt: -1 });
 // TTL index to auto-remove lobby rooms after 15 minutes
 gameSchema.index({ createdAt: 1 }, { expireAfterSeconds: 900, partialFilterExpression: { status: 'lobby' } });
 
-// TTL index to auto-remove old completed games after 24 hours
-gameSchema.index({ updatedAt: 1 }, { expireAfterSeconds: 86400, partialFilterExpression: { status: 'completed' } });
+// Completed games are kept: player profiles are aggregated from their replays
+gameSchema.index({ 'replay.players': 1, status: 1 });
+
+// Leaderboards collect the games that ended within a season
+gameSchema.index({ status: 1, 'replay.endedAt': 1 });
 
 // Static method to get public lobbies (excluding full rooms)
 gameSchema.statics.getPublicLobbies = function () {
@@ -145,7 +175,7 @@ gameSchema.statics.getPublicLobbies = function () {
     // Only return lobbies that aren't full
     $expr: { $lt: [{ $size: '$currentPlayers' }, '$minPlayers'] }
   })
-    .select('gameId roomCode creator creatorName stakeAmount minPlayers maxPlayers currentPlayers playerCount createdAt')
+    .select('gameId roomCode creator creatorName stakeAmount minPlayers maxPlayers currentPlayers playerCount createdAt settings.roleSetup')
     .sort({ createdAt: -1 })
     .lean();
 };
@@ -0,0 +1,41 @@
+const mongoose = require('mongoose');
+
+// Final standings of an ended season. Written once when the season closes so
+// historic leaderboards never change afterwards.
+const leaderboardSnapshotSchema = new mongoose.Schema({
+  seasonId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  start: {
+    type: Date,
+    required: true
+  },
+  end: {
+    type: Date,
+    required: true
+  },
+  gameCount: {
+    type: Number,
+    default: 0
+  },
+  // Per-player season stats (see LeaderboardService.computeStandings)
+  entries: {
+    type: [mongoose.Schema.Types.Mixed],
+    default: []
+  },
+  frozenAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const LeaderboardSnapshot = mongoose.model('LeaderboardSnapshot', leaderboardSnapshotSchema);
+
+module.exports = LeaderboardSnapshot;
@@ -0,0 +1,29 @@
+const mongoose = require('mongoose');
+
+// Lifetime team Elo rating of a player, used by the quick-match queue. Unlike
+// the seasonal leaderboard rating it never resets.
+const playerRatingSchema = new mongoose.Schema({
+  address: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true,
+    lowercase: true
+  },
+  rating: {
+    type: Number,
+    required: true
+  },
+  games: {
+    type: Number,
+    default: 0
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const PlayerRating = mongoose.model('PlayerRating', playerRatingSchema);
+
+module.exports = PlayerRating;
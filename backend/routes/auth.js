@@ -0,0 +1,149 @@
+const express = require('express');
+
+module.exports = (authService) => {
+  const router = express.Router();
+  const { readBearerToken } = require('../middleware/auth')(authService);
+
+  /**
+   * @swagger
+   * /api/auth/nonce:
+   *   get:
+   *     summary: Get a sign-in nonce
+   *     description: Returns a single-use nonce to embed in a Sign-In with Ethereum (EIP-4361) message. Nonces expire after 5 minutes.
+   *     tags:
+   *       - Auth
+   *     responses:
+   *       200:
+   *         description: Nonce issued successfully.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 nonce:
+   *                   type: string
+   *                 expiresAt:
+   *                   type: number
+   *                   description: Unix timestamp (ms) after which the nonce is rejected
+   */
+  router.get('/nonce', (req, res) => {
+    try {
+      const { nonce, expiresAt } = authService.createNonce();
+      res.json({ success: true, nonce, expiresAt });
+    } catch (error) {
+      console.error('❌ Error creating nonce:', error);
+      res.status(500).json({ success: false, error: 'Failed to create nonce' });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/auth/verify:
+   *   post:
+   *     summary: Sign in with a signed SIWE message
+   *     description: Verifies an EIP-4361 message signed by the wallet and starts a session. The returned token must be sent as `Authorization: Bearer <token>` on game requests and as `auth.token` in the socket handshake.
+   *     tags:
+   *       - Auth
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - message
+   *               - signature
+   *             properties:
+   *               message:
+   *                 type: string
+   *                 description: The EIP-4361 message that was signed
+   *               signature:
+   *                 type: string
+   *                 description: The wallet's signature of the message
+   *     responses:
+   *       200:
+   *         description: Signed in successfully.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 token:
+   *                   type: string
+   *                 address:
+   *                   type: string
+   *                   description: Checksummed wallet address the session acts as
+   *                 expiresAt:
+   *                   type: number
+   *                   description: Unix timestamp (ms) when the session expires
+   *       401:
+   *         description: Invalid message, nonce or signature.
+   */
+  router.post('/verify', (req, res) => {
+    try {
+      const { message, signature } = req.body;
+
+      if (!message || !signature) {
+        return res.status(400).json({ success: false, error: 'Missing message or signature' });
+      }
+
+      const { token, address, expiresAt } = authService.verifyLogin(message, signature);
+      res.json({ success: true, token, address, expiresAt });
+    } catch (error) {
+      console.error('❌ Sign-in rejected:', error.message);
+      res.status(401).json({ success: false, error: error.message, code: 'AUTH_INVALID' });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/auth/session:
+   *   get:
+   *     summary: Get the current session
+   *     description: Returns the wallet address and expiry of the session identified by the bearer token.
+   *     tags:
+   *       - Auth
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Session is valid.
+   *       401:
+   *         description: Missing, unknown or expired token.
+   */
+  router.get('/session', (req, res) => {
+    const session = authService.getSession(readBearerToken(req));
+    if (!session) {
+      return res.status(401).json({ success: false, error: 'Not signed in', code: 'AUTH_REQUIRED' });
+    }
+
+    res.json({ success: true, address: session.address, expiresAt: session.expiresAt });
+  });
+
+  /**
+   * @swagger
+   * /api/auth/logout:
+   *   post:
+   *     summary: End the current session
+   *     tags:
+   *       - Auth
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Session ended (or there was none).
+   */
+  router.post('/logout', (req, res) => {
+    const token = readBearerToken(req);
+    if (token) {
+      authService.revoke(token);
+    }
+    res.json({ success: true });
+  });
+
+  return router;
+};
@@ -2,9 +2,11 @@ const express = require('express');
 const { ethers } = require('ethers');
 const GameStateFormatter = require('../services/game/GameStateFormatter');
 
-module.exports = (gameManagerInstance, evmService) => {
+module.exports = (gameManagerInstance, evmService, authService) => {
   const router = express.Router();
   const gameManager = gameManagerInstance; // Use the passed instance
+  // The acting player comes from the SIWE session, not the request body
+  const { requireAuth, optionalAuth } = require('../middleware/auth')(authService);
 
   /**
    * @swagger
@@ -46,6 +48,12 @@ module.exports = (gameManagerInstance, evmService) => {
    *                 maxPlayers:
    *                   type: number
    *                   description: Default maximum players
+   *                 allowSpectators:
+   *                   type: boolean
+   *                   description: Whether new lobbies can be spectated by default
+   *                 spectatorDelay:
+   *                   type: number
+   *                   description: Default delay in seconds before spectators see game state
    */
   router.get('/defaults', (req, res) => {
     try {
@@ -57,7 +65,10 @@ module.exports = (gameManagerInstance, evmService) => {
         maxTaskCount: parseInt(process.env.DEFAULT_MAX_TASK_COUNT) || 4,
         stakeAmount: process.env.DEFAULT_STAKE_AMOUNT || '100000000000000000',
         minPlayers: parseInt(process.env.DEFAULT_MIN_PLAYERS) || 4,
-        maxPlayers: parseInt(process.env.DEFAULT_MAX_PLAYERS) || 10
+        maxPlayers: parseInt(process.env.DEFAULT_MAX_PLAYERS) || 10,
+        allowSpectators: process.env.DEFAULT_ALLOW_SPECTATORS !== 'false',
+        spectatorDelay: parseInt(process.env.DEFAULT_SPECTATOR_DELAY ?? '10'),
+        roleSetup: { mode: 'auto', mafia: 1, doctor: true, detective: true }
       };
 
       res.json({
@@ -73,6 +84,63 @@ module.exports = (gameManagerInstance, evmService) => {
     }
   });
 
+  /**
+   * @swagger
+   * /api/game/matchmaking/config:
+   *   get:
+   *     summary: Get quick match options
+   *     description: |
+   *       Stake tiers and lobby sizes players can queue for (MATCHMAKING_STAKE_TIERS,
+   *       MATCHMAKING_LOBBY_SIZES). Queueing itself happens over the socket with
+   *       `queue_join` / `queue_leave`.
+   *     tags:
+   *       - Game
+   *     responses:
+   *       200:
+   *         description: Quick match options retrieved successfully.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 config:
+   *                   type: object
+   *                   properties:
+   *                     stakeTiers:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           stakeAmount:
+   *                             type: string
+   *                             description: Stake in token units
+   *                           stakeAmountWei:
+   *                             type: string
+   *                     lobbySizes:
+   *                       type: array
+   *                       items:
+   *                         type: number
+   *                     stakeTimeout:
+   *                       type: number
+   *                       description: Seconds a matched player has to stake
+   *       500:
+   *         description: Internal server error.
+   */
+  router.get('/matchmaking/config', (req, res) => {
+    try {
+      res.json({
+        success: true,
+        config: gameManager.matchmakingService.getConfig()
+      });
+    } catch (error) {
+      console.error('Error getting matchmaking config:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   /**
    * @swagger
    * /api/game/create:
@@ -81,6 +149,8 @@ module.exports = (gameManagerInstance, evmService) => {
    *     description: Creates a new game instance, optionally on-chain if a stake amount is provided.
    *     tags:
    *       - Game
+   *     security:
+   *       - bearerAuth: []
    *     requestBody:
    *       required: true
    *       content:
@@ -139,7 +209,7 @@ module.exports = (gameManagerInstance, evmService) => {
    *       500:
    *         description: Internal server error.
    */
-  router.post('/create', async (req, res) => {
+  router.post('/create', requireAuth('creatorAddress'), async (req, res) => {
     try {
       const { creatorAddress, stakeAmount, minPlayers, isPublic, settings } = req.body;
 
@@ -147,6 +217,15 @@ module.exports = (gameManagerInstance, evmService) => {
         return res.status(400).json({ error: 'Creator address is required' });
       }
 
+      // Reject a bad setup before anything is created on-chain
+      if (settings) {
+        try {
+          gameManager.gameRepository.validateGameSettings(settings, settings.minPlayers || minPlayers || 4);
+        } catch (error) {
+          return res.status(400).json({ error: error.message });
+        }
+      }
+
       // For staking games, create the contract game first
       if (stakeAmount) {
         console.log(`🎮 Creating game and contract for creator: ${creatorAddress}`);
@@ -217,6 +296,8 @@ module.exports = (gameManagerInstance, evmService) => {
    *     description: Creates a new game instance on-chain and registers the creator as a player.
    *     tags:
    *       - Game
+   *     security:
+   *       - bearerAuth: []
    *     requestBody:
    *       required: true
    *       content:
@@ -273,7 +354,7 @@ module.exports = (gameManagerInstance, evmService) => {
    *       500:
    *         description: Internal server error.
    */
-  router.post('/create-and-join', async (req, res) => {
+  router.post('/create-and-join', requireAuth('creatorAddress'), async (req, res) => {
     try {
       const { creatorAddress, stakeAmount, minPlayers, isPublic, settings } = req.body;
 
@@ -295,6 +376,16 @@ module.exports = (gameManagerInstance, evmService) => {
 
       // Step 1: Create the game on-chain with custom stake amount (use settings.minPlayers if provided)
       const effectiveMinPlayers = settings?.minPlayers || minPlayers || 4;
+
+      // Reject a bad setup before anything is created on-chain
+      if (settings) {
+        try {
+          gameManager.gameRepository.validateGameSettings(settings, effectiveMinPlayers);
+        } catch (error) {
+          return res.status(400).json({ error: error.message });
+        }
+      }
+
       const contractGameId = await evmService.createGame(stakeAmount, effectiveMinPlayers);
       console.log(`✅ Game created on-chain, contract gameId: ${contractGameId}`);
 
@@ -330,9 +421,12 @@ module.exports = (gameManagerInstance, evmService) => {
    * /api/game/{gameId}:
    *   get:
    *     summary: Get game state
-   *     description: Retrieves the current state of a specific game. Can include player-specific roles if `playerAddress` is provided.
+   *     description: Retrieves the current state of a specific game. Includes the caller's own role when the request carries a valid session token; the `playerAddress` query parameter is ignored.
    *     tags:
    *       - Game
+   *     security:
+   *       - {}
+   *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: gameId
@@ -340,11 +434,6 @@ module.exports = (gameManagerInstance, evmService) => {
    *           type: string
    *         required: true
    *         description: The ID of the game to retrieve.
-   *       - in: query
-   *         name: playerAddress
-   *         schema:
-   *           type: string
-   *         description: Optional. The EVM address of the player requesting the game state. If provided, player-specific roles will be included.
    *     responses:
    *       200:
    *         description: Game state retrieved successfully.
@@ -364,10 +453,10 @@ module.exports = (gameManagerInstance, evmService) => {
    *       500:
    *         description: Internal server error.
    */
-  router.get('/:gameId', (req, res) => {
+  router.get('/:gameId', optionalAuth, (req, res) => {
     try {
       const { gameId } = req.params;
-      const { playerAddress } = req.query; // Get player address from query params
+      const playerAddress = req.playerAddress; // Signed-in player - only they get to see their role
 
       let gameData = gameManager.getGame(gameId); // Get the raw game object
       if (!gameData) {
@@ -411,6 +500,8 @@ module.exports = (gameManagerInstance, evmService) => {
    *     description: Allows a player to join an existing game by providing a valid room code.
    *     tags:
    *       - Game
+   *     security:
+   *       - bearerAuth: []
    *     requestBody:
    *       required: true
    *       content:
@@ -449,7 +540,7 @@ module.exports = (gameManagerInstance, evmService) => {
    *       500:
    *         description: Internal server error.
    */
-  router.post('/join-by-code', async (req, res) => {
+  router.post('/join-by-code', requireAuth('playerAddress'), async (req, res) => {
     try {
       const { roomCode, playerAddress } = req.body;
 
@@ -482,6 +573,8 @@ module.exports = (gameManagerInstance, evmService) => {
    *     description: Allows a player to leave a game, typically during the lobby phase. If the creator leaves, the game might be cancelled.
    *     tags:
    *       - Game
+   *     security:
+   *       - bearerAuth: []
    *     requestBody:
    *       required: true
    *       content:
@@ -525,7 +618,7 @@ module.exports = (gameManagerInstance, evmService) => {
    *       500:
    *         description: Internal server error.
    */
-  router.post('/leave', async (req, res) => {
+  router.post('/leave', requireAuth('playerAddress'), async (req, res) => {
     try {
       const { gameId, playerAddress } = req.body;
 
@@ -559,6 +652,8 @@ module.exports = (gameManagerInstance, evmService) => {
    *     description: Records a player's stake in a game after a successful on-chain staking transaction.
    *     tags:
    *       - Game
+   *     security:
+   *       - bearerAuth: []
    *     requestBody:
    *       required: true
    *       content:
@@ -598,7 +693,7 @@ module.exports = (gameManagerInstance, evmService) => {
    *       500:
    *         description: Internal server error.
    */
-  router.post('/record-stake', async (req, res) => {
+  router.post('/record-stake', requireAuth('playerAddress'), async (req, res) => {
     try {
       const { gameId, playerAddress, transactionHash } = req.body;
 
@@ -825,34 +920,25 @@ module.exports = (gameManagerInstance, evmService) => {
 
   /**
    * @swagger
-   * /api/game/{gameId}/player/eliminate:
-   *   post:
-   *     summary: Eliminate a player from the game
-   *     description: Marks a player as eliminated in the specified game. Checks win conditions after elimination.
+   * /api/game/invite/{roomCode}:
+   *   get:
+   *     summary: Resolve an invite link
+   *     description: |
+   *       Tells an invite link (/join/ROOMCODE) whether the lobby can still be joined.
+   *       Unlike /room/{roomCode} it also knows about cancelled and finished games.
+   *       Status is one of open, full, locked, started, ended or cancelled.
    *     tags:
    *       - Game
    *     parameters:
    *       - in: path
-   *         name: gameId
+   *         name: roomCode
    *         schema:
    *           type: string
    *         required: true
-   *         description: The ID of the game.
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
-   *           schema:
-   *             type: object
-   *             required:
-   *               - playerAddress
-   *             properties:
-   *               playerAddress:
-   *                 type: string
-   *                 description: The EVM address of the player to eliminate.
+   *         description: The 6-character alphanumeric room code.
    *     responses:
    *       200:
-   *         description: Player eliminated successfully.
+   *         description: Invite resolved.
    *         content:
    *           application/json:
    *             schema:
@@ -861,59 +947,70 @@ module.exports = (gameManagerInstance, evmService) => {
    *                 success:
    *                   type: boolean
    *                   example: true
-   *                 message:
-   *                   type: string
-   *                   example: "Player eliminated successfully"
+   *                 invite:
+   *                   type: object
+   *                   properties:
+   *                     gameId:
+   *                       type: string
+   *                     roomCode:
+   *                       type: string
+   *                     status:
+   *                       type: string
+   *                       example: open
+   *                     creator:
+   *                       type: string
+   *                     players:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *                     playerCount:
+   *                       type: number
+   *                     seats:
+   *                       type: number
+   *                     stakeAmount:
+   *                       type: string
+   *                     allowSpectators:
+   *                       type: boolean
    *       400:
-   *         description: Bad request, e.g., player not in game or already eliminated.
+   *         description: Bad request, e.g., invalid room code format.
    *       404:
-   *         description: Game not found.
+   *         description: Room code not found.
    *       500:
    *         description: Internal server error.
    */
-  router.post('/:gameId/player/eliminate', (req, res) => {
+  router.get('/invite/:roomCode', async (req, res) => {
     try {
-      const { gameId } = req.params;
-      const { playerAddress } = req.body;
-
-      const game = gameManager.getGame(gameId);
-      if (!game) {
-        return res.status(404).json({ error: 'Game not found' });
-      }
-
-      if (!game.players.includes(playerAddress)) {
-        return res.status(400).json({ error: 'Player not in game' });
-      }
+      const roomCode = String(req.params.roomCode || '').toUpperCase();
 
-      if (game.eliminated.includes(playerAddress)) {
-        return res.status(400).json({ error: 'Player already eliminated' });
+      if (!/^[A-Z0-9]{6}$/.test(roomCode)) {
+        return res.status(400).json({ error: 'Invalid room code format. Must be a 6-character alphanumeric string.' });
       }
 
-      game.eliminated.push(playerAddress);
+      const game = gameManager.getGameByRoomCode(roomCode);
+      const storedGame = game ? null : await gameManager.gameRepository.getGameByRoomCode(roomCode);
+      const invite = GameStateFormatter.getInvite(game, storedGame);
 
-      // Check win conditions
-      if (gameManager.phaseManager.checkWinConditions(game)) {
-        gameManager.endGame(gameId);
+      if (!invite) {
+        return res.status(404).json({ error: 'Room code not found' });
       }
 
-      res.json({
-        success: true,
-        message: 'Player eliminated successfully'
-      });
+      res.json({ success: true, invite });
     } catch (error) {
-      console.error('Error eliminating player:', error);
+      console.error('Error resolving invite:', error);
       res.status(500).json({ error: error.message });
     }
   });
 
   /**
    * @swagger
-   * /api/game/{gameId}/ready:
+   * /api/game/{gameId}/seed/commit:
    *   post:
-   *     summary: Signal player readiness for game timer
-   *     description: Allows a player to signal their readiness, which can trigger the game timer if all players are ready.
+   *     summary: Commit to a role shuffle seed value
+   *     description: While the game is in the lobby, a player commits sha256(value) for a random 32-byte value. The value is revealed when the game starts and mixed into the seed that shuffles the roles. Committing again replaces the previous commit.
    *     tags:
    *       - Game
+   *     security:
+   *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: gameId
@@ -929,62 +1026,44 @@ module.exports = (gameManagerInstance, evmService) => {
    *             type: object
    *             required:
    *               - playerAddress
+   *               - commit
    *             properties:
    *               playerAddress:
    *                 type: string
-   *                 description: The EVM address of the player signaling readiness.
+   *                 description: The EVM address of the player.
+   *               commit:
+   *                 type: string
+   *                 description: sha256 hex of the player's 32-byte hex seed value.
    *     responses:
    *       200:
-   *         description: Player ready signal received.
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                   example: true
-   *                 message:
-   *                   type: string
-   *                   example: "Player ready signal received"
+   *         description: Seed commit recorded.
    *       400:
-   *         description: Bad request, e.g., missing game ID or player address.
-   *       500:
-   *         description: Internal server error.
+   *         description: Bad request, e.g., game already started or malformed commit.
    */
-  router.post('/:gameId/ready', (req, res) => {
+  router.post('/:gameId/seed/commit', requireAuth('playerAddress'), (req, res) => {
     try {
       const { gameId } = req.params;
-      const { playerAddress } = req.body;
-
-      if (!gameId) {
-        return res.status(400).json({ error: 'Game ID is required' });
-      }
-
-      if (!playerAddress) {
-        return res.status(400).json({ error: 'Player address is required' });
-      }
+      const { playerAddress, commit } = req.body;
 
-      gameManager.phaseManager.startTimerWhenReady(gameId, playerAddress);
+      gameManager.commitSeed(gameId, playerAddress, commit);
 
-      res.json({
-        success: true,
-        message: 'Player ready signal received'
-      });
+      res.json({ success: true });
     } catch (error) {
-      console.error('Error processing ready signal:', error);
-      res.status(500).json({ error: error.message });
+      console.error('Error committing seed:', error);
+      res.status(400).json({ error: error.message });
     }
   });
 
   /**
    * @swagger
-   * /api/game/{gameId}/action/night:
+   * /api/game/{gameId}/seed/reveal:
    *   post:
-   *     summary: Submit a night action for a player
-   *     description: Allows a player to submit their action during the night phase of the game.
+   *     summary: Reveal a committed role shuffle seed value
+   *     description: Reveals the value behind a seed commit while the game is starting. Players who don't reveal before the window closes are left out of the seed.
    *     tags:
    *       - Game
+   *     security:
+   *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: gameId
@@ -1000,61 +1079,44 @@ module.exports = (gameManagerInstance, evmService) => {
    *             type: object
    *             required:
    *               - playerAddress
-   *               - action
+   *               - value
    *             properties:
    *               playerAddress:
    *                 type: string
-   *                 description: The EVM address of the player submitting the action.
-   *               action:
-   *                 type: object
-   *                 description: The specific action data (e.g., target, ability).
-   *               commit:
+   *                 description: The EVM address of the player.
+   *               value:
    *                 type: string
-   *                 description: Optional. A commit hash for the action, if using commit-reveal.
+   *                 description: The 32-byte hex seed value that was committed.
    *     responses:
    *       200:
-   *         description: Night action submitted successfully.
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                   example: true
-   *                 message:
-   *                   type: string
-   *                   example: "Night action submitted successfully"
+   *         description: Seed value accepted.
    *       400:
-   *         description: Bad request, e.g., invalid action or game state.
-   *       500:
-   *         description: Internal server error.
+   *         description: Bad request, e.g., reveal window closed or value doesn't match the commit.
    */
-  router.post('/:gameId/action/night', (req, res) => {
+  router.post('/:gameId/seed/reveal', requireAuth('playerAddress'), (req, res) => {
     try {
       const { gameId } = req.params;
-      const { playerAddress, action, commit } = req.body;
+      const { playerAddress, value } = req.body;
 
-      gameManager.submitNightAction(gameId, { playerAddress, action, commit });
+      gameManager.revealSeed(gameId, playerAddress, value);
 
-      res.json({
-        success: true,
-        message: 'Night action submitted successfully'
-      });
+      res.json({ success: true });
     } catch (error) {
-      console.error('Error submitting night action:', error);
+      console.error('Error revealing seed:', error);
       res.status(400).json({ error: error.message });
     }
   });
 
   /**
    * @swagger
-   * /api/game/{gameId}/task/submit:
+   * /api/game/{gameId}/lobby/ready:
    *   post:
-   *     summary: Submit a task answer for a player
-   *     description: Allows a player to submit their answer to a task during the task phase.
+   *     summary: Ready up (or un-ready) in the lobby
+   *     description: Once minPlayers have joined and staked, the game starts after a short countdown when every player is ready. Un-readying cancels the countdown. Players who are not ready by the ready-check deadline are removed and their stake is refunded.
    *     tags:
    *       - Game
+   *     security:
+   *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: gameId
@@ -1070,66 +1132,44 @@ module.exports = (gameManagerInstance, evmService) => {
    *             type: object
    *             required:
    *               - playerAddress
-   *               - answer
+   *               - ready
    *             properties:
    *               playerAddress:
    *                 type: string
-   *                 description: The EVM address of the player submitting the answer.
-   *               answer:
-   *                 type: string
-   *                 description: The player's answer to the task.
+   *                 description: The EVM address of the player.
+   *               ready:
+   *                 type: boolean
+   *                 description: Whether the player is ready.
    *     responses:
    *       200:
-   *         description: Task answer submitted successfully.
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                   example: true
-   *                 correct:
-   *                   type: boolean
-   *                   example: true
-   *                 gameComplete:
-   *                   type: boolean
-   *                   example: false
-   *                 message:
-   *                   type: string
-   *                   example: "Task answer submitted successfully"
+   *         description: Ready state updated.
    *       400:
-   *         description: Bad request, e.g., invalid answer or game state.
-   *       500:
-   *         description: Internal server error.
+   *         description: Bad request, e.g., game already started or player has not staked.
    */
-  router.post('/:gameId/task/submit', (req, res) => {
+  router.post('/:gameId/lobby/ready', requireAuth('playerAddress'), (req, res) => {
     try {
       const { gameId } = req.params;
-      const { playerAddress, answer } = req.body;
+      const { playerAddress, ready } = req.body;
 
-      const result = gameManager.submitTaskAnswer(gameId, { playerAddress, answer });
+      gameManager.readyCheckService.setReady(gameId, playerAddress, ready !== false);
 
-      res.json({
-        success: true,
-        correct: result.correct,
-        gameComplete: result.gameComplete,
-        message: 'Task answer submitted successfully'
-      });
+      res.json({ success: true });
     } catch (error) {
-      console.error('Error submitting task answer:', error);
+      console.error('Error updating lobby ready state:', error);
       res.status(400).json({ error: error.message });
     }
   });
 
   /**
    * @swagger
-   * /api/game/{gameId}/vote/submit:
+   * /api/game/{gameId}/host/kick:
    *   post:
-   *     summary: Submit a vote for a player
-   *     description: Allows a player to cast their vote during the voting phase.
+   *     summary: Kick a player from the lobby
+   *     description: The host removes a player from the lobby. A staked player is refunded through the contract before their seat opens. With ban set, the player cannot rejoin this lobby.
    *     tags:
    *       - Game
+   *     security:
+   *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: gameId
@@ -1144,89 +1184,714 @@ module.exports = (gameManagerInstance, evmService) => {
    *           schema:
    *             type: object
    *             required:
+   *               - hostAddress
    *               - playerAddress
-   *               - vote
    *             properties:
-   *               playerAddress:
+   *               hostAddress:
    *                 type: string
-   *                 description: The EVM address of the player submitting the vote.
-   *               vote:
+   *                 description: The EVM address of the host (game creator).
+   *               playerAddress:
    *                 type: string
-   *                 description: The EVM address of the player being voted for.
+   *                 description: The EVM address of the player.
+   *               ban:
+   *                 type: boolean
+   *                 description: Also ban the player from rejoining this lobby.
    *     responses:
    *       200:
-   *         description: Vote submitted successfully.
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                   example: true
-   *                 message:
-   *                   type: string
-   *                   example: "Vote submitted successfully"
+   *         description: Player removed.
    *       400:
-   *         description: Bad request, e.g., invalid vote or game state.
-   *       500:
-   *         description: Internal server error.
+   *         description: Bad request, e.g., caller is not the host or the game has started.
    */
-  router.post('/:gameId/vote/submit', (req, res) => {
+  router.post('/:gameId/host/kick', requireAuth('hostAddress'), async (req, res) => {
     try {
       const { gameId } = req.params;
-      const { playerAddress, vote } = req.body;
+      const { hostAddress, playerAddress, ban } = req.body;
 
-      gameManager.submitVote(gameId, { playerAddress, vote });
+      const { refunded } = await gameManager.lobbyModerationService.kickPlayer(gameId, hostAddress, playerAddress, ban === true);
 
-      res.json({
-        success: true,
-        message: 'Vote submitted successfully'
-      });
+      res.json({ success: true, refunded });
     } catch (error) {
-      console.error('Error submitting vote:', error);
+      console.error('Error kicking player:', error);
       res.status(400).json({ error: error.message });
     }
   });
 
   /**
    * @swagger
-   * /api/game/{gameId}/history:
-   *   get:
-   *     summary: Get game history
-   *     description: Retrieves the historical data for a completed game.
+   * /api/game/{gameId}/host/unban:
+   *   post:
+   *     summary: Lift a lobby ban
+   *     description: The host lets a banned player join the lobby again.
    *     tags:
    *       - Game
+   *     security:
+   *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: gameId
    *         schema:
    *           type: string
    *         required: true
-   *         description: The ID of the game to retrieve history for.
+   *         description: The ID of the game.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - hostAddress
+   *               - playerAddress
+   *             properties:
+   *               hostAddress:
+   *                 type: string
+   *                 description: The EVM address of the host (game creator).
+   *               playerAddress:
+   *                 type: string
+   *                 description: The EVM address of the player.
    *     responses:
    *       200:
-   *         description: Game history retrieved successfully.
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                   example: true
-   *                 history:
-   *                   type: object
-   *                   description: The game history object.
-   *       404:
-   *         description: Game not found.
-   *       500:
-   *         description: Internal server error.
+   *         description: Ban lifted.
+   *       400:
+   *         description: Bad request, e.g., caller is not the host or the game has started.
    */
-  router.get('/:gameId/history', (req, res) => {
+  router.post('/:gameId/host/unban', requireAuth('hostAddress'), (req, res) => {
     try {
       const { gameId } = req.params;
-      const game = gameManager.getGame(gameId);
+      const { hostAddress, playerAddress } = req.body;
+
+      gameManager.lobbyModerationService.unbanPlayer(gameId, hostAddress, playerAddress);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error lifting ban:', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/game/{gameId}/host/transfer:
+   *   post:
+   *     summary: Transfer host to another player
+   *     description: The host hands the lobby, with its settings and moderation tools, to another player in the lobby.
+   *     tags:
+   *       - Game
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: gameId
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: The ID of the game.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - hostAddress
+   *               - playerAddress
+   *             properties:
+   *               hostAddress:
+   *                 type: string
+   *                 description: The EVM address of the host (game creator).
+   *               playerAddress:
+   *                 type: string
+   *                 description: The EVM address of the new host.
+   *     responses:
+   *       200:
+   *         description: Host transferred.
+   *       400:
+   *         description: Bad request, e.g., caller is not the host or the game has started.
+   */
+  router.post('/:gameId/host/transfer', requireAuth('hostAddress'), (req, res) => {
+    try {
+      const { gameId } = req.params;
+      const { hostAddress, playerAddress } = req.body;
+
+      gameManager.lobbyModerationService.transferHost(gameId, hostAddress, playerAddress);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error transferring host:', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/game/{gameId}/host/lock:
+   *   post:
+   *     summary: Lock or unlock the lobby
+   *     description: A locked lobby rejects new joins and is left off the public lobby list. Players already in it are not affected.
+   *     tags:
+   *       - Game
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: gameId
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: The ID of the game.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - hostAddress
+   *               - locked
+   *             properties:
+   *               hostAddress:
+   *                 type: string
+   *                 description: The EVM address of the host (game creator).
+   *               locked:
+   *                 type: boolean
+   *                 description: Whether the lobby is locked.
+   *     responses:
+   *       200:
+   *         description: Lock state updated.
+   *       400:
+   *         description: Bad request, e.g., caller is not the host or the game has started.
+   */
+  router.post('/:gameId/host/lock', requireAuth('hostAddress'), (req, res) => {
+    try {
+      const { gameId } = req.params;
+      const { hostAddress, locked } = req.body;
+
+      gameManager.lobbyModerationService.setLocked(gameId, hostAddress, locked === true);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error locking lobby:', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/game/{gameId}/ready:
+   *   post:
+   *     summary: Signal player readiness for game timer
+   *     description: Allows a player to signal their readiness, which can trigger the game timer if all players are ready.
+   *     tags:
+   *       - Game
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: gameId
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: The ID of the game.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - playerAddress
+   *             properties:
+   *               playerAddress:
+   *                 type: string
+   *                 description: The EVM address of the player signaling readiness.
+   *     responses:
+   *       200:
+   *         description: Player ready signal received.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Player ready signal received"
+   *       400:
+   *         description: Bad request, e.g., missing game ID or player address.
+   *       500:
+   *         description: Internal server error.
+   */
+  router.post('/:gameId/ready', requireAuth('playerAddress'), (req, res) => {
+    try {
+      const { gameId } = req.params;
+      const { playerAddress } = req.body;
+
+      if (!gameId) {
+        return res.status(400).json({ error: 'Game ID is required' });
+      }
+
+      if (!playerAddress) {
+        return res.status(400).json({ error: 'Player address is required' });
+      }
+
+      gameManager.phaseManager.startTimerWhenReady(gameId, playerAddress);
+
+      res.json({
+        success: true,
+        message: 'Player ready signal received'
+      });
+    } catch (error) {
+      console.error('Error processing ready signal:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/game/{gameId}/session-key:
+   *   post:
+   *     summary: Register a session key for a game
+   *     description: Registers a browser-held key that signs the player's night actions, task answers, votes and chat messages in this game, so the wallet only has to sign once. The wallet signs a delegation message naming the game, the key and its validity window (at most 6 hours).
+   *     tags:
+   *       - Game
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: gameId
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: The ID of the game.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - sessionKey
+   *               - validFrom
+   *               - validUntil
+   *               - signature
+   *             properties:
+   *               playerAddress:
+   *                 type: string
+   *                 description: Optional. Must match the signed-in wallet.
+   *               sessionKey:
+   *                 type: string
+   *                 description: Address of the session key.
+   *               validFrom:
+   *                 type: number
+   *                 description: Unix timestamp (ms) the delegation starts.
+   *               validUntil:
+   *                 type: number
+   *                 description: Unix timestamp (ms) the delegation ends.
+   *               signature:
+   *                 type: string
+   *                 description: Wallet signature of the delegation message.
+   *     responses:
+   *       200:
+   *         description: Session key registered.
+   *       400:
+   *         description: Bad request, e.g., player not in game, invalid window or signature.
+   */
+  router.post('/:gameId/session-key', requireAuth('playerAddress'), (req, res) => {
+    try {
+      const { gameId } = req.params;
+      const { playerAddress, sessionKey, validFrom, validUntil, signature } = req.body;
+
+      const game = gameManager.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ error: 'Game not found' });
+      }
+
+      if (!game.players.includes(playerAddress)) {
+        return res.status(400).json({ error: 'Player not in game' });
+      }
+
+      const registered = gameManager.sessionKeyService.registerDelegation(gameId, playerAddress, {
+        sessionKey,
+        validFrom: Number(validFrom),
+        validUntil: Number(validUntil),
+        signature
+      });
+
+      res.json({
+        success: true,
+        ...registered
+      });
+    } catch (error) {
+      console.error('Error registering session key:', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/game/{gameId}/action/night:
+   *   post:
+   *     summary: Submit a night action for a player
+   *     description: Allows a player to submit their action during the night phase of the game.
+   *     tags:
+   *       - Game
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: gameId
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: The ID of the game.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - playerAddress
+   *             properties:
+   *               playerAddress:
+   *                 type: string
+   *                 description: The EVM address of the player submitting the action.
+   *               action:
+   *                 type: object
+   *                 description: The specific action data (e.g., target, ability). Omit when sending a commit.
+   *               commit:
+   *                 type: string
+   *                 description: sha256 hex of JSON {action, nonce}. The action itself is revealed in the resolution phase (see POST /api/game/{gameId}/action/reveal).
+   *               requestId:
+   *                 type: string
+   *                 description: Optional. Client-generated ID; repeated submissions with the same ID are applied once.
+   *               sessionSignature:
+   *                 type: string
+   *                 description: Signature of the action by the player's session key (see POST /api/game/{gameId}/session-key).
+   *     responses:
+   *       200:
+   *         description: Night action submitted successfully.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Night action submitted successfully"
+   *       400:
+   *         description: Bad request, e.g., invalid action or game state.
+   *       500:
+   *         description: Internal server error.
+   */
+  router.post('/:gameId/action/night', requireAuth('playerAddress'), (req, res) => {
+    try {
+      const { gameId } = req.params;
+      const { playerAddress, action, commit, requestId, sessionSignature } = req.body;
+
+      // requestId lets the client retry (or fall back from the socket) without double-applying
+      const { duplicate } = gameManager.processRequestOnce(gameId, playerAddress, requestId, () =>
+        gameManager.submitNightAction(gameId, { playerAddress, action, commit, requestId, sessionSignature })
+      );
+
+      res.json({
+        success: true,
+        duplicate,
+        message: 'Night action submitted successfully'
+      });
+    } catch (error) {
+      console.error('Error submitting night action:', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/game/{gameId}/action/reveal:
+   *   post:
+   *     summary: Reveal a committed night action
+   *     description: Reveals the action and nonce behind a night action commit while the resolution phase is waiting for reveals. A reveal that doesn't match the commit voids the action.
+   *     tags:
+   *       - Game
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: gameId
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: The ID of the game.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - playerAddress
+   *               - action
+   *               - nonce
+   *             properties:
+   *               playerAddress:
+   *                 type: string
+   *                 description: The EVM address of the player revealing the action.
+   *               action:
+   *                 type: object
+   *                 description: The action that was committed.
+   *               nonce:
+   *                 type: string
+   *                 description: The nonce that was hashed with the action.
+   *               requestId:
+   *                 type: string
+   *                 description: Optional. Client-generated ID; repeated submissions with the same ID are applied once.
+   *               sessionSignature:
+   *                 type: string
+   *                 description: Signature of the reveal by the player's session key.
+   *     responses:
+   *       200:
+   *         description: Reveal processed.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 verified:
+   *                   type: boolean
+   *                   description: False if the reveal didn't match the commit and the action was voided.
+   *       400:
+   *         description: Bad request, e.g., no commit to reveal or reveal window closed.
+   */
+  router.post('/:gameId/action/reveal', requireAuth('playerAddress'), (req, res) => {
+    try {
+      const { gameId } = req.params;
+      const { playerAddress, action, nonce, requestId, sessionSignature } = req.body;
+
+      const { result, duplicate } = gameManager.processRequestOnce(gameId, playerAddress, requestId, () =>
+        gameManager.revealNightAction(gameId, { playerAddress, action, nonce, requestId, sessionSignature })
+      );
+
+      res.json({
+        success: true,
+        duplicate,
+        verified: result.verified
+      });
+    } catch (error) {
+      console.error('Error revealing night action:', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/game/{gameId}/task/submit:
+   *   post:
+   *     summary: Submit a task answer for a player
+   *     description: Allows a player to submit their answer to a task during the task phase.
+   *     tags:
+   *       - Game
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: gameId
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: The ID of the game.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - playerAddress
+   *               - answer
+   *             properties:
+   *               playerAddress:
+   *                 type: string
+   *                 description: The EVM address of the player submitting the answer.
+   *               answer:
+   *                 type: string
+   *                 description: The player's answer to the task.
+   *               requestId:
+   *                 type: string
+   *                 description: Optional. Client-generated ID; repeated submissions with the same ID are applied once.
+   *               sessionSignature:
+   *                 type: string
+   *                 description: Signature of the action by the player's session key (see POST /api/game/{gameId}/session-key).
+   *     responses:
+   *       200:
+   *         description: Task answer submitted successfully.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 correct:
+   *                   type: boolean
+   *                   example: true
+   *                 gameComplete:
+   *                   type: boolean
+   *                   example: false
+   *                 message:
+   *                   type: string
+   *                   example: "Task answer submitted successfully"
+   *       400:
+   *         description: Bad request, e.g., invalid answer or game state.
+   *       500:
+   *         description: Internal server error.
+   */
+  router.post('/:gameId/task/submit', requireAuth('playerAddress'), (req, res) => {
+    try {
+      const { gameId } = req.params;
+      const { playerAddress, answer, requestId, sessionSignature } = req.body;
+
+      const { result, duplicate } = gameManager.processRequestOnce(gameId, playerAddress, requestId, () =>
+        gameManager.submitTaskAnswer(gameId, { playerAddress, answer, requestId, sessionSignature })
+      );
+
+      res.json({
+        success: true,
+        correct: result.correct,
+        gameComplete: result.gameComplete,
+        duplicate,
+        message: 'Task answer submitted successfully'
+      });
+    } catch (error) {
+      console.error('Error submitting task answer:', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/game/{gameId}/vote/submit:
+   *   post:
+   *     summary: Submit a vote for a player
+   *     description: Allows a player to cast their vote during the voting phase.
+   *     tags:
+   *       - Game
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: gameId
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: The ID of the game.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - playerAddress
+   *               - vote
+   *             properties:
+   *               playerAddress:
+   *                 type: string
+   *                 description: The EVM address of the player submitting the vote.
+   *               vote:
+   *                 type: string
+   *                 description: The EVM address of the player being voted for.
+   *               requestId:
+   *                 type: string
+   *                 description: Optional. Client-generated ID; repeated submissions with the same ID are applied once.
+   *               sessionSignature:
+   *                 type: string
+   *                 description: Signature of the action by the player's session key (see POST /api/game/{gameId}/session-key).
+   *     responses:
+   *       200:
+   *         description: Vote submitted successfully.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Vote submitted successfully"
+   *       400:
+   *         description: Bad request, e.g., invalid vote or game state.
+   *       500:
+   *         description: Internal server error.
+   */
+  router.post('/:gameId/vote/submit', requireAuth('playerAddress'), (req, res) => {
+    try {
+      const { gameId } = req.params;
+      const { playerAddress, vote, requestId, sessionSignature } = req.body;
+
+      const { duplicate } = gameManager.processRequestOnce(gameId, playerAddress, requestId, () =>
+        gameManager.submitVote(gameId, { playerAddress, vote, requestId, sessionSignature })
+      );
+
+      res.json({
+        success: true,
+        duplicate,
+        message: 'Vote submitted successfully'
+      });
+    } catch (error) {
+      console.error('Error submitting vote:', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/game/{gameId}/history:
+   *   get:
+   *     summary: Get game history
+   *     description: Retrieves the historical data for a completed game.
+   *     tags:
+   *       - Game
+   *     parameters:
+   *       - in: path
+   *         name: gameId
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: The ID of the game to retrieve history for.
+   *     responses:
+   *       200:
+   *         description: Game history retrieved successfully.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 history:
+   *                   type: object
+   *                   description: The game history object.
+   *       404:
+   *         description: Game not found.
+   *       500:
+   *         description: Internal server error.
+   */
+  router.get('/:gameId/history', (req, res) => {
+    try {
+      const { gameId } = req.params;
+      const game = gameManager.getGame(gameId);
 
       if (!game) {
         return res.status(404).json({ error: 'Game not found' });
@@ -1254,6 +1919,165 @@ module.exports = (gameManagerInstance, evmService) => {
     }
   });
 
+  /**
+   * @swagger
+   * /api/game/{gameId}/replay:
+   *   get:
+   *     summary: Get a finished game's replay
+   *     description: |
+   *       Returns the ordered event log of a game - phase changes, night actions
+   *       (with their reveal status), votes, task results, chat and eliminations -
+   *       plus the final roles. The log contains every secret of the game, so it is
+   *       only available once the game has ended.
+   *     tags:
+   *       - Game
+   *     parameters:
+   *       - in: path
+   *         name: gameId
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: The ID of the finished game.
+   *     responses:
+   *       200:
+   *         description: Replay retrieved successfully.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 replay:
+   *                   type: object
+   *                   properties:
+   *                     players:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *                     roles:
+   *                       type: object
+   *                     winners:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *                     events:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *       403:
+   *         description: The game is still running.
+   *       404:
+   *         description: Game not found.
+   *       500:
+   *         description: Internal server error.
+   */
+  router.get('/:gameId/replay', async (req, res) => {
+    try {
+      const { gameId } = req.params;
+      const game = gameManager.getGame(gameId);
+
+      if (game && game.phase !== 'ended') {
+        return res.status(403).json({ error: 'Replay is available once the game has ended' });
+      }
+
+      const replay = game
+        ? GameStateFormatter.getReplay(game)
+        : await gameManager.gameRepository.getReplay(gameId);
+
+      if (!replay) {
+        return res.status(404).json({ error: 'Game not found' });
+      }
+
+      res.json({
+        success: true,
+        replay
+      });
+    } catch (error) {
+      console.error('Error getting game replay:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/game/player/{address}/stats:
+   *   get:
+   *     summary: Get a player's track record
+   *     description: |
+   *       Aggregates the stored games of a wallet: games played, wins and losses
+   *       per role, task completion rate, voting accuracy (final votes cast on an
+   *       actual Mafia player), net winnings and the most recent games. Payouts
+   *       of staked games are cross-checked against the on-chain GameSettled event.
+   *     tags:
+   *       - Game
+   *     parameters:
+   *       - in: path
+   *         name: address
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: The player's wallet address.
+   *     responses:
+   *       200:
+   *         description: Player stats retrieved successfully.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 stats:
+   *                   type: object
+   *                   properties:
+   *                     gamesPlayed:
+   *                       type: number
+   *                     wins:
+   *                       type: number
+   *                     losses:
+   *                       type: number
+   *                     roles:
+   *                       type: object
+   *                       description: Played, wins and losses keyed by role
+   *                     tasks:
+   *                       type: object
+   *                     votes:
+   *                       type: object
+   *                     earnings:
+   *                       type: object
+   *                       description: Staked, received and net amounts in Wei
+   *                     recentGames:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *       400:
+   *         description: Invalid address.
+   *       500:
+   *         description: Internal server error.
+   */
+  router.get('/player/:address/stats', async (req, res) => {
+    try {
+      const { address } = req.params;
+
+      if (!ethers.isAddress(address)) {
+        return res.status(400).json({ error: 'Invalid player address' });
+      }
+
+      const stats = await gameManager.playerStatsService.getPlayerStats(address);
+
+      res.json({
+        success: true,
+        stats
+      });
+    } catch (error) {
+      console.error('Error getting player stats:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   /**
    * @swagger
    * /api/game/active:
@@ -1332,7 +2156,7 @@ module.exports = (gameManagerInstance, evmService) => {
    * /api/game/public/lobbies:
    *   get:
    *     summary: Get all public lobbies
-   *     description: Retrieves a list of all public game lobbies, including calculated win probabilities.
+   *     description: Retrieves a list of all public game lobbies with their role composition.
    *     tags:
    *       - Game
    *     responses:
@@ -1367,10 +2191,8 @@ module.exports = (gameManagerInstance, evmService) => {
    *                         type: number
    *                       startedAt:
    *                         type: number
-   *                       mafiaWinPercent:
-   *                         type: number
-   *                       nonMafiaWinPercent:
-   *                         type: number
+   *                       composition:
+   *                         type: object
    *       500:
    *         description: Internal server error.
    */
@@ -1378,39 +2200,14 @@ module.exports = (gameManagerInstance, evmService) => {
     try {
       const lobbies = await gameManager.gameRepository.getPublicLobbies();
 
-      // Calculate win probabilities for each lobby
-      const lobbiesWithProbabilities = lobbies.map(lobby => {
-        // stakeAmount is in Wei (string) - convert to BigInt for calculations
-        const stakeAmountWei = BigInt(lobby.stakeAmount);
-        const playerCount = BigInt(lobby.currentPlayers.length);
-
-        const totalPot = stakeAmountWei * playerCount;
-        const netPot = (totalPot * 98n) / 100n; // After 2% house cut
-
-        // Assuming 1 mafia, rest are non-mafia
-        const mafiaCount = 1n;
-        const nonMafiaCount = BigInt(lobby.minPlayers) - mafiaCount;
-
-        const mafiaWinPercent = playerCount > 0n
-          ? Number(((netPot / mafiaCount) * 100n) / stakeAmountWei) - 100
-          : 0;
-        const nonMafiaWinPercent = playerCount > 0n && nonMafiaCount > 0n
-          ? Number(((netPot / nonMafiaCount) * 100n) / stakeAmountWei) - 100
-          : 0;
-
-        return {
-          ...lobby,
-          stakeAmount: lobby.stakeAmount,  // Wei string
-          stakeAmountFormatted: ethers.formatEther(lobby.stakeAmount || '0'),  // Token units for display
-          playerCount: lobby.currentPlayers.length,
-          mafiaWinPercent: Math.round(mafiaWinPercent),
-          nonMafiaWinPercent: Math.round(nonMafiaWinPercent)
-        };
-      });
+      // Locked lobbies only live in memory
+      const publicLobbies = lobbies
+        .filter(lobby => !gameManager.getGame(lobby.gameId)?.locked)
+        .map(lobby => GameStateFormatter.getPublicLobby(lobby));
 
       res.json({
         success: true,
-        lobbies: lobbiesWithProbabilities
+        lobbies: publicLobbies
       });
     } catch (error) {
       console.error('Error getting public lobbies:', error);
@@ -1428,6 +2225,8 @@ module.exports = (gameManagerInstance, evmService) => {
    *     description: Allows the game creator to update specific settings for a game, typically during the lobby phase.
    *     tags:
    *       - Game
+   *     security:
+   *       - bearerAuth: []
    *     parameters:
    *       - in: path
    *         name: gameId
@@ -1450,7 +2249,7 @@ module.exports = (gameManagerInstance, evmService) => {
    *                 description: The EVM address of the game creator.
    *               settings:
    *                 type: object
-   *                 description: An object containing the settings to update (e.g., nightPhaseDuration, maxTaskCount).
+   *                 description: An object containing the settings to update (e.g., nightPhaseDuration, maxTaskCount, allowSpectators, spectatorDelay).
    *     responses:
    *       200:
    *         description: Game settings updated successfully.
@@ -1470,7 +2269,7 @@ module.exports = (gameManagerInstance, evmService) => {
    *       500:
    *         description: Internal server error.
    */
-  router.patch('/:gameId/settings', async (req, res) => {
+  router.patch('/:gameId/settings', requireAuth('creatorAddress'), async (req, res) => {
     try {
       const { gameId } = req.params;
       const { creatorAddress, settings } = req.body;
@@ -1505,6 +2304,16 @@ module.exports = (gameManagerInstance, evmService) => {
           game.isPublic = isPublic;
         }
 
+        // Turning spectating off removes anyone already watching
+        if (actualSettings.allowSpectators === false && gameManager.socketManager) {
+          gameManager.socketManager.closeSpectators(gameId, 'The host turned off spectating');
+        }
+
+        // Going public or private adds or removes it in the lobby browser
+        if (gameManager.socketManager) {
+          gameManager.socketManager.emitLobbyUpdate(gameId);
+        }
+
         console.log('💾 In-memory game also updated');
       }
 
@@ -1524,8 +2333,16 @@ module.exports = (gameManagerInstance, evmService) => {
 
 
 
-  // DEBUG: Force phase transition (remove in production)
-  router.post('/:gameId/debug/force-phase/:phase', async (req, res) => {
+  // Debug routes only exist when ENABLE_DEBUG_ROUTES=true (never in production)
+  const requireDebugRoutes = (req, res, next) => {
+    if (process.env.ENABLE_DEBUG_ROUTES !== 'true') {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    next();
+  };
+
+  // DEBUG: Force phase transition
+  router.post('/:gameId/debug/force-phase/:phase', requireDebugRoutes, requireAuth(), async (req, res) => {
     try {
       const { gameId, phase } = req.params;
       const game = gameManager.getGame(gameId);
@@ -1533,6 +2350,9 @@ module.exports = (gameManagerInstance, evmService) => {
       if (!game) {
         return res.status(404).json({ error: 'Game not found' });
       }
+      if (!game.players.includes(req.playerAddress)) {
+        return res.status(403).json({ error: 'Only players in this game can force its phase' });
+      }
 
       console.log(`🔧 DEBUG: Forcing phase transition for game ${gameId} from ${game.phase} to ${phase}`);
 
@@ -0,0 +1,174 @@
+const express = require('express');
+const { ethers } = require('ethers');
+
+module.exports = (gameManager) => {
+  const router = express.Router();
+  const leaderboardService = gameManager.leaderboardService;
+
+  /**
+   * @swagger
+   * /api/leaderboard/seasons:
+   *   get:
+   *     summary: List leaderboard seasons
+   *     description: Returns every season that has started, newest first. Seasons come from LEADERBOARD_SEASONS or default to calendar months (UTC).
+   *     tags:
+   *       - Leaderboard
+   *     responses:
+   *       200:
+   *         description: Seasons retrieved successfully.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 seasons:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *                     properties:
+   *                       id:
+   *                         type: string
+   *                       name:
+   *                         type: string
+   *                       start:
+   *                         type: number
+   *                       end:
+   *                         type: number
+   *                       active:
+   *                         type: boolean
+   *       500:
+   *         description: Internal server error.
+   */
+  router.get('/seasons', (req, res) => {
+    try {
+      res.json({
+        success: true,
+        seasons: leaderboardService.listSeasons()
+      });
+    } catch (error) {
+      console.error('Error listing leaderboard seasons:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/leaderboard:
+   *   get:
+   *     summary: Get a page of a season's leaderboard
+   *     description: |
+   *       Ranks players by net winnings, win rate (with a minimum number of games,
+   *       LEADERBOARD_MIN_GAMES) or team Elo rating over the games that ended in
+   *       the season. With `role`, only games played as that role count. Ended
+   *       seasons are served from a snapshot frozen when the season closed.
+   *     tags:
+   *       - Leaderboard
+   *     parameters:
+   *       - in: query
+   *         name: season
+   *         schema:
+   *           type: string
+   *         description: Season ID (defaults to the current season).
+   *       - in: query
+   *         name: mode
+   *         schema:
+   *           type: string
+   *           enum: [net, winrate, rating]
+   *         description: Ranking mode (default net).
+   *       - in: query
+   *         name: role
+   *         schema:
+   *           type: string
+   *           enum: [Mafia, Doctor, Detective, Villager]
+   *         description: Per-role board.
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: number
+   *         description: 1-based page number.
+   *       - in: query
+   *         name: pageSize
+   *         schema:
+   *           type: number
+   *         description: Rows per page (max 100).
+   *       - in: query
+   *         name: address
+   *         schema:
+   *           type: string
+   *         description: Return the page containing this player instead of `page`.
+   *     responses:
+   *       200:
+   *         description: Leaderboard page retrieved successfully.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 leaderboard:
+   *                   type: object
+   *                   properties:
+   *                     season:
+   *                       type: object
+   *                     page:
+   *                       type: number
+   *                     total:
+   *                       type: number
+   *                     entries:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                     me:
+   *                       type: object
+   *                       nullable: true
+   *       400:
+   *         description: Invalid mode, role or address.
+   *       404:
+   *         description: Season not found.
+   *       500:
+   *         description: Internal server error.
+   */
+  router.get('/', async (req, res) => {
+    try {
+      const { season, mode, role, page, pageSize, address } = req.query;
+
+      if (mode && !['net', 'winrate', 'rating'].includes(mode)) {
+        return res.status(400).json({ error: 'mode must be net, winrate or rating' });
+      }
+      if (role && !['Mafia', 'Doctor', 'Detective', 'Villager'].includes(role)) {
+        return res.status(400).json({ error: 'Invalid role' });
+      }
+      if (address && !ethers.isAddress(address)) {
+        return res.status(400).json({ error: 'Invalid player address' });
+      }
+
+      const leaderboard = await leaderboardService.getLeaderboard({
+        seasonId: season,
+        mode: mode || 'net',
+        role,
+        page: parseInt(page) || 1,
+        pageSize: parseInt(pageSize) || 20,
+        address
+      });
+
+      if (!leaderboard) {
+        return res.status(404).json({ error: 'Season not found' });
+      }
+
+      res.json({
+        success: true,
+        leaderboard
+      });
+    } catch (error) {
+      console.error('Error getting leaderboard:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  return router;
+};
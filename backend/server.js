@@ -6,6 +6,8 @@ require('dotenv').config();
 
 const connectDB = require('./config/database');
 const gameRoutes = require('./routes/game');
+const authRoutes = require('./routes/auth');
+const leaderboardRoutes = require('./routes/leaderboard');
 
 
 const faucetRoutes = require('./routes/faucet');
@@ -13,6 +15,7 @@ const faucetRoutes = require('./routes/faucet');
 const GameManager = require('./services/game/GameManager');
 const SocketManager = require('./services/core/SocketManager');
 const EVMService = require('./services/evm/EVMService');
+const AuthService = require('./services/core/AuthService');
 
 const app = express();
 const server = http.createServer(app);
@@ -73,8 +76,9 @@ app.use((req, res, next) => {
 
 // Initialize services
 const evmService = new EVMService();
+const authService = new AuthService();
 const gameManager = new GameManager(null, evmService); // Pass evmService to GameManager
-const socketManager = new SocketManager(io, gameManager);
+const socketManager = new SocketManager(io, gameManager, authService);
 
 // Set the socketManager reference in gameManager
 gameManager.socketManager = socketManager;
@@ -88,7 +92,9 @@ evmService.initialize().then(() => {
 });
 
 // Routes
-app.use('/api/game', gameRoutes(gameManager, evmService));
+app.use('/api/auth', authRoutes(authService));
+app.use('/api/game', gameRoutes(gameManager, evmService, authService));
+app.use('/api/leaderboard', leaderboardRoutes(gameManager));
 
 
 app.use('/api/faucet', faucetRoutes);
@@ -102,13 +108,39 @@ app.get('/api/health', (req, res) => {
   });
 });
 
+// Session token from the SIWE sign-in (socket.handshake.auth.token). Connecting
+// without one is allowed; game events are checked per event so an expired
+// session is noticed without dropping the connection.
+io.use((socket, next) => {
+  socket.data.authToken = socket.handshake.auth?.token || null;
+  next();
+});
+
+const SIGN_IN_REQUIRED = 'Sign in with your wallet to continue';
+
 // Socket.IO connection handling with enhanced logging
 io.on('connection', (socket) => {
   console.log(`🔌 Client connected: ${socket.id} from ${socket.handshake.address}`);
 
   socket.on('join_game', (data) => {
     console.log(`🎮 Join game request from ${socket.id}:`, data);
-    socketManager.handleJoinGame(socket, data);
+    const authed = socketManager.authenticate(socket, data);
+    if (!authed) {
+      socket.emit('error', { message: SIGN_IN_REQUIRED });
+      return;
+    }
+    socketManager.handleJoinGame(socket, authed);
+  });
+
+  // Client asks for anything newer than the last game_state version it saw (after reconnect)
+  socket.on('request_sync', (data, ack) => {
+    console.log(`🔄 Sync requested by ${socket.id}:`, data);
+    const authed = socketManager.authenticate(socket, data);
+    if (!authed) {
+      socketManager.acknowledge(ack, { ok: false, version: 0, upToDate: false, error: SIGN_IN_REQUIRED });
+      return;
+    }
+    socketManager.handleSyncRequest(socket, authed, ack);
   });
 
   socket.on('disconnect', (reason) => {
@@ -117,24 +149,92 @@ io.on('connection', (socket) => {
   });
 
   // Game action handlers
-  socket.on('submit_action', (data) => {
+  socket.on('submit_action', (data, ack) => {
     console.log(`⚡ Action submitted by ${socket.id}:`, data);
-    socketManager.handleSubmitAction(socket, data);
+    const authed = socketManager.authenticate(socket, data);
+    if (!authed) {
+      socketManager.rejectAction(socket, ack, data?.requestId, SIGN_IN_REQUIRED);
+      return;
+    }
+    socketManager.handleSubmitAction(socket, authed, ack);
+  });
+
+  socket.on('reveal_action', (data, ack) => {
+    console.log(`🔓 Action reveal from ${socket.id}`);
+    const authed = socketManager.authenticate(socket, data);
+    if (!authed) {
+      socketManager.rejectAction(socket, ack, data?.requestId, SIGN_IN_REQUIRED);
+      return;
+    }
+    socketManager.handleRevealAction(socket, authed, ack);
   });
 
-  socket.on('submit_task', (data) => {
+  socket.on('submit_task', (data, ack) => {
     console.log(`📝 Task submitted by ${socket.id}:`, data);
-    socketManager.handleSubmitTask(socket, data);
+    const authed = socketManager.authenticate(socket, data);
+    if (!authed) {
+      socketManager.rejectAction(socket, ack, data?.requestId, SIGN_IN_REQUIRED);
+      return;
+    }
+    socketManager.handleSubmitTask(socket, authed, ack);
   });
 
-  socket.on('submit_vote', (data) => {
+  socket.on('submit_vote', (data, ack) => {
     console.log(`🗳️ Vote submitted by ${socket.id}:`, data);
-    socketManager.handleSubmitVote(socket, data);
+    const authed = socketManager.authenticate(socket, data);
+    if (!authed) {
+      socketManager.rejectAction(socket, ack, data?.requestId, SIGN_IN_REQUIRED);
+      return;
+    }
+    socketManager.handleSubmitVote(socket, authed, ack);
+  });
+
+  // Spectators don't need to be signed in; they only ever get public state
+  socket.on('spectate_game', (data, ack) => {
+    console.log(`👀 Spectate request from ${socket.id}:`, data);
+    socketManager.handleSpectate(socket, data, ack);
+  });
+
+  socket.on('leave_spectate', () => {
+    socketManager.handleLeaveSpectate(socket);
+  });
+
+  socket.on('spectator_chat', (data) => {
+    socketManager.handleSpectatorChat(socket, data);
+  });
+
+  socket.on('watch_lobbies', (data, ack) => {
+    socketManager.handleWatchLobbies(socket, ack);
+  });
+
+  socket.on('unwatch_lobbies', () => {
+    socketManager.handleUnwatchLobbies(socket);
+  });
+
+  socket.on('queue_join', (data, ack) => {
+    console.log(`🎯 Quick match request from ${socket.id}:`, data);
+    const authed = socketManager.authenticate(socket, data);
+    if (!authed) {
+      socketManager.acknowledge(ack, { ok: false, error: SIGN_IN_REQUIRED });
+      return;
+    }
+    socketManager.handleQueueJoin(socket, authed, ack);
+  });
+
+  socket.on('queue_leave', (data, ack) => {
+    const authed = socketManager.authenticate(socket, data);
+    if (!authed) {
+      socketManager.acknowledge(ack, { ok: false, error: SIGN_IN_REQUIRED });
+      return;
+    }
+    socketManager.handleQueueLeave(socket, authed, ack);
   });
 
   socket.on('chat_message', (data) => {
     console.log(`💬 Chat message from ${socket.id}:`, data);
-    socketManager.handleChatMessage(socket, data);
+    const authed = socketManager.authenticate(socket, data);
+    if (!authed) return;
+    socketManager.handleChatMessage(socket, authed);
   });
 });
 
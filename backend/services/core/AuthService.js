@@ -0,0 +1,141 @@
+const crypto = require('crypto');
+const { ethers } = require('ethers');
+const { parseSiweMessage } = require('../../utils/siwe');
+
+/**
+ * AuthService - Sign-In with Ethereum sessions
+ *
+ * Flow: client fetches a nonce, has the wallet sign an EIP-4361 message that
+ * contains it, and exchanges message + signature for a session token. REST
+ * requests and socket events act as the wallet bound to that token.
+ */
+class AuthService {
+  constructor() {
+    this.nonces = new Map(); // nonce -> expiresAt
+    this.sessions = new Map(); // token -> { address, chainId, expiresAt }
+
+    this.NONCE_TTL_MS = 5 * 60 * 1000; // 5 minutes to sign
+    this.SESSION_TTL_MS = parseInt(process.env.AUTH_SESSION_TTL_MS) || 12 * 60 * 60 * 1000; // 12 hours
+
+    // Only accept messages signed for our own frontend host(s) - otherwise a
+    // sign-in signature collected by any other site would log in here too
+    this.expectedDomains = (process.env.SIWE_DOMAIN || '').split(',').map(domain => domain.trim()).filter(Boolean);
+    if (this.expectedDomains.length === 0) {
+      throw new Error('SIWE_DOMAIN is not configured - set it to the frontend host(s) players sign in from');
+    }
+
+    // Optional: only accept messages for this chain
+    this.expectedChainId = process.env.CHAIN_ID ? parseInt(process.env.CHAIN_ID) : null;
+  }
+
+  /**
+   * Issue a single-use nonce for a SIWE message
+   * @returns {{nonce: string, expiresAt: number}}
+   */
+  createNonce() {
+    this.pruneExpired();
+
+    // EIP-4361 nonces are alphanumeric
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const expiresAt = Date.now() + this.NONCE_TTL_MS;
+    this.nonces.set(nonce, expiresAt);
+
+    return { nonce, expiresAt };
+  }
+
+  /**
+   * Verify a signed SIWE message and start a session
+   * @param {string} message - EIP-4361 message
+   * @param {string} signature - Wallet signature of the message
+   * @returns {{token: string, address: string, expiresAt: number}}
+   * @throws {Error} if the message, nonce or signature is invalid
+   */
+  verifyLogin(message, signature) {
+    const fields = parseSiweMessage(message);
+    const now = Date.now();
+
+    const nonceExpiresAt = this.nonces.get(fields.nonce);
+    if (!nonceExpiresAt || nonceExpiresAt < now) {
+      throw new Error('Invalid or expired nonce');
+    }
+    // Single use, even if verification fails below
+    this.nonces.delete(fields.nonce);
+
+    if (!this.expectedDomains.includes(fields.domain)) {
+      throw new Error(`Message is for ${fields.domain}, expected ${this.expectedDomains.join(' or ')}`);
+    }
+
+    if (this.expectedChainId && fields.chainId !== this.expectedChainId) {
+      throw new Error(`Message is for chain ${fields.chainId}, expected ${this.expectedChainId}`);
+    }
+
+    if (fields.expirationTime && Date.parse(fields.expirationTime) < now) {
+      throw new Error('Message has expired');
+    }
+
+    if (fields.notBefore && Date.parse(fields.notBefore) > now) {
+      throw new Error('Message is not valid yet');
+    }
+
+    if (!ethers.isAddress(fields.address)) {
+      throw new Error('Invalid address in message');
+    }
+
+    const address = ethers.getAddress(fields.address);
+    const signer = ethers.verifyMessage(message, signature);
+    if (signer !== address) {
+      throw new Error('Signature does not match address');
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const messageExpiry = fields.expirationTime ? Date.parse(fields.expirationTime) : Infinity;
+    const expiresAt = Math.min(now + this.SESSION_TTL_MS, messageExpiry);
+
+    this.sessions.set(token, { address, chainId: fields.chainId, expiresAt });
+    console.log(`🔐 Session started for ${address} (expires ${new Date(expiresAt).toISOString()})`);
+
+    return { token, address, expiresAt };
+  }
+
+  /**
+   * Look up a session by token
+   * @param {string|null|undefined} token
+   * @returns {{address: string, chainId: number, expiresAt: number}|null} null if missing or expired
+   */
+  getSession(token) {
+    if (!token) return null;
+
+    const session = this.sessions.get(token);
+    if (!session) return null;
+
+    if (session.expiresAt < Date.now()) {
+      this.sessions.delete(token);
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * End a session
+   * @param {string} token
+   */
+  revoke(token) {
+    this.sessions.delete(token);
+  }
+
+  /**
+   * Drop expired nonces and sessions
+   */
+  pruneExpired() {
+    const now = Date.now();
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt < now) this.nonces.delete(nonce);
+    }
+    for (const [token, session] of this.sessions) {
+      if (session.expiresAt < now) this.sessions.delete(token);
+    }
+  }
+}
+
+module.exports = AuthService;
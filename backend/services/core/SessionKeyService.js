@@ -0,0 +1,125 @@
+const { ethers } = require('ethers');
+const { buildDelegationMessage, buildActionMessage } = require('../../utils/sessionKeys');
+
+/**
+ * SessionKeyService - per-game delegated signing keys
+ *
+ * Asking the wallet to sign every vote would be too slow for a 10 second
+ * phase, so each player's wallet signs a single delegation for a browser-held
+ * key, scoped to one game and a time window. Night actions, task answers,
+ * votes and chat messages must then carry a signature from that key.
+ */
+class SessionKeyService {
+  constructor() {
+    this.delegations = new Map(); // gameId -> Map(playerAddress lowercase -> { sessionKey, validFrom, validUntil })
+
+    this.MAX_WINDOW_MS = 6 * 60 * 60 * 1000; // A delegation can't outlive 6 hours
+    this.CLOCK_SKEW_MS = 60 * 1000;
+    this.CHAT_MAX_AGE_MS = 60 * 1000; // Chat has no requestId - replays are bounded by its timestamp
+  }
+
+  /**
+   * Register a wallet-signed delegation for a session key
+   * @param {string} gameId
+   * @param {string} playerAddress - Signed-in player (from the SIWE session)
+   * @param {{sessionKey: string, validFrom: number, validUntil: number, signature: string}} delegation
+   * @returns {{sessionKey: string, validUntil: number}}
+   * @throws {Error} if the window or signature is invalid
+   */
+  registerDelegation(gameId, playerAddress, { sessionKey, validFrom, validUntil, signature }) {
+    if (!ethers.isAddress(sessionKey)) {
+      throw new Error('Invalid session key address');
+    }
+
+    const now = Date.now();
+    if (!Number.isFinite(validFrom) || !Number.isFinite(validUntil) || validUntil <= validFrom) {
+      throw new Error('Invalid delegation window');
+    }
+    if (validFrom > now + this.CLOCK_SKEW_MS || validUntil <= now) {
+      throw new Error('Delegation is not valid now');
+    }
+    if (validUntil - validFrom > this.MAX_WINDOW_MS) {
+      throw new Error('Delegation window is too long');
+    }
+
+    const message = buildDelegationMessage({
+      gameId,
+      playerAddress,
+      sessionKey: ethers.getAddress(sessionKey),
+      validFrom,
+      validUntil
+    });
+    const signer = ethers.verifyMessage(message, signature);
+    if (signer.toLowerCase() !== playerAddress.toLowerCase()) {
+      throw new Error('Delegation was not signed by the player');
+    }
+
+    if (!this.delegations.has(gameId)) {
+      this.delegations.set(gameId, new Map());
+    }
+    this.delegations.get(gameId).set(playerAddress.toLowerCase(), {
+      sessionKey: ethers.getAddress(sessionKey),
+      validFrom,
+      validUntil
+    });
+
+    console.log(`🔑 Session key ${sessionKey} registered for ${playerAddress} in game ${gameId}`);
+    return { sessionKey: ethers.getAddress(sessionKey), validUntil };
+  }
+
+  /**
+   * Check that an action was signed by the player's current session key
+   * @param {string} gameId
+   * @param {'night_action'|'task'|'vote'|'chat'} kind
+   * @param {string} playerAddress
+   * @param {string|null} requestId
+   * @param {object} body - Signed action fields
+   * @param {string} signature - data.sessionSignature from the client
+   * @throws {Error} if there is no valid delegation or the signature doesn't match
+   */
+  verifyAction(gameId, kind, playerAddress, requestId, body, signature) {
+    const delegation = this.delegations.get(gameId)?.get((playerAddress || '').toLowerCase());
+    if (!delegation) {
+      throw new Error('No session key registered for this game');
+    }
+
+    const now = Date.now();
+    if (now > delegation.validUntil || now < delegation.validFrom - this.CLOCK_SKEW_MS) {
+      throw new Error('Session key has expired');
+    }
+
+    if (!signature) {
+      throw new Error('Action is not signed');
+    }
+
+    let signer;
+    try {
+      signer = ethers.verifyMessage(buildActionMessage(kind, gameId, playerAddress, requestId, body), signature);
+    } catch (error) {
+      throw new Error('Invalid action signature');
+    }
+    if (signer !== delegation.sessionKey) {
+      throw new Error('Action was not signed by the session key');
+    }
+
+    if (kind === 'chat' && Math.abs(now - Number(body.timestamp)) > this.CHAT_MAX_AGE_MS) {
+      throw new Error('Chat message is too old');
+    }
+  }
+
+  /**
+   * Forget a player's key (they left the game)
+   */
+  revoke(gameId, playerAddress) {
+    this.delegations.get(gameId)?.delete((playerAddress || '').toLowerCase());
+  }
+
+  /**
+   * Forget every key for a game (ended or cancelled)
+   */
+  clearGame(gameId) {
+    this.delegations.delete(gameId);
+  }
+}
+
+module.exports = SessionKeyService;
@@ -1,13 +1,21 @@
 const crypto = require('crypto');
+const { cloneSnapshot, diffSnapshots } = require('../../utils/statePatch');
+const GameStateFormatter = require('../game/GameStateFormatter');
+
+const LOBBY_BROWSER_ROOM = 'public-lobbies';
 
 class SocketManager {
-  constructor(io, gameManager) {
+  constructor(io, gameManager, authService) {
     this.io = io;
     this.gameManager = gameManager;
+    this.authService = authService;
     this.playerSockets = new Map(); // address -> socket
     this.socketGames = new Map(); // socketId -> gameId
     this.disconnectTimers = new Map(); // playerAddress -> timeout ID
     this.DISCONNECT_GRACE_PERIOD = 60 * 1000; // 60 seconds
+    this.lastSnapshots = new Map(); // gameId -> { version, game } last broadcast snapshot (patch base)
+    this.spectatorStates = new Map(); // gameId -> { version, game } last snapshot released to spectators
+    this.listedLobbies = new Map(); // gameId -> JSON of the public lobby entry last pushed to the lobby browser
   }
 
   handleJoinGame(socket, data) {
@@ -64,23 +72,63 @@ class SocketManager {
     this.playerSockets.set(playerAddress, socket);
     this.socketGames.set(socket.id, gameId);
 
-    // Create a clean, serializable game object (avoid circular references)
-    const cleanGame = {
+    // Private channel: only this (authenticated) player's sockets join it
+    socket.join(this.playerRoom(gameId, playerAddress));
+
+    // Send current game state
+    socket.emit('game_state', {
+      gameId,
+      version: game.stateVersion || 0,
+      game: this.serializeGame(game)
+    });
+
+    // Re-send everything private this player was told so far (reconnects, refreshes)
+    for (const info of game.privateInfo?.[playerAddress.toLowerCase()] || []) {
+      socket.emit('private_info', info);
+    }
+
+    // Notify other players
+    socket.to(`game-${gameId}`).emit('game_update', {
+      type: 'player_joined',
+      playerAddress,
+      timestamp: Date.now()
+    });
+
+    console.log(`Player ${playerAddress} joined game ${gameId}`);
+  }
+
+  // Create a clean, serializable game object (avoid circular references).
+  // This goes to every socket in the game room, so it must not contain anyone's
+  // secrets: roles are limited to what is public, night actions are left out and
+  // the night resolution only says who died or was saved.
+  serializeGame(game) {
+    return {
       gameId: game.gameId,
       roomCode: game.roomCode,
       creator: game.creator,
       players: game.players,
-      // roles: game.roles, // Roles are private
+      roles: GameStateFormatter.getPublicRoles(game),
       phase: game.phase,
       timeLeft: game.timeLeft,
       day: game.day,
       eliminated: game.eliminated,
-      nightResolution: game.nightResolution,
+      nightResolution: GameStateFormatter.getPublicNightResolution(game.nightResolution),
+      nightReveal: game.nightReveal,
+      commitLog: game.commitLog,
       task: game.task,
       votes: game.votes,
-      pendingActions: game.pendingActions,
       startedAt: game.startedAt,
       roleCommit: game.roleCommit,
+      roleReveal: game.roleReveal,
+      serverSeedCommit: game.serverSeedCommit,
+      seedCommits: game.seedCommits,
+      seedRound: game.seedRound,
+      stakedPlayers: GameStateFormatter.getStakedPlayers(game),
+      lobbyReady: game.lobbyReady,
+      readyCheck: game.readyCheck,
+      locked: game.locked,
+      bannedPlayers: game.bannedPlayers,
+      stateVersion: game.stateVersion,
       rewards: game.rewards,
       winners: game.winners,
       status: game.status,
@@ -92,26 +140,50 @@ class SocketManager {
       isGameOver: game.isGameOver,
       isPublic: game.isPublic,
       minPlayers: game.minPlayers,
-      maxPlayers: game.maxPlayers
+      maxPlayers: game.maxPlayers,
+      spectatorCount: game.spectatorCount || 0
     };
+  }
 
-    // Send current game state
-    socket.emit('game_state', {
-      gameId,
-      game: cleanGame
-    });
+  handleSyncRequest(socket, data, ack) {
+    const { gameId, playerAddress, sinceVersion } = data || {};
+    const reply = typeof ack === 'function' ? ack : () => { };
 
-    // Notify other players
-    socket.to(`game-${gameId}`).emit('game_update', {
-      type: 'player_joined',
-      playerAddress,
-      timestamp: Date.now()
-    });
+    const game = this.gameManager.getGame(gameId);
+    if (!game) {
+      reply({ ok: false, version: 0, upToDate: false, error: 'Game not found' });
+      return;
+    }
 
-    console.log(`Player ${playerAddress} joined game ${gameId}`);
+    if (!game.players.includes(playerAddress)) {
+      reply({ ok: false, version: game.stateVersion || 0, upToDate: false, error: 'Player not in game' });
+      return;
+    }
+
+    const version = game.stateVersion || 0;
+    const upToDate = typeof sinceVersion === 'number' && sinceVersion >= version;
+
+    console.log(`🔄 Sync request from ${playerAddress} for game ${gameId}: client v${sinceVersion}, server v${version}`);
+
+    // Only resend the snapshot if the client is actually behind
+    if (!upToDate) {
+      socket.emit('game_state', {
+        gameId,
+        version,
+        game: this.serializeGame(game)
+      });
+    }
+
+    reply({ ok: true, version, upToDate });
   }
 
   handleDisconnect(socket) {
+    this.gameManager.matchmakingService.handleDisconnect(socket);
+
+    if (socket.data.spectating) {
+      this.updateSpectatorCount(socket.data.spectating);
+    }
+
     const gameId = this.socketGames.get(socket.id);
     if (gameId) {
       // Find player address
@@ -178,22 +250,59 @@ class SocketManager {
     this.socketGames.delete(socket.id);
   }
 
-  handleSubmitAction(socket, data) {
-    const { gameId, action, commit } = data;
+  // Quick match: queue the signed-in player for a stake tier and lobby size.
+  // The ack carries their queue status; queue_status updates follow.
+  async handleQueueJoin(socket, data, ack) {
+    try {
+      const status = await this.gameManager.matchmakingService.joinQueue(socket, data.playerAddress, {
+        stakeTier: data.stakeTier,
+        lobbySize: data.lobbySize
+      });
+      this.acknowledge(ack, { ok: true, status });
+    } catch (error) {
+      this.acknowledge(ack, { ok: false, error: error.message });
+    }
+  }
+
+  // Leave the queue, or give up a match before staking
+  async handleQueueLeave(socket, data, ack) {
+    try {
+      await this.gameManager.matchmakingService.leaveQueue(data.playerAddress);
+      this.acknowledge(ack, { ok: true });
+    } catch (error) {
+      this.acknowledge(ack, { ok: false, error: error.message });
+    }
+  }
+
+  handleSubmitAction(socket, data, ack) {
+    const { gameId, requestId } = data;
     const game = this.gameManager.getGame(gameId);
 
     if (!game) {
-      socket.emit('error', { message: 'Game not found' });
+      this.rejectAction(socket, ack, requestId, 'Game not found');
       return;
     }
 
-    // Validate action based on game phase
-    if (game.phase === 'night') {
-      this.gameManager.submitNightAction(gameId, data);
-    } else if (game.phase === 'voting') {
-      this.gameManager.submitVote(gameId, data);
+    let duplicate;
+    try {
+      // Validate action based on game phase
+      ({ duplicate } = this.gameManager.processRequestOnce(gameId, data.playerAddress, requestId, () => {
+        if (game.phase === 'night') {
+          return this.gameManager.submitNightAction(gameId, data);
+        } else if (game.phase === 'voting') {
+          return this.gameManager.submitVote(gameId, data);
+        }
+        throw new Error(`Invalid game phase for action: ${game.phase}`);
+      }));
+    } catch (error) {
+      console.error(`❌ Action ${requestId} rejected:`, error.message);
+      this.rejectAction(socket, ack, requestId, error.message);
+      return;
     }
 
+    this.acknowledge(ack, { ok: true, requestId, duplicate });
+    if (duplicate) return;
+
     // Broadcast action submission
     this.io.to(`game-${gameId}`).emit('game_update', {
       type: 'action_submitted',
@@ -203,16 +312,51 @@ class SocketManager {
     });
   }
 
-  handleSubmitTask(socket, data) {
-    const { gameId, answer } = data;
+  handleRevealAction(socket, data, ack) {
+    const { gameId, requestId } = data;
+    const game = this.gameManager.getGame(gameId);
+
+    if (!game) {
+      this.rejectAction(socket, ack, requestId, 'Game not found');
+      return;
+    }
+
+    let result, duplicate;
+    try {
+      ({ result, duplicate } = this.gameManager.processRequestOnce(gameId, data.playerAddress, requestId, () =>
+        this.gameManager.revealNightAction(gameId, data)
+      ));
+    } catch (error) {
+      console.error(`❌ Reveal ${requestId} rejected:`, error.message);
+      this.rejectAction(socket, ack, requestId, error.message);
+      return;
+    }
+
+    this.acknowledge(ack, { ok: true, requestId, duplicate, verified: result.verified });
+  }
+
+  handleSubmitTask(socket, data, ack) {
+    const { gameId, requestId } = data;
     const game = this.gameManager.getGame(gameId);
 
     if (!game || game.phase !== 'task') {
-      socket.emit('error', { message: 'Invalid game phase for task submission' });
+      this.rejectAction(socket, ack, requestId, 'Invalid game phase for task submission');
       return;
     }
 
-    const result = this.gameManager.submitTaskAnswer(gameId, data);
+    let result, duplicate;
+    try {
+      ({ result, duplicate } = this.gameManager.processRequestOnce(gameId, data.playerAddress, requestId, () =>
+        this.gameManager.submitTaskAnswer(gameId, data)
+      ));
+    } catch (error) {
+      console.error(`❌ Task ${requestId} rejected:`, error.message);
+      this.rejectAction(socket, ack, requestId, error.message);
+      return;
+    }
+
+    this.acknowledge(ack, { ok: true, requestId, duplicate, correct: result.correct });
+    if (duplicate) return;
 
     this.io.to(`game-${gameId}`).emit('task_update', {
       playerAddress: data.playerAddress,
@@ -230,16 +374,28 @@ class SocketManager {
     }
   }
 
-  handleSubmitVote(socket, data) {
-    const { gameId, vote } = data;
+  handleSubmitVote(socket, data, ack) {
+    const { gameId, requestId } = data;
     const game = this.gameManager.getGame(gameId);
 
     if (!game || game.phase !== 'voting') {
-      socket.emit('error', { message: 'Invalid game phase for voting' });
+      this.rejectAction(socket, ack, requestId, 'Invalid game phase for voting');
       return;
     }
 
-    this.gameManager.submitVote(gameId, data);
+    let duplicate;
+    try {
+      ({ duplicate } = this.gameManager.processRequestOnce(gameId, data.playerAddress, requestId, () =>
+        this.gameManager.submitVote(gameId, data)
+      ));
+    } catch (error) {
+      console.error(`❌ Vote ${requestId} rejected:`, error.message);
+      this.rejectAction(socket, ack, requestId, error.message);
+      return;
+    }
+
+    this.acknowledge(ack, { ok: true, requestId, duplicate });
+    if (duplicate) return;
 
     this.io.to(`game-${gameId}`).emit('game_update', {
       type: 'vote_submitted',
@@ -248,6 +404,46 @@ class SocketManager {
     });
   }
 
+  // The player a socket event acts for is the wallet signed in with the
+  // handshake token, not whatever playerAddress the client put in the payload.
+  // Returns the payload with playerAddress replaced, or null (after telling
+  // the client to sign in again) if there's no valid session for it.
+  authenticate(socket, data) {
+    const token = socket.data.authToken;
+    const session = this.authService.getSession(token);
+
+    if (!session) {
+      socket.emit('auth_required', { reason: token ? 'expired' : 'missing' });
+      return null;
+    }
+
+    const claimed = data && data.playerAddress;
+    if (claimed && claimed.toLowerCase() !== session.address.toLowerCase()) {
+      console.log(`🔐 Socket ${socket.id} claimed ${claimed} but is signed in as ${session.address}`);
+      socket.emit('auth_required', { reason: 'address_mismatch' });
+      return null;
+    }
+
+    return { ...data, playerAddress: session.address };
+  }
+
+  // Reply to a client's ack callback (clients that emit without one get nothing)
+  acknowledge(ack, payload) {
+    if (typeof ack === 'function') {
+      ack(payload);
+    }
+  }
+
+  // Report a rejected action: through the ack if the client asked for one,
+  // otherwise as a socket error like before
+  rejectAction(socket, ack, requestId, message) {
+    if (typeof ack === 'function') {
+      ack({ ok: false, requestId, error: message });
+    } else {
+      socket.emit('error', { message });
+    }
+  }
+
   handleChatMessage(socket, data) {
     const { gameId, message, playerAddress } = data;
     const game = this.gameManager.getGame(gameId);
@@ -257,10 +453,20 @@ class SocketManager {
       return;
     }
 
+    try {
+      this.gameManager.verifySignedAction(gameId, 'chat', data);
+    } catch (error) {
+      console.error(`❌ Chat message from ${playerAddress} rejected:`, error.message);
+      socket.emit('error', { message: error.message });
+      return;
+    }
+
     // Get player info for the message
     const playerIndex = game.players.indexOf(playerAddress);
     const playerInfo = playerIndex >= 0 ? this.getPlayerInfo(playerIndex) : { alias: 'Unknown', avatar: null };
 
+    this.gameManager.recordEvent(game, 'chat', { player: playerAddress, message });
+
     this.io.to(`game-${gameId}`).emit('chat_message', {
       gameId,
       playerAddress,
@@ -404,6 +610,248 @@ class SocketManager {
     }
   }
 
+  // Room for one player's private_info events in one game
+  playerRoom(gameId, playerAddress) {
+    return `player-${gameId}-${playerAddress.toLowerCase()}`;
+  }
+
+  // Send a secret to one player. Events are kept on the game so a player who
+  // reconnects gets them again on join_game; seq lets the client drop repeats.
+  emitPrivateInfo(gameId, playerAddress, info) {
+    const game = this.gameManager.getGame(gameId);
+    if (!game) return;
+
+    if (!game.privateInfo) {
+      game.privateInfo = {};
+    }
+    // Keyed like the player's room, so a join with any casing of the address gets the replay
+    const key = playerAddress.toLowerCase();
+    if (!game.privateInfo[key]) {
+      game.privateInfo[key] = [];
+    }
+
+    const history = game.privateInfo[key];
+    const event = { ...info, gameId, seq: history.length, timestamp: Date.now() };
+    history.push(event);
+
+    console.log(`🔒 Private ${info.type} for ${playerAddress} in game ${gameId}`);
+    if (this.io) {
+      this.io.to(this.playerRoom(gameId, playerAddress)).emit('private_info', event);
+    }
+  }
+
+  // Each player's role, plus the other ASUR for ASUR players
+  emitRoleAssignments(gameId) {
+    const game = this.gameManager.getGame(gameId);
+    if (!game) return;
+
+    const mafia = game.players.filter(address => game.roles[address] === 'Mafia');
+    for (const playerAddress of game.players) {
+      const role = game.roles[playerAddress];
+      this.emitPrivateInfo(gameId, playerAddress, { type: 'role', role });
+
+      if (role === 'Mafia') {
+        this.emitPrivateInfo(gameId, playerAddress, {
+          type: 'teammates',
+          role,
+          teammates: mafia.filter(address => address !== playerAddress)
+        });
+      }
+    }
+  }
+
+  // Lobby browser: sockets in this room get lobby_update whenever a public
+  // lobby appears, changes or goes away. No sign-in needed.
+  handleWatchLobbies(socket, ack) {
+    socket.join(LOBBY_BROWSER_ROOM);
+    this.acknowledge(ack, { ok: true });
+  }
+
+  handleUnwatchLobbies(socket) {
+    socket.leave(LOBBY_BROWSER_ROOM);
+  }
+
+  // Push a game's public lobby entry to the lobby browser: upsert while it is
+  // listed, remove once it fills, starts, goes private or is cancelled
+  emitLobbyUpdate(gameId) {
+    if (!this.io) return;
+
+    const game = this.gameManager.getGame(gameId);
+    const reason = GameStateFormatter.getLobbyUnlistedReason(game);
+    const previous = this.listedLobbies.get(gameId);
+
+    if (reason) {
+      // Only games that were listed (or a cancelled one the list may hold from REST) need a remove
+      if (previous || reason === 'cancelled') {
+        this.listedLobbies.delete(gameId);
+        this.io.to(LOBBY_BROWSER_ROOM).emit('lobby_update', { type: 'remove', gameId, reason });
+      }
+      return;
+    }
+
+    const lobby = GameStateFormatter.getPublicLobby({
+      gameId,
+      roomCode: game.roomCode,
+      creator: game.creator,
+      stakeAmount: game.stakeAmount,
+      minPlayers: game.minPlayers,
+      maxPlayers: game.maxPlayers,
+      currentPlayers: [...game.players],
+      createdAt: new Date(game.createdAt || Date.now()).toISOString(),
+      settings: { roleSetup: game.settings?.roleSetup },
+      contractGameId: game.onChainGameId ? String(game.onChainGameId) : undefined
+    });
+    const serialized = JSON.stringify(lobby);
+    if (serialized === previous) return;
+
+    this.listedLobbies.set(gameId, serialized);
+    this.io.to(LOBBY_BROWSER_ROOM).emit('lobby_update', { type: 'upsert', lobby });
+  }
+
+  spectatorRoom(gameId) {
+    return `spectate-${gameId}`;
+  }
+
+  // Spectating is on unless the host turned it off; the delay defaults to 10s
+  getSpectatorSettings(game) {
+    const delay = game.settings?.spectatorDelay ?? parseInt(process.env.DEFAULT_SPECTATOR_DELAY ?? '10');
+    return {
+      allowed: game.settings?.allowSpectators !== false,
+      delaySeconds: delay
+    };
+  }
+
+  // Watch a game by room code without being in it. Spectators only ever get
+  // the public snapshot, released spectatorDelay seconds after players saw it.
+  handleSpectate(socket, data, ack) {
+    const roomCode = (data?.roomCode || '').trim().toUpperCase();
+    const game = this.gameManager.getGameByRoomCode(roomCode);
+    if (!game) {
+      this.acknowledge(ack, { ok: false, error: 'Game not found' });
+      return;
+    }
+
+    const { allowed, delaySeconds } = this.getSpectatorSettings(game);
+    if (!allowed) {
+      this.acknowledge(ack, { ok: false, error: 'Spectating is turned off for this game' });
+      return;
+    }
+
+    // A player watching their own game could pass spectator chat along to it
+    const session = this.authService.getSession(socket.data.authToken);
+    if (session && game.players.some(player => player.toLowerCase() === session.address.toLowerCase())) {
+      this.acknowledge(ack, { ok: false, error: 'Players cannot spectate their own game' });
+      return;
+    }
+
+    if (socket.data.spectating && socket.data.spectating !== game.gameId) {
+      this.handleLeaveSpectate(socket);
+    }
+
+    socket.join(this.spectatorRoom(game.gameId));
+    socket.data.spectating = game.gameId;
+    socket.data.spectatorName = session
+      ? `${session.address.slice(0, 6)}…${session.address.slice(-4)}`
+      : `Spectator ${socket.id.slice(0, 4).toUpperCase()}`;
+
+    console.log(`👀 ${socket.data.spectatorName} is spectating game ${game.gameId} (${delaySeconds}s delay)`);
+    this.acknowledge(ack, { ok: true, gameId: game.gameId, delay: delaySeconds, name: socket.data.spectatorName });
+
+    // Nothing in the lobby is secret, so it can be shown right away
+    const released = this.spectatorStates.get(game.gameId);
+    if (released) {
+      socket.emit('spectator_state', { gameId: game.gameId, version: released.version, delay: delaySeconds, game: released.game });
+    } else if (game.phase === 'lobby') {
+      socket.emit('spectator_state', { gameId: game.gameId, version: game.stateVersion || 0, delay: delaySeconds, game: this.serializeGame(game) });
+    }
+
+    this.updateSpectatorCount(game.gameId);
+  }
+
+  handleLeaveSpectate(socket) {
+    const gameId = socket.data.spectating;
+    if (!gameId) return;
+
+    socket.leave(this.spectatorRoom(gameId));
+    socket.data.spectating = null;
+    this.updateSpectatorCount(gameId);
+  }
+
+  // Chat between spectators only; players never join the spectator room
+  handleSpectatorChat(socket, data) {
+    const gameId = socket.data.spectating;
+    const message = typeof data?.message === 'string' ? data.message.trim() : '';
+
+    if (!gameId || data?.gameId !== gameId) {
+      socket.emit('error', { message: 'Not spectating this game' });
+      return;
+    }
+    if (!message || message.length > 500) {
+      socket.emit('error', { message: 'Message must be 1-500 characters' });
+      return;
+    }
+
+    this.io.to(this.spectatorRoom(gameId)).emit('spectator_chat_message', {
+      gameId,
+      name: socket.data.spectatorName,
+      message,
+      timestamp: Date.now()
+    });
+  }
+
+  updateSpectatorCount(gameId) {
+    const game = this.gameManager.getGame(gameId);
+    if (!game || !this.io) return;
+
+    const count = this.io.sockets.adapter.rooms.get(this.spectatorRoom(gameId))?.size || 0;
+    if (game.spectatorCount === count) return;
+
+    game.spectatorCount = count;
+    this.emitGameStateUpdate(gameId);
+  }
+
+  // Send spectators away (spectating turned off, game cancelled)
+  closeSpectators(gameId, reason) {
+    if (!this.io) return;
+
+    const room = this.spectatorRoom(gameId);
+    this.io.to(room).emit('spectate_closed', { gameId, reason });
+    for (const socketId of this.io.sockets.adapter.rooms.get(room) || []) {
+      const socket = this.io.sockets.sockets.get(socketId);
+      if (socket) {
+        socket.data.spectating = null;
+      }
+    }
+    this.io.in(room).socketsLeave(room);
+    this.spectatorStates.delete(gameId);
+
+    const game = this.gameManager.getGame(gameId);
+    if (game) {
+      game.spectatorCount = 0;
+    }
+  }
+
+  // Hand a broadcast snapshot to spectators once the delay has passed
+  releaseToSpectators(game, version, snapshot) {
+    const { allowed, delaySeconds } = this.getSpectatorSettings(game);
+    if (!allowed) return;
+
+    const gameId = game.gameId;
+    const release = () => {
+      const current = this.spectatorStates.get(gameId);
+      if (current && current.version >= version) return;
+
+      this.spectatorStates.set(gameId, { version, game: snapshot });
+      this.io.to(this.spectatorRoom(gameId)).emit('spectator_state', { gameId, version, delay: delaySeconds, game: snapshot });
+    };
+
+    if (delaySeconds > 0) {
+      setTimeout(release, delaySeconds * 1000);
+    } else {
+      release();
+    }
+  }
+
   // Emit game state update to all players in a game
   emitGameStateUpdate(gameId) {
     try {
@@ -420,44 +868,41 @@ class SocketManager {
 
       console.log(`📡 Emitting game state update for game ${gameId}, phase: ${game.phase}`);
 
-      // Create a clean, serializable game object (avoid circular references)
-      const cleanGame = {
-        gameId: game.gameId,
-        roomCode: game.roomCode,
-        creator: game.creator,
-        players: game.players,
-        roles: game.roles,
-        phase: game.phase,
-        timeLeft: game.timeLeft,
-        day: game.day,
-        eliminated: game.eliminated,
-        nightResolution: game.nightResolution,
-        task: game.task,
-        votes: game.votes,
-        pendingActions: game.pendingActions,
-        startedAt: game.startedAt,
-        roleCommit: game.roleCommit,
-        rewards: game.rewards,
-        winners: game.winners,
-        status: game.status,
-        votingResolved: game.votingResolved,
-        votingResult: game.votingResult,
-        lastVotingResult: game.lastVotingResult,
-        taskCounts: game.taskCounts,
-        settings: game.settings,
-        isGameOver: game.isGameOver,
-        isPublic: game.isPublic,
-        minPlayers: game.minPlayers,
-        maxPlayers: game.maxPlayers
-      };
+      // Deep copy so later in-place mutations of the game can't leak into the patch base
+      const cleanGame = cloneSnapshot(this.serializeGame(game));
+      const previous = this.lastSnapshots.get(gameId);
+      const ops = previous ? diffSnapshots(previous.game, cleanGame) : null;
 
       console.log(`📡 Emitting votingResult: ${game.votingResult} for game ${gameId}`);
 
-      // Emit to all players in the game
-      this.io.to(`game-${gameId}`).emit('game_state', {
-        gameId: gameId,
-        game: cleanGame
-      });
+      if (ops && ops.length === 0) {
+        console.log(`📡 No state changes for game ${gameId} - skipping game_state broadcast`);
+      } else {
+        // Every broadcast gets a new version; clients drop anything older than what they have
+        game.stateVersion = (game.stateVersion || 0) + 1;
+        cleanGame.stateVersion = game.stateVersion;
+
+        if (previous) {
+          // Send only what changed since the last broadcast. Clients that aren't
+          // at baseVersion ask for a full snapshot via request_sync.
+          this.io.to(`game-${gameId}`).emit('game_patch', {
+            gameId,
+            baseVersion: previous.version,
+            version: game.stateVersion,
+            ops
+          });
+        } else {
+          // First broadcast for this game - send the full snapshot
+          this.io.to(`game-${gameId}`).emit('game_state', {
+            gameId: gameId,
+            version: game.stateVersion,
+            game: cleanGame
+          });
+        }
+
+        this.lastSnapshots.set(gameId, { version: game.stateVersion, game: cleanGame });
+        this.releaseToSpectators(game, game.stateVersion, cleanGame);
+      }
 
       // Also emit a general game update
       this.io.to(`game-${gameId}`).emit('game_update', {
@@ -466,6 +911,8 @@ class SocketManager {
         timeLeft: game.timeLeft
       });
 
+      this.emitLobbyUpdate(gameId);
+
       console.log(`✅ Successfully emitted game state update for game ${gameId}`);
     } catch (error) {
       console.error(`❌ Error emitting game state update for game ${gameId}:`, error);
@@ -117,6 +117,12 @@ class TaskManager {
             game.taskCounts[playerAddress] = Math.max(0, game.taskCounts[playerAddress] - 1);
         }
 
+        this.gameManager.recordEvent(game, 'task_result', {
+            player: playerAddress,
+            success: correct,
+            taskCount: game.taskCounts[playerAddress]
+        });
+
         // Send task result announcement via socket
         if (this.gameManager.socketManager) {
             // Emit task result update (for task count updates)
@@ -128,6 +134,9 @@ class TaskManager {
 
             // Send task announcement to chat
             this.gameManager.socketManager.sendTaskAnnouncement(gameId, playerAddress, correct, game);
+
+            // Push the new task count as a (tiny) state patch
+            this.gameManager.socketManager.emitGameStateUpdate(gameId);
         }
 
         console.log(`📊 Task result for ${playerAddress}: ${correct ? 'SUCCESS' : 'FAILURE'}, count: ${game.taskCounts[playerAddress]}`);
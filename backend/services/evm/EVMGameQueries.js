@@ -142,6 +142,39 @@ module.exports = function (evmService) {
             }
         },
 
+        /**
+         * Read the GameSettled event emitted by a settlement transaction
+         * @param {number} gameId - Game ID the settlement should be for
+         * @param {string} txHash - Settlement transaction hash
+         * @returns {Promise<Object|null>} Winners, payouts (Wei strings) and house fee, or null if not found
+         */
+        async getSettlement(gameId, txHash) {
+            try {
+                const provider = evmService.getProvider();
+                const receipt = await provider.getTransactionReceipt(txHash);
+                if (!receipt || receipt.status !== 1) {
+                    return null;
+                }
+
+                const settled = this.parseReceiptEvents(receipt)
+                    .find(event => event.name === 'GameSettled' && event.args.gameId.toString() === gameId.toString());
+                if (!settled) {
+                    return null;
+                }
+
+                return {
+                    winners: [...settled.args.winners],
+                    payouts: settled.args.payouts.map(p => p.toString()),
+                    houseFee: settled.args.houseFee.toString(),
+                    txHash,
+                    blockNumber: receipt.blockNumber,
+                };
+            } catch (error) {
+                console.error(`❌ Error getting settlement for game ${gameId}:`, error);
+                throw error;
+            }
+        },
+
         /**
          * Get status name from status code
          * @param {number} status - Status code
@@ -80,9 +80,10 @@ module.exports = function (evmService) {
          * @param {number} gameId - Game ID to settle
          * @param {string[]} winners - Array of winner addresses
          * @param {BigInt[]} payoutAmounts - Array of payout amounts in Wei (already BigInt)
+         * @param {string|null} roleCommit - sha256 hex of the role assignment (with or without 0x)
          * @returns {Promise<string>} Transaction hash
          */
-        async settleGame(gameId, winners, payoutAmounts) {
+        async settleGame(gameId, winners, payoutAmounts, roleCommit = null) {
             try {
                 console.log(`🏆 Settling game ${gameId} with ${winners.length} winners`);
 
@@ -93,12 +94,19 @@ module.exports = function (evmService) {
 
                 console.log(`💰 Payout amounts (Wei):`, payoutsWei.map(p => p.toString()));
 
+                // The role commit is signed into the settlement and stored on-chain,
+                // so it can't be swapped after the game
+                const roleCommitBytes = roleCommit
+                    ? ethers.zeroPadValue(roleCommit.startsWith('0x') ? roleCommit : `0x${roleCommit}`, 32)
+                    : ethers.ZeroHash;
+                console.log(`🔐 Anchoring role commit: ${roleCommitBytes}`);
+
                 // Generate signature
-                const signature = await evmService.signSettlement(gameId, winners, payoutsWei);
+                const signature = await evmService.signSettlement(gameId, winners, payoutsWei, roleCommitBytes);
                 console.log(`🔏 Settlement signature generated`);
 
                 // Build and send transaction
-                const tx = await contract.settleGame(gameId, winners, payoutsWei, signature);
+                const tx = await contract.settleGame(gameId, winners, payoutsWei, roleCommitBytes, signature);
                 console.log(`📤 Transaction sent: ${tx.hash}`);
 
                 // Wait for confirmation
@@ -174,6 +182,59 @@ module.exports = function (evmService) {
             }
         },
 
+        /**
+         * Remove a player from an unsettled game, refunding their stake to pending withdrawals
+         * @param {number} gameId - Game ID
+         * @param {string} playerAddress - Player to remove
+         * @returns {Promise<string>} Transaction hash
+         */
+        async removePlayer(gameId, playerAddress) {
+            try {
+                console.log(`👢 Removing ${playerAddress} from game ${gameId}...`);
+
+                const contract = evmService.getContract();
+
+                // Build and send transaction
+                const tx = await contract.removePlayer(gameId, playerAddress);
+                console.log(`📤 Transaction sent: ${tx.hash}`);
+
+                // Wait for confirmation
+                const receipt = await tx.wait();
+                console.log(`✅ Player removed and refunded in block ${receipt.blockNumber}`);
+
+                return tx.hash;
+            } catch (error) {
+                console.error('❌ Error removing player:', error);
+                throw error;
+            }
+        },
+
+        /**
+         * Freeze a game's player list on-chain once the server starts play
+         * @param {number} gameId - Game ID
+         * @returns {Promise<string>} Transaction hash
+         */
+        async markGameStarted(gameId) {
+            try {
+                console.log(`🔒 Marking game ${gameId} as started on-chain...`);
+
+                const contract = evmService.getContract();
+
+                // Build and send transaction
+                const tx = await contract.markGameStarted(gameId);
+                console.log(`📤 Transaction sent: ${tx.hash}`);
+
+                // Wait for confirmation
+                const receipt = await tx.wait();
+                console.log(`✅ Game marked as started in block ${receipt.blockNumber}`);
+
+                return tx.hash;
+            } catch (error) {
+                console.error('❌ Error marking game as started:', error);
+                throw error;
+            }
+        },
+
         /**
          * Send native token from server account to recipient (faucet functionality)
          * @param {string} recipientAddress - Address to send tokens to
@@ -164,10 +164,11 @@ class EVMService {
      * @param {number} gameId - Game ID to settle
      * @param {string[]} winners - Array of winner addresses
      * @param {string[]|number[]} payoutAmounts - Array of payout amounts in native token
+     * @param {string|null} roleCommit - The game's role assignment commit, anchored in the settlement
      * @returns {Promise<string>} Transaction hash
      */
-    async settleGame(gameId, winners, payoutAmounts) {
-        return this.evmGameTransactions.settleGame(gameId, winners, payoutAmounts);
+    async settleGame(gameId, winners, payoutAmounts, roleCommit = null) {
+        return this.evmGameTransactions.settleGame(gameId, winners, payoutAmounts, roleCommit);
     }
 
     /**
@@ -187,6 +188,25 @@ class EVMService {
         return this.evmGameTransactions.cancelGame(gameId);
     }
 
+    /**
+     * Remove a player from an unsettled game and refund their stake
+     * @param {number} gameId - Game ID
+     * @param {string} playerAddress - Player to remove
+     * @returns {Promise<string>} Transaction hash
+     */
+    async removePlayer(gameId, playerAddress) {
+        return this.evmGameTransactions.removePlayer(gameId, playerAddress);
+    }
+
+    /**
+     * Freeze a game's player list on-chain once the server starts play
+     * @param {number} gameId - Game ID
+     * @returns {Promise<string>} Transaction hash
+     */
+    async markGameStarted(gameId) {
+        return this.evmGameTransactions.markGameStarted(gameId);
+    }
+
     // ============ Proxy methods for EVMGameQueries ============
 
     /**
@@ -234,6 +254,16 @@ class EVMService {
         return this.evmGameQueries.isPlayerInGame(gameId, playerAddress);
     }
 
+    /**
+     * Read the GameSettled event emitted by a settlement transaction
+     * @param {number} gameId - Game ID the settlement should be for
+     * @param {string} txHash - Settlement transaction hash
+     * @returns {Promise<Object|null>} Winners, payouts and house fee, or null if not found
+     */
+    async getSettlement(gameId, txHash) {
+        return this.evmGameQueries.getSettlement(gameId, txHash);
+    }
+
     // ============ Proxy methods for EVMSignatureUtils ============
 
     /**
@@ -241,10 +271,11 @@ class EVMService {
      * @param {number} gameId - Game ID
      * @param {string[]} winners - Array of winner addresses
      * @param {string[]|number[]} payouts - Array of payout amounts
+     * @param {string} roleCommit - Role assignment commit (bytes32 hex)
      * @returns {string} Message hash
      */
-    constructSettlementMessage(gameId, winners, payouts) {
-        return this.evmSignatureUtils.constructSettlementMessage(gameId, winners, payouts);
+    constructSettlementMessage(gameId, winners, payouts, roleCommit) {
+        return this.evmSignatureUtils.constructSettlementMessage(gameId, winners, payouts, roleCommit);
     }
 
     /**
@@ -252,10 +283,11 @@ class EVMService {
      * @param {number} gameId - Game ID
      * @param {string[]} winners - Array of winner addresses
      * @param {string[]|number[]} payouts - Array of payout amounts
+     * @param {string} roleCommit - Role assignment commit (bytes32 hex)
      * @returns {Promise<string>} Signature
      */
-    async signSettlement(gameId, winners, payouts) {
-        return this.evmSignatureUtils.signSettlement(gameId, winners, payouts);
+    async signSettlement(gameId, winners, payouts, roleCommit) {
+        return this.evmSignatureUtils.signSettlement(gameId, winners, payouts, roleCommit);
     }
 
     /**
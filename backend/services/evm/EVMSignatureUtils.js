@@ -12,20 +12,21 @@ module.exports = function (evmService) {
      * @param {number} gameId - Game ID
      * @param {string[]} winners - Array of winner addresses
      * @param {string[]|BigInt[]} payouts - Array of payout amounts in Wei
+     * @param {string} roleCommit - Role assignment commit (bytes32 hex)
      * @returns {string} Message hash (bytes32)
      */
-    constructSettlementMessage(gameId, winners, payouts) {
+    constructSettlementMessage(gameId, winners, payouts, roleCommit) {
       try {
         // Convert payouts to BigInt if they're strings
         const payoutsBigInt = payouts.map(p =>
           typeof p === 'string' ? BigInt(p) : p
         );
 
-        // Encode the same way as the contract: keccak256(abi.encodePacked(gameId, winners, payouts))
+        // Encode the same way as the contract: keccak256(abi.encodePacked(gameId, winners, payouts, roleCommit))
         // Note: abi.encodePacked is equivalent to solidityPacked in ethers v6
         const messageHash = ethers.solidityPackedKeccak256(
-          ['uint64', 'address[]', 'uint256[]'],
-          [gameId, winners, payoutsBigInt]
+          ['uint64', 'address[]', 'uint256[]', 'bytes32'],
+          [gameId, winners, payoutsBigInt, roleCommit]
         );
 
         return messageHash;
@@ -40,14 +41,15 @@ module.exports = function (evmService) {
      * @param {number} gameId - Game ID
      * @param {string[]} winners - Array of winner addresses
      * @param {string[]|BigInt[]} payouts - Array of payout amounts in Wei
+     * @param {string} roleCommit - Role assignment commit (bytes32 hex)
      * @returns {Promise<string>} Signature (hex string)
      */
-    async signSettlement(gameId, winners, payouts) {
+    async signSettlement(gameId, winners, payouts, roleCommit) {
       try {
         const serverWallet = evmService.getServerWallet();
 
         // Construct the message hash
-        const messageHash = this.constructSettlementMessage(gameId, winners, payouts);
+        const messageHash = this.constructSettlementMessage(gameId, winners, payouts, roleCommit);
 
         // Sign the message hash
         // The contract uses toEthSignedMessageHash which adds the Ethereum prefix
@@ -71,13 +73,14 @@ module.exports = function (evmService) {
      * @param {number} gameId - Game ID
      * @param {string[]} winners - Array of winner addresses
      * @param {string[]|BigInt[]} payouts - Array of payout amounts in Wei
+     * @param {string} roleCommit - Role assignment commit (bytes32 hex)
      * @param {string} signature - Signature to verify
      * @returns {string} Recovered signer address
      */
-    verifySettlementSignature(gameId, winners, payouts, signature) {
+    verifySettlementSignature(gameId, winners, payouts, roleCommit, signature) {
       try {
         // Construct the message hash
-        const messageHash = this.constructSettlementMessage(gameId, winners, payouts);
+        const messageHash = this.constructSettlementMessage(gameId, winners, payouts, roleCommit);
         const messageHashBytes = ethers.getBytes(messageHash);
 
         // Recover the signer address
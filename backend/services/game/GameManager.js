@@ -3,8 +3,17 @@ const { v4: uuidv4 } = require('uuid');
 const StakingManager = require('../staking/StakingManager');
 const GameRepository = require('./GameRepository');
 const TaskManager = require('../core/TaskManager');
+const SessionKeyService = require('../core/SessionKeyService');
+const CommitReveal = require('../../utils/commitReveal');
+const { randomSeedValue, seedCommitFor, isSeedHex } = require('../../utils/roleShuffle');
 const PhaseManager = require('./PhaseManager');
 const GameRewardService = require('./GameRewardService'); // Import GameRewardService
+const GameStateFormatter = require('./GameStateFormatter');
+const PlayerStatsService = require('./PlayerStatsService');
+const LeaderboardService = require('./LeaderboardService');
+const MatchmakingService = require('./MatchmakingService');
+const ReadyCheckService = require('./ReadyCheckService');
+const LobbyModerationService = require('./LobbyModerationService');
 
 // GameManager accepts EVMService via the blockchainService parameter in the constructor
 
@@ -37,13 +46,26 @@ class GameManager {
     this.taskManager = new TaskManager(this); // Initialize task manager
     this.phaseManager = new PhaseManager(this); // Initialize phase manager
     this.gameRewardService = new GameRewardService(this); // Initialize GameRewardService
+    this.playerStatsService = new PlayerStatsService(this); // Profile stats over stored games
+    this.leaderboardService = new LeaderboardService(this); // Seasonal standings over stored games
+    this.matchmakingService = new MatchmakingService(this); // Quick match queue and lifetime ratings
+    this.readyCheckService = new ReadyCheckService(this); // Lobby ready-check, start countdown and AFK removal
+    this.lobbyModerationService = new LobbyModerationService(this); // Host kick, ban, transfer and lock
+    this.sessionKeyService = new SessionKeyService(); // Delegated keys that sign in-game actions
+    this.commitReveal = new CommitReveal(); // Night action commit hashing
     this.gameStartTimes = new Map(); // gameId -> timestamp
     this.phaseStartTimes = new Map(); // gameId -> timestamp
+    this.processedRequests = new Map(); // gameId -> Map(lowercase playerAddress:requestId -> result)
+    this.seedRevealTimers = new Map(); // gameId -> timeout closing the seed reveal window
+    this.SEED_REVEAL_WINDOW_MS = (parseInt(process.env.SEED_REVEAL_WINDOW_SECONDS) || 5) * 1000;
     this.MAX_GAME_DURATION = 30 * 60 * 1000; // 30 minutes
     this.MAX_PHASE_DURATION = 5 * 60 * 1000; // 5 minutes
 
     // Start monitoring service
     this.phaseManager.startMonitoringService();
+    this.leaderboardService.startSeasonFreezer();
+    this.matchmakingService.startQueueTicker();
+    this.readyCheckService.startReadyTicker();
   }
 
   // Create a new game with staking requirement
@@ -60,15 +82,21 @@ class GameManager {
       }
     }
 
-    // Default settings if not provided (phase durations only)
+    // Default settings if not provided (phase durations, spectating and role setup)
     const defaultSettings = {
       nightPhaseDuration: parseInt(process.env.DEFAULT_NIGHT_PHASE_DURATION) || 30,
       resolutionPhaseDuration: parseInt(process.env.DEFAULT_RESOLUTION_PHASE_DURATION) || 10,
       taskPhaseDuration: parseInt(process.env.DEFAULT_TASK_PHASE_DURATION) || 30,
       votingPhaseDuration: parseInt(process.env.DEFAULT_VOTING_PHASE_DURATION) || 10,
-      maxTaskCount: parseInt(process.env.DEFAULT_MAX_TASK_COUNT) || 4
+      maxTaskCount: parseInt(process.env.DEFAULT_MAX_TASK_COUNT) || 4,
+      allowSpectators: process.env.DEFAULT_ALLOW_SPECTATORS !== 'false',
+      spectatorDelay: parseInt(process.env.DEFAULT_SPECTATOR_DELAY ?? '10'),
+      roleSetup: { mode: 'auto', mafia: 1, doctor: true, detective: true } // Balanced preset for the lobby size
     };
 
+    // Server's contribution to the role shuffle seed, committed before any player's
+    const serverSeed = randomSeedValue();
+
     const game = {
       gameId,
       roomCode,
@@ -82,7 +110,9 @@ class GameManager {
       stakeAmount: stakeAmount || process.env.DEFAULT_STAKE_AMOUNT || '1000000000000000000', // Use env var or fallback
       minPlayers: minPlayers || parseInt(process.env.DEFAULT_MIN_PLAYERS) || 4,
       maxPlayers: parseInt(process.env.DEFAULT_MAX_PLAYERS) || 10,
-      pendingActions: {}, // address -> { commit, revealed }
+      pendingActions: {}, // address -> { commit, action, revealStatus }
+      nightReveal: null, // Reveal window state / summary for the current night
+      commitLog: [], // Per-night commit-reveal summaries
       task: null,
       votes: {}, // address -> votedFor
       votingResolved: false, // Track if voting results have been shown
@@ -92,6 +122,21 @@ class GameManager {
       eliminated: [],
       winners: [],
       roleCommit: null,
+      roleReveal: null, // { serialization, salt, shuffle } - published when the game ends
+      serverSeed, // Private until the game ends
+      serverSeedCommit: seedCommitFor(serverSeed),
+      seedCommits: {}, // address -> sha256(value), committed from the lobby
+      seedReveals: {}, // address -> value, private until the game ends
+      seedRound: null, // { pending, deadline } while players reveal, then { pending: false, revealed, missing }
+      privateInfo: {}, // lowercase address -> private_info events sent to that player (replayed on reconnect)
+      spectatorCount: 0, // Sockets in the spectator room
+      lobbyReady: [], // Addresses that readied up in the lobby
+      readyCheck: null, // { deadline, countdownEndsAt } once the lobby is full and staked (see ReadyCheckService)
+      locked: false, // Host closed the lobby to new joins
+      bannedPlayers: [], // Addresses the host banned from this lobby
+      createdAt: Date.now(),
+      eventLog: [], // Replay log - holds roles and night actions, so only served once the game has ended
+      stateVersion: 0, // Bumped on every game_state broadcast so clients can drop stale snapshots
       status: 'lobby', // Fixed: should be 'lobby' not 'active'
       isPublic: isPublic,
       settings: settings || defaultSettings // Store custom settings
@@ -223,6 +268,14 @@ class GameManager {
       return game;
     }
 
+    if (this.lobbyModerationService.isBanned(game, playerAddress)) {
+      throw new Error('You are banned from this lobby');
+    }
+
+    if (game.locked) {
+      throw new Error('The host has locked this lobby');
+    }
+
     if (game.players.length >= game.maxPlayers) {
       throw new Error('Game is full');
     }
@@ -299,6 +352,11 @@ class GameManager {
         game.playerStakes.delete(playerAddress);
       }
 
+      // Their seed and ready no longer count
+      delete game.seedCommits[playerAddress];
+      delete game.seedReveals[playerAddress];
+      game.lobbyReady = game.lobbyReady.filter(player => player !== playerAddress);
+
       console.log(`👋 Player ${playerAddress} left lobby ${gameId}. Remaining players: ${game.players.length}`);
 
       // If creator left or no players remain, cancel the game
@@ -308,12 +366,19 @@ class GameManager {
         // Remove from in-memory
         this.games.delete(gameId);
         this.roomCodes.delete(game.roomCode);
+        this.processedRequests.delete(gameId);
+        this.sessionKeyService.clearGame(gameId);
+        this.clearSeedRevealTimer(gameId);
+        this.readyCheckService.cancelCountdown(gameId);
 
         // Update database status
         await this.gameRepository.updateGameStatus(gameId, 'cancelled');
 
         // Emit game cancelled event
         if (this.socketManager) {
+          this.socketManager.lastSnapshots.delete(gameId);
+          this.socketManager.closeSpectators(gameId, 'Game cancelled');
+          this.socketManager.emitLobbyUpdate(gameId);
           this.socketManager.io.to(gameId).emit('game_cancelled', {
             gameId,
             reason: game.creator === playerAddress ? 'Creator left the game' : 'All players left'
@@ -333,6 +398,7 @@ class GameManager {
       }
       if (!game.eliminated.includes(playerAddress)) {
         game.eliminated.push(playerAddress);
+        this.recordEvent(game, 'elimination', { player: playerAddress, cause: 'left', role: game.roles[playerAddress] || null });
       }
 
       // Stake is forfeited automatically (goes to winner pool)
@@ -351,6 +417,13 @@ class GameManager {
       }
     }
 
+    this.sessionKeyService.revoke(gameId, playerAddress);
+
+    // A seat opened up - stop any ready countdown
+    if (isInLobby) {
+      this.readyCheckService.evaluate(gameId);
+    }
+
     // Sync to database
     if (isInLobby) {
       await this.gameRepository.removePlayer(gameId, playerAddress);
@@ -370,7 +443,130 @@ class GameManager {
     return { cancelled: false, remainingPlayers: game.players };
   }
 
-  // Start the game
+  // Hand the lobby to another player, e.g. before the host is removed
+  setCreator(game, newCreator) {
+    game.creator = newCreator;
+    this.gameRepository.updateCreator(game.gameId, newCreator);
+    console.log(`👑 ${newCreator} is now the host of game ${game.gameId}`);
+  }
+
+  /**
+   * Take a player out of the lobby on the server's initiative (kicked, not
+   * ready in time). A staked player is refunded on-chain first, so the seat only
+   * opens once the refund went through. A removed host hands the lobby to
+   * another player - preferably a ready one - instead of cancelling it.
+   */
+  async removePlayer(gameId, playerAddress, reason) {
+    const game = this.games.get(gameId);
+    if (!game || !game.players.includes(playerAddress)) {
+      throw new Error('Player not in game');
+    }
+    if (game.phase !== 'lobby' || game.seedRound) {
+      throw new Error('Players can only be removed from the lobby');
+    }
+
+    let refunded = false;
+    const staked = game.stakingRequired && game.playerStakes.has(`${gameId}-${playerAddress}`);
+    if (staked) {
+      if (!game.onChainGameId) {
+        throw new Error('Cannot refund stake - game has no on-chain ID');
+      }
+      if (!this.blockchainService) {
+        throw new Error('Blockchain service not initialized in GameManager.');
+      }
+      // Keep the seat if the refund didn't go through - the stake is still in the on-chain pool
+      const refundTxHash = await this.blockchainService.removePlayer(game.onChainGameId, playerAddress);
+      if (!refundTxHash) {
+        throw new Error('Refund transaction was not confirmed');
+      }
+      refunded = true;
+    }
+    this.stakingManager.releasePlayerStake(gameId, playerAddress);
+
+    if (game.creator === playerAddress) {
+      const remaining = game.players.filter(player => player !== playerAddress);
+      const successor = remaining.find(player => game.lobbyReady.includes(player)) || remaining[0];
+      if (successor) {
+        this.setCreator(game, successor);
+      }
+    }
+
+    // The removed player's private room too, while they are still in the game
+    if (this.socketManager) {
+      this.socketManager.io
+        .to([`game-${gameId}`, this.socketManager.playerRoom(gameId, playerAddress)])
+        .emit('player_removed', { gameId, playerAddress, reason, refunded });
+    }
+
+    await this.leaveGame(gameId, playerAddress);
+    console.log(`👢 Removed ${playerAddress} from game ${gameId}: ${reason}${refunded ? ' (stake refunded)' : ''}`);
+    return { refunded };
+  }
+
+  // Commit to a role shuffle seed value from the lobby. Re-committing is
+  // allowed until the game starts (e.g. after a refresh lost the value).
+  commitSeed(gameId, playerAddress, commit) {
+    const game = this.games.get(gameId);
+    if (!game) {
+      throw new Error('Game not found');
+    }
+    if (!game.players.includes(playerAddress)) {
+      throw new Error('Player not in game');
+    }
+    if (game.phase !== 'lobby' || game.seedRound) {
+      throw new Error('Seeds can only be committed before the game starts');
+    }
+    if (!isSeedHex(commit)) {
+      throw new Error('Invalid seed commit: expected a sha256 hex digest');
+    }
+
+    game.seedCommits[playerAddress] = commit;
+    console.log(`🎲 Seed committed by ${playerAddress} for game ${gameId}`);
+
+    if (this.socketManager) {
+      this.socketManager.emitGameStateUpdate(gameId);
+    }
+  }
+
+  // Reveal a committed seed value while the game is starting
+  revealSeed(gameId, playerAddress, value) {
+    const game = this.games.get(gameId);
+    if (!game) {
+      throw new Error('Game not found');
+    }
+    if (!game.seedRound?.pending) {
+      throw new Error('Seeds are not being revealed');
+    }
+
+    const commit = game.seedCommits[playerAddress];
+    if (!commit) {
+      throw new Error('No seed commit for this player');
+    }
+    if (!isSeedHex(value) || seedCommitFor(value) !== commit) {
+      throw new Error('Seed value does not match the commit');
+    }
+
+    game.seedReveals[playerAddress] = value;
+    console.log(`🎲 Seed revealed by ${playerAddress} for game ${gameId}`);
+
+    const allRevealed = Object.keys(game.seedCommits).every(address => game.seedReveals[address]);
+    if (allRevealed) {
+      this.completeStart(gameId).catch(error => {
+        console.error(`❌ Error starting game ${gameId} after seed reveal:`, error);
+      });
+    }
+  }
+
+  clearSeedRevealTimer(gameId) {
+    const timer = this.seedRevealTimers.get(gameId);
+    if (timer) {
+      clearTimeout(timer);
+      this.seedRevealTimers.delete(gameId);
+    }
+  }
+
+  // Start the game: players who committed a seed get a short window to reveal
+  // it, then roles are dealt from the combined seed (see completeStart)
   async startGame(gameId) {
     const game = this.games.get(gameId);
     if (!game) {
@@ -382,22 +578,88 @@ class GameManager {
       throw new Error('Game is not ready to start - staking requirements not met');
     }
 
+    if (game.phase !== 'lobby' || game.seedRound) {
+      console.log(`⏭️ Game ${gameId} is already starting (phase: ${game.phase})`);
+      return game;
+    }
+
+    this.markStartedOnChain(game);
+
+    if (Object.keys(game.seedCommits).length === 0) {
+      return this.completeStart(gameId);
+    }
+
+    game.seedRound = { pending: true, deadline: Date.now() + this.SEED_REVEAL_WINDOW_MS };
+    this.seedRevealTimers.set(gameId, setTimeout(() => {
+      this.completeStart(gameId).catch(error => {
+        console.error(`❌ Error starting game ${gameId} after seed reveal window:`, error);
+      });
+    }, this.SEED_REVEAL_WINDOW_MS));
+
+    console.log(`🎲 Seed reveal window open for game ${gameId} (${Object.keys(game.seedCommits).length} commits)`);
+
+    if (this.socketManager) {
+      this.socketManager.emitGameStateUpdate(gameId);
+    }
+
+    return game;
+  }
+
+  // From here on the contract refuses removePlayer, so the pool the game is
+  // settled against can't shrink. Players are already locked in server-side,
+  // so a failed transaction is logged rather than holding up the game.
+  markStartedOnChain(game) {
+    if (!game.stakingRequired || !game.onChainGameId || !this.blockchainService) return;
+
+    this.blockchainService.markGameStarted(game.onChainGameId).catch(error => {
+      console.error(`❌ Could not mark game ${game.gameId} as started on-chain:`, error.message);
+    });
+  }
+
+  // Deal roles and move to the first night
+  async completeStart(gameId) {
+    const game = this.games.get(gameId);
+    if (!game || game.phase !== 'lobby') {
+      return game;
+    }
+
+    this.clearSeedRevealTimer(gameId);
+
+    // Players who committed but didn't reveal in time are left out of the seed
+    const missing = Object.keys(game.seedCommits).filter(address => !game.seedReveals[address]);
+    game.seedRound = {
+      pending: false,
+      revealed: Object.keys(game.seedReveals).length,
+      missing
+    };
+    if (missing.length > 0) {
+      console.log(`⚠️ Seeds not revealed for game ${gameId}:`, missing);
+    }
+
     console.log(`🚀 STARTING GAME ${gameId} - DEBUG VERSION DEPLOYED`);
     console.log(`Game has ${game.players.length} players:`, game.players);
     console.log(`💰 Staking status: ${game.stakingStatus}`);
 
-    // Assign roles randomly
+    // Assign roles from the combined seed
     this.phaseManager.assignRoles(game);
 
     // Generate role commit hash
     game.roleCommit = this.phaseManager.generateRoleCommit(game);
 
+    // Tell each player their role (and ASUR their teammates) on their own channel
+    if (this.socketManager) {
+      this.socketManager.emitRoleAssignments(gameId);
+    }
+
     // Start first night phase
     game.phase = 'night';
     game.status = 'active'; // Mark as active to prevent TTL expiration
     game.startedAt = Date.now();
     game.timeLeft = game.settings?.nightPhaseDuration || parseInt(process.env.GAME_TIMEOUT_SECONDS) || 30;
 
+    this.recordEvent(game, 'game_started', { players: [...game.players], roles: { ...game.roles } });
+    this.recordPhaseChange(game);
+
     // Track game start time for timeout monitoring
     this.gameStartTimes.set(gameId, Date.now());
     this.phaseStartTimes.set(gameId, Date.now());
@@ -424,6 +686,92 @@ class GameManager {
     return game;
   }
 
+  // Append an entry to the game's replay log
+  recordEvent(game, type, data = {}) {
+    if (!game) return;
+    if (!game.eventLog) {
+      game.eventLog = [];
+    }
+
+    game.eventLog.push({
+      seq: game.eventLog.length,
+      type,
+      day: game.day,
+      phase: game.phase,
+      timestamp: Date.now(),
+      ...data
+    });
+  }
+
+  // Log a phase change. The resolution phase can be entered twice in one night
+  // (reveal window, then the outcome), which is logged once.
+  recordPhaseChange(game) {
+    const lastPhase = [...(game.eventLog || [])].reverse().find(event => event.type === 'phase');
+    if (lastPhase && lastPhase.phase === game.phase && lastPhase.day === game.day) return;
+
+    this.recordEvent(game, 'phase', { timeLeft: game.timeLeft });
+  }
+
+  // Run a player action at most once per client requestId.
+  // The client may deliver the same action more than once (socket ack timeout
+  // -> REST fallback, manual retry); only the first delivery is applied and
+  // later ones get the recorded result back with duplicate: true.
+  // Ids are client-chosen, so they are only unique per player - another
+  // player reusing one must not have their action swallowed.
+  processRequestOnce(gameId, playerAddress, requestId, handler) {
+    if (!requestId) {
+      return { result: handler(), duplicate: false };
+    }
+
+    const key = `${String(playerAddress).toLowerCase()}:${requestId}`;
+    const processed = this.processedRequests.get(gameId);
+    if (processed && processed.has(key)) {
+      console.log(`🔁 Duplicate request ${requestId} from ${playerAddress} for game ${gameId} - already processed`);
+      return { result: processed.get(key), duplicate: true };
+    }
+
+    // Only successful actions are recorded, so a rejected one can be retried.
+    // The map is created after the handler succeeds, so requests for an ended
+    // or cancelled game don't bring it back.
+    const result = handler();
+    if (!processed) {
+      this.processedRequests.set(gameId, new Map([[key, result]]));
+    } else {
+      processed.set(key, result);
+    }
+    return { result, duplicate: false };
+  }
+
+  // Fields of each action kind covered by the session key signature
+  static signedActionBody(kind, data) {
+    switch (kind) {
+      case 'night_action':
+        return { action: data.action, commit: data.commit };
+      case 'reveal':
+        return { action: data.action, nonce: data.nonce };
+      case 'task':
+        return { answer: data.answer };
+      case 'vote':
+        return { vote: data.vote };
+      case 'chat':
+        return { message: data.message, timestamp: data.timestamp };
+      default:
+        throw new Error(`Unknown action kind: ${kind}`);
+    }
+  }
+
+  // Reject actions that weren't signed by the player's session key for this game
+  verifySignedAction(gameId, kind, data) {
+    this.sessionKeyService.verifyAction(
+      gameId,
+      kind,
+      data.playerAddress,
+      kind === 'chat' ? null : data.requestId,
+      GameManager.signedActionBody(kind, data),
+      data.sessionSignature
+    );
+  }
+
   // Submit night action
   submitNightAction(gameId, data) {
     const game = this.games.get(gameId);
@@ -453,18 +801,61 @@ class GameManager {
       throw new Error('Player not in game');
     }
 
-    // Store commit
-    if (!game.pendingActions[playerAddress]) {
-      game.pendingActions[playerAddress] = {};
+    if (commit) {
+      if (typeof commit !== 'string' || !/^[0-9a-f]{64}$/.test(commit)) {
+        throw new Error('Invalid commit: expected a sha256 hex digest');
+      }
+    } else if (!action) {
+      throw new Error('Night action or commit required');
     }
-    game.pendingActions[playerAddress].commit = commit;
-    game.pendingActions[playerAddress].action = action;
+
+    this.verifySignedAction(gameId, 'night_action', data);
+
+    // Committed actions stay hidden until the player reveals them in resolution
+    game.pendingActions[playerAddress] = commit
+      ? { commit, action: null, revealStatus: null }
+      : { commit: null, action };
 
     console.log(`Pending actions for game ${gameId}:`, game.pendingActions);
 
     this.phaseManager.checkAndResolveNightPhase(gameId);
   }
 
+  // Reveal a committed night action. A reveal that doesn't hash to the
+  // commit voids the action instead of rejecting it, so it can't be retried.
+  revealNightAction(gameId, data) {
+    const game = this.games.get(gameId);
+    if (!game) {
+      throw new Error('Game not found');
+    }
+
+    if (game.phase !== 'resolution' || !game.nightReveal?.pending) {
+      throw new Error('Night actions are not being revealed');
+    }
+
+    const { playerAddress, action, nonce } = data;
+    const pending = game.pendingActions[playerAddress];
+    if (!pending || !pending.commit) {
+      throw new Error('No committed night action to reveal');
+    }
+    if (pending.revealStatus) {
+      throw new Error('Night action already revealed');
+    }
+
+    this.verifySignedAction(gameId, 'reveal', data);
+
+    const verified = typeof nonce === 'string' &&
+      this.commitReveal.generateCommit(action, nonce) === pending.commit;
+    pending.action = verified ? action : null;
+    pending.revealStatus = verified ? 'verified' : 'voided';
+
+    console.log(`🔓 Night action reveal by ${playerAddress}: ${pending.revealStatus}`);
+
+    this.phaseManager.checkAndFinalizeNightReveal(gameId);
+
+    return { verified };
+  }
+
   // Resolve night phase
   async resolveNightPhase(gameId) {
     return this.phaseManager.resolveNightPhase(gameId);
@@ -490,11 +881,13 @@ class GameManager {
 
   // Submit task answer
   submitTaskAnswer(gameId, data) {
+    this.verifySignedAction(gameId, 'task', data);
     return this.taskManager.submitTaskAnswer(gameId, data);
   }
 
   // Submit vote
   submitVote(gameId, data) {
+    this.verifySignedAction(gameId, 'vote', data);
     return this.phaseManager.submitVote(gameId, data);
   }
 
@@ -520,19 +913,37 @@ class GameManager {
     // Cleanup timeout tracking
     this.gameStartTimes.delete(gameId);
     this.phaseStartTimes.delete(gameId);
+    this.processedRequests.delete(gameId);
+    this.sessionKeyService.clearGame(gameId);
+    this.clearSeedRevealTimer(gameId);
     game.timeLeft = 0;
 
+    // Roles are public now - publish what roleCommit was computed from
+    game.roleReveal = this.phaseManager.revealRoleCommit(game);
+
+    this.recordPhaseChange(game);
+    this.recordEvent(game, 'game_ended', { winners: [...(game.winners || [])], roles: { ...game.roles } });
+    game.endedAt = Date.now();
+
     console.log(`Game ${gameId} ended. Winners:`, game.winners);
 
-    // Update status in database to trigger 24-hour TTL cleanup
     await this.gameRepository.updateGameStatus(gameId, 'completed');
+    await this.gameRepository.saveReplay(gameId, GameStateFormatter.getReplay(game));
 
     // Handle reward distribution if staking was required
     if (game.stakingRequired) {
       await this.gameRewardService.handleRewardDistribution(gameId, game);
+      if (game.rewards) {
+        await this.gameRepository.saveSettlement(gameId, game.rewards);
+      }
     } else {
       console.log(`💰 No staking required for game ${gameId}, skipping rewards`);
     }
+
+    // Ratings are not part of settlement - a slow ratings database must not hold up payouts
+    this.matchmakingService.updateRatings(game).catch(error => {
+      console.error(`❌ Failed to update ratings for game ${gameId}:`, error);
+    });
     // Emit game state update to notify frontend that game has ended
     if (this.socketManager) {
       console.log(`📡 Emitting game state update for ended game ${gameId}`);
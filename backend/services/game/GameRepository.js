@@ -1,5 +1,8 @@
 const Game = require('../../models/Game');
+const LeaderboardSnapshot = require('../../models/LeaderboardSnapshot');
+const PlayerRating = require('../../models/PlayerRating');
 const { withDbTimeout } = require('../../utils/dbUtils');
+const { compositionError } = require('../../utils/roleShuffle');
 
 class GameRepository {
     constructor() {
@@ -50,6 +53,162 @@ class GameRepository {
         }
     }
 
+    // Keep the replay of a finished game after it leaves memory
+    async saveReplay(gameId, replay) {
+        try {
+            const dbGame = await withDbTimeout(Game.findOne({ gameId }));
+
+            if (dbGame) {
+                dbGame.replay = replay;
+                dbGame.markModified('replay');
+                await withDbTimeout(dbGame.save());
+                console.log(`💾 Saved replay for game ${gameId} (${replay.events.length} events)`);
+            }
+        } catch (error) {
+            console.warn('⚠️ Could not save replay to database:', error.message);
+            // Continue - the replay is still served from memory
+        }
+    }
+
+    async getReplay(gameId) {
+        try {
+            const dbGame = await withDbTimeout(Game.findOne({ gameId }).select('replay').lean());
+            return dbGame?.replay || null;
+        } catch (error) {
+            console.warn('⚠️ Could not load replay from database:', error.message);
+            return null;
+        }
+    }
+
+    // Stored record of a room code, for invite links to games no longer in memory
+    async getGameByRoomCode(roomCode) {
+        try {
+            return await withDbTimeout(Game.findOne({ roomCode })
+                .select('gameId roomCode creator status currentPlayers minPlayers stakeAmount')
+                .lean());
+        } catch (error) {
+            console.warn('⚠️ Could not look up room code in database:', error.message);
+            return null;
+        }
+    }
+
+    async saveSettlement(gameId, settlement) {
+        try {
+            const dbGame = await withDbTimeout(Game.findOne({ gameId }));
+
+            if (dbGame) {
+                dbGame.settlement = settlement;
+                dbGame.markModified('settlement');
+                await withDbTimeout(dbGame.save());
+                console.log(`💾 Saved settlement for game ${gameId}`);
+            }
+        } catch (error) {
+            console.warn('⚠️ Could not save settlement to database:', error.message);
+            // Continue - the settlement is still on the in-memory game
+        }
+    }
+
+    /**
+     * Finished games a player took part in, newest first
+     * @param {string} playerAddress - Checked with ethers.isAddress by the caller
+     * @param {number} limit
+     */
+    async getPlayerGames(playerAddress, limit) {
+        try {
+            return await withDbTimeout(
+                Game.find({
+                    status: 'completed',
+                    'replay.players': { $regex: `^${playerAddress}$`, $options: 'i' }
+                })
+                    .select('gameId stakeAmount stakingRequired onChainGameId settlement replay updatedAt')
+                    .sort({ updatedAt: -1 })
+                    .limit(limit)
+                    .lean()
+            );
+        } catch (error) {
+            console.warn('⚠️ Could not load player games from database:', error.message);
+            return [];
+        }
+    }
+
+    /**
+     * Finished games that ended in [start, end), oldest first, without their event logs
+     * @param {number} start - Timestamp (ms)
+     * @param {number} end - Timestamp (ms)
+     */
+    async getSeasonGames(start, end) {
+        return withDbTimeout(
+            Game.find({
+                status: 'completed',
+                'replay.endedAt': { $gte: start, $lt: end }
+            })
+                .select('gameId stakingRequired stakeAmount settlement.distributions replay.players replay.roles replay.winners replay.endedAt')
+                .sort({ 'replay.endedAt': 1 })
+                .lean(),
+            10000
+        );
+    }
+
+    async getLeaderboardSnapshot(seasonId) {
+        try {
+            return await withDbTimeout(LeaderboardSnapshot.findOne({ seasonId }).lean());
+        } catch (error) {
+            console.warn('⚠️ Could not load leaderboard snapshot:', error.message);
+            return null;
+        }
+    }
+
+    async saveLeaderboardSnapshot(snapshot) {
+        try {
+            // Never overwrite: the first snapshot of a season is the final one
+            await withDbTimeout(
+                LeaderboardSnapshot.updateOne(
+                    { seasonId: snapshot.seasonId },
+                    { $setOnInsert: snapshot },
+                    { upsert: true }
+                )
+            );
+            console.log(`💾 Froze leaderboard for season ${snapshot.seasonId} (${snapshot.entries.length} players)`);
+        } catch (error) {
+            console.warn('⚠️ Could not save leaderboard snapshot:', error.message);
+        }
+    }
+
+    /**
+     * Stored matchmaking ratings
+     * @param {string[]} addresses - Lowercase addresses
+     * @returns {Promise<Map<string, {rating: number, games: number}>|null>} Players without a rating are left out; null if they could not be loaded
+     */
+    async getRatings(addresses) {
+        try {
+            const docs = await withDbTimeout(PlayerRating.find({ address: { $in: addresses } }).lean());
+            return new Map(docs.map(doc => [doc.address, { rating: doc.rating, games: doc.games }]));
+        } catch (error) {
+            console.warn('⚠️ Could not load player ratings:', error.message);
+            return null;
+        }
+    }
+
+    /**
+     * @param {{address: string, rating: number, games: number}[]} ratings
+     */
+    async saveRatings(ratings) {
+        try {
+            await withDbTimeout(
+                PlayerRating.bulkWrite(ratings.map(({ address, rating, games }) => ({
+                    updateOne: {
+                        filter: { address },
+                        update: { $set: { rating, games, updatedAt: new Date() } },
+                        upsert: true
+                    }
+                })))
+            );
+            console.log(`💾 Saved ratings for ${ratings.length} players`);
+        } catch (error) {
+            console.warn('⚠️ Could not save player ratings:', error.message);
+        }
+    }
+
     async getPublicLobbies() {
         try {
             // Try to get from database first (with 2-second timeout)
@@ -120,6 +279,19 @@ class GameRepository {
         }
     }
 
+    async updateCreator(gameId, creator) {
+        try {
+            const dbGame = await withDbTimeout(Game.findOne({ gameId }));
+            if (dbGame) {
+                dbGame.creator = creator;
+                await withDbTimeout(dbGame.save());
+                console.log(`💾 Game ${gameId} handed to ${creator} in database`);
+            }
+        } catch (dbError) {
+            console.warn(`⚠️ Could not update database, but in-memory game updated:`, dbError.message);
+        }
+    }
+
     // Toggle game visibility (public/private)
     async toggleGameVisibility(gameId, creatorAddress) {
         try {
@@ -153,18 +325,35 @@ class GameRepository {
         }
     }
 
-    // Validate game settings
-    validateGameSettings(settings) {
+    // Validate game settings; a custom role setup is checked against the lobby size
+    validateGameSettings(settings, playerCount) {
         const validationRules = {
             nightPhaseDuration: { min: 1, max: 120, name: 'Night Phase Duration' },
             resolutionPhaseDuration: { min: 1, max: 60, name: 'Resolution Phase Duration' },
             taskPhaseDuration: { min: 1, max: 180, name: 'Task Phase Duration' },
             votingPhaseDuration: { min: 1, max: 60, name: 'Voting Phase Duration' },
-            maxTaskCount: { min: 2, max: 20, name: 'Max Task Count' }
+            maxTaskCount: { min: 2, max: 20, name: 'Max Task Count' },
+            spectatorDelay: { min: 0, max: 120, name: 'Spectator Delay' }
         };
 
         const errors = [];
 
+        if (settings.allowSpectators !== undefined && typeof settings.allowSpectators !== 'boolean') {
+            errors.push('Allow Spectators must be true or false');
+        }
+
+        const roleSetup = settings.roleSetup;
+        if (roleSetup !== undefined) {
+            if (!roleSetup || !['auto', 'custom'].includes(roleSetup.mode)) {
+                errors.push('Role Setup mode must be auto or custom');
+            } else if (typeof roleSetup.doctor !== 'boolean' || typeof roleSetup.detective !== 'boolean') {
+                errors.push('Role Setup must say whether DEVA and RISHI are in play');
+            } else if (roleSetup.mode === 'custom') {
+                const error = compositionError(playerCount, roleSetup);
+                if (error) errors.push(error);
+            }
+        }
+
         for (const [key, value] of Object.entries(settings)) {
             if (validationRules[key]) {
                 const rule = validationRules[key];
@@ -217,7 +406,7 @@ class GameRepository {
             const { isPublic, ...actualSettings } = settings;
 
             // Validate settings before updating (only the actual settings, not isPublic)
-            this.validateGameSettings(actualSettings);
+            this.validateGameSettings(actualSettings, dbGame.minPlayers);
 
             // Update settings (merge with existing settings)
             // Note: minPlayers is NOT part of settings - it's a separate game property
@@ -177,15 +177,35 @@ class GameRewardService {
         }
       }
 
+      // The admin can change the house cut (updateHouseCut) at any time; settle at the current one
+      let contractInfo = null;
+      if (blockchainService && typeof blockchainService.getContractInfo === 'function') {
+        try {
+          contractInfo = await blockchainService.getContractInfo();
+          console.log(`💰 Contract house cut: ${contractInfo.houseCutBps} bps, fee recipient: ${contractInfo.feeRecipient}`);
+        } catch (error) {
+          console.warn('⚠️ Could not read contract info, using the default house cut:', error.message);
+        }
+      }
+
       // Calculate rewards using contract gameId
-      const rewards = this.stakingManager.stakingService.calculateRewards(contractGameId, winners, losers, game.roles, game.eliminated || []);
+      const rewards = this.stakingManager.stakingService.calculateRewards(
+        contractGameId,
+        winners,
+        losers,
+        game.roles,
+        game.eliminated || [],
+        contractInfo?.houseCutBps,
+        contractInfo?.feeRecipient
+      );
       console.log(`💰 Rewards calculated:`, rewards);
 
       // Reuse blockchain service from earlier in the function
       const distributionResult = await this.stakingManager.stakingService.distributeRewards(
         contractGameId,
         rewards,
-        blockchainService
+        blockchainService,
+        game.roleCommit
       );
 
       console.log(`💰 Rewards distributed for game ${gameId}:`, distributionResult);
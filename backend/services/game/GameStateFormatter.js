@@ -1,4 +1,5 @@
 const { ethers } = require('ethers');
+const { resolveComposition } = require('../../utils/roleShuffle');
 
 class GameStateFormatter {
   /**
@@ -14,7 +15,14 @@ class GameStateFormatter {
     // Remove sensitive information
     delete publicGame.roles;
     delete publicGame.roleSalt;
+    delete publicGame.roleSeed;
+    delete publicGame.serverSeed;
+    delete publicGame.seedReveals;
     delete publicGame.pendingActions;
+    delete publicGame.privateInfo;
+    delete publicGame.eventLog;
+    publicGame.nightResolution = GameStateFormatter.getPublicNightResolution(game.nightResolution);
+    publicGame.stakedPlayers = GameStateFormatter.getStakedPlayers(game);
     // Remove timer interval to prevent circular reference in JSON serialization
     delete publicGame.timerInterval;
     // Remove ready timer to prevent circular reference in JSON serialization
@@ -43,6 +51,15 @@ class GameStateFormatter {
     return publicGame;
   }
 
+  /**
+   * Players whose stake was recorded (playerStakes is a Map and doesn't survive JSON)
+   * @param {object} game
+   * @returns {string[]}
+   */
+  static getStakedPlayers(game) {
+    return game.players.filter(player => game.playerStakes?.has(`${game.gameId}-${player}`));
+  }
+
   /**
    * Get game state with current player's role
    * @param {string} gameId
@@ -71,20 +88,6 @@ class GameStateFormatter {
         gameState.roles = {
           [playerAddress]: game.roles[playerAddress]
         };
-
-        // If player is Detective and has submitted an investigation, include target's role
-        if (game.roles[playerAddress] === 'Detective' &&
-          game.phase === 'night' &&
-          game.pendingActions &&
-          game.pendingActions[playerAddress]) {
-          const action = game.pendingActions[playerAddress];
-          if (action.action && action.action.target) {
-            const targetAddress = action.action.target;
-            const targetRole = game.roles[targetAddress];
-            gameState.roles[targetAddress] = targetRole;
-            console.log(`🔍 Detective ${playerAddress} investigated ${targetAddress}, revealing role: ${targetRole}`);
-          }
-        }
       } else {
         gameState.roles = {};
       }
@@ -92,7 +95,15 @@ class GameStateFormatter {
 
     // Remove other sensitive information
     delete gameState.roleSalt;
+    delete gameState.roleSeed;
+    delete gameState.serverSeed;
+    delete gameState.seedReveals;
     delete gameState.pendingActions;
+    delete gameState.privateInfo;
+    delete gameState.eventLog;
+    // Investigation results and who acted on whom reach players as private_info events
+    gameState.nightResolution = GameStateFormatter.getPublicNightResolution(game.nightResolution);
+    gameState.stakedPlayers = GameStateFormatter.getStakedPlayers(game);
     // Remove timer interval to prevent circular reference in JSON serialization
     delete gameState.timerInterval;
     // Remove ready timer to prevent circular reference in JSON serialization
@@ -115,6 +126,142 @@ class GameStateFormatter {
 
     return gameState;
   }
+
+  /**
+   * Roles everyone may see: eliminated players' roles, or all of them once the game is over
+   * @param {object} game
+   * @returns {object} address -> role
+   */
+  static getPublicRoles(game) {
+    if (!game.roles) return {};
+    if (game.phase === 'ended') return { ...game.roles };
+
+    const roles = {};
+    for (const address of game.eliminated || []) {
+      if (game.roles[address]) {
+        roles[address] = game.roles[address];
+      }
+    }
+    return roles;
+  }
+
+  /**
+   * Everything needed to play a finished game back: the players, final
+   * roles and the ordered event log (night actions included)
+   * @param {object} game
+   * @returns {object}
+   */
+  static getReplay(game) {
+    return {
+      gameId: game.gameId,
+      roomCode: game.roomCode,
+      creator: game.creator,
+      players: game.players,
+      roles: { ...game.roles },
+      winners: game.winners,
+      settings: game.settings,
+      startedAt: game.startedAt,
+      endedAt: game.endedAt || null,
+      events: game.eventLog || []
+    };
+  }
+
+  /**
+   * Entry of the public lobby list. Payout previews are left to the client,
+   * which has the contract's current house cut.
+   * @param {object} lobby - { gameId, roomCode, creator, stakeAmount (Wei), minPlayers, maxPlayers, currentPlayers, createdAt, settings }
+   * @returns {object}
+   */
+  static getPublicLobby(lobby) {
+    return {
+      ...lobby,
+      stakeAmount: lobby.stakeAmount,  // Wei string
+      stakeAmountFormatted: ethers.formatEther(lobby.stakeAmount || '0'),  // Token units for display
+      playerCount: lobby.currentPlayers.length,
+      // ASUR as dealt by the lobby's role setup
+      composition: resolveComposition(lobby.minPlayers, lobby.settings?.roleSetup)
+    };
+  }
+
+  /**
+   * Why a game is not on the public lobby list, or null if it is. Same rules
+   * as Game.getPublicLobbies: public, creator has staked, still in the lobby
+   * and not full - plus not locked by the host.
+   * @param {object|undefined} game - In-memory game
+   * @returns {null|'cancelled'|'hidden'|'locked'|'started'|'filled'}
+   */
+  static getLobbyUnlistedReason(game) {
+    if (!game) return 'cancelled';
+    if (game.phase !== 'lobby') return 'started';
+    if (!game.isPublic || !game.playerStakes?.has(`${game.gameId}-${game.creator}`)) return 'hidden';
+    if (game.locked) return 'locked';
+    if (game.players.length >= game.minPlayers) return 'filled';
+    return null;
+  }
+
+  /**
+   * Where an invite link (/join/ROOMCODE) leads. Seats are minPlayers - the
+   * contract starts the game as soon as they are staked. A game that is only
+   * in the database was cancelled, finished, or lost to a server restart.
+   * @param {object|undefined} game - In-memory game
+   * @param {object|null} storedGame - Database record, used when the game is not in memory
+   * @returns {object|null} null if the room code never existed
+   */
+  static getInvite(game, storedGame = null) {
+    if (game) {
+      let status = 'open';
+      if (game.phase === 'ended') status = 'ended';
+      else if (game.phase !== 'lobby' || game.seedRound) status = 'started';
+      else if (game.locked) status = 'locked';
+      else if (game.players.length >= game.minPlayers) status = 'full';
+
+      return {
+        gameId: game.gameId,
+        roomCode: game.roomCode,
+        status,
+        creator: game.creator,
+        players: game.players,
+        playerCount: game.players.length,
+        seats: game.minPlayers,
+        stakeAmount: game.stakeAmount,
+        allowSpectators: game.settings?.allowSpectators !== false
+      };
+    }
+
+    if (!storedGame) return null;
+
+    return {
+      gameId: storedGame.gameId,
+      roomCode: storedGame.roomCode,
+      status: storedGame.status === 'completed' ? 'ended' : 'cancelled',
+      creator: storedGame.creator,
+      players: storedGame.currentPlayers || [],
+      playerCount: (storedGame.currentPlayers || []).length,
+      seats: storedGame.minPlayers,
+      stakeAmount: storedGame.stakeAmount,
+      allowSpectators: false
+    };
+  }
+
+  /**
+   * Night resolution without the night's targets and investigation result.
+   * Only the outcome (who died, who was saved) is public; a saved player's role is not.
+   * @param {object|null} resolution
+   * @returns {object|null}
+   */
+  static getPublicNightResolution(resolution) {
+    if (!resolution) return resolution ?? null;
+
+    return {
+      mafiaTarget: null,
+      doctorTarget: null,
+      detectiveTarget: null,
+      investigationResult: null,
+      killedPlayer: resolution.killedPlayer,
+      savedPlayer: resolution.savedPlayer ? { ...resolution.savedPlayer, role: 'Unknown' } : null,
+      investigationPlayer: null
+    };
+  }
 }
 
 module.exports = GameStateFormatter;
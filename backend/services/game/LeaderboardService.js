@@ -0,0 +1,252 @@
+const { getSeasons, getSeason } = require('../../config/seasons');
+const { DEFAULT_RATING, rateGame } = require('../../utils/rating');
+
+const ROLES = ['Mafia', 'Doctor', 'Detective', 'Villager'];
+const MODES = ['net', 'winrate', 'rating'];
+const MIN_GAMES_FOR_WIN_RATE = parseInt(process.env.LEADERBOARD_MIN_GAMES ?? '5');
+const LIVE_CACHE_MS = 60 * 1000; // Standings of a running season are recomputed at most once a minute
+const MAX_PAGE_SIZE = 100;
+
+class LeaderboardService {
+  constructor(gameManager) {
+    this.gameManager = gameManager; // Reference to GameManager for the repository
+    this.liveStandings = new Map(); // seasonId -> { computedAt, standings }
+  }
+
+  /**
+   * Seasons that have started, newest first
+   */
+  listSeasons() {
+    const now = Date.now();
+    return getSeasons(now).map(season => ({ ...season, active: now < season.end }));
+  }
+
+  /**
+   * One page of a season's leaderboard
+   * @param {Object} query
+   * @param {string} [query.seasonId] - Defaults to the current season
+   * @param {string} [query.mode] - 'net' | 'winrate' | 'rating'
+   * @param {string} [query.role] - Backend role to rank by games played as that role
+   * @param {number} [query.page] - 1-based
+   * @param {number} [query.pageSize]
+   * @param {string} [query.address] - "Find me": return the page containing this player
+   */
+  async getLeaderboard({ seasonId, mode = 'net', role, page = 1, pageSize = 20, address } = {}) {
+    if (!MODES.includes(mode)) {
+      throw new Error(`Unknown ranking mode: ${mode}`);
+    }
+    if (role && !ROLES.includes(role)) {
+      throw new Error(`Unknown role: ${role}`);
+    }
+
+    const season = getSeason(seasonId);
+    if (!season) {
+      return null;
+    }
+
+    const standings = await this.getStandings(season);
+    const rows = this.rankRows(standings.entries, mode, role);
+
+    const size = Math.min(Math.max(1, pageSize), MAX_PAGE_SIZE);
+    let currentPage = Math.max(1, page);
+    let me = null;
+    if (address) {
+      const index = rows.findIndex(row => row.address === address.toLowerCase());
+      if (index !== -1) {
+        me = rows[index];
+        currentPage = Math.floor(index / size) + 1;
+      }
+    }
+
+    return {
+      season: {
+        ...season,
+        active: Date.now() < season.end,
+        frozenAt: standings.frozenAt,
+        gameCount: standings.gameCount
+      },
+      mode,
+      role: role || null,
+      minGames: mode === 'winrate' ? MIN_GAMES_FOR_WIN_RATE : 0,
+      page: currentPage,
+      pageSize: size,
+      total: rows.length,
+      entries: rows.slice((currentPage - 1) * size, currentPage * size),
+      me
+    };
+  }
+
+  /**
+   * Standings of a season. Ended seasons are served from their frozen snapshot,
+   * which is written the first time they are asked for after they end.
+   */
+  async getStandings(season) {
+    const now = Date.now();
+    const repository = this.gameManager.gameRepository;
+
+    if (now >= season.end) {
+      const snapshot = await repository.getLeaderboardSnapshot(season.id);
+      if (snapshot) {
+        return { entries: snapshot.entries, gameCount: snapshot.gameCount, frozenAt: new Date(snapshot.frozenAt).getTime() };
+      }
+
+      const standings = await this.computeStandings(season);
+      await repository.saveLeaderboardSnapshot({
+        seasonId: season.id,
+        name: season.name,
+        start: new Date(season.start),
+        end: new Date(season.end),
+        gameCount: standings.gameCount,
+        entries: standings.entries,
+        frozenAt: new Date(now)
+      });
+      this.liveStandings.delete(season.id);
+      return { ...standings, frozenAt: now };
+    }
+
+    const cached = this.liveStandings.get(season.id);
+    if (cached && now - cached.computedAt < LIVE_CACHE_MS) {
+      return cached.standings;
+    }
+
+    const standings = { ...(await this.computeStandings(season)), frozenAt: null };
+    this.liveStandings.set(season.id, { computedAt: now, standings });
+    return standings;
+  }
+
+  /**
+   * Per-player stats over the season's games, replayed in the order they ended
+   * so ratings build up the same way every time
+   */
+  async computeStandings(season) {
+    const games = await this.gameManager.gameRepository.getSeasonGames(season.start, season.end);
+    const players = new Map(); // lowercase address -> stats
+    const ratings = new Map(); // lowercase address -> rating
+
+    for (const game of games) {
+      const replay = game.replay;
+      const roles = {};
+      for (const [address, role] of Object.entries(replay.roles || {})) {
+        roles[address.toLowerCase()] = role;
+      }
+      const winners = (replay.winners || []).map(address => address.toLowerCase());
+      const deltas = rateGame(ratings, roles, winners);
+
+      for (const address of Object.keys(roles)) {
+        const role = roles[address];
+        const won = winners.includes(address);
+        const net = this.gameNet(game, address);
+        const delta = deltas.get(address) || 0;
+
+        if (!players.has(address)) {
+          players.set(address, {
+            address,
+            games: 0,
+            wins: 0,
+            net: 0n,
+            rating: DEFAULT_RATING,
+            roles: Object.fromEntries(ROLES.map(r => [r, { games: 0, wins: 0, net: 0n, ratingDelta: 0 }]))
+          });
+        }
+        const entry = players.get(address);
+
+        entry.games++;
+        if (won) entry.wins++;
+        entry.net += net;
+        entry.rating += delta;
+        ratings.set(address, entry.rating);
+
+        const roleStats = entry.roles[role];
+        if (roleStats) {
+          roleStats.games++;
+          if (won) roleStats.wins++;
+          roleStats.net += net;
+          roleStats.ratingDelta += delta;
+        }
+      }
+    }
+
+    // BigInt doesn't survive JSON or the snapshot - store Wei as strings
+    const entries = Array.from(players.values()).map(entry => ({
+      ...entry,
+      net: entry.net.toString(),
+      rating: Math.round(entry.rating),
+      roles: Object.fromEntries(Object.entries(entry.roles).map(([role, stats]) => [role, {
+        ...stats,
+        net: stats.net.toString(),
+        ratingDelta: Math.round(stats.ratingDelta)
+      }]))
+    }));
+
+    return { entries, gameCount: games.length };
+  }
+
+  // Net result of one game for a player in Wei; 0 for free or unsettled games
+  gameNet(game, address) {
+    const distributions = game.settlement?.distributions;
+    if (!game.stakingRequired || !distributions) return 0n;
+
+    const distribution = distributions.find(d => d.playerAddress.toLowerCase() === address);
+    return BigInt(distribution?.totalReceived || '0') - BigInt(game.stakeAmount);
+  }
+
+  /**
+   * Ranked rows for one board. A role board ranks by games played as that
+   * role; its rating is the default plus what was gained in those games.
+   */
+  rankRows(entries, mode, role) {
+    const rows = entries
+      .map(entry => {
+        const stats = role ? entry.roles[role] : entry;
+        return {
+          address: entry.address,
+          games: stats.games,
+          wins: stats.wins,
+          losses: stats.games - stats.wins,
+          winRate: stats.games > 0 ? stats.wins / stats.games : 0,
+          net: stats.net,
+          rating: role ? DEFAULT_RATING + stats.ratingDelta : entry.rating
+        };
+      })
+      .filter(row => row.games > 0)
+      .filter(row => mode !== 'winrate' || row.games >= MIN_GAMES_FOR_WIN_RATE);
+
+    const compare = {
+      net: (a, b) => {
+        const diff = BigInt(b.net) - BigInt(a.net);
+        return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+      },
+      winrate: (a, b) => b.winRate - a.winRate,
+      rating: (a, b) => b.rating - a.rating
+    }[mode];
+
+    rows.sort((a, b) => compare(a, b) || b.games - a.games || a.address.localeCompare(b.address));
+    return rows.map((row, index) => ({ rank: index + 1, ...row }));
+  }
+
+  // Freeze every ended season that has no snapshot yet
+  async freezeEndedSeasons() {
+    const now = Date.now();
+    for (const season of getSeasons(now)) {
+      if (season.end > now) continue;
+      if (await this.gameManager.gameRepository.getLeaderboardSnapshot(season.id)) continue;
+
+      try {
+        await this.getStandings(season);
+      } catch (error) {
+        console.warn(`⚠️ Could not freeze leaderboard for season ${season.id}:`, error.message);
+      }
+    }
+  }
+
+  startSeasonFreezer() {
+    // Check every hour
+    setInterval(() => {
+      this.freezeEndedSeasons();
+    }, 60 * 60 * 1000);
+
+    console.log('✅ Leaderboard season freezer started');
+  }
+}
+
+module.exports = LeaderboardService;
@@ -0,0 +1,100 @@
+/**
+ * Host tools for the lobby: kick (optionally ban) a player, transfer host and
+ * lock the lobby against new joins. Bans last for the lobby's lifetime only.
+ *
+ * Every action is broadcast to the room as host_action so players see what
+ * happened; a kicked player also gets player_removed (see GameManager.removePlayer).
+ */
+class LobbyModerationService {
+  constructor(gameManager) {
+    this.gameManager = gameManager; // Reference to GameManager for games and player removal
+  }
+
+  getLobbyAsHost(gameId, hostAddress) {
+    const game = this.gameManager.getGame(gameId);
+    if (!game) {
+      throw new Error('Game not found');
+    }
+    if (game.creator !== hostAddress) {
+      throw new Error('Only the host can do that');
+    }
+    if (game.phase !== 'lobby' || game.seedRound) {
+      throw new Error('The game has already started');
+    }
+    return game;
+  }
+
+  isBanned(game, playerAddress) {
+    return game.bannedPlayers.some(banned => banned.toLowerCase() === playerAddress.toLowerCase());
+  }
+
+  async kickPlayer(gameId, hostAddress, playerAddress, ban = false) {
+    const game = this.getLobbyAsHost(gameId, hostAddress);
+    if (playerAddress === hostAddress) {
+      throw new Error('The host cannot kick themselves');
+    }
+    if (!game.players.includes(playerAddress)) {
+      throw new Error('Player not in game');
+    }
+
+    // Ban first so they can't rejoin while the refund is confirming
+    if (ban && !this.isBanned(game, playerAddress)) {
+      game.bannedPlayers.push(playerAddress);
+    }
+
+    const { refunded } = await this.gameManager.removePlayer(gameId, playerAddress, ban ? 'Banned by the host' : 'Kicked by the host');
+    this.announce(gameId, ban ? 'ban' : 'kick', hostAddress, playerAddress, { refunded });
+    return { refunded };
+  }
+
+  unbanPlayer(gameId, hostAddress, playerAddress) {
+    const game = this.getLobbyAsHost(gameId, hostAddress);
+    if (!this.isBanned(game, playerAddress)) {
+      throw new Error('Player is not banned');
+    }
+
+    game.bannedPlayers = game.bannedPlayers.filter(banned => banned.toLowerCase() !== playerAddress.toLowerCase());
+    this.announce(gameId, 'unban', hostAddress, playerAddress);
+  }
+
+  transferHost(gameId, hostAddress, playerAddress) {
+    const game = this.getLobbyAsHost(gameId, hostAddress);
+    if (playerAddress === hostAddress) {
+      throw new Error('You are already the host');
+    }
+    if (!game.players.includes(playerAddress)) {
+      throw new Error('Player not in game');
+    }
+
+    this.gameManager.setCreator(game, playerAddress);
+    this.announce(gameId, 'transfer_host', hostAddress, playerAddress);
+  }
+
+  setLocked(gameId, hostAddress, locked) {
+    const game = this.getLobbyAsHost(gameId, hostAddress);
+    if (game.locked === locked) return;
+
+    game.locked = locked;
+    this.announce(gameId, locked ? 'lock' : 'unlock', hostAddress);
+  }
+
+  // Tell the room what the host did and push the new lobby state
+  announce(gameId, action, hostAddress, playerAddress = null, extra = {}) {
+    console.log(`🛡️ Host ${hostAddress} - ${action}${playerAddress ? ` ${playerAddress}` : ''} in game ${gameId}`);
+
+    const socketManager = this.gameManager.socketManager;
+    if (!socketManager) return;
+
+    socketManager.io.to(`game-${gameId}`).emit('host_action', {
+      gameId,
+      action,
+      host: hostAddress,
+      playerAddress,
+      timestamp: Date.now(),
+      ...extra
+    });
+    socketManager.emitGameStateUpdate(gameId);
+  }
+}
+
+module.exports = LobbyModerationService;
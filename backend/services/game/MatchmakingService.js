@@ -0,0 +1,438 @@
+const { ethers } = require('ethers');
+const { DEFAULT_RATING, rateGame } = require('../../utils/rating');
+
+const parseList = (value) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const STAKE_TIERS = parseList(process.env.MATCHMAKING_STAKE_TIERS || '0.001,0.01,0.1'); // Token units
+const LOBBY_SIZES = parseList(process.env.MATCHMAKING_LOBBY_SIZES || '4,6,8').map(Number);
+const STAKE_TIMEOUT_MS = (parseInt(process.env.MATCHMAKING_STAKE_TIMEOUT_SECONDS) || 120) * 1000;
+const BASE_RATING_WINDOW = 100; // Rating gap accepted straight away...
+const RATING_WINDOW_GROWTH = 10; // ...plus this much per second spent waiting
+const TICK_MS = 2000;
+const WAIT_HISTORY = 20; // Recent waits per queue behind the wait estimate
+
+class MatchmakingService {
+  constructor(gameManager) {
+    this.gameManager = gameManager; // Reference to GameManager for creating and joining games
+    this.queues = new Map(); // bucket -> entries, longest waiting first
+    this.queued = new Map(); // lowercase address -> entry
+    this.creating = new Map(); // lowercase address -> entry whose game is being created
+    this.matches = new Map(); // gameId -> { bucket, lobbySize, rating, pending: Map(lowercase address -> { address, socket, deadline }) }
+    this.matchedPlayers = new Map(); // lowercase address -> gameId, until they stake or drop
+    this.recentWaits = new Map(); // bucket -> ms waited by recently matched players
+    this.ticking = false;
+  }
+
+  /**
+   * Stake tiers and lobby sizes players can queue for
+   */
+  getConfig() {
+    return {
+      stakeTiers: STAKE_TIERS.map(stakeAmount => ({
+        stakeAmount,
+        stakeAmountWei: ethers.parseEther(stakeAmount).toString()
+      })),
+      lobbySizes: LOBBY_SIZES,
+      stakeTimeout: STAKE_TIMEOUT_MS / 1000
+    };
+  }
+
+  bucketFor(stakeTier, lobbySize) {
+    return `${stakeTier}:${lobbySize}`;
+  }
+
+  async getRating(address) {
+    const stored = await this.gameManager.gameRepository.getRatings([address.toLowerCase()]);
+    return stored?.get(address.toLowerCase())?.rating ?? DEFAULT_RATING;
+  }
+
+  /**
+   * Queue a player for quick match. Joining again (another tier, another tab)
+   * replaces their previous place in the queue.
+   * @param {Object} socket - Socket that receives queue_status / match_found
+   * @param {string} playerAddress - Authenticated player
+   * @param {Object} options
+   * @param {string} options.stakeTier - One of the configured tiers, in token units
+   * @param {number} options.lobbySize - One of the configured lobby sizes
+   * @returns {Promise<Object|null>} The player's queue status
+   */
+  async joinQueue(socket, playerAddress, { stakeTier, lobbySize }) {
+    if (!STAKE_TIERS.includes(stakeTier)) {
+      throw new Error(`Stake tier must be one of ${STAKE_TIERS.join(', ')}`);
+    }
+    if (!LOBBY_SIZES.includes(lobbySize)) {
+      throw new Error(`Lobby size must be one of ${LOBBY_SIZES.join(', ')}`);
+    }
+
+    const key = playerAddress.toLowerCase();
+    if (this.matchedPlayers.has(key) || this.creating.has(key)) {
+      throw new Error('You already have a match - stake to join it or cancel first');
+    }
+
+    const rating = await this.getRating(playerAddress);
+
+    const previous = this.removeFromQueue(key);
+    if (previous) {
+      this.emitQueueStatus(previous.bucket);
+    }
+
+    const bucket = this.bucketFor(stakeTier, lobbySize);
+    const entry = {
+      key,
+      address: playerAddress,
+      socket,
+      stakeTier,
+      lobbySize,
+      bucket,
+      rating,
+      joinedAt: Date.now()
+    };
+
+    if (!this.queues.has(bucket)) {
+      this.queues.set(bucket, []);
+    }
+    this.queues.get(bucket).push(entry);
+    this.queued.set(key, entry);
+    console.log(`🎯 ${playerAddress} queued for ${stakeTier} x${lobbySize} (rating ${Math.round(rating)})`);
+
+    this.runMatching(bucket);
+    this.emitQueueStatus(bucket);
+    if (this.queued.has(key)) {
+      return this.statusFor(entry, Date.now());
+    }
+    // Matched straight away; nothing to report if creating the game already failed
+    return this.creating.has(key) ? { status: 'matching', stakeTier, lobbySize, rating: Math.round(rating) } : null;
+  }
+
+  /**
+   * Leave the queue, or give up a match that hasn't been staked yet
+   */
+  async leaveQueue(playerAddress) {
+    const key = playerAddress.toLowerCase();
+
+    const entry = this.removeFromQueue(key);
+    if (entry) {
+      console.log(`🎯 ${playerAddress} left the quick match queue`);
+      this.emitQueueStatus(entry.bucket);
+      return;
+    }
+
+    // The game is still being created - drop them as soon as it exists
+    const creating = this.creating.get(key);
+    if (creating) {
+      creating.cancelled = true;
+      return;
+    }
+
+    const gameId = this.matchedPlayers.get(key);
+    if (gameId) {
+      await this.dropMatchedPlayer(gameId, key, 'You left the match');
+    }
+  }
+
+  // Queued players leave with their socket. Matched players keep their seat
+  // until the stake deadline so a refresh doesn't cost them the match.
+  handleDisconnect(socket) {
+    for (const entry of this.queued.values()) {
+      if (entry.socket.id === socket.id) {
+        this.removeFromQueue(entry.key);
+        this.emitQueueStatus(entry.bucket);
+        console.log(`🎯 ${entry.address} disconnected - removed from the quick match queue`);
+        return;
+      }
+    }
+  }
+
+  removeFromQueue(key) {
+    const entry = this.queued.get(key);
+    if (!entry) return null;
+
+    const queue = this.queues.get(entry.bucket);
+    queue.splice(queue.indexOf(entry), 1);
+    if (queue.length === 0) {
+      this.queues.delete(entry.bucket);
+    }
+    this.queued.delete(key);
+    return entry;
+  }
+
+  // How far from their own rating a player accepts opponents; widens with the wait
+  ratingWindow(entry, now) {
+    return BASE_RATING_WINDOW + RATING_WINDOW_GROWTH * (now - entry.joinedAt) / 1000;
+  }
+
+  /**
+   * Form matches in one queue. Seats left open by players who dropped from a
+   * match are filled first; then the longest waiting player is grouped with
+   * the closest rated players inside their rating window.
+   */
+  runMatching(bucket) {
+    const queue = this.queues.get(bucket);
+    if (!queue) return;
+    const now = Date.now();
+
+    for (const [gameId, match] of this.matches) {
+      if (match.bucket !== bucket || queue.length === 0) continue;
+
+      const game = this.gameManager.getGame(gameId);
+      if (!game || game.phase !== 'lobby') continue;
+
+      const seats = match.lobbySize - game.players.length;
+      if (seats <= 0) continue;
+
+      const fillers = queue
+        .filter(entry => Math.abs(entry.rating - match.rating) <= this.ratingWindow(entry, now))
+        .slice(0, seats);
+      fillers.forEach(entry => this.removeFromQueue(entry.key));
+      if (fillers.length > 0) {
+        this.fillMatch(gameId, fillers);
+      }
+    }
+
+    let index = 0;
+    while (index < queue.length) {
+      const anchor = queue[index];
+      const window = this.ratingWindow(anchor, now);
+      const opponents = queue
+        .filter(entry => entry !== anchor && Math.abs(entry.rating - anchor.rating) <= window)
+        .sort((a, b) => Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating));
+
+      if (opponents.length < anchor.lobbySize - 1) {
+        index++;
+        continue;
+      }
+
+      const group = [anchor, ...opponents.slice(0, anchor.lobbySize - 1)];
+      group.forEach(entry => this.removeFromQueue(entry.key));
+      this.createMatch(group);
+      index = 0; // The queue changed - start over from the longest waiting player
+    }
+  }
+
+  /**
+   * Create the game for a group of queued players and send everyone to stake.
+   * The first player becomes the lobby's creator; the server creates the game
+   * on-chain like create-and-join does.
+   */
+  async createMatch(group) {
+    const [first] = group;
+    const { stakeTier, lobbySize, bucket } = first;
+    const now = Date.now();
+
+    group.forEach(entry => {
+      this.creating.set(entry.key, entry);
+      entry.socket.emit('queue_status', { ...this.statusFor(entry, now), status: 'matching' });
+    });
+    console.log(`🎯 Match found for ${stakeTier} x${lobbySize}:`, group.map(entry => entry.address));
+
+    let created;
+    try {
+      if (!this.gameManager.blockchainService) {
+        throw new Error('Blockchain service not initialized in GameManager.');
+      }
+
+      const contractGameId = await this.gameManager.blockchainService.createGame(stakeTier, lobbySize);
+      const stakeAmountInWei = ethers.parseEther(stakeTier).toString();
+      created = await this.gameManager.createGame(first.address, stakeAmountInWei, lobbySize, contractGameId, false, null);
+      created.game.maxPlayers = lobbySize;
+    } catch (error) {
+      console.error('❌ Error creating quick match game:', error);
+      group.forEach(entry => {
+        this.creating.delete(entry.key);
+        entry.socket.emit('queue_cancelled', { reason: `Could not create the game: ${error.message}` });
+      });
+      return;
+    }
+
+    const { gameId } = created;
+    const rating = group.reduce((sum, entry) => sum + entry.rating, 0) / group.length;
+    this.matches.set(gameId, { bucket, lobbySize, rating, pending: new Map() });
+
+    const waits = this.recentWaits.get(bucket) || [];
+    group.forEach(entry => waits.push(now - entry.joinedAt));
+    this.recentWaits.set(bucket, waits.slice(-WAIT_HISTORY));
+
+    group.forEach(entry => this.creating.delete(entry.key));
+    this.fillMatch(gameId, group);
+
+    for (const entry of group.filter(entry => entry.cancelled)) {
+      await this.dropMatchedPlayer(gameId, entry.key, 'You left the match');
+    }
+  }
+
+  // Seat queued players in a match's game and ask them to stake
+  fillMatch(gameId, entries) {
+    const match = this.matches.get(gameId);
+    const game = this.gameManager.getGame(gameId);
+    const deadline = Date.now() + STAKE_TIMEOUT_MS;
+
+    for (const entry of entries) {
+      try {
+        this.gameManager.joinGame(gameId, entry.address);
+      } catch (error) {
+        console.error(`❌ Could not seat ${entry.address} in quick match ${gameId}:`, error);
+        entry.socket.emit('queue_cancelled', { reason: error.message });
+        continue;
+      }
+
+      match.pending.set(entry.key, { address: entry.address, socket: entry.socket, deadline });
+      this.matchedPlayers.set(entry.key, gameId);
+      entry.socket.emit('match_found', {
+        gameId,
+        roomCode: game.roomCode,
+        contractGameId: String(game.onChainGameId),
+        stakeAmount: game.stakeAmount,
+        stakeAmountFormatted: entry.stakeTier,
+        lobbySize: match.lobbySize,
+        players: game.players.length,
+        stakeDeadline: deadline
+      });
+    }
+  }
+
+  /**
+   * Take a matched player who hasn't staked out of the game. The seat goes
+   * back to the queue; if they were the lobby's creator, someone who stays
+   * takes over so the lobby isn't cancelled under everyone else.
+   */
+  async dropMatchedPlayer(gameId, key, reason) {
+    const match = this.matches.get(gameId);
+    const pending = match?.pending.get(key);
+    if (!pending) return;
+
+    match.pending.delete(key);
+    this.matchedPlayers.delete(key);
+
+    const game = this.gameManager.getGame(gameId);
+    if (game && game.phase === 'lobby' && game.players.includes(pending.address)) {
+      if (game.creator === pending.address) {
+        const remaining = game.players.filter(player => player !== pending.address);
+        const successor = remaining.find(player => !match.pending.has(player.toLowerCase())) || remaining[0];
+        if (successor) {
+          this.gameManager.setCreator(game, successor);
+        }
+      }
+
+      try {
+        await this.gameManager.leaveGame(gameId, pending.address);
+      } catch (error) {
+        console.error(`❌ Error removing ${pending.address} from quick match ${gameId}:`, error);
+      }
+    }
+
+    pending.socket.emit('queue_cancelled', { gameId, reason });
+    console.log(`🎯 ${pending.address} dropped from quick match ${gameId}: ${reason}`);
+  }
+
+  // Queue snapshot for one player; estimatedWait is null until the queue has matched someone
+  statusFor(entry, now) {
+    const queue = this.queues.get(entry.bucket) || [];
+    const waits = this.recentWaits.get(entry.bucket) || [];
+    const waited = now - entry.joinedAt;
+    const averageWait = waits.length > 0 ? waits.reduce((sum, wait) => sum + wait, 0) / waits.length : null;
+
+    return {
+      status: 'searching',
+      stakeTier: entry.stakeTier,
+      lobbySize: entry.lobbySize,
+      position: queue.indexOf(entry) + 1,
+      queued: queue.length,
+      rating: Math.round(entry.rating),
+      waited: Math.floor(waited / 1000),
+      estimatedWait: averageWait === null ? null : Math.max(0, Math.round((averageWait - waited) / 1000))
+    };
+  }
+
+  emitQueueStatus(bucket) {
+    const queue = this.queues.get(bucket);
+    if (!queue) return;
+
+    const now = Date.now();
+    queue.forEach(entry => entry.socket.emit('queue_status', this.statusFor(entry, now)));
+  }
+
+  // Release stakers, drop players past their stake deadline, forget games that started or went away
+  async checkMatches() {
+    const now = Date.now();
+
+    for (const [gameId, match] of this.matches) {
+      const game = this.gameManager.getGame(gameId);
+      if (!game || game.phase !== 'lobby') {
+        match.pending.forEach((pending, key) => {
+          this.matchedPlayers.delete(key);
+          if (!game) {
+            pending.socket.emit('queue_cancelled', { gameId, reason: 'The game was cancelled' });
+          }
+        });
+        this.matches.delete(gameId);
+        continue;
+      }
+
+      for (const [key, pending] of match.pending) {
+        if (game.playerStakes?.has(`${gameId}-${pending.address}`)) {
+          match.pending.delete(key);
+          this.matchedPlayers.delete(key);
+        } else if (now >= pending.deadline) {
+          await this.dropMatchedPlayer(gameId, key, 'The stake was not made in time');
+        }
+      }
+    }
+  }
+
+  async tick() {
+    if (this.ticking) return; // Previous tick is still removing players
+    this.ticking = true;
+    try {
+      await this.checkMatches();
+      for (const bucket of [...this.queues.keys()]) {
+        this.runMatching(bucket);
+        this.emitQueueStatus(bucket);
+      }
+    } catch (error) {
+      console.error('❌ Matchmaking tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Move every player's stored rating by the game's team Elo result
+   */
+  async updateRatings(game) {
+    const roles = {};
+    for (const [address, role] of Object.entries(game.roles || {})) {
+      roles[address.toLowerCase()] = role;
+    }
+    const addresses = Object.keys(roles);
+    if (addresses.length === 0) return;
+
+    const repository = this.gameManager.gameRepository;
+    const stored = await repository.getRatings(addresses);
+    if (!stored) {
+      // Saving now would overwrite everyone's rating with the default
+      console.warn(`⚠️ Skipping rating update for game ${game.gameId}: ratings could not be loaded`);
+      return;
+    }
+    const ratings = new Map(addresses.map(address => [address, stored.get(address)?.rating ?? DEFAULT_RATING]));
+    const winners = (game.winners || []).map(address => address.toLowerCase());
+
+    const deltas = rateGame(ratings, roles, winners);
+    if (deltas.size === 0) return;
+
+    await repository.saveRatings(addresses.map(address => ({
+      address,
+      rating: ratings.get(address) + (deltas.get(address) || 0),
+      games: (stored.get(address)?.games || 0) + 1
+    })));
+  }
+
+  startQueueTicker() {
+    setInterval(() => {
+      this.tick();
+    }, TICK_MS);
+
+    console.log('✅ Matchmaking queue started');
+  }
+}
+
+module.exports = MatchmakingService;
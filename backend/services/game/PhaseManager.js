@@ -1,8 +1,12 @@
 const crypto = require('crypto');
+const { canonicalJson } = require('../../utils/sessionKeys');
+const { combineSeed, randomSeedValue, shuffleRoles, resolveComposition, compositionError, autoComposition } = require('../../utils/roleShuffle');
 
 class PhaseManager {
     constructor(gameManager) {
         this.gameManager = gameManager;
+        this.revealTimers = new Map(); // gameId -> timeout closing the reveal window
+        this.REVEAL_WINDOW_MS = (parseInt(process.env.NIGHT_REVEAL_WINDOW_SECONDS) || 5) * 1000;
     }
 
     async resolveNightPhase(gameId) {
@@ -12,14 +16,128 @@ class PhaseManager {
             return;
         }
 
+        if (game.phase !== 'night') {
+            console.log(`Skipping night phase resolve - current phase is ${game.phase}`);
+            return;
+        }
+
         console.log(`=== RESOLVING NIGHT PHASE FOR GAME ${gameId} ===`);
         console.log(`Game state: phase=${game.phase}, timeLeft=${game.timeLeft}, timerReady=${game.timerReady}`);
 
+        // Committed actions have to be revealed before anything can be resolved
+        const committed = Object.values(game.pendingActions).filter(pending => pending.commit);
+        if (committed.length > 0) {
+            this.openRevealWindow(gameId, game);
+            return;
+        }
+
+        await this.applyNightOutcome(gameId, game);
+    }
+
+    // Move to resolution with the outcome withheld and give clients a short
+    // window to reveal their committed actions
+    openRevealWindow(gameId, game) {
+        game.phase = 'resolution';
+        game.timeLeft = Math.ceil(this.REVEAL_WINDOW_MS / 1000);
+        game.nightResolution = null;
+        game.nightReveal = {
+            day: game.day,
+            pending: true,
+            deadline: Date.now() + this.REVEAL_WINDOW_MS
+        };
+        this.gameManager.recordPhaseChange(game);
+        this.gameManager.phaseStartTimes.set(gameId, Date.now());
+
+        if (game.timerInterval) {
+            clearInterval(game.timerInterval);
+            game.timerInterval = null;
+        }
+        if (game.readyTimer) {
+            clearTimeout(game.readyTimer);
+            game.readyTimer = null;
+        }
+        game.timerReady = false;
+
+        this.revealTimers.set(gameId, setTimeout(() => {
+            this.finalizeNightReveal(gameId).catch(error => {
+                console.error(`❌ Error closing reveal window for game ${gameId}:`, error);
+            });
+        }, this.REVEAL_WINDOW_MS));
+
+        console.log(`🔐 Reveal window open for game ${gameId} (${this.REVEAL_WINDOW_MS}ms)`);
+
+        if (this.gameManager.socketManager) {
+            try {
+                this.gameManager.socketManager.emitGameStateUpdate(gameId);
+            } catch (error) {
+                console.error(`❌ Error emitting game state update for reveal window:`, error);
+            }
+        }
+    }
+
+    // Finalize as soon as every commit has been revealed
+    checkAndFinalizeNightReveal(gameId) {
+        const game = this.gameManager.getGame(gameId);
+        if (!game || !game.nightReveal?.pending) return;
+
+        const unrevealed = Object.values(game.pendingActions).filter(pending => pending.commit && !pending.revealStatus);
+        if (unrevealed.length === 0) {
+            console.log(`All night actions revealed for game ${gameId}`);
+            this.finalizeNightReveal(gameId).catch(error => {
+                console.error(`❌ Error finalizing night reveal for game ${gameId}:`, error);
+            });
+        }
+    }
+
+    // Close the reveal window: unrevealed commits count as no action
+    async finalizeNightReveal(gameId) {
+        const game = this.gameManager.getGame(gameId);
+        if (!game || game.phase !== 'resolution' || !game.nightReveal?.pending) return;
+
+        this.clearRevealTimer(gameId);
+
+        const summary = { day: game.nightReveal.day, pending: false, verified: 0, voided: 0, missing: 0 };
+        for (const pending of Object.values(game.pendingActions)) {
+            if (!pending.commit) continue;
+            if (!pending.revealStatus) {
+                pending.revealStatus = 'missing';
+                pending.action = null;
+            }
+            summary[pending.revealStatus]++;
+        }
+
+        game.nightReveal = summary;
+        game.commitLog = [...(game.commitLog || []), summary];
+        console.log(`🔓 Night ${summary.day} reveals for game ${gameId}: ${summary.verified} verified, ${summary.voided} voided, ${summary.missing} missing`);
+
+        await this.applyNightOutcome(gameId, game);
+    }
+
+    clearRevealTimer(gameId) {
+        const timer = this.revealTimers.get(gameId);
+        if (timer) {
+            clearTimeout(timer);
+            this.revealTimers.delete(gameId);
+        }
+    }
+
+    async applyNightOutcome(gameId, game) {
         // Process night actions
         const mafiaKill = this.processMafiaAction(game);
         const doctorSave = this.processDoctorAction(game);
         const detectiveInvestigation = this.processDetectiveAction(game);
 
+        // Night actions go into the replay log as they were revealed
+        for (const [player, pending] of Object.entries(game.pendingActions)) {
+            this.gameManager.recordEvent(game, 'night_action', {
+                player,
+                role: game.roles[player] || null,
+                target: pending.action?.target || null,
+                revealStatus: pending.commit ? pending.revealStatus : 'plain',
+                ...(player === detectiveInvestigation.detective ? { result: detectiveInvestigation.result } : {})
+            });
+        }
+
         // Create detailed resolution data with player objects
         const resolution = {
             mafiaTarget: mafiaKill ? this.getPlayerObject(game, mafiaKill) : null,
@@ -35,9 +153,11 @@ class PhaseManager {
         if (mafiaKill && mafiaKill !== doctorSave) {
             game.eliminated.push(mafiaKill);
             resolution.killedPlayer = this.getPlayerObject(game, mafiaKill);
+            this.gameManager.recordEvent(game, 'elimination', { player: mafiaKill, cause: 'night', role: game.roles[mafiaKill] || null });
             console.log(`Player ${mafiaKill} was eliminated`);
         } else if (mafiaKill && mafiaKill === doctorSave) {
             resolution.savedPlayer = this.getPlayerObject(game, doctorSave);
+            this.gameManager.recordEvent(game, 'saved', { player: doctorSave });
             console.log(`Player ${mafiaKill} was saved by doctor`);
         } else {
             console.log(`No one was eliminated this night`);
@@ -46,6 +166,10 @@ class PhaseManager {
         // Store resolution data
         game.nightResolution = resolution;
 
+        // The broadcast only carries the outcome; the detective's result and the
+        // doctor's confirmation go to them alone
+        this.sendNightPrivateInfo(gameId, game, detectiveInvestigation, doctorSave, mafiaKill);
+
         // Check win conditions
         if (this.checkWinConditions(game)) {
             await this.gameManager.endGame(gameId);
@@ -55,6 +179,7 @@ class PhaseManager {
         // Move to resolution phase
         game.phase = 'resolution';
         game.timeLeft = game.settings?.resolutionPhaseDuration || 10;
+        this.gameManager.recordPhaseChange(game);
         this.gameManager.phaseStartTimes.set(gameId, Date.now()); // Track phase start time
 
         // Reset timer state for resolution phase
@@ -122,6 +247,7 @@ class PhaseManager {
         game.pendingActions = {};
         game.timeLeft = game.settings?.taskPhaseDuration || 30;
         this.gameManager.phaseStartTimes.set(gameId, Date.now()); // Track phase start time
+        this.gameManager.recordPhaseChange(game);
 
         // Start timer for task phase (same pattern as game start)
         console.log(`Starting task phase timer for game ${gameId}`);
@@ -157,6 +283,7 @@ class PhaseManager {
         game.votes = {};
         game.votingResult = null;
         this.gameManager.phaseStartTimes.set(gameId, Date.now()); // Track phase start time
+        this.gameManager.recordPhaseChange(game);
 
         // Start timer for voting phase (same pattern as game start)
         await this.startTimer(gameId, true);
@@ -221,6 +348,7 @@ class PhaseManager {
         if (eliminatedPlayers.length === 1) {
             const eliminated = eliminatedPlayers[0];
             game.eliminated.push(eliminated);
+            this.gameManager.recordEvent(game, 'elimination', { player: eliminated, cause: 'vote', role: game.roles[eliminated] || null });
             console.log(`🗳️ Player ${eliminated} was eliminated by vote with ${maxVotes} vote(s)`);
             console.log(`🗳️ Eliminated player address:`, eliminated);
             console.log(`🗳️ Eliminated player role:`, game.roles[eliminated]);
@@ -257,6 +385,8 @@ class PhaseManager {
         // Check if the game is over
         game.isGameOver = this.checkWinConditions(game);
 
+        this.gameManager.recordEvent(game, 'vote_result', { result: game.votingResult, counts: voteCounts });
+
         // Set votingResolved to true so frontend can show results
         game.votingResolved = true;
         console.log(`✅ Voting resolved - displaying results to players`);
@@ -277,32 +407,67 @@ class PhaseManager {
         // handleTimerExpired will detect votingResolved === true and call endGame
     }
 
+    // Private results of the night for the detective and the doctor
+    sendNightPrivateInfo(gameId, game, detectiveInvestigation, doctorSave, mafiaKill) {
+        const socketManager = this.gameManager.socketManager;
+        if (!socketManager) return;
+
+        if (detectiveInvestigation.detective && detectiveInvestigation.target) {
+            socketManager.emitPrivateInfo(gameId, detectiveInvestigation.detective, {
+                type: 'investigation',
+                day: game.day,
+                target: detectiveInvestigation.target,
+                role: detectiveInvestigation.result
+            });
+        }
+
+        const doctor = game.players.find(p => game.roles[p] === 'Doctor' && !game.eliminated.includes(p));
+        if (doctor && doctorSave) {
+            socketManager.emitPrivateInfo(gameId, doctor, {
+                type: 'protection',
+                day: game.day,
+                target: doctorSave,
+                saved: doctorSave === mafiaKill
+            });
+        }
+    }
+
     // Process detective action
     processDetectiveAction(game) {
         const detective = game.players.find(p => game.roles[p] === 'Detective' && !game.eliminated.includes(p));
-        if (!detective || !game.pendingActions[detective]) return { target: null, result: null };
+        if (!detective || !game.pendingActions[detective]?.action) return { detective: null, target: null, result: null };
 
         const target = game.pendingActions[detective].action.target;
         const actualRole = game.roles[target]; // Return the actual role instead of just Mafia/Not Mafia
 
         return {
+            detective,
             target: target,
             result: actualRole // Return actual role: 'Mafia', 'Doctor', 'Detective', 'Villager'
         };
     }
 
-    // Process mafia action
+    // Process mafia action - with several ASUR the most chosen target dies,
+    // ties going to whichever was picked first in join order
     processMafiaAction(game) {
-        const mafia = game.players.find(p => game.roles[p] === 'Mafia' && !game.eliminated.includes(p));
-        if (!mafia || !game.pendingActions[mafia]) return null;
+        const votes = new Map();
+        for (const mafia of game.players) {
+            if (game.roles[mafia] !== 'Mafia' || game.eliminated.includes(mafia)) continue;
+            const target = game.pendingActions[mafia]?.action?.target;
+            if (target) votes.set(target, (votes.get(target) || 0) + 1);
+        }
 
-        return game.pendingActions[mafia].action.target;
+        let chosen = null;
+        for (const [target, count] of votes) {
+            if (!chosen || count > votes.get(chosen)) chosen = target;
+        }
+        return chosen;
     }
 
     // Process doctor action
     processDoctorAction(game) {
         const doctor = game.players.find(p => game.roles[p] === 'Doctor' && !game.eliminated.includes(p));
-        if (!doctor || !game.pendingActions[doctor]) return null;
+        if (!doctor || !game.pendingActions[doctor]?.action) return null;
 
         return game.pendingActions[doctor].action.target;
     }
@@ -354,34 +519,45 @@ class PhaseManager {
         return false;
     }
 
-    // Assign roles to players
-    assignRoles(game) {
-        const players = [...game.players];
-        const numPlayers = players.length;
-        const roles = ['Mafia', 'Doctor', 'Detective'];
-
-        // Add villagers to the roles array
-        for (let i = 0; i < numPlayers - 3; i++) {
-            roles.push('Villager');
+    // Revealed player seeds keyed by lowercase address
+    getSeedContributions(game) {
+        const contributions = {};
+        for (const [address, value] of Object.entries(game.seedReveals || {})) {
+            contributions[address.toLowerCase()] = value;
         }
+        return contributions;
+    }
 
-        // Shuffle roles
-        for (let i = roles.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [roles[i], roles[j]] = [roles[j], roles[i]];
+    // Assign roles with a shuffle driven by the players' and server's seeds
+    assignRoles(game) {
+        if (!game.serverSeed) {
+            game.serverSeed = randomSeedValue();
         }
 
-        // Assign roles to players
-        for (let i = 0; i < numPlayers; i++) {
-            game.roles[players[i]] = roles[i];
+        // Settings are validated against minPlayers; fall back to auto if the table ended up a different size
+        let composition = resolveComposition(game.players.length, game.settings?.roleSetup);
+        const error = compositionError(game.players.length, composition);
+        if (error) {
+            console.warn(`⚠️ Role setup of game ${game.gameId} doesn't fit ${game.players.length} players (${error}) - dealing the balanced preset`);
+            composition = autoComposition(game.players.length);
         }
+        game.roleComposition = composition;
+
+        game.roleSeed = combineSeed(this.getSeedContributions(game), game.serverSeed);
+        game.roles = shuffleRoles([...game.players], game.roleSeed, composition);
 
         console.log(`Roles assigned for game ${game.gameId}:`, game.roles);
     }
 
-    // Generate role commit hash
+    // Canonical role serialization (addresses sorted), so the commit can be
+    // recomputed from the revealed string alone
+    serializeRoles(game) {
+        return canonicalJson(game.roles);
+    }
+
+    // Generate role commit hash: sha256(serialization + salt)
     generateRoleCommit(game) {
-        const roleData = JSON.stringify(game.roles);
+        const roleData = this.serializeRoles(game);
         const salt = crypto.randomBytes(32).toString('hex');
         const commit = crypto.createHash('sha256').update(roleData + salt).digest('hex');
 
@@ -391,6 +567,24 @@ class PhaseManager {
         return commit;
     }
 
+    // Opening of the role commit, published once the game is over
+    revealRoleCommit(game) {
+        if (!game.roleCommit || !game.roleSalt) return null;
+
+        return {
+            serialization: this.serializeRoles(game),
+            salt: game.roleSalt,
+            // Everything needed to redo the shuffle
+            shuffle: {
+                players: [...game.players],
+                contributions: this.getSeedContributions(game),
+                serverSeed: game.serverSeed,
+                seed: game.roleSeed,
+                composition: game.roleComposition
+            }
+        };
+    }
+
     // Check if all players have submitted night actions and resolve if so
     checkAndResolveNightPhase(gameId) {
         const game = this.gameManager.getGame(gameId);
@@ -419,6 +613,7 @@ class PhaseManager {
 
         const { playerAddress, vote } = data;
         game.votes[playerAddress] = vote;
+        this.gameManager.recordEvent(game, 'vote', { player: playerAddress, target: vote });
 
         console.log(`🗳️ Vote submitted: ${playerAddress} voted for ${vote}`);
         console.log(`🗳️ Current votes:`, game.votes);
@@ -699,6 +894,7 @@ class PhaseManager {
                     game.day++;
                     game.timeLeft = game.settings?.nightPhaseDuration || parseInt(process.env.GAME_TIMEOUT_SECONDS) || 30;
                     game.pendingActions = {};
+                    game.nightReveal = null;
                     this.gameManager.phaseStartTimes.set(gameId, Date.now());
 
                     // Store last voting result before clearing (for frontend reference)
@@ -708,6 +904,7 @@ class PhaseManager {
                     game.votingResolved = false;
                     game.votingResult = null;
                     game.nightResolution = null; // Clear previous night resolution
+                    this.gameManager.recordPhaseChange(game);
 
                     await this.startTimer(gameId, true);
 
@@ -742,6 +939,7 @@ class PhaseManager {
             game.readyTimer = null;
         }
         game.timerReady = false;
+        this.clearRevealTimer(gameId);
         console.log(`Timers cleared for game ${gameId}`);
     }
 }
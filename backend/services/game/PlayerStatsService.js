@@ -0,0 +1,167 @@
+const ROLES = ['Mafia', 'Doctor', 'Detective', 'Villager'];
+const MAX_GAMES = 200; // Most recent finished games included in a profile
+const RECENT_GAMES = 10;
+
+class PlayerStatsService {
+  constructor(gameManager) {
+    this.gameManager = gameManager; // Reference to GameManager for the repository and blockchain service
+    this.settlements = new Map(); // settlementTxHash -> on-chain GameSettled data (immutable once mined)
+  }
+
+  /**
+   * Track record of a wallet over its stored games. Payouts are cross-checked
+   * against the GameSettled event of each settlement transaction.
+   * @param {string} playerAddress - Valid EVM address
+   * @returns {Promise<Object>} Profile stats (amounts are Wei strings)
+   */
+  async getPlayerStats(playerAddress) {
+    const address = playerAddress.toLowerCase();
+    const dbGames = await this.gameManager.gameRepository.getPlayerGames(playerAddress, MAX_GAMES);
+
+    const stats = {
+      address: playerAddress,
+      gamesPlayed: 0,
+      wins: 0,
+      losses: 0,
+      roles: Object.fromEntries(ROLES.map(role => [role, { played: 0, wins: 0, losses: 0 }])),
+      tasks: { attempted: 0, completed: 0, completionRate: null },
+      votes: { cast: 0, onMafia: 0, accuracy: null },
+      earnings: { staked: '0', received: '0', net: '0', verifiedGames: 0, mismatchedGames: 0, unverifiedGames: 0 },
+      recentGames: []
+    };
+
+    let staked = 0n;
+    let received = 0n;
+
+    for (const dbGame of dbGames) {
+      const replay = dbGame.replay;
+      const player = replay.players.find(p => p.toLowerCase() === address);
+      if (!player) continue;
+
+      const role = replay.roles?.[player] || null;
+      const won = (replay.winners || []).some(w => w.toLowerCase() === address);
+
+      stats.gamesPlayed++;
+      won ? stats.wins++ : stats.losses++;
+      if (stats.roles[role]) {
+        stats.roles[role].played++;
+        won ? stats.roles[role].wins++ : stats.roles[role].losses++;
+      }
+
+      this.countTasksAndVotes(stats, replay, address);
+
+      const money = await this.getGameEarnings(dbGame, address);
+      if (money.status !== 'none' && money.status !== 'pending') {
+        staked += BigInt(money.staked);
+        received += BigInt(money.received);
+      }
+      if (money.status === 'verified') stats.earnings.verifiedGames++;
+      if (money.status === 'mismatch') stats.earnings.mismatchedGames++;
+      if (money.status === 'unverified') stats.earnings.unverifiedGames++;
+
+      if (stats.recentGames.length < RECENT_GAMES) {
+        stats.recentGames.push({
+          gameId: dbGame.gameId,
+          roomCode: replay.roomCode,
+          role,
+          won,
+          endedAt: replay.endedAt || new Date(dbGame.updatedAt).getTime(),
+          playerCount: replay.players.length,
+          ...money
+        });
+      }
+    }
+
+    if (stats.tasks.attempted > 0) {
+      stats.tasks.completionRate = stats.tasks.completed / stats.tasks.attempted;
+    }
+    if (stats.votes.cast > 0) {
+      stats.votes.accuracy = stats.votes.onMafia / stats.votes.cast;
+    }
+    stats.earnings.staked = staked.toString();
+    stats.earnings.received = received.toString();
+    stats.earnings.net = (received - staked).toString();
+
+    return stats;
+  }
+
+  countTasksAndVotes(stats, replay, address) {
+    const finalVotes = new Map(); // day -> target; a changed vote only counts once
+
+    for (const event of replay.events || []) {
+      if (event.player?.toLowerCase() !== address) continue;
+
+      if (event.type === 'task_result') {
+        stats.tasks.attempted++;
+        if (event.success) stats.tasks.completed++;
+      } else if (event.type === 'vote') {
+        finalVotes.set(event.day, event.target);
+      }
+    }
+
+    for (const target of finalVotes.values()) {
+      stats.votes.cast++;
+      if (replay.roles?.[target] === 'Mafia') stats.votes.onMafia++;
+    }
+  }
+
+  /**
+   * Stake and payout of one game. The stored distribution is trusted only as
+   * far as the chain agrees; on a mismatch the on-chain payout is used.
+   */
+  async getGameEarnings(dbGame, address) {
+    if (!dbGame.stakingRequired) {
+      return { status: 'none', staked: '0', received: '0', net: '0', settlementTxHash: null };
+    }
+
+    const settlement = dbGame.settlement;
+    if (!settlement?.settlementTxHash) {
+      return { status: 'pending', staked: dbGame.stakeAmount, received: '0', net: '0', settlementTxHash: null };
+    }
+
+    const distribution = (settlement.distributions || []).find(d => d.playerAddress.toLowerCase() === address);
+    const staked = BigInt(dbGame.stakeAmount);
+    let received = BigInt(distribution?.totalReceived || '0');
+    let status = 'unverified';
+
+    const onChain = await this.getOnChainSettlement(dbGame.onChainGameId, settlement.settlementTxHash);
+    if (onChain) {
+      const index = onChain.winners.findIndex(w => w.toLowerCase() === address);
+      const onChainReceived = index === -1 ? 0n : BigInt(onChain.payouts[index]);
+      status = onChainReceived === received ? 'verified' : 'mismatch';
+      received = onChainReceived;
+    }
+
+    return {
+      status,
+      staked: staked.toString(),
+      received: received.toString(),
+      net: (received - staked).toString(),
+      settlementTxHash: settlement.settlementTxHash
+    };
+  }
+
+  async getOnChainSettlement(onChainGameId, txHash) {
+    if (this.settlements.has(txHash)) {
+      return this.settlements.get(txHash);
+    }
+
+    const blockchainService = this.gameManager.blockchainService;
+    if (!onChainGameId || !blockchainService?.isInitialized?.() || typeof blockchainService.getSettlement !== 'function') {
+      return null;
+    }
+
+    try {
+      const settlement = await blockchainService.getSettlement(onChainGameId, txHash);
+      if (settlement) {
+        this.settlements.set(txHash, settlement);
+      }
+      return settlement;
+    } catch (error) {
+      console.warn(`⚠️ Could not verify settlement ${txHash} on-chain:`, error.message);
+      return null;
+    }
+  }
+}
+
+module.exports = PlayerStatsService;
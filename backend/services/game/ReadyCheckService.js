@@ -0,0 +1,161 @@
+const READY_COUNTDOWN_MS = (parseInt(process.env.READY_COUNTDOWN_SECONDS) || 5) * 1000;
+const READY_TIMEOUT_MS = (parseInt(process.env.READY_TIMEOUT_SECONDS) || 90) * 1000;
+const TICK_MS = 2000;
+
+/**
+ * Lobby ready-check. Once minPlayers are seated and everyone has staked, each
+ * player has READY_TIMEOUT to ready up. When all of them are ready a
+ * server-side countdown starts the game; anyone un-readying (or leaving)
+ * cancels it. Players still not ready at the deadline are removed and their
+ * stake is refunded on-chain, reopening their seat.
+ *
+ * State lives on the game so it reaches clients with every broadcast:
+ *   game.lobbyReady - addresses that are ready
+ *   game.readyCheck - { deadline, countdownEndsAt } while the lobby is full, else null
+ */
+class ReadyCheckService {
+  constructor(gameManager) {
+    this.gameManager = gameManager; // Reference to GameManager for starting games and removing players
+    this.countdowns = new Map(); // gameId -> timeout that starts the game
+    this.ticking = false;
+  }
+
+  isStaked(game, playerAddress) {
+    return !game.stakingRequired || game.playerStakes.has(`${game.gameId}-${playerAddress}`);
+  }
+
+  // Every seat needed is taken and staked - only readiness stands between the lobby and the game
+  isFull(game) {
+    return game.players.length >= game.minPlayers && game.players.every(player => this.isStaked(game, player));
+  }
+
+  setReady(gameId, playerAddress, ready) {
+    const game = this.gameManager.getGame(gameId);
+    if (!game) {
+      throw new Error('Game not found');
+    }
+    if (!game.players.includes(playerAddress)) {
+      throw new Error('Player not in game');
+    }
+    if (game.phase !== 'lobby' || game.seedRound) {
+      throw new Error('The game has already started');
+    }
+    if (ready && !this.isStaked(game, playerAddress)) {
+      throw new Error('Stake before readying up');
+    }
+
+    game.lobbyReady = game.lobbyReady.filter(player => player !== playerAddress);
+    if (ready) {
+      game.lobbyReady.push(playerAddress);
+    }
+    console.log(`🙋 ${playerAddress} is ${ready ? 'ready' : 'not ready'} in game ${gameId} (${game.lobbyReady.length}/${game.players.length})`);
+
+    this.evaluate(gameId, true);
+  }
+
+  /**
+   * Start or cancel the countdown after the lobby changed. Broadcasts the game
+   * when the ready-check moved (or always, with forceEmit).
+   */
+  evaluate(gameId, forceEmit = false) {
+    const game = this.gameManager.getGame(gameId);
+    if (!game || game.phase !== 'lobby' || game.seedRound) {
+      this.cancelCountdown(gameId);
+      return;
+    }
+
+    game.lobbyReady = game.lobbyReady.filter(player => game.players.includes(player));
+    const before = JSON.stringify(game.readyCheck);
+
+    if (!this.isFull(game)) {
+      this.cancelCountdown(gameId);
+      game.readyCheck = null;
+    } else {
+      if (!game.readyCheck) {
+        game.readyCheck = { deadline: Date.now() + READY_TIMEOUT_MS, countdownEndsAt: null };
+      }
+
+      const allReady = game.players.every(player => game.lobbyReady.includes(player));
+      if (allReady && !game.readyCheck.countdownEndsAt) {
+        this.startCountdown(gameId);
+      } else if (!allReady && game.readyCheck.countdownEndsAt) {
+        this.cancelCountdown(gameId);
+        game.readyCheck.countdownEndsAt = null;
+        console.log(`⏸️ Countdown cancelled for game ${gameId}`);
+      }
+    }
+
+    if ((forceEmit || JSON.stringify(game.readyCheck) !== before) && this.gameManager.socketManager) {
+      this.gameManager.socketManager.emitGameStateUpdate(gameId);
+    }
+  }
+
+  startCountdown(gameId) {
+    const game = this.gameManager.getGame(gameId);
+    game.readyCheck.countdownEndsAt = Date.now() + READY_COUNTDOWN_MS;
+    console.log(`⏱️ Everyone is ready - game ${gameId} starts in ${READY_COUNTDOWN_MS / 1000}s`);
+
+    this.countdowns.set(gameId, setTimeout(() => {
+      this.countdowns.delete(gameId);
+      this.gameManager.startGame(gameId).catch(error => {
+        console.error(`❌ Error starting game ${gameId} after the ready countdown:`, error);
+      });
+    }, READY_COUNTDOWN_MS));
+  }
+
+  cancelCountdown(gameId) {
+    const timer = this.countdowns.get(gameId);
+    if (timer) {
+      clearTimeout(timer);
+      this.countdowns.delete(gameId);
+    }
+  }
+
+  // Remove players who let the ready deadline pass
+  async checkDeadlines() {
+    const now = Date.now();
+
+    for (const game of this.gameManager.games.values()) {
+      if (game.phase !== 'lobby' || !game.readyCheck || game.readyCheck.countdownEndsAt || now < game.readyCheck.deadline) {
+        continue;
+      }
+
+      const unready = game.players.filter(player => !game.lobbyReady.includes(player));
+      for (const playerAddress of unready) {
+        try {
+          await this.gameManager.removePlayer(game.gameId, playerAddress, 'Did not ready up in time');
+        } catch (error) {
+          console.error(`❌ Could not remove ${playerAddress} from game ${game.gameId}:`, error);
+        }
+      }
+
+      // Refunds that failed are retried after another full timeout rather than every tick
+      if (game.readyCheck && now >= game.readyCheck.deadline) {
+        game.readyCheck.deadline = Date.now() + READY_TIMEOUT_MS;
+        this.gameManager.socketManager?.emitGameStateUpdate(game.gameId);
+      }
+    }
+  }
+
+  async tick() {
+    if (this.ticking) return; // Previous tick is still waiting on refunds
+    this.ticking = true;
+    try {
+      await this.checkDeadlines();
+    } catch (error) {
+      console.error('❌ Ready-check tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  startReadyTicker() {
+    setInterval(() => {
+      this.tick();
+    }, TICK_MS);
+
+    console.log('✅ Lobby ready-check started');
+  }
+}
+
+module.exports = ReadyCheckService;
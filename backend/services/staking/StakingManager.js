@@ -60,6 +60,28 @@ class StakingManager {
         return game.players.length >= game.minPlayers && allPlayersStaked;
     }
 
+    // Forget a refunded player's stake so their seat can be staked again
+    releasePlayerStake(gameId, playerAddress) {
+        const game = this.gameManager.getGame(gameId);
+        if (!game) {
+            return;
+        }
+
+        game.playerStakes.delete(`${gameId}-${playerAddress}`);
+
+        const contractGameId = game.onChainGameId;
+        const stakeKey = `${contractGameId}-${playerAddress}`;
+        const stake = this.stakingService.playerStakes.get(stakeKey);
+        const stakingGame = this.stakingService.stakedGames.get(contractGameId);
+        if (stake && stakingGame) {
+            stakingGame.players = stakingGame.players.filter(player => player !== playerAddress);
+            stakingGame.totalStaked -= stake.amount;
+        }
+        this.stakingService.playerStakes.delete(stakeKey);
+
+        console.log(`💸 Released stake of ${playerAddress} in game ${gameId}`);
+    }
+
     async recordPlayerStake(gameId, playerAddress, transactionHash) {
         console.log(`💰 recordPlayerStake called with:`, { gameId, playerAddress: typeof playerAddress === 'object' ? JSON.stringify(playerAddress) : playerAddress, transactionHash });
 
@@ -174,6 +196,11 @@ class StakingManager {
             }
         }
 
+        // The creator's stake lists a public lobby; every stake changes its player count
+        if (this.gameManager.socketManager) {
+            this.gameManager.socketManager.emitLobbyUpdate(gameId);
+        }
+
         // Check if game is ready to start
         this.checkStakingStatus(gameId);
     }
@@ -219,13 +246,9 @@ class StakingManager {
             phase: game.phase
         });
 
-        // If staking is complete and game is still in lobby, start the game with a delay
+        // Once staking is complete the game starts from the ready-check countdown
         if (isReady && game.phase === 'lobby') {
-            console.log(`🎯 Staking complete for game ${gameId}, starting game in 3 seconds...`);
-            // Add a 3-second delay to ensure all players have time to see role assignment
-            setTimeout(async () => {
-                await this.gameManager.startGame(gameId);
-            }, 3000);
+            console.log(`🎯 Staking complete for game ${gameId}, waiting for players to ready up`);
         } else {
             console.log(`⏳ Game ${gameId} not ready to start yet:`, {
                 isReady: isReady,
@@ -234,6 +257,8 @@ class StakingManager {
                 staked: stakedCount
             });
         }
+
+        this.gameManager.readyCheckService.evaluate(gameId);
     }
 
     getPlayerStakeInfo(gameId, playerAddress) {
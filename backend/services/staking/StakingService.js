@@ -1,6 +1,9 @@
 const crypto = require('crypto');
 const { ethers } = require('ethers');
 
+// Pepasur.sol's initial houseCutBps, used when the contract can't be asked for the live one
+const DEFAULT_HOUSE_CUT_BPS = 200;
+
 class StakingService {
   constructor() {
     // Note: Stake amounts are now determined per-game, not hardcoded
@@ -88,7 +91,9 @@ class StakingService {
     };
   }
 
-  calculateRewards(gameId, winners, losers, gameRoles, eliminatedPlayers) {
+  // houseCutBps must match the contract's at settlement - settleGame rejects
+  // payouts that don't add up to totalPool minus its current cut
+  calculateRewards(gameId, winners, losers, gameRoles, eliminatedPlayers, houseCutBps = DEFAULT_HOUSE_CUT_BPS, feeRecipient = null) {
     try {
       const game = this.stakedGames.get(gameId);
       if (!game) {
@@ -107,10 +112,9 @@ class StakingService {
       const totalPool = BigInt(game.totalStaked);
       console.log(`💰 totalPool (as BigInt): ${totalPool.toString()}`);
 
-      const houseCutBps = 200n; // 2%
-      const houseCut = (totalPool * houseCutBps) / 10000n;
+      const houseCut = (totalPool * BigInt(houseCutBps)) / 10000n;
       const rewardPool = totalPool - houseCut;
-      console.log(`💰 rewardPool (after 2% cut): ${rewardPool.toString()}`);
+      console.log(`💰 rewardPool (after ${houseCutBps / 100}% cut): ${rewardPool.toString()}`);
 
       // Calculate actual stake per player from the total pool
       const playerCount = BigInt(game.players.length);
@@ -190,6 +194,8 @@ class StakingService {
         gameId: gameId,
         totalPool: totalPool.toString(),
         houseCut: houseCut.toString(),
+        houseCutBps: houseCutBps,
+        feeRecipient: feeRecipient,
         rewardPool: rewardPool.toString(),
         rewards: rewards,
       };
@@ -199,7 +205,7 @@ class StakingService {
     }
   }
 
-  async distributeRewards(gameId, rewards, blockchainService = null) {
+  async distributeRewards(gameId, rewards, blockchainService = null, roleCommit = null) {
     try {
       // IMPORTANT: Filter out players with 0 payouts - only actual winners go to settlement
       const actualWinners = rewards.rewards.filter((r) => BigInt(r.totalReceived) > 0n);
@@ -229,7 +235,7 @@ class StakingService {
         if (typeof blockchainService.settleGame === 'function') {
           // EVMService - uses ECDSA signatures
           console.log(`💰 Settling game ${gameId} with EVMService using ECDSA signatures`);
-          txHash = await blockchainService.settleGame(gameId, winners, payoutAmounts);
+          txHash = await blockchainService.settleGame(gameId, winners, payoutAmounts, roleCommit);
         } else {
           throw new Error('Blockchain service does not support settlement operations');
         }
@@ -265,9 +271,12 @@ class StakingService {
         success: true,
         gameId: gameId,
         settlementTxHash: txHash,
+        roleCommit: roleCommit,
         distributions: distributions, // Include detailed breakdown for frontend
         totalPool: rewards.totalPool,
         houseCut: rewards.houseCut,
+        houseCutBps: rewards.houseCutBps,
+        feeRecipient: rewards.feeRecipient,
         rewardPool: rewards.rewardPool,
       };
     } catch (error) {
@@ -0,0 +1,61 @@
+/**
+ * Team Elo rating.
+ *
+ * A game is a match between two teams: the Mafia and the village (everyone
+ * else). Each team's strength is the average rating of its players, and every
+ * player on a team gains or loses the same amount, K * (score - expected).
+ */
+
+const DEFAULT_RATING = 1500;
+const K_FACTOR = 32;
+
+/**
+ * @param {string} role - Backend role
+ * @returns {'mafia'|'village'}
+ */
+function teamOf(role) {
+  return role === 'Mafia' ? 'mafia' : 'village';
+}
+
+function averageRating(players, ratings) {
+  if (players.length === 0) return DEFAULT_RATING;
+  const total = players.reduce((sum, player) => sum + (ratings.get(player) ?? DEFAULT_RATING), 0);
+  return total / players.length;
+}
+
+/**
+ * Rating change of every player in one finished game
+ * @param {Map<string, number>} ratings - Current ratings by address (missing = DEFAULT_RATING)
+ * @param {Record<string, string>} roles - Roles by address
+ * @param {string[]} winners - Winning addresses
+ * @returns {Map<string, number>} Rating delta by address
+ */
+function rateGame(ratings, roles, winners) {
+  const players = Object.keys(roles);
+  const mafia = players.filter(player => teamOf(roles[player]) === 'mafia');
+  const village = players.filter(player => teamOf(roles[player]) === 'village');
+
+  const winnerSet = new Set(winners);
+  const mafiaWon = mafia.some(player => winnerSet.has(player));
+  const villageWon = village.some(player => winnerSet.has(player));
+  const deltas = new Map();
+  if (mafiaWon === villageWon || mafia.length === 0 || village.length === 0) {
+    return deltas; // Draw or abandoned game - nothing to rate
+  }
+
+  const mafiaRating = averageRating(mafia, ratings);
+  const villageRating = averageRating(village, ratings);
+  const mafiaExpected = 1 / (1 + Math.pow(10, (villageRating - mafiaRating) / 400));
+  const mafiaDelta = K_FACTOR * ((mafiaWon ? 1 : 0) - mafiaExpected);
+
+  mafia.forEach(player => deltas.set(player, mafiaDelta));
+  village.forEach(player => deltas.set(player, -mafiaDelta));
+  return deltas;
+}
+
+module.exports = {
+  DEFAULT_RATING,
+  K_FACTOR,
+  teamOf,
+  rateGame,
+};
@@ -0,0 +1,155 @@
+/**
+ * Multi-party seed for the role shuffle.
+ *
+ * The server commits to its own random value when the game is created and each
+ * player commits sha256(value) from the lobby. When the game starts the
+ * players reveal their values, and everything revealed is hashed into one seed
+ * that drives a deterministic Fisher-Yates shuffle. The contributions are
+ * published when the game ends so any client can redo the shuffle
+ * (frontend/utils/roleShuffle.ts builds the same strings - keep them in sync).
+ */
+
+const crypto = require('crypto');
+const { canonicalJson } = require('./sessionKeys');
+
+const HEX_32_BYTES = /^[0-9a-f]{64}$/;
+
+function sha256(text) {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * A fresh 32-byte random value (hex)
+ * @returns {string}
+ */
+function randomSeedValue() {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Commit to a seed value
+ * @param {string} value - 32-byte hex
+ * @returns {string} sha256 hex
+ */
+function seedCommitFor(value) {
+  return sha256(value);
+}
+
+/**
+ * @param {*} value
+ * @returns {boolean} true for a lowercase 32-byte hex string
+ */
+function isSeedHex(value) {
+  return typeof value === 'string' && HEX_32_BYTES.test(value);
+}
+
+/**
+ * Combine revealed player values with the server's value
+ * @param {Object<string, string>} contributions - lowercase address -> revealed value
+ * @param {string} serverSeed
+ * @returns {string} seed (sha256 hex)
+ */
+function combineSeed(contributions, serverSeed) {
+  return sha256(canonicalJson({ contributions, server: serverSeed }));
+}
+
+/**
+ * Balanced composition for a lobby size: one ASUR per four players, DEVA
+ * (Doctor) from three players and RISHI (Detective) from four
+ * @param {number} playerCount
+ * @returns {{ mafia: number, doctor: boolean, detective: boolean }}
+ */
+function autoComposition(playerCount) {
+  return {
+    mafia: Math.max(1, Math.floor(playerCount / 4)),
+    doctor: playerCount >= 3,
+    detective: playerCount >= 4
+  };
+}
+
+/**
+ * Composition a role setup deals for this many players
+ * @param {number} playerCount
+ * @param {{ mode: 'auto'|'custom', mafia?: number, doctor?: boolean, detective?: boolean }} [roleSetup] - Missing means auto
+ * @returns {{ mafia: number, doctor: boolean, detective: boolean }}
+ */
+function resolveComposition(playerCount, roleSetup) {
+  if (!roleSetup || roleSetup.mode !== 'custom') {
+    return autoComposition(playerCount);
+  }
+  return { mafia: roleSetup.mafia, doctor: !!roleSetup.doctor, detective: !!roleSetup.detective };
+}
+
+/**
+ * Why a composition can't be dealt to this many players, or null if it can.
+ * ASUR must start outnumbered - at parity they would win before the first night.
+ * @param {number} playerCount
+ * @param {{ mafia: number, doctor: boolean, detective: boolean }} composition
+ * @returns {string|null}
+ */
+function compositionError(playerCount, composition) {
+  const { mafia, doctor, detective } = composition;
+  if (!Number.isInteger(mafia) || mafia < 1) {
+    return 'There must be at least 1 ASUR';
+  }
+  if (mafia * 2 >= playerCount) {
+    return `ASUR must be outnumbered - at most ${Math.max(0, Math.ceil(playerCount / 2) - 1)} ASUR for ${playerCount} players`;
+  }
+  if (mafia + (doctor ? 1 : 0) + (detective ? 1 : 0) > playerCount) {
+    return `Not enough players for ${mafia} ASUR${doctor ? ', DEVA' : ''}${detective ? ', RISHI' : ''}`;
+  }
+  return null;
+}
+
+/**
+ * Roles dealt for a game of this size, before shuffling
+ * @param {number} playerCount
+ * @param {{ mafia: number, doctor: boolean, detective: boolean }} composition
+ * @returns {string[]}
+ */
+function roleDeck(playerCount, composition) {
+  const roles = [];
+  for (let i = 0; i < composition.mafia; i++) {
+    roles.push('Mafia');
+  }
+  if (composition.doctor) roles.push('Doctor');
+  if (composition.detective) roles.push('Detective');
+  while (roles.length < playerCount) {
+    roles.push('Villager');
+  }
+  return roles;
+}
+
+/**
+ * Deterministically shuffle the deck and deal it to players in join order
+ * @param {string[]} players
+ * @param {string} seed
+ * @param {{ mafia: number, doctor: boolean, detective: boolean }} composition
+ * @returns {Object<string, string>} address -> role
+ */
+function shuffleRoles(players, seed, composition) {
+  const roles = roleDeck(players.length, composition);
+
+  for (let i = roles.length - 1; i > 0; i--) {
+    const j = Number(BigInt(`0x${sha256(`${seed}:${i}`)}`) % BigInt(i + 1));
+    [roles[i], roles[j]] = [roles[j], roles[i]];
+  }
+
+  const assignment = {};
+  players.forEach((player, index) => {
+    assignment[player] = roles[index];
+  });
+  return assignment;
+}
+
+module.exports = {
+  randomSeedValue,
+  seedCommitFor,
+  isSeedHex,
+  combineSeed,
+  autoComposition,
+  resolveComposition,
+  compositionError,
+  roleDeck,
+  shuffleRoles,
+};
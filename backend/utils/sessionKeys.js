@@ -0,0 +1,65 @@
+/**
+ * Session key message formats.
+ *
+ * A player's wallet signs one delegation per game that authorizes a throwaway
+ * browser key; that key then signs every in-game action. The frontend builds
+ * the exact same strings (frontend/utils/sessionKeys.ts) - keep them in sync.
+ */
+
+/**
+ * JSON with object keys sorted at every level and undefined values dropped,
+ * so both sides serialize an action body identically
+ * @param {*} value
+ * @returns {string}
+ */
+function canonicalJson(value) {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value === undefined ? null : value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  const entries = Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Message the wallet signs to authorize a session key
+ * @param {{gameId: string, playerAddress: string, sessionKey: string, validFrom: number, validUntil: number}} delegation
+ * @returns {string}
+ */
+function buildDelegationMessage({ gameId, playerAddress, sessionKey, validFrom, validUntil }) {
+  return [
+    'Pepasur session key',
+    '',
+    'Authorize this temporary key to sign my moves in one game. It cannot move funds.',
+    '',
+    `Game: ${gameId}`,
+    `Player: ${playerAddress}`,
+    `Session key: ${sessionKey}`,
+    `Valid from: ${new Date(validFrom).toISOString()}`,
+    `Valid until: ${new Date(validUntil).toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Message the session key signs for one action
+ * @param {'night_action'|'task'|'vote'|'chat'} kind
+ * @param {string} gameId
+ * @param {string} playerAddress
+ * @param {string|null} requestId - Client requestId (null for chat, which signs its timestamp instead)
+ * @param {object} body - The action fields (e.g. { vote })
+ * @returns {string}
+ */
+function buildActionMessage(kind, gameId, playerAddress, requestId, body) {
+  return `pepasur-action:${canonicalJson([kind, gameId, playerAddress.toLowerCase(), requestId || null, body])}`;
+}
+
+module.exports = {
+  canonicalJson,
+  buildDelegationMessage,
+  buildActionMessage,
+};
@@ -0,0 +1,80 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) message parsing.
+ *
+ * The client builds the message, the wallet signs it, and the server parses it
+ * back to check domain, nonce and validity window before trusting the address.
+ */
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+const FIELD_NAMES = {
+  'URI': 'uri',
+  'Version': 'version',
+  'Chain ID': 'chainId',
+  'Nonce': 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+  'Request ID': 'requestId',
+};
+
+/**
+ * Parse an EIP-4361 message
+ * @param {string} message
+ * @returns {{domain: string, address: string, statement: string|null, uri: string, version: string, chainId: number, nonce: string, issuedAt: string, expirationTime?: string, notBefore?: string}}
+ * @throws {Error} if the message is malformed
+ */
+function parseSiweMessage(message) {
+  if (typeof message !== 'string') {
+    throw new Error('SIWE message must be a string');
+  }
+
+  const lines = message.split('\n');
+  if (!lines[0] || !lines[0].endsWith(HEADER_SUFFIX)) {
+    throw new Error('Invalid SIWE message header');
+  }
+
+  const parsed = {
+    domain: lines[0].slice(0, -HEADER_SUFFIX.length),
+    address: (lines[1] || '').trim(),
+    statement: null,
+  };
+
+  let index = 2;
+  // Optional statement, surrounded by blank lines
+  if (lines[index] === '' && lines[index + 1] !== undefined && !lines[index + 1].includes(': ')) {
+    parsed.statement = lines[index + 1];
+    index += 2;
+  }
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (!line) continue;
+
+    const separator = line.indexOf(': ');
+    const key = FIELD_NAMES[line.slice(0, separator)];
+    if (separator === -1 || !key) continue;
+    parsed[key] = line.slice(separator + 2);
+  }
+
+  for (const required of ['uri', 'version', 'chainId', 'nonce', 'issuedAt']) {
+    if (!parsed[required]) {
+      throw new Error(`SIWE message is missing ${required}`);
+    }
+  }
+
+  if (parsed.version !== '1') {
+    throw new Error(`Unsupported SIWE version: ${parsed.version}`);
+  }
+
+  parsed.chainId = Number(parsed.chainId);
+  if (!Number.isInteger(parsed.chainId)) {
+    throw new Error('Invalid SIWE chain ID');
+  }
+
+  return parsed;
+}
+
+module.exports = {
+  parseSiweMessage,
+};
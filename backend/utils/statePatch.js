@@ -0,0 +1,56 @@
+/**
+ * Delta encoding for game_state broadcasts.
+ *
+ * A patch is a list of operations against a JSON snapshot:
+ *   { op: 'set', path: ['taskCounts', '0xabc'], value: 2 }
+ *   { op: 'unset', path: ['votingResult'] }
+ * Plain objects are diffed key by key; arrays and primitives are replaced whole.
+ */
+
+function isPlainObject(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep-copy a snapshot the same way Socket.IO serializes it (drops undefined)
+ * @param {object} snapshot
+ * @returns {object}
+ */
+function cloneSnapshot(snapshot) {
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+/**
+ * Compute the operations that turn `previous` into `next`
+ * @param {object} previous
+ * @param {object} next
+ * @param {string[]} [path]
+ * @returns {Array<{op: string, path: string[], value?: any}>}
+ */
+function diffSnapshots(previous, next, path = []) {
+  const ops = [];
+
+  for (const key of Object.keys(previous)) {
+    if (!(key in next)) {
+      ops.push({ op: 'unset', path: [...path, key] });
+    }
+  }
+
+  for (const key of Object.keys(next)) {
+    const before = previous[key];
+    const after = next[key];
+
+    if (isPlainObject(before) && isPlainObject(after)) {
+      ops.push(...diffSnapshots(before, after, [...path, key]));
+    } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+      ops.push({ op: 'set', path: [...path, key], value: after });
+    }
+  }
+
+  return ops;
+}
+
+module.exports = {
+  cloneSnapshot,
+  diffSnapshots,
+};
@@ -46,6 +46,8 @@ contract Pepasur is ReentrancyGuard {
     address public feeRecipient;
     uint16 public houseCutBps; // basis points (200 = 2%)
     mapping(address => uint256) public pendingWithdrawals;
+    mapping(uint64 => bytes32) public roleCommits; // Role assignment commitment each settlement was signed over
+    mapping(uint64 => bool) public gameStarted; // Set by the server when play begins; players can no longer be removed
 
     // ============ Events ============
 
@@ -53,8 +55,11 @@ contract Pepasur is ReentrancyGuard {
     event PlayerJoined(uint64 indexed gameId, address indexed player, uint256 deposit);
     event GameStarted(uint64 indexed gameId, uint256 playerCount);
     event GameSettled(uint64 indexed gameId, address[] winners, uint256[] payouts, uint256 houseFee);
+    event RoleCommitAnchored(uint64 indexed gameId, bytes32 roleCommit);
     event Withdrawn(address indexed player, uint256 amount);
     event GameCancelled(uint64 indexed gameId, address[] refundedPlayers);
+    event PlayerRemoved(uint64 indexed gameId, address indexed player, uint256 refund);
+    event GameMarkedStarted(uint64 indexed gameId);
     event ServerSignerUpdated(address indexed oldSigner, address indexed newSigner);
     event FeeRecipientUpdated(address indexed oldRecipient, address indexed newRecipient);
     event HouseCutUpdated(uint16 oldCut, uint16 newCut);
@@ -78,6 +83,7 @@ contract Pepasur is ReentrancyGuard {
     error InvalidMinPlayers(uint8 provided);
     error PayoutMismatch(uint256 totalPayouts, uint256 expectedAmount);
     error WinnerCountMismatch(uint256 winnersLength, uint256 payoutsLength);
+    error PlayerNotInGame(uint64 gameId, address player);
 
     // ============ Modifiers ============
 
@@ -160,12 +166,14 @@ contract Pepasur is ReentrancyGuard {
      * @param gameId The ID of the game to settle
      * @param winners Array of winner addresses
      * @param payouts Array of payout amounts for each winner (in wei)
+     * @param roleCommit Hash of the role assignment published when the game started
      * @param signature Server signature authorizing the settlement
      */
     function settleGame(
         uint64 gameId,
         address[] calldata winners,
         uint256[] calldata payouts,
+        bytes32 roleCommit,
         bytes calldata signature
     ) external gameExists(gameId) {
         Game storage game = games[gameId];
@@ -174,7 +182,7 @@ contract Pepasur is ReentrancyGuard {
         if (winners.length != payouts.length) revert WinnerCountMismatch(winners.length, payouts.length);
 
         // Verify signature
-        bytes32 messageHash = constructSettlementMessage(gameId, winners, payouts);
+        bytes32 messageHash = constructSettlementMessage(gameId, winners, payouts, roleCommit);
         bytes32 ethSignedMessageHash = messageHash.toEthSignedMessageHash();
         address recoveredSigner = ethSignedMessageHash.recover(signature);
 
@@ -202,8 +210,10 @@ contract Pepasur is ReentrancyGuard {
         }
 
         game.status = GameStatus.Settled;
+        roleCommits[gameId] = roleCommit;
 
         emit GameSettled(gameId, winners, payouts, houseFee);
+        emit RoleCommitAnchored(gameId, roleCommit);
     }
 
     /**
@@ -211,14 +221,16 @@ contract Pepasur is ReentrancyGuard {
      * @param gameId The ID of the game
      * @param winners Array of winner addresses
      * @param payouts Array of payout amounts
+     * @param roleCommit Hash of the role assignment
      * @return messageHash The keccak256 hash of the settlement message
      */
     function constructSettlementMessage(
         uint64 gameId,
         address[] calldata winners,
-        uint256[] calldata payouts
+        uint256[] calldata payouts,
+        bytes32 roleCommit
     ) public pure returns (bytes32) {
-        return keccak256(abi.encodePacked(gameId, winners, payouts));
+        return keccak256(abi.encodePacked(gameId, winners, payouts, roleCommit));
     }
 
     /**
@@ -260,6 +272,61 @@ contract Pepasur is ReentrancyGuard {
         emit GameCancelled(gameId, game.players);
     }
 
+    /**
+     * @notice Record that the server has started play, which freezes the player list
+     * @param gameId The ID of the game
+     * @dev Only the server signer. joinGame moves a full lobby to InProgress on its own,
+     *      but the server still removes players (kicks, missed ready-checks) until it
+     *      starts the game - after that the pool must stay intact for settlement.
+     */
+    function markGameStarted(uint64 gameId) external gameExists(gameId) {
+        if (msg.sender != serverSigner) revert NotAuthorized(msg.sender);
+        if (games[gameId].status != GameStatus.InProgress) revert GameNotInProgress(gameId);
+        if (gameStarted[gameId]) revert GameAlreadyStarted(gameId);
+
+        gameStarted[gameId] = true;
+
+        emit GameMarkedStarted(gameId);
+    }
+
+    /**
+     * @notice Remove a player from a game that hasn't started yet and refund their stake
+     * @param gameId The ID of the game
+     * @param player The player to remove
+     * @dev Only the server signer can remove players, and only before markGameStarted.
+     *      A full lobby that joinGame moved to InProgress goes back to lobby until the seat is filled.
+     */
+    function removePlayer(uint64 gameId, address player) external gameExists(gameId) {
+        Game storage game = games[gameId];
+
+        if (msg.sender != serverSigner) revert NotAuthorized(msg.sender);
+        if (game.status != GameStatus.Lobby && game.status != GameStatus.InProgress) revert GameNotInLobby(gameId);
+        if (gameStarted[gameId]) revert GameAlreadyStarted(gameId);
+
+        uint256 count = game.players.length;
+        for (uint256 i = 0; i < count; i++) {
+            if (game.players[i] == player) {
+                uint256 deposit = game.deposits[i];
+
+                game.players[i] = game.players[count - 1];
+                game.deposits[i] = game.deposits[count - 1];
+                game.players.pop();
+                game.deposits.pop();
+                game.totalPool -= deposit;
+                pendingWithdrawals[player] += deposit;
+
+                if (game.players.length < game.minPlayers) {
+                    game.status = GameStatus.Lobby;
+                }
+
+                emit PlayerRemoved(gameId, player, deposit);
+                return;
+            }
+        }
+
+        revert PlayerNotInGame(gameId, player);
+    }
+
     // ============ Admin Functions ============
 
     /**
@@ -0,0 +1,177 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers.js";
+
+const { ethers } = hre;
+
+const STAKE = ethers.parseEther("1");
+const GAME_ID = 1n;
+const ROLE_COMMIT = ethers.id("roles");
+
+const Status = { Lobby: 0n, InProgress: 1n, Settled: 2n, Cancelled: 3n };
+
+describe("Pepasur", function () {
+    async function deployFixture() {
+        const [admin, server, feeRecipient, creator, alice, bob, carol, dave] = await ethers.getSigners();
+
+        const Pepasur = await ethers.getContractFactory("Pepasur");
+        const pepasur = await Pepasur.deploy();
+        await pepasur.initialize(server.address, feeRecipient.address);
+
+        return { pepasur, admin, server, feeRecipient, creator, alice, bob, carol, dave };
+    }
+
+    // A 3-player game that joinGame has moved to InProgress
+    async function fullLobbyFixture() {
+        const fixture = await deployFixture();
+        const { pepasur, creator, alice, bob } = fixture;
+
+        await pepasur.connect(creator).createGame(STAKE, 3);
+        for (const player of [creator, alice, bob]) {
+            await pepasur.connect(player).joinGame(GAME_ID, { value: STAKE });
+        }
+
+        return fixture;
+    }
+
+    async function settle(pepasur, server, winners, payouts) {
+        const addresses = winners.map((winner) => winner.address);
+        const messageHash = await pepasur.constructSettlementMessage(GAME_ID, addresses, payouts, ROLE_COMMIT);
+        const signature = await server.signMessage(ethers.getBytes(messageHash));
+        return pepasur.settleGame(GAME_ID, addresses, payouts, ROLE_COMMIT, signature);
+    }
+
+    async function expectedRewardPool(pepasur) {
+        const { totalPool } = await pepasur.getGame(GAME_ID);
+        return totalPool - (totalPool * (await pepasur.houseCutBps())) / 10000n;
+    }
+
+    describe("removePlayer", function () {
+        it("refunds the player and reopens a full lobby", async function () {
+            const { pepasur, server, alice } = await loadFixture(fullLobbyFixture);
+
+            await expect(pepasur.connect(server).removePlayer(GAME_ID, alice.address))
+                .to.emit(pepasur, "PlayerRemoved")
+                .withArgs(GAME_ID, alice.address, STAKE);
+
+            const game = await pepasur.getGame(GAME_ID);
+            expect(game.status).to.equal(Status.Lobby);
+            expect(game.totalPool).to.equal(STAKE * 2n);
+            expect(await pepasur.isPlayerInGame(GAME_ID, alice.address)).to.equal(false);
+            expect(await pepasur.pendingWithdrawals(alice.address)).to.equal(STAKE);
+        });
+
+        it("can only be called by the server signer", async function () {
+            const { pepasur, creator, alice } = await loadFixture(fullLobbyFixture);
+
+            await expect(pepasur.connect(creator).removePlayer(GAME_ID, alice.address))
+                .to.be.revertedWithCustomError(pepasur, "NotAuthorized")
+                .withArgs(creator.address);
+            await expect(pepasur.connect(alice).removePlayer(GAME_ID, alice.address))
+                .to.be.revertedWithCustomError(pepasur, "NotAuthorized");
+        });
+
+        it("is refused once the server has marked the game started", async function () {
+            const { pepasur, server, alice } = await loadFixture(fullLobbyFixture);
+
+            await expect(pepasur.connect(server).markGameStarted(GAME_ID))
+                .to.emit(pepasur, "GameMarkedStarted")
+                .withArgs(GAME_ID);
+
+            await expect(pepasur.connect(server).removePlayer(GAME_ID, alice.address))
+                .to.be.revertedWithCustomError(pepasur, "GameAlreadyStarted")
+                .withArgs(GAME_ID);
+        });
+
+        it("reverts for a player who is not in the game", async function () {
+            const { pepasur, server, carol } = await loadFixture(fullLobbyFixture);
+
+            await expect(pepasur.connect(server).removePlayer(GAME_ID, carol.address))
+                .to.be.revertedWithCustomError(pepasur, "PlayerNotInGame")
+                .withArgs(GAME_ID, carol.address);
+        });
+
+        it("reverts after the game is settled", async function () {
+            const { pepasur, server, alice, bob } = await loadFixture(fullLobbyFixture);
+
+            const rewardPool = await expectedRewardPool(pepasur);
+            await settle(pepasur, server, [alice, bob], [rewardPool / 2n, rewardPool - rewardPool / 2n]);
+
+            await expect(pepasur.connect(server).removePlayer(GAME_ID, alice.address))
+                .to.be.revertedWithCustomError(pepasur, "GameNotInLobby");
+        });
+    });
+
+    describe("markGameStarted", function () {
+        it("can only be called by the server signer, once, on a full game", async function () {
+            const { pepasur, server, creator, alice } = await loadFixture(deployFixture);
+
+            await pepasur.connect(creator).createGame(STAKE, 2);
+            await pepasur.connect(creator).joinGame(GAME_ID, { value: STAKE });
+            await expect(pepasur.connect(server).markGameStarted(GAME_ID))
+                .to.be.revertedWithCustomError(pepasur, "GameNotInProgress");
+
+            await pepasur.connect(alice).joinGame(GAME_ID, { value: STAKE });
+            await expect(pepasur.connect(creator).markGameStarted(GAME_ID))
+                .to.be.revertedWithCustomError(pepasur, "NotAuthorized");
+
+            await pepasur.connect(server).markGameStarted(GAME_ID);
+            expect(await pepasur.gameStarted(GAME_ID)).to.equal(true);
+            await expect(pepasur.connect(server).markGameStarted(GAME_ID))
+                .to.be.revertedWithCustomError(pepasur, "GameAlreadyStarted");
+        });
+    });
+
+    describe("settlement after a removal", function () {
+        it("settles the pool of the refilled lobby and pays everyone out", async function () {
+            const { pepasur, server, feeRecipient, creator, alice, bob, carol } = await loadFixture(fullLobbyFixture);
+
+            await pepasur.connect(server).removePlayer(GAME_ID, alice.address);
+            await pepasur.connect(carol).joinGame(GAME_ID, { value: STAKE });
+            await pepasur.connect(server).markGameStarted(GAME_ID);
+
+            const game = await pepasur.getGame(GAME_ID);
+            expect(game.status).to.equal(Status.InProgress);
+            expect(game.totalPool).to.equal(STAKE * 3n);
+
+            // Dust goes to the last winner, as StakingService does
+            const rewardPool = await expectedRewardPool(pepasur);
+            const share = rewardPool / 2n;
+            await expect(settle(pepasur, server, [bob, carol], [share, rewardPool - share]))
+                .to.emit(pepasur, "GameSettled");
+
+            const houseFee = STAKE * 3n - rewardPool;
+            expect(await pepasur.pendingWithdrawals(feeRecipient.address)).to.equal(houseFee);
+            expect(await pepasur.pendingWithdrawals(carol.address)).to.equal(rewardPool - share);
+            expect(await pepasur.pendingWithdrawals(creator.address)).to.equal(0n);
+
+            // The contract holds exactly what it owes: the refund, both payouts and the fee
+            const owed = STAKE + rewardPool + houseFee;
+            expect(await ethers.provider.getBalance(await pepasur.getAddress())).to.equal(owed);
+
+            await expect(pepasur.connect(alice).withdraw()).to.changeEtherBalance(alice, STAKE);
+        });
+
+        it("rejects payouts that don't add up to the refilled pool minus the cut", async function () {
+            const { pepasur, server, alice, bob, carol } = await loadFixture(fullLobbyFixture);
+
+            await pepasur.connect(server).removePlayer(GAME_ID, alice.address);
+            await pepasur.connect(carol).joinGame(GAME_ID, { value: STAKE });
+
+            const rewardPool = await expectedRewardPool(pepasur);
+            await expect(settle(pepasur, server, [bob, carol], [rewardPool, 1n]))
+                .to.be.revertedWithCustomError(pepasur, "PayoutMismatch")
+                .withArgs(rewardPool + 1n, rewardPool);
+        });
+
+        it("cannot settle a lobby that a removal reopened", async function () {
+            const { pepasur, server, alice, bob } = await loadFixture(fullLobbyFixture);
+
+            await pepasur.connect(server).removePlayer(GAME_ID, alice.address);
+            const rewardPool = await expectedRewardPool(pepasur);
+
+            await expect(settle(pepasur, server, [bob], [rewardPool]))
+                .to.be.revertedWithCustomError(pepasur, "GameNotInProgress");
+        });
+    });
+});
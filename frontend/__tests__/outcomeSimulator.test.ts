@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'vitest';
+import { simulateOutcomes, SimulationParams } from '@/utils/outcomeSimulator';
+
+const PARAMS: SimulationParams = {
+  playerCount: 6,
+  composition: { mafia: 1, doctor: true, detective: true },
+  maxTaskCount: 12,
+  nightPhaseDuration: 15,
+  resolutionPhaseDuration: 10,
+  taskPhaseDuration: 30,
+  votingPhaseDuration: 10,
+  stake: 1,
+  runs: 400,
+};
+
+describe('simulateOutcomes', () => {
+  test('the same seed gives the same estimate', () => {
+    expect(simulateOutcomes({ ...PARAMS, seed: 7 })).toEqual(simulateOutcomes({ ...PARAMS, seed: 7 }));
+  });
+
+  test('rates are shares of all games and add up', () => {
+    const result = simulateOutcomes(PARAMS);
+
+    expect(result.runs).toBe(400);
+    expect(result.mafiaWinRate).toBeGreaterThan(0);
+    expect(result.mafiaWinRate).toBeLessThan(1);
+    expect(result.mafiaWinRate + result.nonMafiaWinRate).toBeCloseTo(1);
+    expect(result.taskWinRate).toBeLessThanOrEqual(result.nonMafiaWinRate);
+    expect(result.averageDays).toBeGreaterThanOrEqual(1);
+    expect(result.averageSeconds).toBeGreaterThan(0);
+  });
+
+  test('a task goal nobody can reach means no task wins', () => {
+    expect(simulateOutcomes({ ...PARAMS, maxTaskCount: 10000 }).taskWinRate).toBe(0);
+  });
+
+  test('more ASUR win more often', () => {
+    const oneMafia = simulateOutcomes({ ...PARAMS, playerCount: 8, composition: { mafia: 1, doctor: true, detective: true } });
+    const threeMafia = simulateOutcomes({ ...PARAMS, playerCount: 8, composition: { mafia: 3, doctor: true, detective: true } });
+    expect(threeMafia.mafiaWinRate).toBeGreaterThan(oneMafia.mafiaWinRate);
+  });
+
+  test('expected values are listed only for roles that are dealt', () => {
+    const noSpecials = simulateOutcomes({ ...PARAMS, composition: { mafia: 1, doctor: false, detective: false } });
+    expect(Object.keys(noSpecials.expectedValue).sort()).toEqual(['Mafia', 'Villager']);
+
+    const noVillagers = simulateOutcomes({ ...PARAMS, playerCount: 3, composition: { mafia: 1, doctor: true, detective: true } });
+    expect(Object.keys(noVillagers.expectedValue).sort()).toEqual(['Detective', 'Doctor', 'Mafia']);
+  });
+
+  // Every pot is paid out except the house cut, so the table as a whole
+  // loses exactly the cut on average
+  test('expected values across the table add up to minus the house cut', () => {
+    const houseCutBps = 500;
+    const result = simulateOutcomes({ ...PARAMS, stake: 2, houseCutBps });
+    const { Mafia = 0, Doctor = 0, Detective = 0, Villager = 0 } = result.expectedValue;
+
+    const total = Mafia * 1 + Doctor + Detective + Villager * 3;
+    expect(total).toBeCloseTo(-2 * PARAMS.playerCount * houseCutBps / 10000);
+  });
+});
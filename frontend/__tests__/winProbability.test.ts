@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'vitest';
+import { autoComposition } from '@/utils/roleShuffle';
+import { calculatePayoutBreakdown, calculateWinProbabilities, DEFAULT_HOUSE_CUT_BPS } from '@/utils/winProbability';
+
+const STAKE = BigInt('100000000000000007'); // 0.1 token plus a little, so shares don't divide evenly
+
+describe('calculatePayoutBreakdown', () => {
+  test('splits the pot like settleGame: fee rounded down, dust to the last winner', () => {
+    const breakdown = calculatePayoutBreakdown(STAKE, 7, 5, 250);
+    const pot = STAKE * BigInt(7);
+    const fee = pot * BigInt(250) / BigInt(10000);
+
+    expect(breakdown.pot).toBe(pot);
+    expect(breakdown.fee).toBe(fee);
+    expect(breakdown.rewardPool).toBe(pot - fee);
+    expect(breakdown.perWinner).toBe((pot - fee) / BigInt(5));
+    expect(breakdown.dust).toBe((pot - fee) % BigInt(5));
+    expect(breakdown.dust > BigInt(0)).toBe(true);
+  });
+
+  // Pepasur.sol rejects a settlement unless the payouts add up to exactly this
+  test.each([0, DEFAULT_HOUSE_CUT_BPS, 1000])('winners and fee add back up to the pot at %i bps', houseCutBps => {
+    for (let winners = 1; winners <= 7; winners++) {
+      const breakdown = calculatePayoutBreakdown(STAKE, 7, winners, houseCutBps);
+      const paid = breakdown.perWinner * BigInt(winners) + breakdown.dust;
+      expect(paid).toBe(breakdown.rewardPool);
+      expect(paid + breakdown.fee).toBe(breakdown.pot);
+    }
+  });
+
+  test('accepts the stake as a Wei string', () => {
+    expect(calculatePayoutBreakdown(STAKE.toString(), 4, 1)).toEqual(calculatePayoutBreakdown(STAKE, 4, 1));
+  });
+
+  test('no winners means no shares', () => {
+    const breakdown = calculatePayoutBreakdown(STAKE, 4, 0);
+    expect(breakdown.perWinner).toBe(BigInt(0));
+    expect(breakdown.dust).toBe(BigInt(0));
+  });
+});
+
+describe('calculateWinProbabilities', () => {
+  test('without a composition the ASUR count follows the player count', () => {
+    // 8 players deal 2 ASUR - minPlayers must not shrink that to 1
+    const implicit = calculateWinProbabilities(STAKE, 8, 4);
+    const explicit = calculateWinProbabilities(STAKE, 8, 4, autoComposition(8));
+
+    expect(autoComposition(8).mafia).toBe(2);
+    expect(implicit).toEqual(explicit);
+  });
+
+  test('each side\'s return is its share of the pot after the cut', () => {
+    const { netPot, mafiaWinPercent, nonMafiaWinPercent } = calculateWinProbabilities(
+      STAKE, 8, 8, { mafia: 2, doctor: true, detective: true }, 500
+    );
+
+    const pot = STAKE * BigInt(8);
+    expect(netPot).toBe(pot - pot * BigInt(500) / BigInt(10000));
+    expect(mafiaWinPercent).toBe(280); // 8 stakes less 5%, split 2 ways
+    expect(nonMafiaWinPercent).toBe(26); // ... split 6 ways, rounded down
+  });
+});
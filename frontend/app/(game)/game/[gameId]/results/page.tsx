@@ -0,0 +1,4 @@
+// Rendered by the game flow in app/(game)/layout.tsx, which reads the route from the URL
+export default function GameResultsPage() {
+  return null
+}
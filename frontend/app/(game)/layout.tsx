@@ -0,0 +1,17 @@
+import type React from "react"
+import GameFlow from "@/components/game/game-flow"
+
+// All game routes share this layout, so the game flow (and the socket room it
+// joined) stays mounted while the URL moves between lobby, game and results
+export default function GameRoutesLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode
+}>) {
+  return (
+    <>
+      <GameFlow />
+      {children}
+    </>
+  )
+}
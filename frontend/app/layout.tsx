@@ -7,6 +7,7 @@ import { Analytics } from "@vercel/analytics/next"
 import "./globals.css"
 import { Suspense } from "react"
 import { SocketProvider } from "@/contexts/SocketContext"
+import { GameStoreProvider } from "@/contexts/GameStoreContext"
 import { Providers } from "@/components/common/providers"
 
 const orbitron = Orbitron({
@@ -64,10 +65,12 @@ export default function RootLayout({
       <body className={`${orbitron.variable} ${shareTechMono.variable} ${pressStart2P.variable} ${vt323.variable} ${silkscreen.variable} antialiased gaming-bg min-h-screen ${vt323.className} overflow-x-hidden`}>
         <Providers>
           <SocketProvider>
-            <Suspense>
-              {children}
-              <Analytics />
-            </Suspense>
+            <GameStoreProvider>
+              <Suspense>
+                {children}
+                <Analytics />
+              </Suspense>
+            </GameStoreProvider>
           </SocketProvider>
         </Providers>
       </body>
@@ -0,0 +1,5 @@
+import LeaderboardScreen from "@/components/screens/leaderboard-screen"
+
+export default function LeaderboardPage() {
+  return <LeaderboardScreen />
+}
@@ -0,0 +1,11 @@
+import ProfileScreen from "@/components/screens/profile-screen"
+
+// Outside the (game) route group: a profile can be opened next to a running game
+export default async function ProfilePage({
+  params,
+}: {
+  params: Promise<{ address: string }>
+}) {
+  const { address } = await params
+  return <ProfileScreen address={decodeURIComponent(address)} />
+}
@@ -0,0 +1,15 @@
+import ReplayViewer from "@/components/game/replay-viewer"
+
+// Outside the (game) route group, like spectating: replays are read-only.
+// ?at=end opens on the final results instead of the first event.
+export default async function ReplayPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ gameId: string }>
+  searchParams: Promise<{ at?: string }>
+}) {
+  const { gameId } = await params
+  const { at } = await searchParams
+  return <ReplayViewer gameId={decodeURIComponent(gameId)} startAtEnd={at === 'end'} />
+}
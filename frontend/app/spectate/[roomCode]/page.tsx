@@ -0,0 +1,11 @@
+import SpectatorView from "@/components/game/spectator-view"
+
+// Outside the (game) route group: spectators don't get the player game flow
+export default async function SpectatePage({
+  params,
+}: {
+  params: Promise<{ roomCode: string }>
+}) {
+  const { roomCode } = await params
+  return <SpectatorView roomCode={decodeURIComponent(roomCode).toUpperCase()} />
+}
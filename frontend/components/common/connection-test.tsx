@@ -1,13 +1,15 @@
 "use client"
 
 import { useSocket } from "@/contexts/SocketContext"
-import { useGame } from "@/hooks/useGame"
+import { useGameSelector } from "@/contexts/GameStoreContext"
+import { selectError, selectIsLoading } from "@/services/gameSelectors"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 
 export default function ConnectionTest() {
   const { isConnected, connect, disconnect } = useSocket()
-  const { isLoading, error } = useGame()
+  const isLoading = useGameSelector(selectIsLoading)
+  const error = useGameSelector(selectError)
 
   return (
     <Card className="p-4 bg-[#111111]/90 backdrop-blur-sm border border-[#2a2a2a]">
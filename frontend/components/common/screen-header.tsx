@@ -1,8 +1,9 @@
 "use client"
 
 import { useMemo } from "react"
-import { useGame } from "@/hooks/useGame"
+import { useGameSelector } from "@/contexts/GameStoreContext"
 import { Player } from "@/hooks/useGame"
+import { selectCurrentPlayer, selectGame, selectPlayers } from "@/services/gameSelectors"
 import { Game } from "@/services/api"
 import FullscreenToggle from "@/components/common/fullscreen-toggle"
 import ColoredPlayerName from "@/components/game/colored-player-name"
@@ -26,15 +27,17 @@ export default function ScreenHeader({
     game: propGame,
     currentPlayer: propCurrentPlayer
 }: ScreenHeaderProps) {
-    // Use props if provided, otherwise fall back to useGame hook
-    const gameData = useGame()
-    const players = propPlayers || gameData.players
-    const game = propGame !== undefined ? propGame : gameData.game
-    const currentPlayer = propCurrentPlayer || gameData.currentPlayer
+    // Use props if provided, otherwise fall back to the game store
+    const storePlayers = useGameSelector(selectPlayers)
+    const storeGame = useGameSelector(selectGame)
+    const storeCurrentPlayer = useGameSelector(selectCurrentPlayer)
+    const players = propPlayers || storePlayers
+    const game = propGame !== undefined ? propGame : storeGame
+    const currentPlayer = propCurrentPlayer || storeCurrentPlayer
 
     console.log('🔍 ScreenHeader received:', {
         propCurrentPlayer,
-        gameDataCurrentPlayer: gameData.currentPlayer,
+        storeCurrentPlayer,
         finalCurrentPlayer: currentPlayer,
         finalCurrentPlayerAddress: currentPlayer?.address
     })
@@ -63,6 +66,7 @@ export default function ScreenHeader({
             })
             return {
                 name: p.name,
+                address: p.address,
                 isEliminated: game?.eliminated?.includes(p.address!) || false,
                 isCurrentPlayer
             }
@@ -134,6 +138,7 @@ export default function ScreenHeader({
                                         playerName={player.name}
                                         isCurrentPlayer={player.isCurrentPlayer}
                                         showYouIndicator={false}
+                                        address={player.address}
                                     />
                                 </div>
                             </div>
@@ -0,0 +1,46 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { useActionDelivery } from "@/hooks/useActionDelivery"
+import { OutboxActionKind } from "@/services/actionOutbox"
+
+interface ActionDeliveryStatusProps {
+  kind: OutboxActionKind
+  className?: string
+}
+
+export default function ActionDeliveryStatus({ kind, className = "" }: ActionDeliveryStatusProps) {
+  const { delivery, retry } = useActionDelivery(kind)
+
+  if (!delivery) return null
+
+  if (delivery.status === 'sending') {
+    return (
+      <div className={`flex items-center justify-center gap-2 text-xs sm:text-sm text-yellow-400 animate-pulse ${className}`}>
+        ⏳ SENDING{delivery.attempts > 1 ? ` (ATTEMPT ${delivery.attempts})` : ''}...
+      </div>
+    )
+  }
+
+  if (delivery.status === 'confirmed') {
+    return (
+      <div className={`flex items-center justify-center gap-2 text-xs sm:text-sm text-green-400 ${className}`}>
+        ✓ CONFIRMED BY SERVER
+      </div>
+    )
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center justify-center gap-2 text-xs sm:text-sm text-red-400 ${className}`}>
+      <span>✗ NOT DELIVERED{delivery.error ? `: ${delivery.error}` : ''}</span>
+      <Button
+        onClick={retry}
+        variant="pixelOutline"
+        size="sm"
+        className="text-xs"
+      >
+        RETRY
+      </Button>
+    </div>
+  )
+}
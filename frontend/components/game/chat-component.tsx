@@ -5,6 +5,7 @@ import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { useSocket } from "@/contexts/SocketContext"
 import { Player } from "@/hooks/useGame"
+import { ChatMessageEvent } from "@/services/socketProtocol"
 
 interface ChatMessage {
   id: string
@@ -25,7 +26,7 @@ interface ChatComponentProps {
 }
 
 export default function ChatComponent({ gameId, currentPlayerAddress, players }: ChatComponentProps) {
-  const { socket, sendChatMessage } = useSocket()
+  const { socket, subscribe, sendChatMessage } = useSocket()
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [newMessage, setNewMessage] = useState("")
   const [isOpen, setIsOpen] = useState(false)
@@ -41,7 +42,7 @@ export default function ChatComponent({ gameId, currentPlayerAddress, players }:
   }, [messages])
 
   // Handle chat messages with useCallback to maintain stable function reference
-  const handleChatMessage = useCallback((data: any) => {
+  const handleChatMessage = useCallback((data: ChatMessageEvent) => {
     console.log('💬 CHAT MESSAGE RECEIVED:', {
       raw: data,
       playerAddress: data.playerAddress,
@@ -88,7 +89,7 @@ export default function ChatComponent({ gameId, currentPlayerAddress, players }:
       playerName: player?.name || `Player ${data.playerAddress.slice(0, 6)}`,
       type: data.type,
       taskPlayerAddress: data.taskPlayerAddress,
-      avatarUrl: avatarUrl,
+      avatarUrl: avatarUrl ?? undefined,
       playerAlias: playerAlias
     }
 
@@ -101,12 +102,8 @@ export default function ChatComponent({ gameId, currentPlayerAddress, players }:
   useEffect(() => {
     if (!socket) return
 
-    socket.on('chat_message', handleChatMessage)
-
-    return () => {
-      socket.off('chat_message', handleChatMessage)
-    }
-  }, [socket, handleChatMessage]) // Only depend on socket and the stable callback
+    return subscribe('chat_message', handleChatMessage)
+  }, [socket, subscribe, handleChatMessage]) // Only depend on socket and the stable callback
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -1,5 +1,6 @@
 "use client"
 
+import Link from "next/link"
 import { getPlayerNameStyle, hasPlayerColor } from "@/utils/playerColors"
 
 interface ColoredPlayerNameProps {
@@ -7,13 +8,15 @@ interface ColoredPlayerNameProps {
     className?: string
     showYouIndicator?: boolean
     isCurrentPlayer?: boolean
+    address?: string // Links the name to the player's profile
 }
 
 export default function ColoredPlayerName({
     playerName,
     className = "",
     showYouIndicator = false,
-    isCurrentPlayer = false
+    isCurrentPlayer = false,
+    address
 }: ColoredPlayerNameProps) {
     const hasColor = hasPlayerColor(playerName)
     const style = hasColor ? getPlayerNameStyle(playerName) : undefined
@@ -23,10 +26,25 @@ export default function ColoredPlayerName({
             className={`${hasColor ? 'font-bold' : ''} ${className} inline-flex items-center gap-1`}
             style={style}
         >
-            <span>{playerName}</span>
+            {address ? (
+                // New tab: following the link must not leave a running game.
+                // Names sit inside selectable player cards, so don't select too.
+                <Link
+                    href={`/profile/${address}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="hover:underline"
+                    title="View profile"
+                >
+                    {playerName}
+                </Link>
+            ) : (
+                <span>{playerName}</span>
+            )}
             {showYouIndicator && isCurrentPlayer && (
                 <span className="text-green-400">(YOU)</span>
             )}
         </span>
     )
-}
\ No newline at end of file
+}
@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/dialog"
 import { canLeaveGame } from "@/utils/connectivityChecker"
 import { clearGameSession } from "@/utils/sessionPersistence"
+import { authHeaders } from "@/utils/authSession"
 
 interface EmergencyLeaveButtonProps {
     onLeave: () => void
@@ -70,7 +71,7 @@ export default function EmergencyLeaveButton({
                 try {
                     const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/game/leave`, {
                         method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
+                        headers: { 'Content-Type': 'application/json', ...authHeaders() },
                         body: JSON.stringify({ gameId, playerAddress })
                     })
 
@@ -0,0 +1,651 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import LoaderScreen from "@/components/screens/loader-screen"
+import WalletConnect from "@/components/wallet/wallet-connect"
+import LobbyScreen from "@/components/screens/lobby-screen"
+import RoleAssignmentScreen from "@/components/screens/role-assignment-screen"
+import GameplayScreen from "@/components/screens/gameplay-screen"
+import GameResultsScreen from "@/components/screens/game-results-screen"
+import NightResolutionScreen from "@/components/screens/night-resolution-screen"
+import DiscussionPhaseScreen from "@/components/screens/discussion-phase-screen"
+import VotingScreen from "@/components/screens/voting-screen"
+import StakingScreen from "@/components/screens/staking-screen"
+import PublicLobbiesScreen from "@/components/screens/public-lobbies-screen"
+import LeaveGameDialog from "@/components/game/leave-game-dialog"
+import InviteStatusDialog, { InviteProblem } from "@/components/game/invite-status-dialog"
+
+import { useGame, Player } from "@/hooks/useGame"
+import { useAutoFullscreen } from "@/hooks/useAutoFullscreen"
+import { useAutoReveal } from "@/hooks/useAutoReveal"
+import { useScreenMachine } from "@/hooks/useScreenMachine"
+import { useGameSelector } from "@/contexts/GameStoreContext"
+import { apiService } from "@/services/api"
+import { selectInvestigations, selectProtections } from "@/services/gameSelectors"
+import { soundService } from "@/services/SoundService"
+import { saveGameSession, getGameSession, clearGameSession, isSessionValid, refreshSessionTimestamp } from "@/utils/sessionPersistence"
+import { gameRoutePath, GameRoute, parseGameRoute, routeForScreen } from "@/utils/gameRoutes"
+import {
+  canHandleEvent,
+  fullscreenScreens,
+  isInGameScreen,
+  requiresLeaveConfirmation,
+  ScreenEffect,
+  ScreenEvent,
+  ScreenMachineState,
+  ScreenState
+} from "@/utils/screenMachine"
+
+export type GameState = ScreenState
+export type Role = "ASUR" | "DEVA" | "RISHI" | "MANAV"
+
+export default function GameFlow() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const [walletAddress, setWalletAddress] = useState<string | null>(null)
+  const [currentRoomCode, setCurrentRoomCode] = useState<string | null>(null)
+  const [stakingMode, setStakingMode] = useState<'create' | 'join'>('create')
+  const [isLoadingGame, setIsLoadingGame] = useState(false)
+
+  const {
+    game,
+    currentPlayer,
+    players,
+    isLoading,
+    error,
+    isConnected,
+    isResyncing,
+    currentGameId,
+    setCurrentGameId,
+    setCurrentPlayerFromAddress,
+    refreshGame,
+    submitNightAction,
+    revealNightAction,
+    submitTaskAnswer,
+    submitVote,
+    resetGame,
+  } = useGame()
+
+  // Night actions are committed during the night and revealed here, on whichever screen is showing
+  useAutoReveal(revealNightAction)
+
+  // Detective results and doctor confirmations arrive on this player's private channel
+  const investigations = useGameSelector(selectInvestigations)
+  const protections = useGameSelector(selectProtections)
+
+  // Helper function for complete state reset
+  const performCompleteStateReset = useCallback(() => {
+    console.log('🔄 Performing complete state reset...')
+
+    // Clear game session and socket state
+    clearGameSession()
+    resetGame()
+
+    // Reset all main page state variables
+    setCurrentRoomCode(null)
+    setIsLoadingGame(false)
+
+    console.log('✅ Complete state reset finished')
+  }, [resetGame])
+
+  // Entry/exit effects of the screen state machine
+  const runScreenEffect = (effect: ScreenEffect, machine: ScreenMachineState) => {
+    switch (effect) {
+      case 'sound_game_start':
+        soundService.playGameStart()
+        break
+      case 'sound_killing':
+        soundService.playKilling()
+        break
+      case 'sound_click':
+        soundService.playClick()
+        break
+      case 'sound_laugh':
+        soundService.playPepasurLaugh()
+        break
+      case 'sound_role':
+        // Role-specific sound when showing role assignment
+        if (currentPlayer?.role === 'ASUR') {
+          soundService.playPepasurLaugh()
+        } else if (currentPlayer?.role === 'DEVA') {
+          soundService.playAngelic()
+        } else if (currentPlayer?.role === 'RISHI') {
+          soundService.playDetective()
+        }
+        break
+      case 'save_session':
+        if (game?.gameId && currentRoomCode && walletAddress && game.phase !== 'ended') {
+          saveGameSession(game.gameId, currentRoomCode, walletAddress, machine.context.hasSeenRole)
+        }
+        break
+      case 'clear_session':
+        console.log('🎮 Game ended, clearing session')
+        clearGameSession()
+        break
+      case 'reset_game':
+        performCompleteStateReset()
+        break
+    }
+  }
+
+  const { screen, context: screenContext, send } = useScreenMachine(runScreenEffect)
+  const { hasSeenRole, lastEliminatedPlayer } = screenContext
+
+  // Auto-fullscreen during gameplay screens (after game hook)
+  useAutoFullscreen({
+    enabled: true,
+    gamePhases: fullscreenScreens,
+    currentPhase: screen,
+    delay: 500
+  })
+
+  // Clear any stale sessions on app startup
+  useEffect(() => {
+    const savedSession = getGameSession()
+    if (savedSession) {
+      // Check if session is older than 3 minutes - likely stale
+      const THREE_MINUTES = 3 * 60 * 1000
+      const age = Date.now() - savedSession.timestamp
+      if (age > THREE_MINUTES) {
+        console.log('🧹 Clearing stale session on app startup')
+        clearGameSession()
+      }
+    }
+  }, [])
+
+  // The lobby is usually entered before the game snapshot arrives - save once it does
+  useEffect(() => {
+    if (game?.gameId && currentRoomCode && walletAddress && game.phase !== 'ended') {
+      saveGameSession(game.gameId, currentRoomCode, walletAddress, hasSeenRole)
+    }
+  }, [game?.gameId, currentRoomCode, walletAddress])
+
+  // Periodic session refresh every 5 minutes during active games
+  useEffect(() => {
+    if (game?.gameId && game.phase !== 'ended') {
+      const refreshInterval = setInterval(() => {
+        refreshSessionTimestamp()
+        console.log('🔄 Session timestamp refreshed')
+      }, 5 * 60 * 1000) // 5 minutes
+
+      return () => clearInterval(refreshInterval)
+    }
+  }, [game?.gameId, game?.phase])
+
+  // Set loading flag when game data arrives
+  useEffect(() => {
+    if (game && currentGameId) {
+      setIsLoadingGame(false)
+    }
+  }, [game, currentGameId])
+
+  // Handle game cancellation or not found (when game becomes null while in lobby)
+  // But don't cancel immediately - give socket time to deliver game state
+  useEffect(() => {
+    if (!game && screen === 'lobby' && currentGameId && !isLoadingGame) {
+      // Add a small delay to distinguish between "loading" and "cancelled/not found"
+      const cancelTimer = setTimeout(() => {
+        console.log('🚫 Game was cancelled or not found, returning to wallet screen')
+        send({ type: 'GAME_LOST', reason: 'Game was cancelled or not found' })
+      }, 2000) // Wait 2 seconds before considering it cancelled
+
+      return () => clearTimeout(cancelTimer)
+    }
+  }, [game, screen, currentGameId, isLoadingGame, send])
+
+  // Handle socket errors by clearing invalid sessions
+  useEffect(() => {
+    if (error && error.toLowerCase().includes('not found')) {
+      console.log('🧹 Socket error indicates invalid game, clearing session and returning to wallet')
+      send({ type: 'GAME_LOST', reason: error })
+    }
+  }, [error, send])
+
+  // Feed server phase changes into the screen machine - it decides what to show.
+  // Re-sent when entering the game screens, the snapshot may have arrived before.
+  const killedPlayer = game?.nightResolution?.killedPlayer?.address || null
+  const inGameScreen = isInGameScreen(screen)
+  useEffect(() => {
+    if (!game || !currentPlayer) return
+    send({
+      type: 'PHASE_CHANGED',
+      phase: game.phase,
+      day: game.day,
+      hasRole: !!currentPlayer.role,
+      killedPlayer
+    })
+  }, [game?.phase, game?.day, currentPlayer?.id, currentPlayer?.role, killedPlayer, inGameScreen, send])
+
+  // Deep link (e.g. a shared /lobby/ABC123) waiting to be opened once a wallet is connected.
+  // The URL is left alone while it's pending.
+  const [pendingRoute, setPendingRoute] = useState<GameRoute | null>(() => {
+    const route = parseGameRoute(pathname)
+    return route.kind === 'home' ? null : route
+  })
+  const [routeNotice, setRouteNotice] = useState<string | null>(null)
+  const [inviteProblem, setInviteProblem] = useState<InviteProblem | null>(null)
+  const [leaveRequested, setLeaveRequested] = useState(false)
+
+  const currentRoute = routeForScreen(screen, {
+    gameId: game?.gameId || currentGameId,
+    roomCode: currentRoomCode || game?.roomCode
+  })
+  const expectedPath = currentRoute ? gameRoutePath(currentRoute) : null
+
+  // Open a linked lobby or game: rejoin if this wallet plays in it, otherwise explain why not
+  const openRoute = async (route: GameRoute, address: string) => {
+    setPendingRoute(route)
+    setRouteNotice(null)
+    setInviteProblem(null)
+
+    try {
+      if (route.kind === 'home') return
+      if (route.kind === 'lobbies') {
+        setStakingMode('join')
+        send({ type: 'BROWSE_LOBBIES' })
+        return
+      }
+
+      if (route.kind === 'join') {
+        // Invite link: straight to staking with the code filled in, or explain why the lobby can't be joined
+        const { invite } = await apiService.getInvite(route.roomCode)
+        const isPlaying = invite.players.includes(address)
+
+        if (invite.status === 'open' && !isPlaying) {
+          setCurrentRoomCode(invite.roomCode)
+          setStakingMode('join')
+          send({ type: 'OPEN_STAKING' })
+          return
+        }
+        if (!isPlaying || invite.status === 'ended' || invite.status === 'cancelled') {
+          setInviteProblem({ roomCode: route.roomCode, invite })
+          return
+        }
+        // Already playing in it - rejoin like a /lobby link
+      }
+
+      const response = route.kind === 'lobby' || route.kind === 'join'
+        ? await apiService.getGameByRoomCode(route.roomCode)
+        : await apiService.getGame(route.gameId, address)
+      const linkedGame = response.game
+
+      if (linkedGame.players.includes(address)) {
+        console.log('🔗 Rejoining linked game:', linkedGame.gameId)
+        const savedSession = getGameSession()
+        setCurrentGameId(linkedGame.gameId)
+        setCurrentRoomCode(linkedGame.roomCode || null)
+        setIsLoadingGame(true)
+        await refreshGame(linkedGame.gameId, address)
+        send({
+          type: 'RESTORE_SESSION',
+          hasSeenRole: savedSession?.gameId === linkedGame.gameId ? savedSession.hasSeenRole : undefined
+        })
+      } else if (route.kind === 'lobby' && linkedGame.phase === 'lobby') {
+        // Not in this lobby yet - prefill the room code on the join screen
+        setCurrentRoomCode(route.roomCode)
+        setStakingMode('join')
+        send({ type: 'OPEN_STAKING' })
+      } else {
+        setRouteNotice(linkedGame.phase === 'ended'
+          ? 'That game has already ended.'
+          : "That game has already started and you're not playing in it.")
+      }
+    } catch (err) {
+      console.error('❌ Failed to open linked game:', err)
+      if (route.kind === 'join' && err instanceof Error && /room code/i.test(err.message)) {
+        setInviteProblem({ roomCode: route.roomCode, invite: null })
+      } else {
+        setRouteNotice('That game could not be found.')
+      }
+    } finally {
+      setPendingRoute(null)
+    }
+  }
+
+  // Keep the URL in step with the screen
+  useEffect(() => {
+    if (pendingRoute || leaveRequested || !expectedPath || expectedPath === pathname) return
+    router.push(expectedPath)
+  }, [expectedPath, pendingRoute, leaveRequested])
+
+  // Browser back/forward: follow the URL where the screen allows it. Only reacts
+  // to URL changes - the latest screen is read from a ref.
+  const latest = useRef({ screen, expectedPath, walletAddress })
+  latest.current = { screen, expectedPath, walletAddress }
+  useEffect(() => {
+    const { screen: currentScreen, expectedPath: currentPath, walletAddress: address } = latest.current
+    if (pendingRoute || !currentPath || pathname === currentPath) return
+
+    // Leaving a running game by accident would abandon the stake - ask first
+    if (requiresLeaveConfirmation(currentScreen)) {
+      setLeaveRequested(true)
+      return
+    }
+
+    const route = parseGameRoute(pathname)
+    let event: ScreenEvent | null = null
+    if (route.kind === 'lobbies') {
+      event = { type: 'BROWSE_LOBBIES' }
+    } else if (route.kind === 'home') {
+      event = currentScreen === 'ended' ? { type: 'NEW_GAME' } : { type: 'OPEN_STAKING' }
+    }
+
+    if (event && canHandleEvent(currentScreen, event.type)) {
+      send(event)
+    } else if (route.kind !== 'home' && route.kind !== 'lobbies' && currentScreen === 'wallet' && address) {
+      openRoute(route, address)
+    } else {
+      router.replace(currentPath)
+    }
+  }, [pathname])
+
+  const handleWalletAddressChange = (address: string | null) => {
+    setWalletAddress(address)
+    if (address) {
+      setCurrentPlayerFromAddress(address)
+
+      if (pendingRoute) {
+        openRoute(pendingRoute, address)
+        return
+      }
+
+      // Check for saved game session
+      const savedSession = getGameSession()
+      if (savedSession && isSessionValid(address)) {
+        console.log('🔄 Attempting to restore previous game session:', savedSession)
+
+        // Restore game state
+        setCurrentGameId(savedSession.gameId)
+        setCurrentRoomCode(savedSession.roomCode)
+        setIsLoadingGame(true)
+
+        // Explicitly fetch game state - socket error handler will clear invalid sessions
+        setTimeout(() => {
+          refreshGame()
+          console.log('🔄 Fetching game state after session restoration')
+        }, 500)
+
+        // Navigate to lobby - restoring hasSeenRole prevents showing role assignment again
+        send({ type: 'RESTORE_SESSION', hasSeenRole: savedSession.hasSeenRole })
+      }
+    }
+  }
+
+  const handleJoinGame = () => {
+    setPendingRoute(null)
+    setStakingMode('join')
+    send({ type: 'OPEN_STAKING' })
+  }
+
+  const handleCreateLobby = () => {
+    setPendingRoute(null)
+    setStakingMode('create')
+    send({ type: 'OPEN_STAKING' })
+  }
+
+  const getPublicPlayerData = (players: Player[], currentPlayerId: string) => {
+    return players.map(player => ({
+      ...player,
+      role: player.id === currentPlayerId ? player.role : undefined,
+      // Always show public avatars (colored shirts) for everyone
+      // Role avatars are already handled in convertPlayers
+      avatar: player.avatar,
+      isCurrentPlayer: player.id === currentPlayerId
+    }))
+  }
+
+  return (
+    <main className="min-h-screen gaming-bg relative overflow-hidden w-full">
+
+
+      {error && (
+        <div className="fixed top-4 right-4 z-50 bg-red-900/90 text-red-100 p-4 rounded border border-red-500">
+          <div className="font-press-start text-sm">ERROR:</div>
+          <div className="text-sm">{error}</div>
+          <button
+            onClick={() => window.location.reload()}
+            className="mt-2 px-2 py-1 bg-red-700 hover:bg-red-600 rounded text-xs"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {routeNotice && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-yellow-900/90 text-yellow-100 p-4 rounded border border-yellow-500 text-center">
+          <div className="font-press-start text-sm">CAN&apos;T OPEN LINK</div>
+          <div className="text-sm">{routeNotice}</div>
+          <button
+            onClick={() => setRouteNotice(null)}
+            className="mt-2 px-2 py-1 bg-yellow-700 hover:bg-yellow-600 rounded text-xs"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {pendingRoute?.kind === 'join' && !walletAddress && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-[#111111]/90 text-white px-4 py-2 rounded-none border border-[#4A8C4A] text-center">
+          <div className="font-press-start text-xs pixel-text-3d-green">🔗 INVITED TO LOBBY {pendingRoute.roomCode}</div>
+          <div className="text-xs text-gray-300">Connect your wallet to join</div>
+        </div>
+      )}
+
+      <InviteStatusDialog
+        problem={inviteProblem}
+        onRetry={(roomCode) => {
+          if (walletAddress) openRoute({ kind: 'join', roomCode }, walletAddress)
+        }}
+        onBrowseLobbies={() => {
+          setInviteProblem(null)
+          setStakingMode('join')
+          send({ type: 'BROWSE_LOBBIES' })
+        }}
+        onClose={() => setInviteProblem(null)}
+      />
+
+      <LeaveGameDialog
+        open={leaveRequested}
+        isNight={screen === "night"}
+        onStay={() => {
+          setLeaveRequested(false)
+          if (expectedPath) router.push(expectedPath)
+        }}
+        onLeave={() => {
+          console.log('🚪 Player confirmed leaving the game via browser navigation')
+          setLeaveRequested(false)
+          send({ type: 'LEAVE_GAME' })
+        }}
+      />
+
+
+
+      {isResyncing && game && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 bg-yellow-900/90 text-yellow-100 px-4 py-2 rounded-none border border-yellow-500 text-center">
+          <div className="font-press-start text-xs animate-pulse">🔄 RESYNCING...</div>
+          <div className="text-xs text-yellow-200/80">{isConnected ? 'Catching up with the game' : 'Connection lost, reconnecting'}</div>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="fixed inset-0 bg-black/10 flex items-center justify-center z-40">
+          <div className="bg-[#111111]/40 p-3 rounded border border-[#2a2a2a]/30 text-center opacity-30">
+            <div className="font-press-start text-white/50 mb-1 text-xs">LOADING...</div>
+            <div className="text-xs text-gray-600">Connecting to game server</div>
+          </div>
+        </div>
+      )}
+
+      {screen === "loader" && <LoaderScreen />}
+      {screen === "wallet" && (
+        <WalletConnect
+          onAddressChange={handleWalletAddressChange}
+          onJoinGame={handleJoinGame}
+          onCreateLobby={handleCreateLobby}
+        />
+      )}
+      {screen === "staking" && walletAddress && (
+        <StakingScreen
+          gameId={game?.gameId}
+          playerAddress={walletAddress}
+          mode={stakingMode}
+          initialRoomCode={currentRoomCode || undefined}
+          onStakeSuccess={async (gameId, roomCode) => {
+            console.log('🎯 onStakeSuccess - fetching game state and transitioning to lobby')
+            setIsLoadingGame(true)
+            if (gameId) setCurrentGameId(gameId)
+            if (roomCode) setCurrentRoomCode(roomCode)
+
+            // CRITICAL FIX: Fetch game state immediately so currentPlayer gets set
+            // This allows the socket to auto-join (it needs currentPlayer.address)
+            try {
+              await refreshGame(gameId, walletAddress) // Pass gameId and walletAddress explicitly
+              console.log('✅ Game state fetched after staking')
+            } catch (error) {
+              console.error('❌ Failed to fetch game state after staking:', error)
+            }
+
+            send({ type: 'ENTER_LOBBY' })
+          }}
+          onCancel={() => {
+            setCurrentRoomCode(null)
+            send({ type: 'CANCEL' })
+          }}
+          onBrowsePublicLobbies={() => send({ type: 'BROWSE_LOBBIES' })}
+        />
+      )}
+      {screen === "public-lobbies" && walletAddress && (
+        <PublicLobbiesScreen
+          playerAddress={walletAddress}
+          onJoinLobby={async (gameId, roomCode) => {
+            console.log('🎯 onJoinLobby from public lobbies - fetching game state and transitioning to lobby')
+            setIsLoadingGame(true)
+            if (gameId) setCurrentGameId(gameId)
+            if (roomCode) setCurrentRoomCode(roomCode)
+
+            // CRITICAL: Fetch game state immediately so currentPlayer gets set
+            // This allows the socket to auto-join (it needs currentPlayer.address)
+            try {
+              await refreshGame(gameId, walletAddress)
+              console.log('✅ Game state fetched after joining from public lobbies')
+            } catch (error) {
+              console.error('❌ Failed to fetch game state after joining:', error)
+            }
+
+            send({ type: 'ENTER_LOBBY' })
+          }}
+          onCreateLobby={() => {
+            console.log('🎯 onCreateLobby - transitioning to staking screen in create mode')
+            setStakingMode('create')
+            send({ type: 'OPEN_STAKING' })
+          }}
+          onBack={() => send({ type: 'OPEN_STAKING' })}
+        />
+      )}
+      {screen === "lobby" && (
+        <>
+          {currentPlayer && game ? (
+            <LobbyScreen
+              players={getPublicPlayerData(players, currentPlayer.id)}
+              game={game}
+              isConnected={isConnected}
+              onStartGame={() => { }}
+              playerAddress={currentPlayer.address}
+              refreshGame={refreshGame}
+              onLeaveGame={() => {
+                console.log('🚪 Player leaving game - returning to home')
+                send({ type: 'LEAVE_GAME' })
+              }}
+            />
+          ) : (
+            <LoaderScreen
+              message="Loading lobby..."
+              subMessage="Connecting to game server"
+            />
+          )}
+        </>
+      )}
+      {screen === "role-assignment" && currentPlayer?.role && currentPlayer?.avatar && (
+        <RoleAssignmentScreen
+          role={currentPlayer.role as Role}
+          avatar={currentPlayer.avatar}
+          onAcknowledge={() => send({ type: 'ROLE_ACKNOWLEDGED' })}
+        />
+      )}
+      {screen === "night" && currentPlayer && (
+        <GameplayScreen
+          currentPlayer={currentPlayer}
+          players={getPublicPlayerData(players, currentPlayer.id)}
+          game={game}
+          submitNightAction={submitNightAction}
+          isConnected={isConnected}
+          refreshGame={refreshGame}
+          onComplete={() => { }}
+        />
+      )}
+      {screen === "resolution" && game && (
+        <NightResolutionScreen
+          resolution={{
+            killedPlayer: (() => {
+              if (!lastEliminatedPlayer) return null;
+              const found = players.find(p => p.address === lastEliminatedPlayer);
+              console.log('🔍 Looking for eliminated player:', lastEliminatedPlayer, 'found:', found?.name);
+              return found || null;
+            })(),
+            savedPlayer: null,
+            investigatedPlayer: null,
+            investigationResult: null,
+            mafiaTarget: null,
+            doctorTarget: null,
+            detectiveTarget: null
+          }}
+          onContinue={() => { }}
+          game={game}
+          currentPlayer={currentPlayer || undefined}
+          investigation={investigations.find(info => info.day === game.day) || null}
+          protection={protections.find(info => info.day === game.day) || null}
+        />
+      )}
+      {screen === "task" && (
+        <DiscussionPhaseScreen
+          onComplete={() => { }}
+          game={game}
+          gameId={game?.gameId}
+          currentPlayerAddress={currentPlayer?.address}
+          submitTaskAnswer={submitTaskAnswer}
+          players={players}
+        />
+      )}
+      {screen === "voting" && currentPlayer && (
+        <VotingScreen
+          players={getPublicPlayerData(players, currentPlayer.id)}
+          game={game}
+          currentPlayer={currentPlayer}
+          submitVote={submitVote}
+          isConnected={isConnected}
+          onComplete={() => { }}
+        />
+      )}
+      {screen === "ended" && game && (
+        <GameResultsScreen
+          game={game}
+          players={players}
+          currentPlayer={currentPlayer || undefined}
+          onNewGame={() => {
+            console.log('🎮 Starting new game - resetting all state')
+            setStakingMode('create') // Reset to default staking mode
+            send({ type: 'NEW_GAME' })
+          }}
+          onBrowsePublicLobbies={() => {
+            console.log('🌐 Browsing public lobbies from results screen')
+            setStakingMode('join') // Set to join mode for public lobbies
+            send({ type: 'BROWSE_LOBBIES' })
+          }}
+          onWatchReplay={game.gameId ? () => router.push(`/replay/${game.gameId}`) : undefined}
+        />
+      )}
+
+    </main>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,120 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import encodeQR from "qr"
+import { Button } from "@/components/ui/button"
+
+interface InvitePanelProps {
+  roomCode: string
+}
+
+export const inviteLinkFor = (roomCode: string) =>
+  `${window.location.origin}/join/${encodeURIComponent(roomCode.trim())}`
+
+// Drawn in the browser from the module matrix - one square per dark module
+function QrCode({ text }: { text: string }) {
+  const { size, path } = useMemo(() => {
+    const modules = encodeQR(text, 'raw', { ecc: 'medium', border: 2 })
+    let path = ''
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) path += `M${x} ${y}h1v1h-1z`
+    }))
+    return { size: modules.length, path }
+  }, [text])
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      className="w-40 h-40 sm:w-48 sm:h-48 bg-white mx-auto"
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="Invite QR code"
+    >
+      <path d={path} fill="#000000" />
+    </svg>
+  )
+}
+
+// Invite link to /join/ROOMCODE: copy it, hand it to the share sheet on
+// devices that have one, or show it as a QR code for people in the same room
+export default function InvitePanel({ roomCode }: InvitePanelProps) {
+  const [inviteLink, setInviteLink] = useState('')
+  const [canShare, setCanShare] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [showQr, setShowQr] = useState(false)
+
+  // window and navigator only exist after hydration
+  useEffect(() => {
+    setInviteLink(inviteLinkFor(roomCode))
+    setCanShare(typeof navigator.share === 'function')
+  }, [roomCode])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('❌ Failed to copy invite link:', error)
+      alert('Failed to copy invite link. Please copy manually: ' + inviteLink)
+    }
+  }
+
+  const handleShare = async () => {
+    try {
+      await navigator.share({
+        title: 'Join my ASUR game',
+        text: `Join my ASUR lobby - room code ${roomCode}`,
+        url: inviteLink
+      })
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError - nothing to report
+      if (error instanceof Error && error.name !== 'AbortError') {
+        console.error('❌ Failed to share invite link:', error)
+      }
+    }
+  }
+
+  if (!inviteLink) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <Button
+          onClick={handleCopy}
+          variant={copied ? "pixel" : "pixelOutline"}
+          size="sm"
+          className="text-xs"
+        >
+          {copied ? '✅ COPIED!' : '🔗 COPY INVITE LINK'}
+        </Button>
+        {canShare && (
+          <Button
+            onClick={handleShare}
+            variant="pixelOutline"
+            size="sm"
+            className="text-xs"
+          >
+            📤 SHARE
+          </Button>
+        )}
+        <Button
+          onClick={() => setShowQr(!showQr)}
+          variant={showQr ? "pixel" : "pixelOutline"}
+          size="sm"
+          className="text-xs"
+        >
+          {showQr ? '✖ HIDE QR' : '📱 QR CODE'}
+        </Button>
+      </div>
+
+      {showQr && (
+        <div className="space-y-1">
+          <QrCode text={inviteLink} />
+          <div className="text-xs text-gray-400 break-all">{inviteLink}</div>
+          <div className="text-xs text-gray-500">Scan to open the lobby and stake</div>
+        </div>
+      )}
+    </div>
+  )
+}
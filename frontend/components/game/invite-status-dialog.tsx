@@ -0,0 +1,123 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+import { Invite } from "@/services/api"
+
+// An invite link that can't be used; invite is null when the room code doesn't exist
+export interface InviteProblem {
+    roomCode: string
+    invite: Invite | null
+}
+
+interface InviteStatusDialogProps {
+    problem: InviteProblem | null
+    onRetry: (roomCode: string) => void
+    onBrowseLobbies: () => void
+    onClose: () => void
+}
+
+const explain = ({ roomCode, invite }: InviteProblem): { title: string; text: string } => {
+    switch (invite?.status) {
+        case 'full':
+            return {
+                title: '🪑 LOBBY FULL',
+                text: `All ${invite.seats} seats in lobby ${roomCode} are taken. A seat opens up if someone leaves or is removed before the game starts - try the link again in a moment.`
+            }
+        case 'locked':
+            return {
+                title: '🔒 LOBBY LOCKED',
+                text: `The host of lobby ${roomCode} has locked it against new players. Ask them to unlock it, then try the link again.`
+            }
+        case 'started':
+            return {
+                title: '🎮 GAME ALREADY STARTED',
+                text: invite.allowSpectators
+                    ? `The game in lobby ${roomCode} started without you. You can still watch it as a spectator.`
+                    : `The game in lobby ${roomCode} started without you, and the host doesn't allow spectators.`
+            }
+        case 'ended':
+            return {
+                title: '🏁 GAME OVER',
+                text: `The game in lobby ${roomCode} has already finished. Ask for an invite to a new lobby.`
+            }
+        case 'cancelled':
+            return {
+                title: '🚫 LOBBY CLOSED',
+                text: `Lobby ${roomCode} was cancelled before its game started. Ask for an invite to a new lobby.`
+            }
+        default:
+            return {
+                title: '❓ INVITE NOT FOUND',
+                text: `No lobby uses the room code ${roomCode}. Check the link you were sent.`
+            }
+    }
+}
+
+// Shown instead of the staking screen when an invite link leads to a lobby that can't be joined
+export default function InviteStatusDialog({ problem, onRetry, onBrowseLobbies, onClose }: InviteStatusDialogProps) {
+    const { title, text } = problem ? explain(problem) : { title: '', text: '' }
+    const status = problem?.invite?.status
+    const canRetry = status === 'full' || status === 'locked'
+    const canSpectate = status === 'started' && problem?.invite?.allowSpectators
+
+    return (
+        <Dialog open={!!problem} onOpenChange={(isOpen) => { if (!isOpen) onClose() }}>
+            <DialogContent className="bg-card border-2 border-yellow-500">
+                <DialogHeader>
+                    <DialogTitle className="font-press-start text-lg pixel-text-3d-yellow text-center">
+                        {title}
+                    </DialogTitle>
+                    <DialogDescription className="text-center text-sm text-gray-300 pt-2">
+                        {text}
+                    </DialogDescription>
+                </DialogHeader>
+                <DialogFooter className="flex-col sm:flex-row gap-2">
+                    {canRetry && problem && (
+                        <Button
+                            onClick={() => onRetry(problem.roomCode)}
+                            variant="outline"
+                            size="pixel"
+                            className="w-full sm:w-auto"
+                        >
+                            🔄 TRY AGAIN
+                        </Button>
+                    )}
+                    {canSpectate && problem && (
+                        <Button
+                            asChild
+                            variant="outline"
+                            size="pixel"
+                            className="w-full sm:w-auto"
+                        >
+                            <a href={`/spectate/${encodeURIComponent(problem.roomCode)}`}>👀 SPECTATE</a>
+                        </Button>
+                    )}
+                    <Button
+                        onClick={onBrowseLobbies}
+                        variant="outline"
+                        size="pixel"
+                        className="w-full sm:w-auto"
+                    >
+                        🌐 PUBLIC LOBBIES
+                    </Button>
+                    <Button
+                        onClick={onClose}
+                        variant="outline"
+                        size="pixel"
+                        className="w-full sm:w-auto"
+                    >
+                        CLOSE
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog"
+
+interface LeaveGameDialogProps {
+    open: boolean
+    isNight?: boolean
+    onStay: () => void
+    onLeave: () => void
+}
+
+// Shown when the browser back/forward buttons would take the player out of a running game
+export default function LeaveGameDialog({ open, isNight = false, onStay, onLeave }: LeaveGameDialogProps) {
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onStay() }}>
+            <DialogContent className="bg-card border-2 border-yellow-500">
+                <DialogHeader>
+                    <DialogTitle className="font-press-start text-lg pixel-text-3d-yellow text-center">
+                        ⚠️ LEAVE GAME?
+                    </DialogTitle>
+                    <DialogDescription className="text-center text-sm text-gray-300 pt-2">
+                        {isNight
+                            ? "It's night - your action hasn't resolved yet. Leaving now abandons the game and your stake."
+                            : "Leaving this page abandons the game and your stake."}
+                    </DialogDescription>
+                </DialogHeader>
+                <DialogFooter className="flex-col sm:flex-row gap-2">
+                    <Button
+                        onClick={onStay}
+                        variant="outline"
+                        size="pixel"
+                        className="w-full sm:w-auto"
+                    >
+                        ↩️ STAY IN GAME
+                    </Button>
+                    <Button
+                        onClick={onLeave}
+                        variant="outline"
+                        size="pixel"
+                        className="w-full sm:w-auto border-red-500 text-red-400 hover:bg-red-900/50"
+                    >
+                        🚪 LEAVE
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
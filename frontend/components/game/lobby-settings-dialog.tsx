@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { formatEther } from "viem"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -12,7 +13,11 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { GameSettings } from "@/services/api"
+import { GameSettings, RoleComposition, RoleSetup } from "@/services/api"
+import { autoComposition, compositionError, resolveComposition } from "@/utils/roleShuffle"
+import { calculateWinProbabilities, DEFAULT_HOUSE_CUT_BPS } from "@/utils/winProbability"
+import type { SimulationParams } from "@/utils/outcomeSimulator"
+import OutcomeSimulationPanel from "@/components/game/outcome-simulation-panel"
 
 export interface FullGameSettings {
   nightPhaseDuration: number      // seconds
@@ -20,6 +25,9 @@ export interface FullGameSettings {
   taskPhaseDuration: number       // seconds
   votingPhaseDuration: number     // seconds
   maxTaskCount: number            // total tasks needed for non-asur win
+  allowSpectators: boolean        // whether /spectate/[roomCode] works
+  spectatorDelay: number          // seconds spectators run behind the game
+  roleSetup: RoleSetup            // roles dealt (auto-balanced or custom)
   isPublic?: boolean              // lobby visibility
 }
 
@@ -30,6 +38,9 @@ export const FALLBACK_GAME_SETTINGS: FullGameSettings = {
   taskPhaseDuration: 30,
   votingPhaseDuration: 10,
   maxTaskCount: 4,
+  allowSpectators: true,
+  spectatorDelay: 10,
+  roleSetup: { mode: 'auto', mafia: 1, doctor: true, detective: true },
 }
 
 // This will be populated from backend
@@ -37,12 +48,26 @@ export let DEFAULT_GAME_SETTINGS: FullGameSettings = FALLBACK_GAME_SETTINGS
 
 export { type GameSettings }
 
+// e.g. "2 ASUR · DEVA · RISHI · 4 MANAV"
+export function describeComposition(playerCount: number, composition: RoleComposition): string {
+  const villagers = playerCount - composition.mafia - (composition.doctor ? 1 : 0) - (composition.detective ? 1 : 0)
+  return [
+    `${composition.mafia} ASUR`,
+    composition.doctor && 'DEVA',
+    composition.detective && 'RISHI',
+    villagers > 0 && `${villagers} MANAV`
+  ].filter(Boolean).join(' · ')
+}
+
 interface LobbySettingsDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   settings: FullGameSettings
   onSettingsChange: (settings: FullGameSettings) => void
   onSave: () => void
+  playerCount?: number // lobby size the roles are dealt for
+  stakeAmount?: string // Wei, for the payout preview
+  houseCutBps?: number // contract's current cut (see useHouseCut)
 }
 
 export default function LobbySettingsDialog({
@@ -51,6 +76,9 @@ export default function LobbySettingsDialog({
   settings,
   onSettingsChange,
   onSave,
+  playerCount = 4,
+  stakeAmount,
+  houseCutBps = DEFAULT_HOUSE_CUT_BPS,
 }: LobbySettingsDialogProps) {
   const [localSettings, setLocalSettings] = useState<FullGameSettings>(settings)
 
@@ -59,13 +87,38 @@ export default function LobbySettingsDialog({
     setLocalSettings(settings)
   }, [settings])
 
-  const handleChange = (key: keyof FullGameSettings, value: number) => {
+  const handleChange = (key: keyof FullGameSettings, value: number | boolean) => {
     setLocalSettings(prev => ({
       ...prev,
       [key]: value
     }))
   }
 
+  const handleRoleSetupChange = (changes: Partial<RoleSetup>) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      roleSetup: { ...prev.roleSetup, ...changes }
+    }))
+  }
+
+  const composition = resolveComposition(playerCount, localSettings.roleSetup)
+  const roleSetupError = compositionError(playerCount, composition)
+  const maxMafia = Math.max(1, Math.ceil(playerCount / 2) - 1)
+  const payout = stakeAmount && BigInt(stakeAmount) > BigInt(0) && !roleSetupError
+    ? calculateWinProbabilities(stakeAmount, playerCount, playerCount, composition, houseCutBps)
+    : null
+  const simulationParams: SimulationParams | null = roleSetupError ? null : {
+    playerCount,
+    composition,
+    maxTaskCount: localSettings.maxTaskCount,
+    nightPhaseDuration: localSettings.nightPhaseDuration,
+    resolutionPhaseDuration: localSettings.resolutionPhaseDuration,
+    taskPhaseDuration: localSettings.taskPhaseDuration,
+    votingPhaseDuration: localSettings.votingPhaseDuration,
+    stake: stakeAmount ? Number(formatEther(BigInt(stakeAmount))) : 0,
+    houseCutBps,
+  }
+
   const validateSettings = (settings: FullGameSettings): string[] => {
     const errors: string[] = []
 
@@ -74,7 +127,8 @@ export default function LobbySettingsDialog({
       resolutionPhaseDuration: { min: 1, max: 60, name: 'Resolution Phase Duration' },
       taskPhaseDuration: { min: 1, max: 180, name: 'Task Phase Duration' },
       votingPhaseDuration: { min: 1, max: 60, name: 'Voting Phase Duration' },
-      maxTaskCount: { min: 2, max: 20, name: 'Max Task Count' }
+      maxTaskCount: { min: 2, max: 20, name: 'Max Task Count' },
+      spectatorDelay: { min: 0, max: 120, name: 'Spectator Delay' }
     }
 
     for (const [key, rule] of Object.entries(validationRules)) {
@@ -93,6 +147,11 @@ export default function LobbySettingsDialog({
       }
     }
 
+    if (settings.roleSetup.mode === 'custom') {
+      const error = compositionError(playerCount, resolveComposition(playerCount, settings.roleSetup))
+      if (error) errors.push(error)
+    }
+
     return errors
   }
 
@@ -121,13 +180,127 @@ export default function LobbySettingsDialog({
             ⚙️ LOBBY SETTINGS
           </DialogTitle>
           <DialogDescription className="text-center text-xs text-gray-400 mt-2">
-            Configure game phase durations
+            Configure roles, phase durations and spectators
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-3 sm:space-y-4 py-2 sm:py-4 max-h-[70vh] overflow-y-auto overflow-x-hidden px-1">
-          {/* Phase Durations */}
+          {/* Roles */}
           <div className="space-y-2 sm:space-y-3">
+            <div className="text-xs sm:text-sm font-press-start text-gray-300 border-b border-border pb-2">
+              ROLES ({playerCount} PLAYERS)
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-[10px] sm:text-xs font-press-start text-gray-300 break-words">
+                SETUP
+              </Label>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  onClick={() => handleRoleSetupChange({ mode: 'auto' })}
+                  variant={localSettings.roleSetup.mode === 'auto' ? "pixel" : "outline"}
+                  size="pixel"
+                  className="text-xs"
+                >
+                  ⚖️ AUTO
+                </Button>
+                <Button
+                  type="button"
+                  onClick={() => handleRoleSetupChange({ mode: 'custom', ...composition })}
+                  variant={localSettings.roleSetup.mode === 'custom' ? "pixel" : "outline"}
+                  size="pixel"
+                  className="text-xs"
+                >
+                  🛠️ CUSTOM
+                </Button>
+              </div>
+            </div>
+
+            {localSettings.roleSetup.mode === 'custom' && (
+              <>
+                <div className="space-y-1 sm:space-y-2">
+                  <Label htmlFor="mafiaCount" className="text-[10px] sm:text-xs font-press-start text-gray-300 break-words">
+                    ASUR
+                  </Label>
+                  <Input
+                    id="mafiaCount"
+                    type="number"
+                    min={1}
+                    max={maxMafia}
+                    value={localSettings.roleSetup.mafia}
+                    onChange={(e) => handleRoleSetupChange({ mafia: parseInt(e.target.value) || 1 })}
+                    className="font-press-start text-center w-full text-sm"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                  <Label className="text-[10px] sm:text-xs font-press-start text-gray-300 break-words">
+                    DEVA (DOCTOR)
+                  </Label>
+                  <Button
+                    type="button"
+                    onClick={() => handleRoleSetupChange({ doctor: !localSettings.roleSetup.doctor })}
+                    variant={localSettings.roleSetup.doctor ? "pixel" : "outline"}
+                    size="pixel"
+                    className="text-xs"
+                  >
+                    {localSettings.roleSetup.doctor ? '✅ IN' : '🚫 OUT'}
+                  </Button>
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                  <Label className="text-[10px] sm:text-xs font-press-start text-gray-300 break-words">
+                    RISHI (DETECTIVE)
+                  </Label>
+                  <Button
+                    type="button"
+                    onClick={() => handleRoleSetupChange({ detective: !localSettings.roleSetup.detective })}
+                    variant={localSettings.roleSetup.detective ? "pixel" : "outline"}
+                    size="pixel"
+                    className="text-xs"
+                  >
+                    {localSettings.roleSetup.detective ? '✅ IN' : '🚫 OUT'}
+                  </Button>
+                </div>
+
+                <Button
+                  type="button"
+                  onClick={() => handleRoleSetupChange(autoComposition(playerCount))}
+                  variant="outline"
+                  size="pixel"
+                  className="w-full text-xs"
+                >
+                  ⚖️ LOAD BALANCED PRESET
+                </Button>
+              </>
+            )}
+
+            <div className={`text-[10px] sm:text-xs font-press-start text-center ${roleSetupError ? 'text-red-400' : 'text-gray-300'}`}>
+              {roleSetupError || describeComposition(playerCount, composition)}
+            </div>
+            <p className="text-[10px] text-gray-500">
+              {localSettings.roleSetup.mode === 'auto'
+                ? 'Balanced for the lobby size: one ASUR per four players, DEVA from three players, RISHI from four'
+                : 'ASUR must start outnumbered by everyone else'}
+            </p>
+
+            {payout && (
+              <div className="grid grid-cols-2 gap-2 text-[10px] sm:text-xs font-press-start text-center">
+                <div className="p-2 bg-[#1a1a1a]/50 rounded border border-[#2a2a2a]">
+                  <div className="text-gray-400 mb-1">IF ASUR WIN</div>
+                  <div className="text-red-400">+{payout.mafiaWinPercent}%</div>
+                </div>
+                <div className="p-2 bg-[#1a1a1a]/50 rounded border border-[#2a2a2a]">
+                  <div className="text-gray-400 mb-1">IF NON-ASUR WIN</div>
+                  <div className="text-green-400">+{payout.nonMafiaWinPercent}%</div>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Phase Durations */}
+          <div className="space-y-2 sm:space-y-3 pt-2 border-t border-border">
             <div className="text-xs sm:text-sm font-press-start text-gray-300 border-b border-border pb-2">
               PHASE DURATIONS
             </div>
@@ -217,6 +390,55 @@ export default function LobbySettingsDialog({
               </p>
             </div>
           </div>
+
+          {/* Spectators */}
+          <div className="space-y-2 sm:space-y-3 pt-2 border-t border-border">
+            <div className="text-xs sm:text-sm font-press-start text-gray-300 border-b border-border pb-2">
+              SPECTATORS
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-[10px] sm:text-xs font-press-start text-gray-300 break-words">
+                ALLOW SPECTATORS
+              </Label>
+              <Button
+                type="button"
+                onClick={() => handleChange('allowSpectators', !localSettings.allowSpectators)}
+                variant={localSettings.allowSpectators ? "pixel" : "outline"}
+                size="pixel"
+                className="text-xs"
+              >
+                {localSettings.allowSpectators ? '👀 ON' : '🚫 OFF'}
+              </Button>
+            </div>
+
+            <div className="space-y-1 sm:space-y-2">
+              <Label htmlFor="spectatorDelay" className="text-[10px] sm:text-xs font-press-start text-gray-300 break-words">
+                SPECTATOR DELAY (seconds)
+              </Label>
+              <Input
+                id="spectatorDelay"
+                type="number"
+                min={0}
+                max={120}
+                disabled={!localSettings.allowSpectators}
+                value={localSettings.spectatorDelay}
+                onChange={(e) => handleChange('spectatorDelay', parseInt(e.target.value) || 0)}
+                className="font-press-start text-center w-full text-sm"
+              />
+              <p className="text-[10px] text-gray-500">
+                Spectators see the game this far behind, so they can't feed players live info
+              </p>
+            </div>
+          </div>
+
+          {/* Simulated Outcomes */}
+          <div className="space-y-2 sm:space-y-3 pt-2 border-t border-border">
+            <div className="text-xs sm:text-sm font-press-start text-gray-300 border-b border-border pb-2">
+              SIMULATED OUTCOMES
+            </div>
+            {open && <OutcomeSimulationPanel params={simulationParams} />}
+          </div>
         </div>
 
         <DialogFooter className="flex-col sm:flex-row gap-2">
@@ -0,0 +1,87 @@
+"use client"
+
+import { useOutcomeSimulation } from "@/hooks/useOutcomeSimulation"
+import { activeChain } from "@/lib/wagmi"
+import type { SimulatedRole, SimulationParams } from "@/utils/outcomeSimulator"
+
+interface OutcomeSimulationPanelProps {
+  params: SimulationParams | null // null while the settings can't be simulated
+}
+
+const ROLE_LABELS: { role: SimulatedRole; label: string }[] = [
+  { role: 'Mafia', label: 'ASUR' },
+  { role: 'Doctor', label: 'DEVA' },
+  { role: 'Detective', label: 'RISHI' },
+  { role: 'Villager', label: 'MANAV' },
+]
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`
+
+const signed = (value: number) => {
+  const rounded = value.toFixed(4)
+  return value > 0 ? `+${rounded}` : rounded
+}
+
+// Win rates, game length and expected value per role for the given settings,
+// estimated by simulating games in a Web Worker
+export default function OutcomeSimulationPanel({ params }: OutcomeSimulationPanelProps) {
+  const { result, isRunning, error } = useOutcomeSimulation(params)
+
+  if (!params) return null
+
+  if (error) {
+    return (
+      <p className="text-[10px] text-red-400 text-center">Simulation failed: {error}</p>
+    )
+  }
+
+  if (!result) {
+    return (
+      <p className="text-[10px] text-gray-400 text-center font-press-start">🎲 SIMULATING...</p>
+    )
+  }
+
+  return (
+    <div className={`space-y-2 transition-opacity ${isRunning ? 'opacity-50' : ''}`}>
+      <div className="grid grid-cols-3 gap-2 text-[10px] sm:text-xs font-press-start text-center">
+        <div className="p-2 bg-[#1a1a1a]/50 rounded border border-[#2a2a2a]">
+          <div className="text-gray-400 mb-1">ASUR WIN</div>
+          <div className="text-red-400">{percent(result.mafiaWinRate)}</div>
+        </div>
+        <div className="p-2 bg-[#1a1a1a]/50 rounded border border-[#2a2a2a]">
+          <div className="text-gray-400 mb-1">NON-ASUR WIN</div>
+          <div className="text-green-400">{percent(result.nonMafiaWinRate)}</div>
+        </div>
+        <div className="p-2 bg-[#1a1a1a]/50 rounded border border-[#2a2a2a]">
+          <div className="text-gray-400 mb-1">GAME LENGTH</div>
+          <div className="text-white">{result.averageDays.toFixed(1)} DAYS</div>
+        </div>
+      </div>
+
+      <div className="text-[10px] text-gray-400 text-center">
+        {percent(result.taskWinRate)} of games end by tasks · about {Math.max(1, Math.round(result.averageSeconds / 60))} min per game
+      </div>
+
+      {params.stake > 0 && (
+        <div className="p-2 bg-[#1a1a1a]/50 rounded border border-[#2a2a2a] space-y-1 text-[10px] sm:text-xs font-press-start">
+          <div className="text-gray-400 text-center mb-1">EXPECTED VALUE PER GAME</div>
+          {ROLE_LABELS.filter(({ role }) => result.expectedValue[role] !== undefined).map(({ role, label }) => {
+            const value = result.expectedValue[role] as number
+            return (
+              <div key={role} className="flex justify-between gap-2">
+                <span className="text-gray-300">{label}</span>
+                <span className={value >= 0 ? 'text-green-400' : 'text-red-400'}>
+                  {signed(value)} {activeChain.nativeCurrency.symbol}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <p className="text-[10px] text-gray-500">
+        Estimated from {result.runs.toLocaleString()} simulated games with average players - a guide for comparing settings, not a prediction
+      </p>
+    </div>
+  )
+}
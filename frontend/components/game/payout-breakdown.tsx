@@ -0,0 +1,106 @@
+"use client"
+
+import { formatEther } from "viem"
+import type { HouseCut } from "@/hooks/useHouseCut"
+import { activeChain } from "@/lib/wagmi"
+import type { RoleComposition } from "@/services/api"
+import { calculatePayoutBreakdown, PayoutBreakdown, truncateAddress } from "@/utils/winProbability"
+
+// Exact amounts - the fee and dust are often far below four decimals
+const amount = (wei: bigint) => `${formatEther(wei)} ${activeChain.nativeCurrency.symbol}`
+
+export const formatHouseCut = (houseCutBps: number) => `${houseCutBps / 100}%`
+
+const Row = ({ label, value, className = "text-white" }: { label: string; value: string; className?: string }) => (
+  <div className="flex justify-between gap-2">
+    <span className="text-gray-400">{label}</span>
+    <span className={`${className} text-right break-all`}>{value}</span>
+  </div>
+)
+
+const FeeRows = ({ breakdown, houseCut }: { breakdown: PayoutBreakdown; houseCut: Pick<HouseCut, 'houseCutBps' | 'feeRecipient'> }) => (
+  <>
+    <Row label="POT" value={amount(breakdown.pot)} className="text-yellow-400" />
+    <Row label={`HOUSE FEE (${formatHouseCut(houseCut.houseCutBps)})`} value={`-${amount(breakdown.fee)}`} className="text-red-400" />
+    {houseCut.feeRecipient && (
+      <Row label="FEE GOES TO" value={truncateAddress(houseCut.feeRecipient)} className="text-gray-300" />
+    )}
+    <Row label="TO WINNERS" value={amount(breakdown.rewardPool)} className="text-green-400" />
+  </>
+)
+
+const ShareRows = ({ breakdown, winnerLabel }: { breakdown: PayoutBreakdown; winnerLabel: string }) => (
+  <>
+    <Row label={`PER ${winnerLabel} (×${breakdown.winnerCount})`} value={amount(breakdown.perWinner)} className="text-green-400" />
+    <Row
+      label="ROUNDING DUST"
+      value={breakdown.dust > BigInt(0) ? `${breakdown.dust} wei` : 'none'}
+      className="text-gray-300"
+    />
+  </>
+)
+
+interface PayoutPreviewProps {
+  stakeAmount: bigint | string // Wei per player
+  playerCount: number
+  composition: RoleComposition
+  houseCut: HouseCut
+}
+
+// What a full lobby pays out under the contract's current house cut, for either side winning
+export default function PayoutPreview({ stakeAmount, playerCount, composition, houseCut }: PayoutPreviewProps) {
+  const mafiaWin = calculatePayoutBreakdown(stakeAmount, playerCount, composition.mafia, houseCut.houseCutBps)
+  const nonMafiaWin = calculatePayoutBreakdown(stakeAmount, playerCount, playerCount - composition.mafia, houseCut.houseCutBps)
+
+  return (
+    <div className="p-2 bg-[#1a1a1a]/50 rounded border border-[#2a2a2a] space-y-2 text-[10px] sm:text-xs font-press-start text-left">
+      <div className="text-gray-300 text-center">PAYOUT BREAKDOWN ({playerCount} PLAYERS)</div>
+      <div className="space-y-1">
+        <FeeRows breakdown={nonMafiaWin} houseCut={houseCut} />
+      </div>
+      <div className="space-y-1 pt-2 border-t border-[#2a2a2a]">
+        <div className="text-red-400">IF ASUR WIN</div>
+        <ShareRows breakdown={mafiaWin} winnerLabel="ASUR" />
+      </div>
+      <div className="space-y-1 pt-2 border-t border-[#2a2a2a]">
+        <div className="text-green-400">IF NON-ASUR WIN</div>
+        <ShareRows breakdown={nonMafiaWin} winnerLabel="PLAYER" />
+      </div>
+      <p className="text-[10px] text-gray-500 font-sans">
+        {houseCut.isLive ? 'House cut read from the contract.' : `Contract unreachable - assuming the default ${formatHouseCut(houseCut.houseCutBps)} cut.`}
+        {' '}ASUR shares assume every ASUR survives; eliminated ASUR get nothing. Dust goes to the last winner so the payouts add up to the pot exactly.
+      </p>
+    </div>
+  )
+}
+
+interface SettledPayoutProps {
+  breakdown: PayoutBreakdown
+  houseCut: Pick<HouseCut, 'houseCutBps' | 'feeRecipient'>
+  winnerLabel: string
+}
+
+// How a finished game's pot was actually split
+export function SettledPayout({ breakdown, houseCut, winnerLabel }: SettledPayoutProps) {
+  return (
+    <div className="space-y-1 text-[10px] sm:text-xs font-press-start text-left">
+      <FeeRows breakdown={breakdown} houseCut={houseCut} />
+      <ShareRows breakdown={breakdown} winnerLabel={winnerLabel} />
+    </div>
+  )
+}
+
+// Shown when the admin changes the house cut after the screen opened
+export function HouseCutWarning({ houseCut }: { houseCut: HouseCut }) {
+  if (houseCut.previousBps === null) return null
+
+  return (
+    <div className="p-2 border-2 border-yellow-500 bg-yellow-900/40 text-yellow-200 text-[10px] sm:text-xs font-press-start text-center space-y-1">
+      <div className="text-yellow-400">⚠️ HOUSE CUT CHANGED</div>
+      <div>
+        The contract&apos;s house cut went from {formatHouseCut(houseCut.previousBps)} to {formatHouseCut(houseCut.houseCutBps)} while
+        this lobby was open. The game is settled at the cut in force when it ends.
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { useSocket } from "@/contexts/SocketContext"
+import { apiService, MatchmakingConfig } from "@/services/api"
+import { MatchFound, QueueStatus } from "@/services/socketProtocol"
+
+interface QuickMatchPanelProps {
+  playerAddress: string
+  onMatchFound: (match: MatchFound) => void
+  onMatchLost: (gameId: string) => void
+}
+
+const TOKEN_SYMBOL = process.env.NEXT_PUBLIC_NATIVE_TOKEN_SYMBOL || 'CELO'
+
+const formatSeconds = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+
+// Queue for a game at a stake tier and lobby size instead of picking a lobby.
+// The backend groups queued players by rating and creates the game; everyone
+// in the group gets match_found and goes on to stake.
+export default function QuickMatchPanel({ playerAddress, onMatchFound, onMatchLost }: QuickMatchPanelProps) {
+  const { isConnected, joinQueue, leaveQueue, subscribe } = useSocket()
+  const [config, setConfig] = useState<MatchmakingConfig | null>(null)
+  const [stakeTier, setStakeTier] = useState<string | null>(null)
+  const [lobbySize, setLobbySize] = useState<number | null>(null)
+  const [status, setStatus] = useState<QueueStatus | null>(null)
+  const [isJoining, setIsJoining] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    apiService.getMatchmakingConfig()
+      .then(response => {
+        setConfig(response.config)
+        setStakeTier(response.config.stakeTiers[0]?.stakeAmount ?? null)
+        setLobbySize(response.config.lobbySizes[0] ?? null)
+      })
+      .catch(err => console.error('❌ Failed to load quick match options:', err))
+  }, [])
+
+  useEffect(() => {
+    const unsubscribers = [
+      subscribe('queue_status', data => setStatus(data)),
+      subscribe('match_found', data => {
+        console.log('🎯 Quick match found:', data)
+        setStatus(null)
+        onMatchFound(data)
+      }),
+      subscribe('queue_cancelled', data => {
+        setStatus(null)
+        setNotice(data.reason)
+        if (data.gameId) onMatchLost(data.gameId)
+      })
+    ]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }, [subscribe, onMatchFound, onMatchLost])
+
+  // The server drops queued sockets on disconnect - don't pretend we're still waiting
+  useEffect(() => {
+    if (!isConnected && status) {
+      setStatus(null)
+      setNotice('Connection lost - you left the queue')
+    }
+  }, [isConnected, status])
+
+  const handleFindMatch = async () => {
+    if (!stakeTier || !lobbySize) return
+    setIsJoining(true)
+    setNotice(null)
+    try {
+      const ack = await joinQueue(playerAddress, stakeTier, lobbySize)
+      if (!ack.ok) {
+        setNotice(ack.error || 'Could not join the queue')
+      } else if (ack.status) {
+        setStatus(ack.status)
+      }
+    } catch (err) {
+      console.error('❌ Failed to join quick match queue:', err)
+      setNotice('Could not reach the game server')
+    } finally {
+      setIsJoining(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    setStatus(null)
+    try {
+      await leaveQueue(playerAddress)
+    } catch (err) {
+      console.error('❌ Failed to leave quick match queue:', err)
+    }
+  }
+
+  if (!config) return null
+
+  return (
+    <Card className="p-3 sm:p-4 bg-[#111111]/90 backdrop-blur-sm border-2 border-[#4A8C4A]/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-press-start pixel-text-3d-green">⚡ QUICK MATCH</div>
+        {status && <div className="text-xs text-gray-400 font-press-start">RATING {status.rating}</div>}
+      </div>
+
+      {status ? (
+        <div className="space-y-3 text-center">
+          <div className="text-xs font-press-start text-yellow-400 animate-pulse">
+            {status.status === 'matching' ? 'MATCH FOUND - CREATING GAME...' : 'SEARCHING...'}
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-xs font-press-start">
+            <div className="p-2 bg-[#1a1a1a]/50 rounded border border-[#2a2a2a]">
+              <div className="text-gray-400 mb-1">POSITION</div>
+              <div className="text-white">{status.position ? `${status.position}/${status.queued}` : '-'}</div>
+            </div>
+            <div className="p-2 bg-[#1a1a1a]/50 rounded border border-[#2a2a2a]">
+              <div className="text-gray-400 mb-1">WAITED</div>
+              <div className="text-white">{formatSeconds(status.waited ?? 0)}</div>
+            </div>
+            <div className="p-2 bg-[#1a1a1a]/50 rounded border border-[#2a2a2a]">
+              <div className="text-gray-400 mb-1">EST. WAIT</div>
+              <div className="text-white">
+                {status.estimatedWait === null || status.estimatedWait === undefined ? '?' : `~${formatSeconds(status.estimatedWait)}`}
+              </div>
+            </div>
+          </div>
+          <div className="text-xs text-gray-400">
+            {status.stakeTier} {TOKEN_SYMBOL} · {status.lobbySize} players
+          </div>
+          <Button
+            onClick={handleCancel}
+            disabled={status.status === 'matching'}
+            variant="pixelOutline"
+            size="pixel"
+            className="text-xs"
+          >
+            ✖ CANCEL
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-press-start text-gray-300 mr-2">STAKE:</span>
+            {config.stakeTiers.map(tier => (
+              <Button
+                key={tier.stakeAmount}
+                onClick={() => setStakeTier(tier.stakeAmount)}
+                variant={stakeTier === tier.stakeAmount ? 'pixel' : 'pixelOutline'}
+                size="pixel"
+                className="text-xs"
+              >
+                {tier.stakeAmount} {TOKEN_SYMBOL}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-press-start text-gray-300 mr-2">PLAYERS:</span>
+            {config.lobbySizes.map(size => (
+              <Button
+                key={size}
+                onClick={() => setLobbySize(size)}
+                variant={lobbySize === size ? 'pixel' : 'pixelOutline'}
+                size="pixel"
+                className="text-xs"
+              >
+                {size}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <Button
+              onClick={handleFindMatch}
+              disabled={!isConnected || isJoining || !stakeTier || !lobbySize}
+              variant="pixel"
+              size="pixel"
+              className="text-xs"
+            >
+              {isJoining ? 'JOINING...' : '🎯 FIND MATCH'}
+            </Button>
+            <span className="text-xs text-gray-500">
+              Matched with players of similar rating. You&apos;ll have {formatSeconds(config.stakeTimeout)} to stake once a game is found.
+            </span>
+          </div>
+        </div>
+      )}
+
+      {notice && <div className="text-xs text-red-400 text-center">{notice}</div>}
+    </Card>
+  )
+}
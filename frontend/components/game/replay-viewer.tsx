@@ -0,0 +1,333 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Slider } from "@/components/ui/slider"
+import LoaderScreen from "@/components/screens/loader-screen"
+import GameplayScreen from "@/components/screens/gameplay-screen"
+import NightResolutionScreen from "@/components/screens/night-resolution-screen"
+import DiscussionPhaseScreen from "@/components/screens/discussion-phase-screen"
+import VotingScreen from "@/components/screens/voting-screen"
+import GameResultsScreen from "@/components/screens/game-results-screen"
+import { useGameSelector, useGameStore } from "@/contexts/GameStoreContext"
+import { Player } from "@/hooks/useGame"
+import { apiService, GameReplay, ReplayEvent } from "@/services/api"
+import { selectGame, selectPlayers, toFrontendRole } from "@/services/gameSelectors"
+import {
+  REPLAY_SPEEDS,
+  ReplayPerspective,
+  buildReplayGame,
+  isEventVisible,
+  replayJumpPoints,
+  replayNightInfo,
+  stepDelay
+} from "@/utils/replay"
+
+interface ReplayViewerProps {
+  gameId: string
+  startAtEnd?: boolean
+}
+
+// Stand-in for the current player in the omniscient view, like the spectator's
+const OBSERVER: Player = {
+  id: 'observer',
+  name: 'OBSERVER',
+  avatar: '',
+  isAlive: false,
+  isCurrentPlayer: true
+}
+
+// Plays a finished game back from its event log through the in-game screens.
+// The replay is fed to the shared store as snapshots, but the store never gets
+// a current player (that would join the live game and delegate a session key),
+// so a player's perspective is applied here instead.
+export default function ReplayViewer({ gameId, startAtEnd = false }: ReplayViewerProps) {
+  const router = useRouter()
+  const { store } = useGameStore()
+  const game = useGameSelector(selectGame)
+  const storePlayers = useGameSelector(selectPlayers)
+  const [replay, setReplay] = useState<GameReplay | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [step, setStep] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState<number>(1)
+  const [perspective, setPerspective] = useState<ReplayPerspective>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    apiService.getGameReplay(gameId)
+      .then(response => {
+        if (cancelled) return
+        if (!response.replay?.events?.length) {
+          setError('This game has no recorded events')
+          return
+        }
+
+        console.log('🎬 Loaded replay for game', gameId, `(${response.replay.events.length} events)`)
+        store.dispatch({ type: 'player_selected', address: null })
+        store.dispatch({ type: 'game_selected', gameId })
+        setReplay(response.replay)
+        if (startAtEnd) setStep(response.replay.events.length - 1)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('❌ Failed to load replay:', err)
+        setError(err instanceof Error ? err.message : 'Could not load this replay')
+      })
+
+    return () => { cancelled = true }
+  }, [gameId, startAtEnd, store])
+
+  // Drop the replayed game from the shared store on the way out
+  useEffect(() => {
+    return () => {
+      store.dispatch({ type: 'reset' })
+    }
+  }, [store])
+
+  // Snapshots carry no version, so scrubbing backwards is never dropped as stale
+  useEffect(() => {
+    if (!replay) return
+    store.dispatch({ type: 'snapshot_received', game: buildReplayGame(replay, step, perspective) })
+  }, [replay, step, perspective, store])
+
+  useEffect(() => {
+    if (!replay || !playing) return
+    if (step >= replay.events.length - 1) {
+      setPlaying(false)
+      return
+    }
+
+    const timer = setTimeout(() => setStep(step + 1), stepDelay(replay, step, speed))
+    return () => clearTimeout(timer)
+  }, [replay, playing, step, speed])
+
+  const jumpPoints = useMemo(() => replay ? replayJumpPoints(replay) : [], [replay])
+
+  const visibleEvents = useMemo(() => {
+    if (!replay) return []
+    return replay.events.slice(0, step + 1).filter(event => isEventVisible(event, perspective)).reverse()
+  }, [replay, step, perspective])
+
+  const noRefresh = useCallback(async () => { }, [])
+  const noop = useCallback(() => { }, [])
+  const noSubmit = useCallback(async () => { }, [])
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 gaming-bg scanlines">
+        <Card className="p-6 bg-[#111111]/90 backdrop-blur-sm border-2 border-red-600 text-center space-y-4 max-w-md w-full">
+          <div className="text-lg font-press-start pixel-text-3d-red">🎬 NO REPLAY</div>
+          <div className="text-xs font-press-start text-gray-300">{error}</div>
+          <Button onClick={() => router.push('/')} variant="pixel" size="pixel" className="text-xs">
+            🏠 HOME
+          </Button>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!replay || !game || game.gameId !== gameId) {
+    return <LoaderScreen message="Loading replay" subMessage={`Game ${gameId.slice(0, 8)}`} />
+  }
+
+  const lastStep = replay.events.length - 1
+  const players = storePlayers.map(player => ({
+    ...player,
+    isCurrentPlayer: !!perspective && player.address?.toLowerCase() === perspective.toLowerCase()
+  }))
+  const perspectivePlayer = players.find(player => player.isCurrentPlayer) || null
+  const currentPlayer = perspectivePlayer
+    ? { ...perspectivePlayer, role: toFrontendRole(game.roles?.[perspectivePlayer.address || '']) || undefined }
+    : OBSERVER
+  const nightInfo = replayNightInfo(replay, step, perspective, game.day)
+  const nameOf = (address?: string | null) =>
+    players.find(player => player.address?.toLowerCase() === address?.toLowerCase())?.name || address?.slice(0, 8) || '?'
+
+  const killedPlayer = game.nightResolution?.killedPlayer
+    ? players.find(p => p.address === game.nightResolution?.killedPlayer?.address) || null
+    : null
+  const savedPlayer = game.nightResolution?.savedPlayer
+    ? players.find(p => p.address === game.nightResolution?.savedPlayer?.address) || null
+    : null
+
+  const describe = (event: ReplayEvent): string => {
+    switch (event.type) {
+      case 'game_started': return `Game started with ${event.players.length} players`
+      case 'phase': return event.phase === 'ended' ? 'Game over' : `Day ${event.day}: ${event.phase}`
+      case 'night_action': {
+        const action = event.role === 'Mafia' ? 'targets' : event.role === 'Doctor' ? 'protects' : 'investigates'
+        const result = event.result ? ` (${toFrontendRole(event.result)})` : ''
+        return `${nameOf(event.player)} [${toFrontendRole(event.role || undefined)}] ${action} ${nameOf(event.target)}${result}`
+      }
+      case 'saved': return `${nameOf(event.player)} was saved`
+      case 'elimination': {
+        const role = event.role ? ` (${toFrontendRole(event.role)})` : ''
+        const cause = event.cause === 'night' ? 'was killed in the night' : event.cause === 'vote' ? 'was voted out' : 'left the game'
+        return `${nameOf(event.player)}${role} ${cause}`
+      }
+      case 'vote': return `${nameOf(event.player)} votes for ${nameOf(event.target)}`
+      case 'vote_result': return `Vote result: ${event.result}`
+      case 'task_result': return `${nameOf(event.player)} ${event.success ? 'solved' : 'failed'} a task`
+      case 'chat': return `${nameOf(event.player)}: ${event.message}`
+      case 'game_ended': return `Winners: ${event.winners.map(nameOf).join(', ') || 'none'}`
+    }
+  }
+
+  const screenKey = `${game.day}-${game.phase}`
+
+  return (
+    <main className="min-h-screen gaming-bg relative overflow-hidden w-full pb-48">
+      {(game.phase === 'lobby' || game.phase === 'night') && (
+        <GameplayScreen
+          key={screenKey}
+          currentPlayer={currentPlayer}
+          players={players}
+          game={game}
+          submitNightAction={noSubmit}
+          isConnected
+          refreshGame={noRefresh}
+          onComplete={noop}
+          readOnly
+        />
+      )}
+      {game.phase === 'resolution' && (
+        <NightResolutionScreen
+          key={screenKey}
+          resolution={{
+            killedPlayer,
+            savedPlayer,
+            investigatedPlayer: null,
+            investigationResult: null,
+            mafiaTarget: null,
+            doctorTarget: null,
+            detectiveTarget: null
+          }}
+          onContinue={noop}
+          game={game}
+          currentPlayer={perspectivePlayer || undefined}
+          investigation={nightInfo.investigation}
+          protection={nightInfo.protection}
+        />
+      )}
+      {game.phase === 'task' && (
+        <DiscussionPhaseScreen
+          key={screenKey}
+          onComplete={noop}
+          game={game}
+          gameId={game.gameId}
+          currentPlayerAddress={perspectivePlayer?.address}
+          players={players}
+          readOnly
+        />
+      )}
+      {game.phase === 'voting' && (
+        <VotingScreen
+          key={screenKey}
+          players={players}
+          game={game}
+          currentPlayer={perspectivePlayer}
+          submitVote={noSubmit}
+          isConnected
+          onComplete={noop}
+          readOnly
+        />
+      )}
+      {game.phase === 'ended' && (
+        <GameResultsScreen
+          key={screenKey}
+          game={game}
+          players={players}
+          currentPlayer={perspectivePlayer || undefined}
+          onNewGame={() => router.push('/')}
+        />
+      )}
+
+      {/* Event log */}
+      <Card className="fixed top-4 right-4 w-72 max-h-[50vh] bg-[#111111]/95 backdrop-blur-sm border border-[#2a2a2a] z-40 hidden md:flex flex-col">
+        <div className="p-3 border-b border-[#2a2a2a] font-press-start text-white text-xs">
+          EVENTS{perspective ? ` · ${nameOf(perspective)}` : ''}
+        </div>
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {visibleEvents.map(event => (
+            <div key={event.seq} className={`text-xs ${event.type === 'phase' ? 'font-press-start text-yellow-300 pt-2' : 'text-gray-300'} break-words`}>
+              {describe(event)}
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      {/* Playback controls */}
+      <div className="fixed bottom-0 left-0 right-0 z-50 bg-black/90 border-t border-[#4A8C4A] p-3 space-y-3 font-press-start">
+        <div className="flex items-center gap-3">
+          <Button onClick={() => setStep(Math.max(0, step - 1))} variant="pixelOutline" size="sm" disabled={step === 0}>
+            ◀
+          </Button>
+          <Button
+            onClick={() => {
+              if (step >= lastStep) setStep(0)
+              setPlaying(!playing)
+            }}
+            variant="pixel"
+            size="sm"
+          >
+            {playing ? '⏸' : '▶'}
+          </Button>
+          <Button onClick={() => setStep(Math.min(lastStep, step + 1))} variant="pixelOutline" size="sm" disabled={step >= lastStep}>
+            ▶▶
+          </Button>
+          <Slider
+            value={[step]}
+            min={0}
+            max={lastStep}
+            step={1}
+            onValueChange={([value]) => setStep(value)}
+            className="flex-1"
+          />
+          <span className="text-[10px] text-gray-400 whitespace-nowrap">{step + 1}/{lastStep + 1}</span>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {jumpPoints.map(point => (
+            <Button
+              key={point.step}
+              onClick={() => setStep(point.step)}
+              variant={step >= point.step && (jumpPoints.find(next => next.step > point.step)?.step ?? Infinity) > step ? 'pixel' : 'pixelOutline'}
+              size="sm"
+              className="text-[10px]"
+            >
+              {point.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1 text-[10px]">
+          <span className="text-gray-400 mr-1">SPEED</span>
+          {REPLAY_SPEEDS.map(value => (
+            <Button key={value} onClick={() => setSpeed(value)} variant={speed === value ? 'pixel' : 'pixelOutline'} size="sm" className="text-[10px]">
+              {value}x
+            </Button>
+          ))}
+          <span className="text-gray-400 ml-3 mr-1">VIEW</span>
+          <Button onClick={() => setPerspective(null)} variant={perspective === null ? 'pixel' : 'pixelOutline'} size="sm" className="text-[10px]">
+            👁 ALL
+          </Button>
+          {replay.players.map(address => (
+            <Button
+              key={address}
+              onClick={() => setPerspective(address)}
+              variant={perspective === address ? 'pixel' : 'pixelOutline'}
+              size="sm"
+              className="text-[10px]"
+            >
+              {nameOf(address)}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </main>
+  )
+}
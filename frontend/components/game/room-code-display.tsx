@@ -4,6 +4,7 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { useGame } from "@/hooks/useGame"
+import InvitePanel from "@/components/game/invite-panel"
 
 interface RoomCodeDisplayProps {
   roomCode: string
@@ -48,8 +49,10 @@ export default function RoomCodeDisplay({ roomCode }: RoomCodeDisplayProps) {
           {copied ? '✓ COPIED' : 'COPY CODE'}
         </Button>
         
+        <InvitePanel roomCode={roomCode} />
+
         <div className="text-xs text-gray-500">
-          Share this code with other players
+          Share this code or the invite link with other players
         </div>
       </div>
     </Card>
@@ -0,0 +1,134 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { useSocket } from "@/contexts/SocketContext"
+import { SpectatorChatMessage } from "@/services/socketProtocol"
+
+interface SpectatorChatProps {
+  gameId: string
+  spectatorName: string | null
+}
+
+// Chat between spectators of one game. The backend keeps it in the spectator
+// room, so nothing typed here ever reaches the players.
+export default function SpectatorChat({ gameId, spectatorName }: SpectatorChatProps) {
+  const { socket, subscribe, emitEvent } = useSocket()
+  const [messages, setMessages] = useState<SpectatorChatMessage[]>([])
+  const [newMessage, setNewMessage] = useState("")
+  const [isOpen, setIsOpen] = useState(true)
+  const messagesEndRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
+  }, [messages])
+
+  useEffect(() => {
+    if (!socket) return
+
+    return subscribe('spectator_chat_message', data => {
+      if (data.gameId === gameId) {
+        setMessages(prev => [...prev, data])
+      }
+    })
+  }, [socket, subscribe, gameId])
+
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault()
+    const message = newMessage.trim()
+    if (!message) return
+
+    if (emitEvent('spectator_chat', { gameId, message })) {
+      setNewMessage("")
+    }
+  }
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  if (!isOpen) {
+    return (
+      <Button
+        onClick={() => setIsOpen(true)}
+        variant="pixel"
+        size="sm"
+        className="fixed bottom-4 right-4 z-40"
+      >
+        💬 SPECTATOR CHAT
+      </Button>
+    )
+  }
+
+  return (
+    <Card className="fixed bottom-4 right-4 w-80 h-96 bg-[#111111]/95 backdrop-blur-sm border border-[#2a2a2a] z-50 flex flex-col">
+      {/* Header */}
+      <div className="flex justify-between items-center p-3 border-b border-[#2a2a2a]">
+        <h3 className="font-press-start text-white text-sm">SPECTATOR CHAT</h3>
+        <Button
+          onClick={() => setIsOpen(false)}
+          variant="pixelOutline"
+          size="sm"
+          className="text-xs"
+        >
+          ✕
+        </Button>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {messages.length === 0 ? (
+          <div className="text-gray-400 text-sm text-center">Players can't see this chat</div>
+        ) : (
+          messages.map((message, index) => {
+            const isOwnMessage = message.name === spectatorName
+
+            return (
+              <div
+                key={`${message.timestamp}-${index}`}
+                className={`text-sm ${isOwnMessage ? 'text-blue-300' : 'text-gray-300'}`}
+              >
+                <div className="flex justify-between items-start gap-2">
+                  <span className="font-press-start text-xs">
+                    {isOwnMessage ? 'You' : message.name}
+                  </span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    {formatTime(message.timestamp)}
+                  </span>
+                </div>
+                <div className="mt-1 break-words">{message.message}</div>
+              </div>
+            )
+          })
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      {/* Input */}
+      <form onSubmit={handleSendMessage} className="p-3 border-t border-[#2a2a2a]">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newMessage}
+            onChange={(e) => setNewMessage(e.target.value)}
+            placeholder="Talk with other spectators..."
+            className="flex-1 px-2 py-1 bg-[#1a1a1a] border border-[#333] text-white text-sm rounded-none focus:outline-none focus:border-blue-500"
+            maxLength={500}
+          />
+          <Button
+            type="submit"
+            variant="pixel"
+            size="sm"
+            disabled={!newMessage.trim()}
+          >
+            Send
+          </Button>
+        </div>
+      </form>
+    </Card>
+  )
+}
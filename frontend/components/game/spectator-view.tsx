@@ -0,0 +1,209 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import LoaderScreen from "@/components/screens/loader-screen"
+import LobbyScreen from "@/components/screens/lobby-screen"
+import GameplayScreen from "@/components/screens/gameplay-screen"
+import NightResolutionScreen from "@/components/screens/night-resolution-screen"
+import DiscussionPhaseScreen from "@/components/screens/discussion-phase-screen"
+import VotingScreen from "@/components/screens/voting-screen"
+import GameResultsScreen from "@/components/screens/game-results-screen"
+import SpectatorChat from "@/components/game/spectator-chat"
+import { useSocket } from "@/contexts/SocketContext"
+import { useGameSelector, useGameStore } from "@/contexts/GameStoreContext"
+import { Player } from "@/hooks/useGame"
+import { selectGame, selectPlayers } from "@/services/gameSelectors"
+
+interface SpectatorViewProps {
+  roomCode: string
+}
+
+// Stand-in for the current player so the in-game screens render without a
+// seat: no role, not alive, matches nobody in the player list
+const SPECTATOR: Player = {
+  id: 'spectator',
+  name: 'SPECTATOR',
+  avatar: '',
+  isAlive: false,
+  isCurrentPlayer: true
+}
+
+// Read-only view of a game by room code. State comes from spectator_state,
+// which the backend releases `delay` seconds late with roles and night
+// actions stripped, so nothing here can spoil the game for its players.
+export default function SpectatorView({ roomCode }: SpectatorViewProps) {
+  const router = useRouter()
+  const { isConnected, spectateGame, subscribe, emitEvent } = useSocket()
+  const { store } = useGameStore()
+  const game = useGameSelector(selectGame)
+  const players = useGameSelector(selectPlayers)
+  const [gameId, setGameId] = useState<string | null>(null)
+  const [delay, setDelay] = useState(0)
+  const [spectatorName, setSpectatorName] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const emitEventRef = useRef(emitEvent)
+  emitEventRef.current = emitEvent
+
+  // (Re)join the spectator room on every connect - socket rooms don't survive a reconnect
+  useEffect(() => {
+    if (!isConnected || error) return
+
+    spectateGame(roomCode)
+      .then(ack => {
+        if (!ack.ok || !ack.gameId) {
+          setError(ack.error || 'Could not spectate this game')
+          return
+        }
+
+        console.log('👀 Spectating game', ack.gameId, `(${ack.delay ?? 0}s delay)`)
+        store.dispatch({ type: 'player_selected', address: null })
+        store.dispatch({ type: 'game_selected', gameId: ack.gameId })
+        setGameId(ack.gameId)
+        setDelay(ack.delay ?? 0)
+        setSpectatorName(ack.name ?? null)
+      })
+      .catch(err => {
+        console.error('❌ Failed to spectate game:', err)
+        setError('Could not reach the game server')
+      })
+  }, [isConnected, roomCode, spectateGame, store, error])
+
+  useEffect(() => {
+    if (!gameId) return
+
+    const unsubscribers = [
+      subscribe('spectator_state', data => {
+        if (data.gameId !== gameId) return
+        setDelay(data.delay)
+        store.dispatch({ type: 'snapshot_received', game: data.game, version: data.version })
+      }),
+      subscribe('spectate_closed', data => {
+        if (data.gameId !== gameId) return
+        console.log('👀 Spectating closed:', data.reason)
+        setError(data.reason)
+      })
+    ]
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+    }
+  }, [gameId, subscribe, store])
+
+  // Leave the room and drop the spectated game from the shared store
+  useEffect(() => {
+    return () => {
+      emitEventRef.current('leave_spectate', {})
+      store.dispatch({ type: 'reset' })
+    }
+  }, [store])
+
+  // Spectators never poll REST - that would bypass the delay
+  const noRefresh = useCallback(async () => { }, [])
+  const noop = useCallback(() => { }, [])
+  const noSubmit = useCallback(async () => { }, [])
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 gaming-bg scanlines">
+        <Card className="p-6 bg-[#111111]/90 backdrop-blur-sm border-2 border-red-600 text-center space-y-4 max-w-md w-full">
+          <div className="text-lg font-press-start pixel-text-3d-red">👀 CAN'T SPECTATE</div>
+          <div className="text-xs font-press-start text-gray-300">{error}</div>
+          <Button onClick={() => router.push('/')} variant="pixel" size="pixel" className="text-xs">
+            🏠 HOME
+          </Button>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!gameId || !game || game.gameId !== gameId) {
+    return (
+      <LoaderScreen
+        message={gameId ? 'Waiting for the delayed feed' : 'Joining as spectator'}
+        subMessage={gameId ? `Spectators watch ${delay}s behind the players` : `Room ${roomCode}`}
+      />
+    )
+  }
+
+  const killedPlayer = game.nightResolution?.killedPlayer
+    ? players.find(p => p.address === game.nightResolution?.killedPlayer?.address) || null
+    : null
+
+  return (
+    <main className="min-h-screen gaming-bg relative overflow-hidden w-full">
+      {/* Delay banner */}
+      <div className="fixed bottom-4 left-4 z-50 bg-black/80 border border-[#4A8C4A] px-3 py-2 font-press-start text-[10px] text-gray-300">
+        👀 SPECTATING{delay > 0 ? ` · ${delay}s DELAY` : ''}
+      </div>
+
+      {game.phase === 'lobby' && (
+        <LobbyScreen
+          players={players}
+          game={game}
+          isConnected={isConnected}
+          onStartGame={noop}
+          readOnly
+        />
+      )}
+      {game.phase === 'night' && (
+        <GameplayScreen
+          currentPlayer={SPECTATOR}
+          players={players}
+          game={game}
+          submitNightAction={noSubmit}
+          isConnected={isConnected}
+          refreshGame={noRefresh}
+          onComplete={noop}
+          readOnly
+        />
+      )}
+      {game.phase === 'resolution' && (
+        <NightResolutionScreen
+          resolution={{
+            killedPlayer,
+            savedPlayer: null,
+            investigatedPlayer: null,
+            investigationResult: null,
+            mafiaTarget: null,
+            doctorTarget: null,
+            detectiveTarget: null
+          }}
+          onContinue={noop}
+          game={game}
+        />
+      )}
+      {game.phase === 'task' && (
+        <DiscussionPhaseScreen
+          onComplete={noop}
+          game={game}
+          gameId={game.gameId}
+          players={players}
+          readOnly
+        />
+      )}
+      {game.phase === 'voting' && (
+        <VotingScreen
+          players={players}
+          game={game}
+          currentPlayer={null}
+          submitVote={noSubmit}
+          isConnected={isConnected}
+          onComplete={noop}
+          readOnly
+        />
+      )}
+      {game.phase === 'ended' && (
+        <GameResultsScreen
+          game={game}
+          players={players}
+          onNewGame={() => router.push('/')}
+        />
+      )}
+
+      <SpectatorChat gameId={gameId} spectatorName={spectatorName} />
+    </main>
+  )
+}
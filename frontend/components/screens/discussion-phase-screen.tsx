@@ -5,7 +5,11 @@ import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { PixelInput } from "@/components/ui/pixel-input"
 import { useSocket } from "@/contexts/SocketContext"
+import { useGameSelector } from "@/contexts/GameStoreContext"
 import { Player } from "@/hooks/useGame" // Add this line
+import { useTimeLeft } from "@/hooks/useTimeLeft"
+import { selectTaskProgress } from "@/services/gameSelectors"
+import { ChatMessageEvent } from "@/services/socketProtocol"
 import TaskComponent from "@/components/game/task-component"
 import ColoredPlayerName from "@/components/game/colored-player-name"
 import TipBar from "@/components/common/tip-bar"
@@ -18,6 +22,7 @@ interface DiscussionPhaseScreenProps {
   currentPlayerAddress?: string // Add current player address
   submitTaskAnswer?: (answer: any) => Promise<void> // Add task submission function
   players?: Player[] // Add players prop
+  readOnly?: boolean // Spectator and replay views: no chat input
 }
 
 // Helper function to get color for player names
@@ -50,14 +55,14 @@ const colorizePlayerNames = (text: string): JSX.Element => {
 
 
 
-function DiscussionPhaseScreen({ onComplete, game, gameId, currentPlayerAddress, submitTaskAnswer, players }: DiscussionPhaseScreenProps) {
-  const [timeLeft, setTimeLeft] = useState(30) // 30 seconds for discussion
+function DiscussionPhaseScreen({ onComplete, game, gameId, currentPlayerAddress, submitTaskAnswer, players, readOnly = false }: DiscussionPhaseScreenProps) {
+  const timeLeft = useTimeLeft()
   const [message, setMessage] = useState("")
   const [activeTab, setActiveTab] = useState<'chat' | 'tasks'>('chat')
   const announcementSent = useRef(false)
   const chatEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
-  const { socket, sendChatMessage } = useSocket()
+  const { socket, subscribe, sendChatMessage } = useSocket()
 
   // Autocomplete state
   const [showAutocomplete, setShowAutocomplete] = useState(false)
@@ -80,7 +85,7 @@ function DiscussionPhaseScreen({ onComplete, game, gameId, currentPlayerAddress,
   // Listen for chat messages
   useEffect(() => {
     if (socket && gameId) {
-      const handleChatMessage = (data: any) => {
+      const handleChatMessage = (data: ChatMessageEvent) => {
         console.log('💬 CHAT MESSAGE RECEIVED (discussion-phase):', {
           raw: data,
           type: data.type,
@@ -100,7 +105,7 @@ function DiscussionPhaseScreen({ onComplete, game, gameId, currentPlayerAddress,
             timestamp: data.timestamp,
             type: data.type,
             taskPlayerAddress: data.taskPlayerAddress,
-            avatarUrl: data.avatarUrl,
+            avatarUrl: data.avatarUrl ?? undefined,
             playerAlias: data.playerAlias,
             playerName: data.playerName
           }
@@ -111,13 +116,9 @@ function DiscussionPhaseScreen({ onComplete, game, gameId, currentPlayerAddress,
         }
       }
 
-      socket.on('chat_message', handleChatMessage)
-
-      return () => {
-        socket.off('chat_message', handleChatMessage)
-      }
+      return subscribe('chat_message', handleChatMessage)
     }
-  }, [socket, gameId])
+  }, [socket, subscribe, gameId])
 
   // Add automatic announcement when phase starts (only once)
   useEffect(() => {
@@ -141,21 +142,6 @@ function DiscussionPhaseScreen({ onComplete, game, gameId, currentPlayerAddress,
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
-  // Real-time timer sync with backend
-  useEffect(() => {
-    if (game?.timeLeft !== undefined) {
-      setTimeLeft(game.timeLeft)
-
-      // Start local countdown to match backend
-      if (game.timeLeft > 0) {
-        const timer = setTimeout(() => {
-          setTimeLeft(prev => Math.max(0, prev - 1))
-        }, 1000)
-        return () => clearTimeout(timer)
-      }
-    }
-  }, [game?.timeLeft])
-
   // Handle @ mention autocomplete
   const handleMessageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value
@@ -252,61 +238,32 @@ function DiscussionPhaseScreen({ onComplete, game, gameId, currentPlayerAddress,
 
 
 
-  // Get current player's task count from game state (memoized to prevent re-renders)
-  const currentPlayerTaskCount = useMemo(() => {
-    return game?.taskCounts?.[currentPlayerAddress || ''] || 0
-  }, [game?.taskCounts, currentPlayerAddress])
-
-  // Use configured max task count or default to 4
-  const maxTaskCount = game?.settings?.maxTaskCount || 4
-
-  // SIMPLE SOLUTION: Use refs to store stable values that only update when data actually changes
-  const lastTaskCountsString = useRef<string>('')
-  const stableCollectiveCount = useRef<number>(0)
-  const stableTaskCountsDisplay = useRef<any>(null)
-
-  // Update stable values only when stringified data actually changes
-  useEffect(() => {
-    if (!game?.taskCounts) return
-
-    const currentString = JSON.stringify(game.taskCounts)
-
-    // Only update if the stringified value is different
-    if (currentString !== lastTaskCountsString.current) {
-      lastTaskCountsString.current = currentString
-
-      // Calculate collective count
-      const total = Object.values(game.taskCounts).reduce((sum: number, count) => {
-        const numCount = typeof count === 'number' ? count : 0
-        return sum + numCount
-      }, 0)
-
-      stableCollectiveCount.current = total
-
-      // Calculate display data
-      if (players && players.length > 0) {
-        stableTaskCountsDisplay.current = {
-          totalTasks: total,
-          maxTasks: maxTaskCount,
-          progress: Math.min(total / maxTaskCount, 1),
-          players: players.map(player => {
-            const taskCount = game.taskCounts?.[player.address!] || 0
-            return {
-              address: player.address,
-              name: player.name,
-              avatar: player.avatar,
-              taskCount,
-              hasContributed: taskCount > 0
-            }
-          })
+  // Task progress only changes when a task count does - unrelated game updates
+  // (timer ticks, chat) don't recompute it
+  const taskProgress = useGameSelector(selectTaskProgress)
+  const currentPlayerTaskCount = taskProgress.perPlayer[currentPlayerAddress || ''] || 0
+  const collectiveTaskCount = taskProgress.completed
+  const maxTaskCount = taskProgress.required
+
+  const taskCountsDisplay = useMemo(() => {
+    if (!game?.taskCounts || !players || players.length === 0) return null
+
+    return {
+      totalTasks: taskProgress.completed,
+      maxTasks: taskProgress.required,
+      progress: taskProgress.progress,
+      players: players.map(player => {
+        const taskCount = taskProgress.perPlayer[player.address!] || 0
+        return {
+          address: player.address,
+          name: player.name,
+          avatar: player.avatar,
+          taskCount,
+          hasContributed: taskCount > 0
         }
-      }
+      })
     }
-  }, [game?.taskCounts, players, maxTaskCount])
-
-  // Use the stable ref values instead of computed ones
-  const collectiveTaskCount = stableCollectiveCount.current
-  const taskCountsDisplay = stableTaskCountsDisplay.current
+  }, [game?.taskCounts, players, taskProgress])
 
   // Memoize task tab styling to prevent flickering (use collective count)
   const taskTabStyling = useMemo(() => {
@@ -551,7 +508,7 @@ function DiscussionPhaseScreen({ onComplete, game, gameId, currentPlayerAddress,
                           className="w-4 h-4 rounded-none object-cover flex-shrink-0"
                           style={{ imageRendering: 'pixelated' }}
                         />
-                        <ColoredPlayerName playerName={player.name} />
+                        <ColoredPlayerName playerName={player.name} address={player.address} />
                         <span className={`ml-auto flex-shrink-0 ${player.hasContributed ? 'text-green-400' : 'text-gray-400'}`}>
                           {player.hasContributed ? '✓' : '○'}
                         </span>
@@ -579,6 +536,7 @@ function DiscussionPhaseScreen({ onComplete, game, gameId, currentPlayerAddress,
         </div>
 
         {/* Input Area */}
+        {!readOnly && (
         <div className="p-3 sm:p-4 md:p-6 border-t-2 border-[#4A8C4A] bg-gradient-to-r from-[#0A0A0A] to-[#1A1A1A] flex-shrink-0">
           <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3 md:space-x-4">
             <div className="flex-1 relative">
@@ -630,6 +588,7 @@ function DiscussionPhaseScreen({ onComplete, game, gameId, currentPlayerAddress,
             </Button>
           </div>
         </div>
+        )}
       </div>
     </div>
   )
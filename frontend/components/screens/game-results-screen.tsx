@@ -9,6 +9,12 @@ import WithdrawRewards from "@/components/wallet/withdraw-rewards"
 import { Player } from "@/hooks/useGame"
 import ColoredPlayerName from "@/components/game/colored-player-name"
 import { activeChain } from "@/lib/wagmi"
+import { useAnchoredRoleCommit } from "@/hooks/useGameContract"
+import { useHouseCut } from "@/hooks/useHouseCut"
+import { SettledPayout } from "@/components/game/payout-breakdown"
+import type { PayoutBreakdown } from "@/utils/winProbability"
+import { isAnchoredCommit, RoleVerification, verifyRoleCommit } from "@/utils/roleCommit"
+import { ShuffleVerification, verifyRoleShuffle } from "@/utils/roleShuffle"
 
 interface GameResultsScreenProps {
   game?: any
@@ -16,6 +22,7 @@ interface GameResultsScreenProps {
   currentPlayer?: Player
   onNewGame?: () => void
   onBrowsePublicLobbies?: () => void
+  onWatchReplay?: () => void
 }
 
 const PlayerResultRow = ({ player, isWinner, isEliminated, reward, game }: {
@@ -66,7 +73,7 @@ const PlayerResultRow = ({ player, isWinner, isEliminated, reward, game }: {
           )}
           <div className="space-y-1">
             <div className="text-sm sm:text-base font-bold">
-              <ColoredPlayerName playerName={player?.name || 'Unknown'} />
+              <ColoredPlayerName playerName={player?.name || 'Unknown'} address={player?.address} />
             </div>
             <div className="text-xs sm:text-sm text-gray-300">
               {playerRole}
@@ -100,8 +107,16 @@ const PlayerResultRow = ({ player, isWinner, isEliminated, reward, game }: {
   );
 };
 
-export default function GameResultsScreen({ game, players, currentPlayer, onNewGame, onBrowsePublicLobbies }: GameResultsScreenProps) {
+export default function GameResultsScreen({ game, players, currentPlayer, onNewGame, onBrowsePublicLobbies, onWatchReplay }: GameResultsScreenProps) {
   const [showResults, setShowResults] = useState(false)
+  const [roleVerification, setRoleVerification] = useState<RoleVerification>({ status: 'unavailable' })
+  const [shuffleVerification, setShuffleVerification] = useState<ShuffleVerification>({ status: 'unavailable' })
+
+  const contractGameId = game?.onChainGameId ?? game?.contractGameId
+  const { anchoredRoleCommit } = useAnchoredRoleCommit(
+    game?.stakingRequired && contractGameId !== undefined ? BigInt(contractGameId) : undefined
+  )
+  const houseCut = useHouseCut()
 
   // Show results after a brief delay
   useEffect(() => {
@@ -109,6 +124,28 @@ export default function GameResultsScreen({ game, players, currentPlayer, onNewG
     return () => clearTimeout(showTimer)
   }, [])
 
+  // Recompute the role commit from the revealed assignment
+  useEffect(() => {
+    let cancelled = false
+    verifyRoleCommit(game?.roleCommit, game?.roleReveal, game?.roles)
+      .then(verification => {
+        if (!cancelled) setRoleVerification(verification)
+      })
+      .catch(error => console.error('❌ Role verification failed:', error))
+    return () => { cancelled = true }
+  }, [game?.roleCommit, game?.roleReveal, game?.roles])
+
+  // Redo the seeded shuffle from the published player and server seeds
+  useEffect(() => {
+    let cancelled = false
+    verifyRoleShuffle(game?.roleReveal, game?.serverSeedCommit, game?.seedCommits)
+      .then(verification => {
+        if (!cancelled) setShuffleVerification(verification)
+      })
+      .catch(error => console.error('❌ Shuffle verification failed:', error))
+    return () => { cancelled = true }
+  }, [game?.roleReveal, game?.serverSeedCommit, game?.seedCommits])
+
   if (!game || !showResults) {
     return (
       <div className="min-h-screen flex items-center justify-center pt-8 p-4 gaming-bg scanlines">
@@ -164,6 +201,27 @@ export default function GameResultsScreen({ game, players, currentPlayer, onNewG
 
   const result = getResultMessage()
 
+  // Zero until the settlement lands; a different non-zero value means the commit was swapped
+  const anchorMismatch = !!anchoredRoleCommit && !!game.roleCommit &&
+    !/^0x0*$/.test(anchoredRoleCommit) && !isAnchoredCommit(game.roleCommit, anchoredRoleCommit)
+  const isAnchored = !!anchoredRoleCommit && !!game.roleCommit && isAnchoredCommit(game.roleCommit, anchoredRoleCommit)
+
+  // The settlement's own numbers; the winners' shares differ only by the dust the last winner got
+  const settledPayout: PayoutBreakdown | null = (() => {
+    const rewards = game.rewards
+    if (!rewards?.totalPool || !rewards?.houseCut || !rewards?.rewardPool) return null
+    const winnerCount = (rewards.distributions || []).filter((d: any) => BigInt(d.totalReceived) > BigInt(0)).length
+    const rewardPool = BigInt(rewards.rewardPool)
+    return {
+      pot: BigInt(rewards.totalPool),
+      fee: BigInt(rewards.houseCut),
+      rewardPool,
+      winnerCount,
+      perWinner: winnerCount > 0 ? rewardPool / BigInt(winnerCount) : BigInt(0),
+      dust: winnerCount > 0 ? rewardPool % BigInt(winnerCount) : BigInt(0)
+    }
+  })()
+
   // Debug logging for rewards
   console.log('Game Results Debug:', {
     gameId: game.gameId,
@@ -192,6 +250,24 @@ export default function GameResultsScreen({ game, players, currentPlayer, onNewG
             </p>
           </div>
 
+          {/* Role assignment check against the commit published at game start */}
+          {(roleVerification.status === 'mismatch' || shuffleVerification.status === 'mismatch' || anchorMismatch) ? (
+            <div className="p-3 border-2 border-red-500 bg-red-900/60 text-red-200 font-press-start text-xs sm:text-sm space-y-1">
+              <div className="text-red-400 text-sm sm:text-base">⚠️ ROLE VERIFICATION FAILED</div>
+              <div>
+                {roleVerification.status === 'mismatch'
+                  ? roleVerification.reason
+                  : shuffleVerification.status === 'mismatch'
+                  ? shuffleVerification.reason
+                  : 'The role commit anchored in the settlement is not the one published at game start.'}
+              </div>
+            </div>
+          ) : roleVerification.status === 'verified' && (
+            <div className="text-xs sm:text-sm text-green-400 font-press-start">
+              ✅ ROLES VERIFIED{shuffleVerification.status === 'verified' && ' · SHUFFLE VERIFIED'}{isAnchored && ' · ANCHORED ON-CHAIN'}
+            </div>
+          )}
+
           {/* Player Results - Show for all games (staked and non-staked) */}
           <Card className="p-2 sm:p-3 lg:p-4 bg-gray-900/50 border-gray-500/50 backdrop-blur-sm">
             <h3 className="text-base sm:text-lg lg:text-xl font-bold text-gray-300 mb-2 sm:mb-3 lg:mb-4 flex items-center justify-center gap-2">
@@ -229,6 +305,43 @@ export default function GameResultsScreen({ game, players, currentPlayer, onNewG
             </div>
           </Card>
 
+          {/* Night actions were committed as hashes and checked against their reveals */}
+          {game.commitLog?.length > 0 && (() => {
+            const totals = game.commitLog.reduce(
+              (sum: { verified: number, voided: number, missing: number }, night: any) => ({
+                verified: sum.verified + (night.verified || 0),
+                voided: sum.voided + (night.voided || 0),
+                missing: sum.missing + (night.missing || 0)
+              }),
+              { verified: 0, voided: 0, missing: 0 }
+            );
+
+            return (
+              <div className="text-xs sm:text-sm text-gray-400 font-press-start">
+                🔐 {totals.verified} NIGHT ACTION{totals.verified === 1 ? '' : 'S'} COMMIT-VERIFIED
+                {totals.voided > 0 && <span className="text-red-400"> · {totals.voided} VOIDED</span>}
+                {totals.missing > 0 && <span className="text-yellow-400"> · {totals.missing} NOT REVEALED</span>}
+              </div>
+            );
+          })()}
+
+          {/* How the pot was split at settlement */}
+          {settledPayout && (
+            <Card className="p-2 sm:p-3 lg:p-4 bg-gray-900/50 border-gray-500/50 backdrop-blur-sm">
+              <h3 className="text-base sm:text-lg lg:text-xl font-bold text-gray-300 mb-2 sm:mb-3 flex items-center justify-center gap-2">
+                💰 PAYOUT BREAKDOWN
+              </h3>
+              <SettledPayout
+                breakdown={settledPayout}
+                houseCut={{
+                  // Games settled before the cut was recorded fall back to the contract's current values
+                  houseCutBps: game.rewards.houseCutBps ?? houseCut.houseCutBps,
+                  feeRecipient: game.rewards.feeRecipient ?? houseCut.feeRecipient
+                }}
+                winnerLabel={mafiaWon ? 'ASUR' : 'PLAYER'}
+              />
+            </Card>
+          )}
 
           {/* Unified Transaction Details & Withdraw */}
           {game.rewards?.settlementTxHash && currentPlayer?.address && (() => {
@@ -275,6 +388,14 @@ export default function GameResultsScreen({ game, players, currentPlayer, onNewG
                 🌐 PUBLIC LOBBIES
               </Button>
             )}
+            {onWatchReplay && (
+              <Button
+                onClick={onWatchReplay}
+                className="px-4 sm:px-6 lg:px-8 py-2 sm:py-3 text-sm sm:text-base lg:text-lg bg-purple-600 hover:bg-purple-700 text-white font-press-start rounded-none shadow-lg border-2 border-purple-400 hover:border-purple-300 transition-all"
+              >
+                🎬 WATCH REPLAY
+              </Button>
+            )}
           </div>
         </div>
       </Card>
@@ -2,35 +2,45 @@
 
 import { useState, useEffect } from "react"
 import { Card } from "@/components/ui/card"
-import { Button } from "@/components/ui/button"
 import { Player } from "@/hooks/useGame"
 import { Game, apiService } from "@/services/api"
 import ScreenHeader from "@/components/common/screen-header"
 import ColoredPlayerName from "@/components/game/colored-player-name"
 import TipBar from "@/components/common/tip-bar"
+import ActionDeliveryStatus from "@/components/game/action-delivery-status"
+import { useActionDelivery } from "@/hooks/useActionDelivery"
+import { useTimeLeft } from "@/hooks/useTimeLeft"
 
 interface GameplayScreenProps {
   currentPlayer: Player
   players: Player[]
   game: Game | null // Game state from parent component
-  submitNightAction: (action: any, commit?: string) => Promise<void>
+  submitNightAction: (action: any) => Promise<void> // commits the action; it's revealed in resolution
   isConnected: boolean
   refreshGame: () => Promise<void>
   onComplete: (killedPlayer?: Player) => void
+  readOnly?: boolean // Spectator and replay views: nothing can be selected
 }
 
-export default function GameplayScreen({ currentPlayer, players, game, submitNightAction, isConnected, refreshGame, onComplete }: GameplayScreenProps) {
+export default function GameplayScreen({ currentPlayer, players, game, submitNightAction, isConnected, refreshGame, onComplete, readOnly = false }: GameplayScreenProps) {
   const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null)
   const [actionTaken, setActionTaken] = useState(false)
   const [showDeathAnnouncement, setShowDeathAnnouncement] = useState(false)
   const [killedPlayer, setKilledPlayer] = useState<Player | null>(null)
-  const [timeLeft, setTimeLeft] = useState(0)
+  const timeLeft = useTimeLeft()
   const [showTimeUp, setShowTimeUp] = useState(false)
   const [lastShownElimination, setLastShownElimination] = useState<string | null>(null)
   const [lastShownDay, setLastShownDay] = useState<number>(0) // Track which day we showed elimination for
   const [announcementShown, setAnnouncementShown] = useState(false)
-  const [investigationResult, setInvestigationResult] = useState<{ player: string, role: string, color: string, emoji: string, avatar?: string } | null>(null)
   const [keyboardFocusIndex, setKeyboardFocusIndex] = useState<number>(0)
+  const { delivery: actionDelivery } = useActionDelivery('night_action')
+
+  // A retried delivery that goes through counts as the action being taken
+  useEffect(() => {
+    if (actionDelivery?.status === 'confirmed') {
+      setActionTaken(true)
+    }
+  }, [actionDelivery?.status])
 
   // Check if current player is eliminated
   const isCurrentPlayerEliminated = game?.eliminated?.includes(currentPlayer?.address || currentPlayer?.id) || !currentPlayer?.isAlive
@@ -83,25 +93,12 @@ export default function GameplayScreen({ currentPlayer, players, game, submitNig
     }
   }, [game?.gameId, game?.phase, game?.timerReady, currentPlayer?.address])
 
-  // Real-time timer sync with backend
+  // Show time up popup when the backend timer reaches zero
   useEffect(() => {
-    if (game?.timeLeft !== undefined) {
-      setTimeLeft(game.timeLeft)
-
-      // Start local countdown to match backend
-      if (game.timeLeft > 0) {
-        const timer = setTimeout(() => {
-          setTimeLeft(prev => Math.max(0, prev - 1))
-        }, 1000)
-        return () => clearTimeout(timer)
-      }
-
-      // Show time up popup when timer reaches zero
-      if (game.timeLeft === 0) {
-        setShowTimeUp(true)
-        // Hide popup after 3 seconds
-        setTimeout(() => setShowTimeUp(false), 3000)
-      }
+    if (game?.timeLeft === 0) {
+      setShowTimeUp(true)
+      // Hide popup after 3 seconds
+      setTimeout(() => setShowTimeUp(false), 3000)
     }
   }, [game?.timeLeft])
 
@@ -166,7 +163,7 @@ export default function GameplayScreen({ currentPlayer, players, game, submitNig
     }
   }, [game?.eliminated, game?.phase, game?.day, players, onComplete, lastShownElimination, lastShownDay, announcementShown])
 
-  const canSelectPlayers = !isCurrentPlayerEliminated && (currentPlayer.role === "ASUR" || currentPlayer.role === "DEVA" || currentPlayer.role === "RISHI")
+  const canSelectPlayers = !readOnly && !isCurrentPlayerEliminated && (currentPlayer.role === "ASUR" || currentPlayer.role === "DEVA" || currentPlayer.role === "RISHI")
 
   // Keyboard navigation (arrow keys + Enter) - hidden feature
   useEffect(() => {
@@ -266,7 +263,7 @@ export default function GameplayScreen({ currentPlayer, players, game, submitNig
             return
           }
 
-          // Submit action to backend
+          // Commit the action (only its hash is sent until resolution)
           await submitNightAction({
             type: backendRole.toLowerCase(),
             target: playerId
@@ -274,45 +271,7 @@ export default function GameplayScreen({ currentPlayer, players, game, submitNig
 
           console.log(`✅ Action submitted successfully: ${backendRole} targeting ${playerId}`)
 
-          // If detective and not eliminated, immediately fetch investigation result
-          if (currentPlayer.role === 'RISHI' && game?.gameId && !isCurrentPlayerEliminated) {
-            console.log('🔍 Detective investigation - fetching result')
-
-            // Wait a moment for backend to process, then fetch game state
-            setTimeout(async () => {
-              try {
-                const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/game/${game.gameId}?playerAddress=${currentPlayer.address}`)
-                const data = await response.json()
-
-                if (data.success && data.game?.roles) {
-                  const targetPlayer = players.find(p => p.id === playerId)
-                  const targetRole = data.game.roles[playerId]
-
-                  console.log('🔍 Investigation result:', { targetPlayer: targetPlayer?.name, targetRole })
-
-                  // Map backend role to frontend display
-                  const roleInfo: Record<string, { name: string, emoji: string, color: string }> = {
-                    'Mafia': { name: 'ASUR', emoji: '🔴', color: '#FF4444' },
-                    'Doctor': { name: 'DEVA', emoji: '🛡️', color: '#44AA44' },
-                    'Detective': { name: 'RISHI', emoji: '🔍', color: '#4444FF' },
-                    'Villager': { name: 'MANAV', emoji: '👤', color: '#AAAAAA' }
-                  }
-
-                  const info = roleInfo[targetRole] || { name: 'UNKNOWN', emoji: '❓', color: '#AAAAAA' }
-
-                  setInvestigationResult({
-                    player: targetPlayer?.name || 'Unknown',
-                    role: info.name,
-                    color: info.color,
-                    emoji: info.emoji,
-                    avatar: targetPlayer?.avatar
-                  })
-                }
-              } catch (err) {
-                console.error('❌ Failed to fetch investigation result:', err)
-              }
-            }, 500)
-          }
+          // The investigation result is shown in resolution, once the action is revealed
 
           console.log(`📊 Game state after action:`, {
             gamePhase: game?.phase,
@@ -382,6 +341,10 @@ export default function GameplayScreen({ currentPlayer, players, game, submitNig
 
   // Get role-specific instruction and color
   const getRoleInstruction = () => {
+    if (readOnly) {
+      return { text: "OBSERVING - NIGHT ACTIONS ARE HIDDEN", color: "#888888", bgColor: "bg-gray-900/30", borderColor: "border-gray-600" }
+    }
+
     // If player is eliminated, show observer message
     if (isCurrentPlayerEliminated) {
       return { text: "YOU ARE ELIMINATED - OBSERVING ONLY", color: "#666666", bgColor: "bg-gray-900/50", borderColor: "border-gray-700" }
@@ -436,12 +399,15 @@ export default function GameplayScreen({ currentPlayer, players, game, submitNig
           style={{ color: selectedPlayer && !actionTaken ? roleInstruction.color : undefined }}
         >
           {actionTaken
-            ? "Action confirmed. Waiting for others..."
+            ? actionDelivery?.status === 'confirmed'
+              ? "Action confirmed. Waiting for others..."
+              : "Submitting action..."
             : selectedPlayer
               ? `You selected ${players.find(p => p.id === selectedPlayer)?.name}. Click again to confirm.`
               : roleInstruction.text
           }
         </div>
+        <ActionDeliveryStatus kind="night_action" className="mt-2" />
 
         {/* Night Phase Tips */}
         <TipBar
@@ -468,11 +434,6 @@ export default function GameplayScreen({ currentPlayer, players, game, submitNig
               const cardColor = isSelected ? getActionColor() : "transparent"
               const isEliminated = !player.isAlive
 
-              // Check if any action has been performed on this player
-              const hasActionPerformed = game?.pendingActions && Object.values(game.pendingActions).some((action: any) =>
-                action?.action?.target === player.id
-              )
-
               // Determine if this player can be selected based on role
               const canSelectThisPlayer = (() => {
                 if (!canSelectPlayers || timeLeft <= 0 || actionTaken || isEliminated) return false
@@ -535,6 +496,7 @@ export default function GameplayScreen({ currentPlayer, players, game, submitNig
                       playerName={player.name}
                       isCurrentPlayer={isCurrentPlayer}
                       showYouIndicator={true}
+                      address={player.address}
                     />
                   </div>
 
@@ -594,44 +556,6 @@ export default function GameplayScreen({ currentPlayer, players, game, submitNig
         )
       }
 
-      {/* Detective Investigation Result - Minimal */}
-      {investigationResult && currentPlayer.role === 'RISHI' && !isCurrentPlayerEliminated && (
-        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={() => setInvestigationResult(null)}>
-          <Card className="w-full max-w-md p-6 bg-card border-2 border-border text-center space-y-4" onClick={(e) => e.stopPropagation()}>
-            <div className="text-sm font-press-start text-gray-400">INVESTIGATION</div>
-
-            {investigationResult.avatar && (
-              <img
-                src={investigationResult.avatar}
-                alt={investigationResult.player}
-                className="w-24 h-24 mx-auto object-cover border-2 border-border"
-                style={{ imageRendering: 'pixelated' }}
-              />
-            )}
-
-            <div className="text-xl font-press-start pixel-text-3d-white">
-              {investigationResult.player}
-            </div>
-
-            <div
-              style={{ color: investigationResult.color }}
-              className="text-2xl font-press-start"
-            >
-              {investigationResult.role}
-            </div>
-
-            <Button
-              onClick={() => setInvestigationResult(null)}
-              variant="pixel"
-              size="pixel"
-              className="w-full"
-            >
-              OK
-            </Button>
-          </Card>
-        </div>
-      )}
-
     </div >
   )
 }
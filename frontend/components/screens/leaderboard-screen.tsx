@@ -0,0 +1,287 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useAccount } from "wagmi"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from "@/components/ui/pagination"
+import { apiService, LeaderboardEntry, LeaderboardMode, LeaderboardPage, LeaderboardSeason } from "@/services/api"
+import { toFrontendRole } from "@/services/gameSelectors"
+import { formatTokenAmount } from "@/lib/networkConfig"
+
+const PAGE_SIZE = 20
+const ZERO = BigInt(0)
+
+const MODES: { value: LeaderboardMode, label: string }[] = [
+  { value: 'net', label: '💰 NET WINNINGS' },
+  { value: 'winrate', label: '🏆 WIN RATE' },
+  { value: 'rating', label: '⚔️ RATING' }
+]
+
+const ROLES = ['Mafia', 'Doctor', 'Detective', 'Villager']
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`
+
+// Page numbers to show: first, last and two either side of the current page
+function visiblePages(page: number, pageCount: number): (number | 'gap')[] {
+  const pages: (number | 'gap')[] = []
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 2) {
+      pages.push(p)
+    } else if (pages[pages.length - 1] !== 'gap') {
+      pages.push('gap')
+    }
+  }
+  return pages
+}
+
+export default function LeaderboardScreen() {
+  const router = useRouter()
+  const { address } = useAccount()
+  const [seasons, setSeasons] = useState<LeaderboardSeason[]>([])
+  const [seasonId, setSeasonId] = useState<string | undefined>(undefined)
+  const [mode, setMode] = useState<LeaderboardMode>('net')
+  const [role, setRole] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const [findMe, setFindMe] = useState(false)
+  const [me, setMe] = useState<LeaderboardEntry | null | undefined>(undefined) // undefined until FIND ME is used
+  const [board, setBoard] = useState<LeaderboardPage | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    apiService.getLeaderboardSeasons()
+      .then(response => setSeasons(response.seasons))
+      .catch(err => console.error('❌ Failed to load leaderboard seasons:', err))
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    apiService.getLeaderboard({
+      season: seasonId,
+      mode,
+      role: role || undefined,
+      page,
+      pageSize: PAGE_SIZE,
+      address: findMe ? address : undefined
+    })
+      .then(response => {
+        if (cancelled) return
+        setBoard(response.leaderboard)
+        if (findMe) {
+          // The backend picked the page; keep paging from there
+          setMe(response.leaderboard.me)
+          setPage(response.leaderboard.page)
+          setFindMe(false)
+        }
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('❌ Failed to load leaderboard:', err)
+        setError(err instanceof Error ? err.message : 'Could not load the leaderboard')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => { cancelled = true }
+  }, [seasonId, mode, role, page, findMe, address])
+
+  // Changing the board starts again from the top
+  const selectBoard = (update: () => void) => {
+    update()
+    setPage(1)
+    setMe(undefined)
+  }
+
+  const pageCount = board ? Math.max(1, Math.ceil(board.total / board.pageSize)) : 1
+  const ownAddress = address?.toLowerCase()
+
+  const goToPage = (e: React.MouseEvent, target: number) => {
+    e.preventDefault()
+    if (target >= 1 && target <= pageCount) setPage(target)
+  }
+
+  return (
+    <main className="min-h-screen gaming-bg scanlines p-4 flex justify-center">
+      <Card className="w-full max-w-4xl p-4 sm:p-6 bg-[#111111]/90 backdrop-blur-sm border-2 border-[#2a2a2a] space-y-4 font-press-start">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="space-y-1">
+            <div className="text-lg sm:text-xl pixel-text-3d-white">🏅 LEADERBOARD</div>
+            {board && (
+              <div className="text-[10px] text-gray-400">
+                {board.season.name} · {board.season.gameCount} games
+                {board.season.frozenAt ? ' · FINAL' : board.season.active ? ' · LIVE' : ''}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={seasonId ?? board?.season.id ?? ''}
+              onValueChange={(value) => selectBoard(() => setSeasonId(value))}
+            >
+              <SelectTrigger className="w-44 text-[10px] rounded-none">
+                <SelectValue placeholder="SEASON" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons.map(season => (
+                  <SelectItem key={season.id} value={season.id} className="text-xs">
+                    {season.name}{season.active ? ' (live)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => router.push('/')} variant="pixelOutline" size="sm" className="text-xs">
+              🏠
+            </Button>
+          </div>
+        </div>
+
+        {/* Board selection */}
+        <div className="flex flex-wrap gap-1">
+          {MODES.map(option => (
+            <Button
+              key={option.value}
+              onClick={() => selectBoard(() => setMode(option.value))}
+              variant={mode === option.value ? 'pixel' : 'pixelOutline'}
+              size="sm"
+              className="text-[10px]"
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          <Button
+            onClick={() => selectBoard(() => setRole(null))}
+            variant={role === null ? 'pixel' : 'pixelOutline'}
+            size="sm"
+            className="text-[10px]"
+          >
+            ALL ROLES
+          </Button>
+          {ROLES.map(r => (
+            <Button
+              key={r}
+              onClick={() => selectBoard(() => setRole(r))}
+              variant={role === r ? 'pixel' : 'pixelOutline'}
+              size="sm"
+              className="text-[10px]"
+            >
+              {toFrontendRole(r)}
+            </Button>
+          ))}
+          <Button
+            onClick={() => setFindMe(true)}
+            disabled={!address || isLoading}
+            variant="pixelOutline"
+            size="sm"
+            className="text-[10px] ml-auto"
+            title={address ? 'Jump to your rank' : 'Connect your wallet to find yourself'}
+          >
+            📍 FIND ME
+          </Button>
+        </div>
+
+        {board?.minGames ? (
+          <div className="text-[10px] text-gray-500">Players need {board.minGames}+ games to be ranked by win rate</div>
+        ) : null}
+
+        {/* Standings */}
+        {error ? (
+          <div className="text-xs text-red-400 text-center py-8">{error}</div>
+        ) : !board ? (
+          <div className="text-xs text-gray-400 text-center py-8">Loading...</div>
+        ) : board.total === 0 ? (
+          <div className="text-xs text-gray-400 text-center py-8">No ranked players yet</div>
+        ) : (
+          <div className={isLoading ? 'opacity-60' : ''}>
+            <Table className="text-[10px] sm:text-xs">
+              <TableHeader>
+                <TableRow className="border-[#333]">
+                  <TableHead className="text-gray-400">#</TableHead>
+                  <TableHead className="text-gray-400">PLAYER</TableHead>
+                  <TableHead className="text-gray-400 text-right">GAMES</TableHead>
+                  <TableHead className="text-gray-400 text-right">W/L</TableHead>
+                  <TableHead className="text-gray-400 text-right">WIN %</TableHead>
+                  <TableHead className="text-gray-400 text-right">NET</TableHead>
+                  <TableHead className="text-gray-400 text-right">RATING</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {board.entries.map(entry => {
+                  const isMe = entry.address === ownAddress
+                  const net = BigInt(entry.net)
+                  return (
+                    <TableRow key={entry.address} className={`border-[#333] ${isMe ? 'bg-blue-900/40' : ''}`}>
+                      <TableCell className="text-white">{entry.rank}</TableCell>
+                      <TableCell>
+                        <Link href={`/profile/${entry.address}`} className="text-blue-300 hover:underline">
+                          {shortAddress(entry.address)}
+                        </Link>
+                        {isMe && <span className="text-green-400 ml-1">(YOU)</span>}
+                      </TableCell>
+                      <TableCell className="text-right text-white">{entry.games}</TableCell>
+                      <TableCell className="text-right text-white">{entry.wins}/{entry.losses}</TableCell>
+                      <TableCell className="text-right text-white">{Math.round(entry.winRate * 100)}%</TableCell>
+                      <TableCell className={`text-right ${net > ZERO ? 'text-green-400' : net < ZERO ? 'text-red-400' : 'text-white'}`}>
+                        {net > ZERO ? '+' : ''}{formatTokenAmount(entry.net)}
+                      </TableCell>
+                      <TableCell className="text-right text-yellow-300">{entry.rating}</TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+
+            {pageCount > 1 && (
+              <Pagination className="mt-4">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious href="#" onClick={(e) => goToPage(e, board.page - 1)} />
+                  </PaginationItem>
+                  {visiblePages(board.page, pageCount).map((p, index) => (
+                    <PaginationItem key={p === 'gap' ? `gap-${index}` : p}>
+                      {p === 'gap' ? (
+                        <PaginationEllipsis />
+                      ) : (
+                        <PaginationLink href="#" isActive={p === board.page} onClick={(e) => goToPage(e, p)}>
+                          {p}
+                        </PaginationLink>
+                      )}
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext href="#" onClick={(e) => goToPage(e, board.page + 1)} />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </div>
+        )}
+
+        {me !== undefined && board && (
+          <div className="text-[10px] text-gray-400 text-center">
+            {me ? `You are #${me.rank} of ${board.total}` : "You aren't ranked on this board yet"}
+          </div>
+        )}
+      </Card>
+    </main>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import {
@@ -14,17 +14,38 @@ import {
 import GifLoader from "@/components/common/gif-loader"
 import RetroAnimation from "@/components/common/retro-animation"
 import { Player } from "@/hooks/useGame"
-import { Game } from "@/services/api"
+import { Game, apiService } from "@/services/api"
+import type { HostAction } from "@/services/socketProtocol"
+import { useSocket } from "@/contexts/SocketContext"
 import { clearGameSession } from "@/utils/sessionPersistence"
 import { canLeaveGame } from "@/utils/connectivityChecker"
+import { authHeaders } from "@/utils/authSession"
 import FullscreenToggle from "@/components/common/fullscreen-toggle"
 import ColoredPlayerName from "@/components/game/colored-player-name"
-import LobbySettingsDialog, { FullGameSettings, FALLBACK_GAME_SETTINGS } from "@/components/game/lobby-settings-dialog"
+import InvitePanel from "@/components/game/invite-panel"
+import { formatHouseCut, HouseCutWarning } from "@/components/game/payout-breakdown"
+import { useHouseCut } from "@/hooks/useHouseCut"
+import LobbySettingsDialog, { describeComposition, FullGameSettings, FALLBACK_GAME_SETTINGS } from "@/components/game/lobby-settings-dialog"
 import { useGameDefaults } from "@/hooks/useGameDefaults"
+import { useRoleSeed } from "@/hooks/useRoleSeed"
+import { resolveComposition } from "@/utils/roleShuffle"
 import FaucetButton from "@/components/wallet/faucet-button"
 import { GameSettings } from "@/services/api"
 import { activeChain } from "@/lib/wagmi"
 
+type HostActionType = HostAction['action']
+
+// A host action waiting for confirmation
+interface PendingHostAction {
+  action: HostActionType
+  playerAddress?: string
+}
+
+interface HostNotice {
+  id: string
+  text: string
+}
+
 interface LobbyScreenProps {
   players: Player[]
   game: Game | null
@@ -33,19 +54,41 @@ interface LobbyScreenProps {
   playerAddress?: string
   onLeaveGame?: () => void
   refreshGame?: () => Promise<void>
+  readOnly?: boolean // Spectator view: no wallet, leave or settings controls
 }
 
-export default function LobbyScreen({ players, game, isConnected, onStartGame, playerAddress, onLeaveGame, refreshGame }: LobbyScreenProps) {
+export default function LobbyScreen({ players, game, isConnected, onStartGame, playerAddress, onLeaveGame, refreshGame, readOnly = false }: LobbyScreenProps) {
   const [timeLeft, setTimeLeft] = useState(0)
   const [isPublic, setIsPublic] = useState(false)
   const [isTogglingVisibility, setIsTogglingVisibility] = useState(false)
   const [showLeaveDialog, setShowLeaveDialog] = useState(false)
   const [isLeavingGame, setIsLeavingGame] = useState(false)
   const [copied, setCopied] = useState(false)
+  const [spectateLinkCopied, setSpectateLinkCopied] = useState(false)
   const [leaveMethod, setLeaveMethod] = useState<'normal' | 'force_local' | null>(null)
   const [showSettingsDialog, setShowSettingsDialog] = useState(false)
   const { defaults: backendDefaults, isLoading: defaultsLoading } = useGameDefaults()
   const [gameSettings, setGameSettings] = useState<FullGameSettings>(FALLBACK_GAME_SETTINGS)
+  const [isTogglingReady, setIsTogglingReady] = useState(false)
+  const [readyError, setReadyError] = useState<string | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const [pendingHostAction, setPendingHostAction] = useState<PendingHostAction | null>(null)
+  const [isRunningHostAction, setIsRunningHostAction] = useState(false)
+  const [hostActionError, setHostActionError] = useState<string | null>(null)
+  const [hostNotices, setHostNotices] = useState<HostNotice[]>([])
+  const { subscribe } = useSocket()
+
+  // Names of everyone seen in this lobby, so notices about kicked or banned
+  // players can still name them after they're gone from the player list
+  const knownNamesRef = useRef<Record<string, string>>({})
+  players.forEach(player => {
+    if (player.address && player.name) knownNamesRef.current[player.address] = player.name
+  })
+  const nameOf = (address?: string | null) =>
+    (address && knownNamesRef.current[address]) || (address ? `${address.slice(0, 6)}...${address.slice(-4)}` : 'Someone')
+
+  // Commit this player's share of the role shuffle seed and reveal it on start
+  useRoleSeed(game, playerAddress)
 
   // Debug player updates
   useEffect(() => {
@@ -85,6 +128,31 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
     }
   }, [game?.timeLeft])
 
+  // Tick the ready deadline / start countdown, both are server timestamps
+  const readyCheck = game?.phase === 'lobby' ? game.readyCheck : null
+  useEffect(() => {
+    if (!readyCheck) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [readyCheck])
+
+  // Announce host actions to everyone in the room
+  const gameId = game?.gameId
+  useEffect(() => subscribe('host_action', data => {
+    if (data.gameId !== gameId) return
+    const target = nameOf(data.playerAddress)
+    const text = {
+      kick: `${target} was kicked by the host${data.refunded ? ' - their stake was refunded' : ''}`,
+      ban: `${target} was banned from this lobby by the host${data.refunded ? ' - their stake was refunded' : ''}`,
+      unban: `The host lifted ${target}'s ban`,
+      transfer_host: `${nameOf(data.host)} made ${target} the host`,
+      lock: 'The host locked the lobby - no new players can join',
+      unlock: 'The host unlocked the lobby',
+    }[data.action]
+    setHostNotices(current => [...current, { id: `${data.timestamp}-${data.action}`, text }].slice(-3))
+  }), [subscribe, gameId])
+
   // Update game settings when backend defaults are loaded
   useEffect(() => {
     if (backendDefaults && !defaultsLoading) {
@@ -103,6 +171,9 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
           taskPhaseDuration: game.settings.taskPhaseDuration || backendDefaults?.taskPhaseDuration || 30,
           votingPhaseDuration: game.settings.votingPhaseDuration || backendDefaults?.votingPhaseDuration || 10,
           maxTaskCount: game.settings.maxTaskCount || backendDefaults?.maxTaskCount || 4,
+          allowSpectators: game.settings.allowSpectators ?? backendDefaults?.allowSpectators ?? true,
+          spectatorDelay: game.settings.spectatorDelay ?? backendDefaults?.spectatorDelay ?? 10,
+          roleSetup: game.settings.roleSetup ?? backendDefaults?.roleSetup ?? FALLBACK_GAME_SETTINGS.roleSetup,
         })
       }
     }
@@ -113,6 +184,75 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
   // Check if current player is the creator
   const isCreator = playerAddress && game?.creator === playerAddress
 
+  // The game starts (and roles are dealt) once minPlayers have staked
+  const lobbySize = game?.minPlayers || 4
+  const houseCut = useHouseCut()
+  const isStakedGame = game?.stakingRequired !== false && !!game?.stakeAmount
+
+  const isStaked = (address?: string) => !!address && (game?.stakingRequired === false || !!game?.stakedPlayers?.includes(address))
+  const isReady = (address?: string) => !!address && !!game?.lobbyReady?.includes(address)
+  const secondsUntil = (timestamp: number) => Math.max(0, Math.ceil((timestamp - now) / 1000))
+  const readyCount = players.filter(player => isReady(player.address)).length
+
+  const runHostAction = async () => {
+    if (!pendingHostAction || !game?.gameId || !playerAddress) return
+
+    const { action, playerAddress: target = '' } = pendingHostAction
+    setIsRunningHostAction(true)
+    setHostActionError(null)
+    try {
+      if (action === 'lock' || action === 'unlock') {
+        await apiService.setLobbyLocked(game.gameId, playerAddress, action === 'lock')
+      } else if (action === 'transfer_host') {
+        await apiService.transferHost(game.gameId, playerAddress, target)
+      } else if (action === 'unban') {
+        await apiService.unbanPlayer(game.gameId, playerAddress, target)
+      } else {
+        await apiService.kickPlayer(game.gameId, playerAddress, target, action === 'ban')
+      }
+      setPendingHostAction(null)
+    } catch (error) {
+      console.error(`❌ Host action ${action} failed:`, error)
+      setHostActionError(error instanceof Error ? error.message : 'Host action failed')
+    } finally {
+      setIsRunningHostAction(false)
+    }
+  }
+
+  const hostActionPrompt = (pending: PendingHostAction) => {
+    const target = nameOf(pending.playerAddress)
+    const refund = game?.stakingRequired && isStaked(pending.playerAddress) ? ' Their stake is refunded through the contract.' : ''
+    switch (pending.action) {
+      case 'kick':
+        return { title: '👢 KICK PLAYER?', text: `Remove ${target} from the lobby? They can join again.${refund}` }
+      case 'ban':
+        return { title: '🚫 BAN PLAYER?', text: `Remove ${target} and stop them rejoining this lobby?${refund}` }
+      case 'unban':
+        return { title: '✅ LIFT BAN?', text: `Let ${target} join this lobby again?` }
+      case 'transfer_host':
+        return { title: '👑 TRANSFER HOST?', text: `Make ${target} the host? You will lose the host controls.` }
+      case 'lock':
+        return { title: '🔒 LOCK LOBBY?', text: 'Nobody new can join until you unlock it. The lobby leaves the public list.' }
+      case 'unlock':
+        return { title: '🔓 UNLOCK LOBBY?', text: 'New players can join again.' }
+    }
+  }
+
+  const handleToggleReady = async () => {
+    if (!game?.gameId || !playerAddress) return
+
+    setIsTogglingReady(true)
+    setReadyError(null)
+    try {
+      await apiService.setLobbyReady(game.gameId, playerAddress, !isReady(playerAddress))
+    } catch (error) {
+      console.error('❌ Failed to update ready state:', error)
+      setReadyError(error instanceof Error ? error.message : 'Failed to update ready state')
+    } finally {
+      setIsTogglingReady(false)
+    }
+  }
+
   // Toggle room visibility
   const handleToggleVisibility = async () => {
     if (!game?.gameId || !playerAddress || !isCreator) return
@@ -138,7 +278,7 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
     try {
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/game/${game.gameId}/settings`, {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({
           creatorAddress: playerAddress,
           settings: newSettings
@@ -186,6 +326,21 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
     }
   }
 
+  // Copy the spectator link (/spectate/[roomCode]) to clipboard
+  const copySpectateLink = async () => {
+    if (!game?.roomCode) return
+
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/spectate/${game.roomCode.trim()}`)
+      setSpectateLinkCopied(true)
+      setTimeout(() => {
+        setSpectateLinkCopied(false)
+      }, 2000)
+    } catch (error) {
+      console.error('❌ Failed to copy spectate link:', error)
+    }
+  }
+
   // Check leave game options
   const handleLeaveGameClick = async () => {
     if (!game?.gameId || !playerAddress) return
@@ -238,7 +393,7 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
       // Normal server leave
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/game/leave`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({
           gameId: game.gameId,
           playerAddress
@@ -348,6 +503,22 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
                 {copied ? '✅ COPIED!' : '📋 COPY CODE'}
               </Button>
 
+              {!readOnly && game?.settings?.allowSpectators !== false && (
+                <Button
+                  onClick={copySpectateLink}
+                  variant="pixelOutline"
+                  size="sm"
+                  className="text-xs ml-2"
+                  disabled={!game?.roomCode}
+                >
+                  {spectateLinkCopied ? '✅ COPIED!' : '👀 SPECTATE LINK'}
+                </Button>
+              )}
+
+              {!readOnly && game?.roomCode && game.phase === 'lobby' && (
+                <InvitePanel roomCode={game.roomCode} />
+              )}
+
               <div className="text-xs text-gray-400 font-press-start">
                 SHARE WITH FRIENDS
               </div>
@@ -366,6 +537,16 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
                 >
                   {isTogglingVisibility ? '...' : isPublic ? '🌐 PUBLIC' : '🔒 PRIVATE'}
                 </Button>
+                {!readOnly && (
+                  <Button
+                    onClick={() => setPendingHostAction({ action: game?.locked ? 'unlock' : 'lock' })}
+                    variant={game?.locked ? 'pixel' : 'pixelOutline'}
+                    size="pixel"
+                    className="text-xs"
+                  >
+                    {game?.locked ? '🔒 LOCKED' : '🔓 OPEN'}
+                  </Button>
+                )}
               </div>
             )}
 
@@ -374,6 +555,7 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
               <div className="text-center pt-2 border-t border-[#4A8C4A]/30">
                 <span className="text-xs font-press-start text-gray-400">
                   {isPublic ? '🌐 PUBLIC LOBBY' : '🔒 PRIVATE LOBBY'}
+                  {game?.locked && ' · 🔒 LOCKED'}
                 </span>
               </div>
             )}
@@ -381,24 +563,56 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
         </Card>
 
         {/* Faucet Button */}
-        <div className="flex justify-center">
-          <FaucetButton
-            walletAddress={playerAddress || null}
-            onSuccess={() => {
-              console.log('✅ Faucet claim successful!')
-            }}
-          />
-        </div>
+        {!readOnly && (
+          <div className="flex justify-center">
+            <FaucetButton
+              walletAddress={playerAddress || null}
+              onSuccess={() => {
+                console.log('✅ Faucet claim successful!')
+              }}
+            />
+          </div>
+        )}
 
         {/* Game Status */}
         <Card className="p-2 sm:p-3 lg:p-4 bg-[#111111]/90 backdrop-blur-sm border-2 border-[#4A8C4A] text-center">
           <div className="space-y-1 sm:space-y-2">
             <div className="text-sm sm:text-base lg:text-lg font-press-start pixel-text-3d-green">
-              WAITING FOR PLAYERS...
+              {game?.seedRound?.pending ? 'REVEALING SEEDS...' : readyCheck ? 'READY CHECK' : 'WAITING FOR PLAYERS...'}
             </div>
             <div className="text-xs sm:text-sm font-press-start pixel-text-3d-white">
-              {players.length}/{game?.minPlayers || 4} players joined
+              {readyCheck
+                ? `${readyCount}/${players.length} players ready`
+                : `${players.length}/${lobbySize} players joined`}
             </div>
+            {readyCheck?.countdownEndsAt ? (
+              <div className="text-xs sm:text-sm font-press-start pixel-text-3d-red">
+                Game starting in {secondsUntil(readyCheck.countdownEndsAt)}s
+              </div>
+            ) : readyCheck && (
+              <div className="text-xs font-press-start text-yellow-400">
+                Ready up within {secondsUntil(readyCheck.deadline)}s - unready players are removed and refunded
+              </div>
+            )}
+            {!readOnly && playerAddress && game?.players?.includes(playerAddress) && (
+              <div className="pt-1">
+                <Button
+                  onClick={handleToggleReady}
+                  variant={isReady(playerAddress) ? 'pixelOutline' : 'pixel'}
+                  size="pixel"
+                  className="text-xs"
+                  disabled={isTogglingReady || !!game?.seedRound || (!isReady(playerAddress) && !isStaked(playerAddress))}
+                >
+                  {isTogglingReady ? '...' : isReady(playerAddress) ? '✖ NOT READY' : isStaked(playerAddress) ? '✅ READY UP' : '💰 STAKE TO READY UP'}
+                </Button>
+                {readyError && <div className="text-xs text-red-400 mt-1">{readyError}</div>}
+              </div>
+            )}
+            {!!game?.spectatorCount && (
+              <div className="text-xs font-press-start text-gray-400">
+                👀 {game.spectatorCount} SPECTATING
+              </div>
+            )}
             {timeLeft > 0 && (
               <div className="text-xs sm:text-sm font-press-start pixel-text-3d-red">
                 Game starting in {timeLeft}s
@@ -407,6 +621,17 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
           </div>
         </Card>
 
+        {/* Host action announcements */}
+        {hostNotices.length > 0 && (
+          <Card className="p-2 sm:p-3 bg-[#111111]/90 backdrop-blur-sm border-2 border-yellow-500/50 text-center space-y-1">
+            {hostNotices.map(notice => (
+              <div key={notice.id} className="text-xs font-press-start text-yellow-400">
+                🛡️ {notice.text}
+              </div>
+            ))}
+          </Card>
+        )}
+
         {/* Players Grid */}
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 sm:gap-3">
           {Array.from({ length: 4 }, (_, index) => {
@@ -452,13 +677,77 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
                         playerName={player.name}
                         isCurrentPlayer={player.isCurrentPlayer}
                         showYouIndicator={true}
+                        address={player.address}
                       />
                     )}
                   </div>
 
                   {player && (
-                    <div className="text-xs text-green-400 font-press-start">
-                      ✅ READY
+                    isReady(player.address) ? (
+                      <div className="text-xs text-green-400 font-press-start">
+                        ✅ READY
+                      </div>
+                    ) : (
+                      <div className="text-xs text-gray-400 font-press-start">
+                        ⏳ NOT READY
+                      </div>
+                    )
+                  )}
+
+                  {player && (
+                    isStaked(player.address) ? (
+                      <div className="text-[10px] text-yellow-400 font-press-start">
+                        💰 STAKED
+                      </div>
+                    ) : (
+                      <div className="text-[10px] text-gray-500 font-press-start">
+                        ⏳ STAKING
+                      </div>
+                    )
+                  )}
+
+                  {player && (
+                    player.address && game?.seedCommits?.[player.address] ? (
+                      <div className="text-[10px] text-green-400 font-press-start">
+                        🎲 SEED COMMITTED
+                      </div>
+                    ) : (
+                      <div className="text-[10px] text-gray-500 font-press-start">
+                        ⏳ COMMITTING SEED
+                      </div>
+                    )
+                  )}
+
+                  {/* Host tools */}
+                  {isCreator && !readOnly && player?.address && player.address !== playerAddress && (
+                    <div className="flex justify-center gap-1 pt-1">
+                      <Button
+                        onClick={() => setPendingHostAction({ action: 'kick', playerAddress: player.address })}
+                        variant="pixelOutline"
+                        size="sm"
+                        className="text-[10px] px-2"
+                        title="Kick"
+                      >
+                        👢
+                      </Button>
+                      <Button
+                        onClick={() => setPendingHostAction({ action: 'ban', playerAddress: player.address })}
+                        variant="pixelOutline"
+                        size="sm"
+                        className="text-[10px] px-2"
+                        title="Ban"
+                      >
+                        🚫
+                      </Button>
+                      <Button
+                        onClick={() => setPendingHostAction({ action: 'transfer_host', playerAddress: player.address })}
+                        variant="pixelOutline"
+                        size="sm"
+                        className="text-[10px] px-2"
+                        title="Make host"
+                      >
+                        👑
+                      </Button>
                     </div>
                   )}
                 </div>
@@ -467,6 +756,26 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
           })}
         </div>
 
+        {/* Ban list (host only) */}
+        {isCreator && !readOnly && !!game?.bannedPlayers?.length && (
+          <Card className="p-2 sm:p-3 bg-[#111111]/90 backdrop-blur-sm border-2 border-red-500/50 space-y-2">
+            <div className="text-xs font-press-start text-red-400 text-center">🚫 BANNED</div>
+            {game.bannedPlayers.map(banned => (
+              <div key={banned} className="flex items-center justify-between gap-2">
+                <span className="text-xs text-gray-300">{nameOf(banned)}</span>
+                <Button
+                  onClick={() => setPendingHostAction({ action: 'unban', playerAddress: banned })}
+                  variant="pixelOutline"
+                  size="sm"
+                  className="text-[10px]"
+                >
+                  UNBAN
+                </Button>
+              </div>
+            ))}
+          </Card>
+        )}
+
         {/* Loading Animation */}
         {players.length < 4 && (
           <div className="flex justify-center">
@@ -490,14 +799,16 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
               ⚙️ SETTINGS
             </Button>
           )}
-          <Button
-            onClick={handleLeaveGameClick}
-            variant="outline"
-            size="pixel"
-            className="text-xs sm:text-sm border-red-500/50 text-red-400 hover:bg-red-900/20"
-          >
-            🚪 LEAVE GAME
-          </Button>
+          {!readOnly && (
+            <Button
+              onClick={handleLeaveGameClick}
+              variant="outline"
+              size="pixel"
+              className="text-xs sm:text-sm border-red-500/50 text-red-400 hover:bg-red-900/20"
+            >
+              🚪 LEAVE GAME
+            </Button>
+          )}
         </div>
 
         {/* Leave Game Confirmation Dialog */}
@@ -557,12 +868,68 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
           </DialogContent>
         </Dialog>
 
+        {/* Host Action Confirmation Dialog */}
+        <Dialog
+          open={!!pendingHostAction}
+          onOpenChange={(open) => {
+            if (!open && !isRunningHostAction) {
+              setPendingHostAction(null)
+              setHostActionError(null)
+            }
+          }}
+        >
+          <DialogContent className="bg-[#111111]/90 backdrop-blur-sm border-2 border-[#4A8C4A]">
+            {pendingHostAction && (
+              <>
+                <DialogHeader>
+                  <DialogTitle className="font-press-start text-lg pixel-text-3d-green text-center">
+                    {hostActionPrompt(pendingHostAction).title}
+                  </DialogTitle>
+                  <DialogDescription className="text-center text-sm text-gray-300 pt-4">
+                    {hostActionPrompt(pendingHostAction).text}
+                  </DialogDescription>
+                </DialogHeader>
+                {hostActionError && (
+                  <div className="text-xs text-red-400 text-center">{hostActionError}</div>
+                )}
+                <DialogFooter className="flex-col sm:flex-row gap-2">
+                  <Button
+                    onClick={() => {
+                      setPendingHostAction(null)
+                      setHostActionError(null)
+                    }}
+                    variant="pixelOutline"
+                    size="pixel"
+                    disabled={isRunningHostAction}
+                    className="w-full sm:w-auto"
+                  >
+                    ↩️ CANCEL
+                  </Button>
+                  <Button
+                    onClick={runHostAction}
+                    variant="pixel"
+                    size="pixel"
+                    disabled={isRunningHostAction}
+                    className="w-full sm:w-auto"
+                  >
+                    {isRunningHostAction ? '⏳ WORKING...' : '✅ CONFIRM'}
+                  </Button>
+                </DialogFooter>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {isStakedGame && <HouseCutWarning houseCut={houseCut} />}
+
         {/* Instructions */}
         <Card className="p-3 sm:p-4 bg-[#111111]/90 backdrop-blur-sm border-2 border-[#4A8C4A]/50">
           <div className="text-xs sm:text-sm font-press-start text-gray-300 text-center space-y-1">
             <div>🎮 Share the room code with friends to join</div>
-            <div>⚡ Game starts automatically when {game?.minPlayers || 4} players join</div>
-            <div>🔍 Each player gets a unique role (ASUR, DEVA, RISHI, MANAV)</div>
+            <div>⚡ Game starts once {lobbySize} players have staked and readied up</div>
+            <div>🔍 Roles this game: {describeComposition(lobbySize, resolveComposition(lobbySize, game?.settings?.roleSetup))}</div>
+            <div>🎲 Roles are shuffled with a seed every player contributes to</div>
+            {isStakedGame && <div>💰 Winners split the pot after a {formatHouseCut(houseCut.houseCutBps)} house cut</div>}
           </div>
         </Card>
 
@@ -573,6 +940,9 @@ export default function LobbyScreen({ players, game, isConnected, onStartGame, p
             onOpenChange={setShowSettingsDialog}
             settings={gameSettings}
             onSettingsChange={handleUpdateSettings}
+            playerCount={lobbySize}
+            stakeAmount={game?.stakeAmount}
+            houseCutBps={houseCut.houseCutBps}
             onSave={() => {
               console.log('Settings saved from lobby:', gameSettings);
             }}
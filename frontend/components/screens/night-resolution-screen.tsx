@@ -7,6 +7,15 @@ import RetroAnimation from "@/components/common/retro-animation"
 import { Player } from "@/hooks/useGame"
 import ColoredPlayerName from "@/components/game/colored-player-name"
 import ScreenHeader from "@/components/common/screen-header"
+import { PrivateInfoEvent } from "@/services/socketProtocol"
+
+// Backend role -> display name and colour for the detective's result
+const ROLE_INFO: Record<string, { name: string, color: string }> = {
+  'Mafia': { name: 'ASUR', color: '#FF4444' },
+  'Doctor': { name: 'DEVA', color: '#44AA44' },
+  'Detective': { name: 'RISHI', color: '#4444FF' },
+  'Villager': { name: 'MANAV', color: '#AAAAAA' }
+}
 
 interface NightResolutionScreenProps {
   resolution: {
@@ -21,14 +30,19 @@ interface NightResolutionScreenProps {
   onContinue: () => void
   game?: any // Add game prop to check phase changes
   currentPlayer?: Player // Add current player to check if they were eliminated
+  investigation?: Extract<PrivateInfoEvent, { type: 'investigation' }> | null // Sent only to the detective
+  protection?: Extract<PrivateInfoEvent, { type: 'protection' }> | null // Sent only to the doctor
 }
 
-export default function NightResolutionScreen({ resolution, onContinue, game, currentPlayer }: NightResolutionScreenProps) {
+export default function NightResolutionScreen({ resolution, onContinue, game, currentPlayer, investigation, protection }: NightResolutionScreenProps) {
   const [showResults, setShowResults] = useState(false);
   const [hasTransitioned, setHasTransitioned] = useState(false);
   const [timeLeft, setTimeLeft] = useState(game?.timeLeft || 8);
   const [outcome, setOutcome] = useState<'peaceful' | 'kill' | 'save'>('peaceful');
 
+  // Outcome is withheld until committed night actions have been revealed
+  const isRevealing = !!game?.nightReveal?.pending;
+
   // Memoize player data to prevent re-renders and avatar re-fetches
   const killedPlayerMemo = useMemo(() => resolution.killedPlayer, [resolution.killedPlayer?.address]);
   const savedPlayerMemo = useMemo(() => resolution.savedPlayer, [resolution.savedPlayer?.address]);
@@ -58,13 +72,23 @@ export default function NightResolutionScreen({ resolution, onContinue, game, cu
     return () => clearTimeout(showTimer);
   }, []);
 
+  // The reveal window has its own (short) time; restart the countdown once it closes
+  useEffect(() => {
+    if (!isRevealing && game?.timeLeft) {
+      setTimeLeft(game.timeLeft);
+    }
+  }, [isRevealing]);
+
+  const playerName = (address: string) => game?.playerNames?.[address] || address.slice(0, 8);
+  const investigationRole = investigation ? ROLE_INFO[investigation.role] || { name: 'UNKNOWN', color: '#AAAAAA' } : null;
+
   // Countdown timer
   useEffect(() => {
-    if (showResults && timeLeft > 0) {
+    if (showResults && !isRevealing && timeLeft > 0) {
       const timer = setTimeout(() => setTimeLeft((prev: number) => prev - 1), 1000);
       return () => clearTimeout(timer);
     }
-  }, [showResults, timeLeft]);
+  }, [showResults, isRevealing, timeLeft]);
 
   // Check if current player was killed (using memoized player)
   const wasCurrentPlayerKilled = currentPlayer && killedPlayerMemo &&
@@ -108,10 +132,10 @@ export default function NightResolutionScreen({ resolution, onContinue, game, cu
 
       <div className="flex-1 flex items-center justify-center p-4">
         <Card className="w-full max-w-2xl p-8 bg-black/80 border-2 border-gray-700 text-center">
-          {!showResults ? (
+          {!showResults || isRevealing ? (
             <div className="space-y-4">
               <div className="text-2xl font-press-start pixel-text-3d-white">
-                PROCESSING NIGHT ACTIONS...
+                {isRevealing ? 'REVEALING NIGHT ACTIONS...' : 'PROCESSING NIGHT ACTIONS...'}
               </div>
               <div className="flex justify-center">
                 <div className="animate-spin text-5xl">🌙</div>
@@ -155,6 +179,31 @@ export default function NightResolutionScreen({ resolution, onContinue, game, cu
                 </div>
               )}
 
+              {/* Detective's investigation, private to them */}
+              {investigation && investigationRole && (
+                <div className="space-y-1">
+                  <div className="text-sm font-press-start text-gray-400">INVESTIGATION</div>
+                  <div className="text-lg font-press-start">
+                    <ColoredPlayerName playerName={playerName(investigation.target)} />{' '}
+                    <span style={{ color: investigationRole.color }}>IS {investigationRole.name}</span>
+                  </div>
+                </div>
+              )}
+
+              {/* Doctor's confirmation, private to them */}
+              {protection && (
+                <div className="space-y-1">
+                  <div className="text-sm font-press-start text-gray-400">PROTECTION</div>
+                  <div className="text-lg font-press-start">
+                    <span className="text-green-400">YOU PROTECTED</span>{' '}
+                    <ColoredPlayerName playerName={playerName(protection.target)} />
+                  </div>
+                  <div className="text-xs font-press-start text-gray-400">
+                    {protection.saved ? 'YOUR PROTECTION STOPPED AN ATTACK' : 'NO ATTACK ON THEM TONIGHT'}
+                  </div>
+                </div>
+              )}
+
               {/* Countdown Timer */}
               <div className="space-y-2">
                 <div className="text-6xl md:text-8xl font-bold text-white pixel-text-3d-orange">
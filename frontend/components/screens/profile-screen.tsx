@@ -0,0 +1,223 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { isAddress } from "viem"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import LoaderScreen from "@/components/screens/loader-screen"
+import { apiService, PlayerStats, SettlementCheck } from "@/services/api"
+import { toFrontendRole } from "@/services/gameSelectors"
+import { formatTokenAmount, getTransactionUrl } from "@/lib/networkConfig"
+
+interface ProfileScreenProps {
+  address: string
+}
+
+const ROLE_COLORS: Record<string, string> = {
+  'Mafia': '#FF4444',
+  'Doctor': '#44AA44',
+  'Detective': '#4444FF',
+  'Villager': '#AAAAAA'
+}
+
+const SETTLEMENT_LABELS: Record<SettlementCheck, { label: string, className: string }> = {
+  none: { label: 'FREE', className: 'text-gray-400' },
+  pending: { label: 'UNSETTLED', className: 'text-yellow-400' },
+  verified: { label: '✓ ON-CHAIN', className: 'text-green-400' },
+  mismatch: { label: '⚠ CHAIN DIFFERS', className: 'text-red-400' },
+  unverified: { label: 'NOT VERIFIED', className: 'text-gray-400' }
+}
+
+const ZERO = BigInt(0)
+
+const percent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`
+
+const signedAmount = (wei: string) => `${BigInt(wei) > ZERO ? '+' : ''}${formatTokenAmount(wei)}`
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`
+
+const StatTile = ({ label, value, sub }: { label: string, value: string, sub?: string }) => (
+  <div className="p-3 bg-[#1a1a1a] border border-[#333] text-center space-y-1">
+    <div className="text-[10px] text-gray-400">{label}</div>
+    <div className="text-base sm:text-lg text-white">{value}</div>
+    {sub && <div className="text-[10px] text-gray-500">{sub}</div>}
+  </div>
+)
+
+// Track record of one wallet. Everything comes from the backend's aggregation
+// over stored games; payouts there are already checked against the chain.
+export default function ProfileScreen({ address }: ProfileScreenProps) {
+  const router = useRouter()
+  const [stats, setStats] = useState<PlayerStats | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isAddress(address)) {
+      setError('That is not a wallet address')
+      return
+    }
+
+    let cancelled = false
+    setStats(null)
+    setError(null)
+
+    apiService.getPlayerStats(address)
+      .then(response => {
+        if (!cancelled) setStats(response.stats)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('❌ Failed to load player stats:', err)
+        setError(err instanceof Error ? err.message : 'Could not load this profile')
+      })
+
+    return () => { cancelled = true }
+  }, [address])
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 gaming-bg scanlines">
+        <Card className="p-6 bg-[#111111]/90 backdrop-blur-sm border-2 border-red-600 text-center space-y-4 max-w-md w-full">
+          <div className="text-lg font-press-start pixel-text-3d-red">👤 NO PROFILE</div>
+          <div className="text-xs font-press-start text-gray-300">{error}</div>
+          <Button onClick={() => router.push('/')} variant="pixel" size="pixel" className="text-xs">
+            🏠 HOME
+          </Button>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!stats) {
+    return <LoaderScreen message="Loading profile" subMessage={shortAddress(address)} />
+  }
+
+  const net = BigInt(stats.earnings.net)
+  const checkedGames = stats.earnings.verifiedGames + stats.earnings.mismatchedGames + stats.earnings.unverifiedGames
+
+  return (
+    <main className="min-h-screen gaming-bg scanlines p-4 flex justify-center">
+      <Card className="w-full max-w-3xl p-4 sm:p-6 bg-[#111111]/90 backdrop-blur-sm border-2 border-[#2a2a2a] space-y-6 font-press-start">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="space-y-1">
+            <div className="text-lg sm:text-xl pixel-text-3d-white">👤 PLAYER PROFILE</div>
+            <div className="text-[10px] text-gray-400 break-all">{stats.address}</div>
+          </div>
+          <Button onClick={() => router.push('/')} variant="pixelOutline" size="sm" className="text-xs">
+            🏠 HOME
+          </Button>
+        </div>
+
+        {stats.gamesPlayed === 0 ? (
+          <div className="text-xs text-gray-300 text-center py-8">No finished games yet</div>
+        ) : (
+          <>
+            {/* Overview */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <StatTile label="GAMES" value={String(stats.gamesPlayed)} sub={`${stats.wins}W / ${stats.losses}L`} />
+              <StatTile label="WIN RATE" value={percent(stats.wins / stats.gamesPlayed)} />
+              <StatTile
+                label="TASKS DONE"
+                value={percent(stats.tasks.completionRate)}
+                sub={`${stats.tasks.completed}/${stats.tasks.attempted}`}
+              />
+              <StatTile
+                label="VOTED ASUR"
+                value={percent(stats.votes.accuracy)}
+                sub={`${stats.votes.onMafia}/${stats.votes.cast} votes`}
+              />
+            </div>
+
+            {/* Earnings */}
+            <div className="p-3 bg-[#1a1a1a] border border-[#333] space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-400">NET</span>
+                <span className={`text-base sm:text-lg ${net > ZERO ? 'text-green-400' : net < ZERO ? 'text-red-400' : 'text-white'}`}>
+                  {signedAmount(stats.earnings.net)}
+                </span>
+              </div>
+              <div className="text-[10px] text-gray-500">
+                Staked {formatTokenAmount(stats.earnings.staked)} · Received {formatTokenAmount(stats.earnings.received)}
+              </div>
+              {checkedGames > 0 && (
+                <div className="text-[10px] text-gray-400">
+                  {stats.earnings.verifiedGames}/{checkedGames} settlements verified on-chain
+                  {stats.earnings.mismatchedGames > 0 && (
+                    <span className="text-red-400"> · {stats.earnings.mismatchedGames} differ (chain amounts used)</span>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Per role */}
+            <div className="space-y-2">
+              <div className="text-xs text-gray-400">BY ROLE</div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {Object.entries(stats.roles).map(([role, record]) => (
+                  <div key={role} className="p-3 bg-[#1a1a1a] border border-[#333] text-center space-y-1">
+                    <div className="text-sm" style={{ color: ROLE_COLORS[role] }}>{toFrontendRole(role)}</div>
+                    <div className="text-xs text-white">{record.wins}W / {record.losses}L</div>
+                    <div className="text-[10px] text-gray-500">{record.played} played</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Recent games */}
+            <div className="space-y-2">
+              <div className="text-xs text-gray-400">RECENT GAMES</div>
+              {stats.recentGames.map(game => {
+                const settlement = SETTLEMENT_LABELS[game.status]
+                return (
+                  <div
+                    key={game.gameId}
+                    className={`p-3 border-2 flex flex-col sm:flex-row sm:items-center gap-2 justify-between ${game.won
+                      ? 'bg-green-900/20 border-green-500/50'
+                      : 'bg-red-900/20 border-red-500/50'
+                      }`}
+                  >
+                    <div className="space-y-1">
+                      <div className="text-xs text-white">
+                        {game.won ? '🏆 WON' : '💀 LOST'} as{' '}
+                        <span style={{ color: ROLE_COLORS[game.role || ''] }}>{toFrontendRole(game.role || undefined) || '?'}</span>
+                      </div>
+                      <div className="text-[10px] text-gray-500">
+                        {new Date(game.endedAt).toLocaleString()} · {game.playerCount} players{game.roomCode ? ` · ${game.roomCode}` : ''}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 text-[10px]">
+                      {game.status !== 'none' && game.status !== 'pending' && (
+                        <span className={BigInt(game.net) > ZERO ? 'text-green-400' : 'text-red-400'}>{signedAmount(game.net)}</span>
+                      )}
+                      {game.settlementTxHash ? (
+                        <a
+                          href={getTransactionUrl(game.settlementTxHash)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={`${settlement.className} hover:underline`}
+                        >
+                          {settlement.label}
+                        </a>
+                      ) : (
+                        <span className={settlement.className}>{settlement.label}</span>
+                      )}
+                      <Link href={`/replay/${game.gameId}?at=end`} className="text-blue-400 hover:underline">
+                        RESULTS
+                      </Link>
+                      <Link href={`/replay/${game.gameId}`} className="text-purple-400 hover:underline">
+                        🎬
+                      </Link>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </>
+        )}
+      </Card>
+    </main>
+  )
+}
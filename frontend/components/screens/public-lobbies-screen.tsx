@@ -1,8 +1,10 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
 import {
     Dialog,
     DialogContent,
@@ -12,27 +14,19 @@ import {
     DialogTitle,
 } from "@/components/ui/dialog"
 import FaucetButton from "@/components/wallet/faucet-button"
+import QuickMatchPanel from "@/components/game/quick-match-panel"
+import PayoutPreview, { HouseCutWarning } from "@/components/game/payout-breakdown"
+import { useHouseCut } from "@/hooks/useHouseCut"
+import { autoComposition } from "@/utils/roleShuffle"
 import { useAccount, useBalance, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
 import { parseEther, type Abi } from 'viem'
 import PepasurArtifact from '@/contracts/PepasurABI.json'
+import { authHeaders } from '@/utils/authSession'
+import { useSocket } from '@/contexts/SocketContext'
+import type { MatchFound, PublicLobby } from '@/services/socketProtocol'
 
 const PepasurABI = PepasurArtifact.abi as Abi
 
-interface PublicLobby {
-    gameId: string
-    roomCode: string
-    creator: string
-    creatorName?: string
-    stakeAmount: string  // Wei as string from backend
-    stakeAmountFormatted?: string  // Token units for display
-    minPlayers: number
-    maxPlayers: number
-    playerCount: number
-    currentPlayers: string[]
-    createdAt: string
-    contractGameId?: string
-}
-
 interface PublicLobbiesScreenProps {
     onJoinLobby: (gameId: string, roomCode: string) => void
     onBack: () => void
@@ -45,6 +39,15 @@ const truncateAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`
 }
 
+// Empty or unparseable stake bounds don't filter anything
+const parseStakeBound = (value: string) => {
+    try {
+        return value.trim() ? parseEther(value.trim()) : null
+    } catch {
+        return null
+    }
+}
+
 const formatCELO = (tokenAmount: string | number) => {
     try {
         // Backend sends token units (0.001), not Wei
@@ -67,12 +70,29 @@ export default function PublicLobbiesScreen({
     const [error, setError] = useState('')
     const [sortBy, setSortBy] = useState<'newest' | 'stake' | 'players'>('newest')
 
+    // Filters
+    const [search, setSearch] = useState('')
+    const [minStake, setMinStake] = useState('')
+    const [maxStake, setMaxStake] = useState('')
+    const [minSeatsOpen, setMinSeatsOpen] = useState(0)
+    const [minLobbySize, setMinLobbySize] = useState('')
+    const [maxLobbySize, setMaxLobbySize] = useState('')
+    const [affordableOnly, setAffordableOnly] = useState(false)
+
     // Staking modal state
     const [showStakingModal, setShowStakingModal] = useState(false)
     const [selectedLobby, setSelectedLobby] = useState<PublicLobby | null>(null)
+    const houseCut = useHouseCut()
     const [isStaking, setIsStaking] = useState(false)
     const [stakingError, setStakingError] = useState('')
 
+    // Quick match: the matched game's stake deadline while its modal is open
+    const [matchDeadline, setMatchDeadline] = useState<number | null>(null)
+    const [now, setNow] = useState(Date.now())
+    const { isConnected, leaveQueue, subscribe, emitEvent } = useSocket()
+    const emitEventRef = useRef(emitEvent)
+    emitEventRef.current = emitEvent
+
     // Wagmi hooks
     const { address } = useAccount()
     const { data: balanceData } = useBalance({ address })
@@ -107,13 +127,83 @@ export default function PublicLobbiesScreen({
         }
     }
 
-    // Initial fetch and periodic refresh
+    // Initial fetch
     useEffect(() => {
         fetchLobbies(true)
+    }, [])
+
+    // Live updates: refetch on every (re)connect since pushes sent while
+    // disconnected are lost, then let the server push changes
+    useEffect(() => {
+        if (!isConnected) return
+        fetchLobbies(false)
+        emitEventRef.current('watch_lobbies', {})
+        return () => {
+            emitEventRef.current('unwatch_lobbies', {})
+        }
+    }, [isConnected])
+
+    useEffect(() => subscribe('lobby_update', update => {
+        setLobbies(current => {
+            if (update.type === 'remove') {
+                return current.filter(lobby => lobby.gameId !== update.gameId)
+            }
+            return [update.lobby, ...current.filter(lobby => lobby.gameId !== update.lobby.gameId)]
+        })
+    }), [subscribe])
+
+    // Fall back to polling while the socket is down
+    useEffect(() => {
+        if (isConnected) return
         const interval = setInterval(() => fetchLobbies(false), 5000)
         return () => clearInterval(interval)
+    }, [isConnected])
+
+    useEffect(() => {
+        if (!matchDeadline) return
+        const interval = setInterval(() => setNow(Date.now()), 1000)
+        return () => clearInterval(interval)
+    }, [matchDeadline])
+
+    // A quick match game goes through the same stake-and-join flow as a picked lobby
+    const handleMatchFound = useCallback((match: MatchFound) => {
+        setSelectedLobby({
+            gameId: match.gameId,
+            roomCode: match.roomCode,
+            creator: '',
+            stakeAmount: match.stakeAmount,
+            stakeAmountFormatted: match.stakeAmountFormatted,
+            minPlayers: match.lobbySize,
+            maxPlayers: match.lobbySize,
+            playerCount: match.players,
+            currentPlayers: [],
+            createdAt: new Date().toISOString(),
+            contractGameId: match.contractGameId
+        })
+        setMatchDeadline(match.stakeDeadline)
+        setNow(Date.now())
+        setStakingError('')
+        setShowStakingModal(true)
     }, [])
 
+    // The seat was given away (stake deadline passed)
+    const selectedLobbyRef = useRef<PublicLobby | null>(null)
+    selectedLobbyRef.current = selectedLobby
+    const handleMatchLost = useCallback((gameId: string) => {
+        if (selectedLobbyRef.current?.gameId !== gameId) return
+        setShowStakingModal(false)
+        setMatchDeadline(null)
+    }, [])
+
+    // Closing a quick match without staking hands the seat back to the queue
+    const closeStakingModal = () => {
+        if (matchDeadline) {
+            leaveQueue(playerAddress).catch(err => console.error('❌ Failed to leave quick match:', err))
+            setMatchDeadline(null)
+        }
+        setShowStakingModal(false)
+    }
+
     const handleJoinClick = (lobby: PublicLobby) => {
         setSelectedLobby(lobby)
         setShowStakingModal(true)
@@ -166,7 +256,7 @@ export default function PublicLobbiesScreen({
             // Record stake in backend
             const recordResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/game/record-stake`, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: { 'Content-Type': 'application/json', ...authHeaders() },
                 body: JSON.stringify({
                     gameId: gameData.gameId,
                     playerAddress: playerAddress,
@@ -179,6 +269,7 @@ export default function PublicLobbiesScreen({
             if (recordResult.success) {
                 console.log('✅ Stake recorded successfully')
                 setShowStakingModal(false)
+                setMatchDeadline(null)
                 // Navigate to lobby
                 onJoinLobby(gameData.gameId, gameData.roomCode)
             } else {
@@ -193,8 +284,35 @@ export default function PublicLobbiesScreen({
         }
     }
 
+    // Filter lobbies
+    const query = search.trim().toLowerCase()
+    const minStakeWei = parseStakeBound(minStake)
+    const maxStakeWei = parseStakeBound(maxStake)
+    const filteredLobbies = lobbies.filter(lobby => {
+        const stake = BigInt(lobby.stakeAmount)
+        if (query && ![lobby.roomCode, lobby.creator, lobby.creatorName || ''].some(field => field.toLowerCase().includes(query))) return false
+        if (minStakeWei !== null && stake < minStakeWei) return false
+        if (maxStakeWei !== null && stake > maxStakeWei) return false
+        if (lobby.minPlayers - lobby.playerCount < minSeatsOpen) return false
+        if (minLobbySize && lobby.minPlayers < Number(minLobbySize)) return false
+        if (maxLobbySize && lobby.minPlayers > Number(maxLobbySize)) return false
+        if (affordableOnly && (!balanceData || balanceData.value < stake)) return false
+        return true
+    })
+    const hasFilters = Boolean(query || minStake || maxStake || minSeatsOpen || minLobbySize || maxLobbySize || affordableOnly)
+
+    const clearFilters = () => {
+        setSearch('')
+        setMinStake('')
+        setMaxStake('')
+        setMinSeatsOpen(0)
+        setMinLobbySize('')
+        setMaxLobbySize('')
+        setAffordableOnly(false)
+    }
+
     // Sort lobbies
-    const sortedLobbies = [...lobbies].sort((a, b) => {
+    const sortedLobbies = [...filteredLobbies].sort((a, b) => {
         switch (sortBy) {
             case 'newest':
                 return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
@@ -258,6 +376,12 @@ export default function PublicLobbiesScreen({
                     </div>
                 </div>
 
+                <QuickMatchPanel
+                    playerAddress={playerAddress}
+                    onMatchFound={handleMatchFound}
+                    onMatchLost={handleMatchLost}
+                />
+
                 {/* Sort Options */}
                 <Card className="p-2 sm:p-3 bg-[#111111]/90 backdrop-blur-sm border-2 border-[#2a2a2a]">
                     <div className="flex flex-wrap gap-2">
@@ -289,6 +413,112 @@ export default function PublicLobbiesScreen({
                     </div>
                 </Card>
 
+                {/* Filters */}
+                <Card className="p-2 sm:p-3 bg-[#111111]/90 backdrop-blur-sm border-2 border-[#2a2a2a] space-y-3">
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                        <div className="space-y-1 col-span-2">
+                            <Label htmlFor="lobbySearch" className="text-[10px] sm:text-xs font-press-start text-gray-300">
+                                SEARCH
+                            </Label>
+                            <Input
+                                id="lobbySearch"
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="Room code or creator"
+                                className="text-sm"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="minStake" className="text-[10px] sm:text-xs font-press-start text-gray-300">
+                                MIN STAKE
+                            </Label>
+                            <Input
+                                id="minStake"
+                                type="number"
+                                min="0"
+                                step="0.001"
+                                value={minStake}
+                                onChange={(e) => setMinStake(e.target.value)}
+                                placeholder="Any"
+                                className="text-sm"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="maxStake" className="text-[10px] sm:text-xs font-press-start text-gray-300">
+                                MAX STAKE
+                            </Label>
+                            <Input
+                                id="maxStake"
+                                type="number"
+                                min="0"
+                                step="0.001"
+                                value={maxStake}
+                                onChange={(e) => setMaxStake(e.target.value)}
+                                placeholder="Any"
+                                className="text-sm"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="text-[10px] sm:text-xs font-press-start text-gray-300">
+                                PLAYERS
+                            </Label>
+                            <div className="flex gap-1">
+                                <Input
+                                    aria-label="Minimum players"
+                                    type="number"
+                                    min="1"
+                                    value={minLobbySize}
+                                    onChange={(e) => setMinLobbySize(e.target.value)}
+                                    placeholder="Min"
+                                    className="text-sm"
+                                />
+                                <Input
+                                    aria-label="Maximum players"
+                                    type="number"
+                                    min="1"
+                                    value={maxLobbySize}
+                                    onChange={(e) => setMaxLobbySize(e.target.value)}
+                                    placeholder="Max"
+                                    className="text-sm"
+                                />
+                            </div>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        <span className="text-xs font-press-start text-gray-300 self-center mr-2">SEATS OPEN:</span>
+                        {[0, 1, 2, 3].map(seats => (
+                            <Button
+                                key={seats}
+                                onClick={() => setMinSeatsOpen(seats)}
+                                variant={minSeatsOpen === seats ? 'pixel' : 'pixelOutline'}
+                                size="pixel"
+                                className="text-xs"
+                            >
+                                {seats === 0 ? 'ANY' : `${seats}+`}
+                            </Button>
+                        ))}
+                        <Button
+                            onClick={() => setAffordableOnly(!affordableOnly)}
+                            variant={affordableOnly ? 'pixel' : 'pixelOutline'}
+                            size="pixel"
+                            className="text-xs"
+                            disabled={!balanceData}
+                        >
+                            💰 JOINABLE WITH MY BALANCE
+                        </Button>
+                        {hasFilters && (
+                            <Button
+                                onClick={clearFilters}
+                                variant="pixelOutline"
+                                size="pixel"
+                                className="text-xs"
+                            >
+                                ✖ CLEAR
+                            </Button>
+                        )}
+                    </div>
+                </Card>
+
                 {/* Error Message */}
                 {error && (
                     <Card className="p-3 bg-red-900/20 border-2 border-red-500/50">
@@ -299,7 +529,24 @@ export default function PublicLobbiesScreen({
                 )}
 
                 {/* Lobbies Grid */}
-                {sortedLobbies.length === 0 ? (
+                {sortedLobbies.length === 0 && lobbies.length > 0 ? (
+                    <Card className="p-8 bg-[#111111]/90 backdrop-blur-sm border-2 border-[#2a2a2a] text-center">
+                        <div className="text-4xl mb-4">🔍</div>
+                        <div className="text-lg font-press-start pixel-text-3d-green mb-2">
+                            NO MATCHING LOBBIES
+                        </div>
+                        <div className="text-sm text-gray-400 font-press-start mb-4">
+                            {lobbies.length} {lobbies.length === 1 ? 'lobby is' : 'lobbies are'} hidden by your filters
+                        </div>
+                        <Button
+                            onClick={clearFilters}
+                            variant="pixelOutline"
+                            size="pixel"
+                        >
+                            ✖ CLEAR FILTERS
+                        </Button>
+                    </Card>
+                ) : sortedLobbies.length === 0 ? (
                     <Card className="p-8 bg-[#111111]/90 backdrop-blur-sm border-2 border-[#2a2a2a] text-center">
                         <div className="text-4xl mb-4">😔</div>
                         <div className="text-lg font-press-start pixel-text-3d-green mb-2">
@@ -374,19 +621,21 @@ export default function PublicLobbiesScreen({
 
                 {/* Refresh Info */}
                 <div className="text-center text-xs text-gray-500">
-                    Auto-refreshing every 5 seconds • {lobbies.length} {lobbies.length === 1 ? 'lobby' : 'lobbies'} available
+                    {isConnected ? '🟢 Live' : 'Reconnecting - refreshing every 5 seconds'} • {hasFilters ? `${sortedLobbies.length} of ` : ''}{lobbies.length} {lobbies.length === 1 ? 'lobby' : 'lobbies'} available
                 </div>
             </div>
 
             {/* Staking Modal */}
-            <Dialog open={showStakingModal} onOpenChange={setShowStakingModal}>
-                <DialogContent className="bg-[#111111]/90 backdrop-blur-sm border-2 border-[#4A8C4A] max-w-md">
+            <Dialog open={showStakingModal} onOpenChange={(open) => { if (!open) closeStakingModal() }}>
+                <DialogContent className="bg-[#111111]/90 backdrop-blur-sm border-2 border-[#4A8C4A] max-w-md max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
                         <DialogTitle className="font-press-start text-lg pixel-text-3d-green text-center">
-                            💰 STAKE & JOIN
+                            {matchDeadline ? '⚡ MATCH FOUND' : '💰 STAKE & JOIN'}
                         </DialogTitle>
                         <DialogDescription className="text-xs text-gray-400 text-center">
-                            Join the lobby by staking the required amount
+                            {matchDeadline
+                                ? `Stake within ${Math.max(0, Math.ceil((matchDeadline - now) / 1000))}s to keep your seat`
+                                : 'Join the lobby by staking the required amount'}
                         </DialogDescription>
                     </DialogHeader>
                     <div className="text-center space-y-3 pt-4">
@@ -426,6 +675,14 @@ export default function PublicLobbiesScreen({
                                     </div>
                                 </div>
 
+                                <HouseCutWarning houseCut={houseCut} />
+                                <PayoutPreview
+                                    stakeAmount={selectedLobby.stakeAmount}
+                                    playerCount={selectedLobby.minPlayers}
+                                    composition={selectedLobby.composition ?? autoComposition(selectedLobby.minPlayers)}
+                                    houseCut={houseCut}
+                                />
+
                                 {stakingError && (
                                     <div className="text-sm text-red-400 font-press-start">
                                         ❌ {stakingError}
@@ -436,7 +693,7 @@ export default function PublicLobbiesScreen({
                     </div>
                     <DialogFooter className="flex-col sm:flex-row gap-2">
                         <Button
-                            onClick={() => setShowStakingModal(false)}
+                            onClick={closeStakingModal}
                             variant="pixelOutline"
                             size="pixelLarge"
                             disabled={isStaking}
@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import GifLoader from "@/components/common/gif-loader"
 import RetroAnimation from "@/components/common/retro-animation"
-import type { Role } from "@/app/page"
+import type { Role } from "@/components/game/game-flow"
 
 interface RoleAssignmentScreenProps {
   role: Role
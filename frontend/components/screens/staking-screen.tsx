@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -14,6 +15,11 @@ import LobbySettingsDialog, { FullGameSettings, FALLBACK_GAME_SETTINGS } from "@
 import { useGameDefaults } from "@/hooks/useGameDefaults"
 import FaucetButton from "@/components/wallet/faucet-button"
 import { activeChain } from "@/lib/wagmi"
+import { authHeaders } from "@/utils/authSession"
+import { resolveComposition } from "@/utils/roleShuffle"
+import OutcomeSimulationPanel from "@/components/game/outcome-simulation-panel"
+import PayoutPreview, { formatHouseCut, HouseCutWarning } from "@/components/game/payout-breakdown"
+import { useHouseCut } from "@/hooks/useHouseCut"
 
 interface StakingScreenProps {
   gameId?: string // Optional for room creation
@@ -25,6 +31,9 @@ interface StakingScreenProps {
   initialRoomCode?: string // Pre-fill room code (e.g., from public lobbies)
 }
 
+// Lobbies created here start once this many players have staked
+const CREATED_LOBBY_SIZE = 4
+
 interface StakingInfo {
   gameId: string
   roomCode: string
@@ -100,6 +109,9 @@ export default function StakingScreen({ gameId, playerAddress, onStakeSuccess, o
 
   const stakeAmount = getValidatedStakeAmount();
   const stakeAmountFormatted = parseFloat(stakeAmount).toFixed(4);
+  const previewStakeWei = parseEther(stakeAmount).toString();
+  const houseCut = useHouseCut();
+  const createdComposition = resolveComposition(CREATED_LOBBY_SIZE, gameSettings.roleSetup);
 
   // EVM wallet hooks
   const { address, isConnected, balance, balanceFormatted, isCorrectNetwork } = useWalletContext();
@@ -168,7 +180,7 @@ export default function StakingScreen({ gameId, playerAddress, onStakeSuccess, o
 
           const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/game/record-stake`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
             body: JSON.stringify(requestBody),
           })
 
@@ -284,11 +296,11 @@ export default function StakingScreen({ gameId, playerAddress, onStakeSuccess, o
         try {
           const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/game/create-and-join`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
             body: JSON.stringify({
               creatorAddress: playerAddress,
               stakeAmount: parseFloat(stakeAmount), // Send as number in token units (e.g., 0.001)
-              minPlayers: 4, // Use default minPlayers (not customizable)
+              minPlayers: CREATED_LOBBY_SIZE,
               isPublic: isPublic,
               settings: gameSettings // Pass custom game settings (phase durations only)
             }),
@@ -557,6 +569,41 @@ export default function StakingScreen({ gameId, playerAddress, onStakeSuccess, o
             </div>
           )}
 
+          {/* Where the pot goes under the contract's current house cut */}
+          {mode === 'create' && (
+            <>
+              <HouseCutWarning houseCut={houseCut} />
+              <PayoutPreview
+                stakeAmount={previewStakeWei}
+                playerCount={CREATED_LOBBY_SIZE}
+                composition={createdComposition}
+                houseCut={houseCut}
+              />
+            </>
+          )}
+
+          {/* How the current settings and stake tend to play out */}
+          {mode === 'create' && (
+            <div className="space-y-2 p-3 border-2 border-[#2a2a2a] rounded-lg bg-[#1a1a1a]/30">
+              <div className="text-xs font-press-start text-gray-300 text-center">
+                🎲 SIMULATED OUTCOMES
+              </div>
+              <OutcomeSimulationPanel
+                params={{
+                  playerCount: CREATED_LOBBY_SIZE,
+                  composition: createdComposition,
+                  maxTaskCount: gameSettings.maxTaskCount,
+                  nightPhaseDuration: gameSettings.nightPhaseDuration,
+                  resolutionPhaseDuration: gameSettings.resolutionPhaseDuration,
+                  taskPhaseDuration: gameSettings.taskPhaseDuration,
+                  votingPhaseDuration: gameSettings.votingPhaseDuration,
+                  stake: parseFloat(stakeAmount),
+                  houseCutBps: houseCut.houseCutBps,
+                }}
+              />
+            </div>
+          )}
+
           {/* Join mode UI */}
           {mode === 'join' && (
             <>
@@ -609,6 +656,12 @@ export default function StakingScreen({ gameId, playerAddress, onStakeSuccess, o
                   </Button>
                 </div>
               )}
+
+              <div className="text-center">
+                <Link href="/leaderboard" className="text-xs font-press-start text-yellow-300 hover:underline">
+                  🏅 LEADERBOARD
+                </Link>
+              </div>
             </>
           )}
 
@@ -673,9 +726,9 @@ export default function StakingScreen({ gameId, playerAddress, onStakeSuccess, o
           {/* Info */}
           <div className="text-xs text-gray-500 text-center space-y-0.5 sm:space-y-1">
             <div>• Minimum stake: 0.001 {activeChain.nativeCurrency.symbol}</div>
-            <div>• Winners get 98% of total pool</div>
+            <div>• Winners get {(10000 - houseCut.houseCutBps) / 100}% of total pool</div>
             <div>• Losers get 0% of total pool</div>
-            <div>• 2% house cut applies</div>
+            <div>• {formatHouseCut(houseCut.houseCutBps)} house cut applies{houseCut.isLive ? '' : ' (default - contract unreachable)'}</div>
           </div>
         </div>
 
@@ -686,6 +739,9 @@ export default function StakingScreen({ gameId, playerAddress, onStakeSuccess, o
           onOpenChange={setShowSettingsDialog}
           settings={gameSettings}
           onSettingsChange={setGameSettings}
+          playerCount={CREATED_LOBBY_SIZE}
+          stakeAmount={previewStakeWei}
+          houseCutBps={houseCut.houseCutBps}
           onSave={() => {
             console.log('Game settings updated:', gameSettings);
           }}
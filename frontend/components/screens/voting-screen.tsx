@@ -10,6 +10,11 @@ import ColoredPlayerName from "@/components/game/colored-player-name"
 import TipBar from "@/components/common/tip-bar"
 import ScreenHeader from "@/components/common/screen-header"
 import VotingResolutionScreen from "@/components/screens/voting-resolution-screen"
+import ActionDeliveryStatus from "@/components/game/action-delivery-status"
+import { useActionDelivery } from "@/hooks/useActionDelivery"
+import { useTimeLeft } from "@/hooks/useTimeLeft"
+import { useGameSelector } from "@/contexts/GameStoreContext"
+import { selectVoteTally } from "@/services/gameSelectors"
 
 interface VotingScreenProps {
   players: Player[]
@@ -18,33 +23,28 @@ interface VotingScreenProps {
   submitVote: (vote: string) => Promise<void>
   isConnected: boolean
   onComplete: () => void
+  readOnly?: boolean // Spectator and replay views: tallies only, no voting
 }
 
-export default function VotingScreen({ players, game, currentPlayer, submitVote, isConnected, onComplete }: VotingScreenProps) {
+export default function VotingScreen({ players, game, currentPlayer, submitVote, isConnected, onComplete, readOnly = false }: VotingScreenProps) {
   const [selectedVote, setSelectedVote] = useState<string | null>(null)
   const [submitted, setSubmitted] = useState(false)
   const [showResult, setShowResult] = useState(false)
   const [eliminatedPlayer, setEliminatedPlayer] = useState<Player | null>(null)
   const [eliminatedPlayerAvatar, setEliminatedPlayerAvatar] = useState<string | null>(null)
-  const [timeLeft, setTimeLeft] = useState(0)
+  const timeLeft = useTimeLeft()
+  const voteTally = useGameSelector(selectVoteTally)
   const [resultShown, setResultShown] = useState(false)
   const [eliminatedCountBeforeVoting, setEliminatedCountBeforeVoting] = useState<number>(0)
   const [keyboardFocusIndex, setKeyboardFocusIndex] = useState<number>(0)
+  const { delivery: voteDelivery } = useActionDelivery('vote')
 
-  // Real-time timer sync with backend
+  // A retried vote that goes through counts as submitted
   useEffect(() => {
-    if (game?.timeLeft !== undefined) {
-      setTimeLeft(game.timeLeft)
-
-      // Start local countdown to match backend
-      if (game.timeLeft > 0) {
-        const timer = setTimeout(() => {
-          setTimeLeft(prev => Math.max(0, prev - 1))
-        }, 1000)
-        return () => clearTimeout(timer)
-      }
+    if (voteDelivery?.status === 'confirmed') {
+      setSubmitted(true)
     }
-  }, [game?.timeLeft])
+  }, [voteDelivery?.status])
 
   // Check if player already voted
   useEffect(() => {
@@ -157,7 +157,7 @@ export default function VotingScreen({ players, game, currentPlayer, submitVote,
 
   // Keyboard navigation (arrow keys + Enter) - hidden feature
   useEffect(() => {
-    if (submitted || showResult || game?.phase !== 'voting') return
+    if (readOnly || submitted || showResult || game?.phase !== 'voting') return
 
     const alivePlayers = players.filter(p => p.isAlive)
     if (alivePlayers.length === 0) return
@@ -184,10 +184,10 @@ export default function VotingScreen({ players, game, currentPlayer, submitVote,
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [submitted, showResult, game?.phase, players, selectedVote, keyboardFocusIndex])
+  }, [readOnly, submitted, showResult, game?.phase, players, selectedVote, keyboardFocusIndex])
 
   const handleVote = async (playerId: string) => {
-    if (submitted || game?.phase !== 'voting') return
+    if (readOnly || submitted || voteDelivery?.status === 'sending' || game?.phase !== 'voting') return
 
     // If clicking the same player that's already selected, confirm and submit
     if (selectedVote === playerId) {
@@ -209,23 +209,12 @@ export default function VotingScreen({ players, game, currentPlayer, submitVote,
     // Use lastVotingResult as fallback if votingResult is undefined (happens after phase transition)
     const votingResult = game?.votingResult || game?.lastVotingResult;
 
-    const totalVotes = game?.votes ? Object.keys(game.votes).length : 0
+    const { totalVotes, counts: voteCounts, maxVotes } = voteTally
     const noVotesCast = totalVotes === 0
 
-    // Count votes per player to detect actual ties
-    const voteCounts: { [key: string]: number } = {}
-    if (game?.votes) {
-      Object.values(game.votes).forEach((target) => {
-        if (typeof target === 'string') {
-          voteCounts[target] = (voteCounts[target] || 0) + 1
-        }
-      })
-    }
-
-    // Find max votes and count how many players have that max
-    const maxVotes = Math.max(...Object.values(voteCounts), 0)
-    const playersWithMaxVotes = Object.values(voteCounts).filter(count => count === maxVotes).length
-    const isActualTie = maxVotes > 0 && playersWithMaxVotes > 1
+    // An actual tie is several players sharing the max vote count
+    const playersWithMaxVotes = voteTally.leaders.length
+    const isActualTie = playersWithMaxVotes > 1
 
     console.log('🗳️ Frontend vote analysis:', {
       totalVotes,
@@ -276,13 +265,16 @@ export default function VotingScreen({ players, game, currentPlayer, submitVote,
           <h1 className="text-4xl md:text-5xl font-bold pixel-text-3d-white pixel-text-3d-float-long">VOTING PHASE</h1>
           <div className="text-5xl md:text-7xl font-bold pixel-text-3d-blue my-2">{timeLeft}</div>
           <div className={`w-full bg-black/50 border-2 p-3 text-lg md:text-xl ${selectedVote && !submitted ? 'border-yellow-400 text-yellow-400 animate-pulse' : 'border-gray-500 text-gray-300'}`}>
-            {submitted
+            {readOnly
+              ? "OBSERVING THE VOTE"
+              : submitted
               ? "Vote confirmed. Waiting for others..."
               : selectedVote
                 ? `You selected ${players.find(p => p.id === selectedVote)?.name}. Click again to confirm.`
                 : "Click a player to cast your vote."
             }
           </div>
+          <ActionDeliveryStatus kind="vote" className="mt-2" />
 
           {/* Voting Phase Tips */}
           <TipBar
@@ -308,7 +300,7 @@ export default function VotingScreen({ players, game, currentPlayer, submitVote,
               const isEliminated = !player.isAlive;
 
               // Calculate vote count for this player
-              const voteCount = game?.votes ? Object.values(game.votes).filter(vote => vote === player.id).length : 0;
+              const voteCount = voteTally.counts[player.id] || 0;
               const hasVotes = voteCount > 0;
 
               return (
@@ -322,8 +314,8 @@ export default function VotingScreen({ players, game, currentPlayer, submitVote,
                         ? 'outline-white bg-black/50' // Locked-in vote
                         : isSelected
                           ? 'outline-yellow-400 bg-yellow-400/20 animate-pulse' // Selected, not yet confirmed
-                          : submitted
-                            ? 'opacity-50 cursor-not-allowed' // Vote submitted, this player wasn't chosen
+                          : submitted || readOnly
+                            ? 'opacity-50 cursor-not-allowed' // Vote submitted (or spectating), this player wasn't chosen
                             : 'outline-transparent hover:outline-yellow-400 cursor-pointer hover:-translate-y-1' // Default state
                     }`}
                   onClick={() => !isEliminated && handleVote(player.id)}
@@ -357,6 +349,7 @@ export default function VotingScreen({ players, game, currentPlayer, submitVote,
                       playerName={player.name}
                       isCurrentPlayer={player.id === currentPlayer?.id}
                       showYouIndicator={true}
+                      address={player.address}
                     />
                     {isEliminated && (
                       <div className="mt-1 px-2 py-1 bg-red-900/50 border border-red-500/50 text-red-300 text-xs font-press-start rounded-none">
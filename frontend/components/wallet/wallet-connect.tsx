@@ -16,7 +16,7 @@ interface WalletConnectProps {
 }
 
 export default function WalletConnect({ onAddressChange, onJoinGame, onCreateLobby, onPublicLobby }: WalletConnectProps) {
-  const { address, isConnected, disconnect, isCorrectNetwork, switchNetwork, chainId } = useWalletContext();
+  const { address, isConnected, disconnect, isCorrectNetwork, switchNetwork, chainId, isAuthenticated, isSigningIn, authError, signIn } = useWalletContext();
   const previousAddressRef = useRef<string | null>(null);
 
   useEffect(() => {
@@ -97,7 +97,27 @@ export default function WalletConnect({ onAddressChange, onJoinGame, onCreateLob
                 </div>
 
                 <div className="space-y-3 sm:space-y-4">
-                  {onJoinGame && (
+                  {!isAuthenticated && (
+                    <div className="space-y-3">
+                      <div className="text-sm text-yellow-400">
+                        {isSigningIn ? 'Check your wallet to sign in...' : 'Sign a message to prove this wallet is yours'}
+                      </div>
+                      {authError && (
+                        <div className="text-xs text-red-400 break-words">{authError}</div>
+                      )}
+                      <Button
+                        onClick={() => signIn()}
+                        disabled={isSigningIn}
+                        variant="pixel"
+                        size="pixelLarge"
+                        className="w-full text-sm sm:text-base"
+                      >
+                        {isSigningIn ? 'SIGNING IN...' : 'SIGN IN'}
+                      </Button>
+                    </div>
+                  )}
+
+                  {isAuthenticated && onJoinGame && (
                     <Button
                       onClick={onJoinGame}
                       variant="pixel"
@@ -108,7 +128,7 @@ export default function WalletConnect({ onAddressChange, onJoinGame, onCreateLob
                     </Button>
                   )}
 
-                  {onPublicLobby && (
+                  {isAuthenticated && onPublicLobby && (
                     <Button
                       onClick={onPublicLobby}
                       variant="pixel"
@@ -119,7 +139,7 @@ export default function WalletConnect({ onAddressChange, onJoinGame, onCreateLob
                     </Button>
                   )}
 
-                  {onCreateLobby && (
+                  {isAuthenticated && onCreateLobby && (
                     <Button
                       onClick={onCreateLobby}
                       variant="pixelRed"
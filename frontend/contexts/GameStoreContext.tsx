@@ -0,0 +1,308 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, useSyncExternalStore, ReactNode } from 'react'
+import { useSocket } from '@/contexts/SocketContext'
+import { useWalletContext } from '@/contexts/WalletContext'
+import { useSessionKey } from '@/hooks/useSessionKey'
+import { apiService } from '@/services/api'
+import { actionOutbox } from '@/services/actionOutbox'
+import { createGameStore, GameStore, GameStoreState } from '@/services/gameStore'
+import {
+  selectCurrentGameId,
+  selectCurrentPlayerAddress,
+  selectDeliveryScope,
+  selectIsResyncing,
+  selectSnapshotGap
+} from '@/services/gameSelectors'
+import { GameUpdateEvent, ServerEventPayload } from '@/services/socketProtocol'
+import { clearGameSession } from '@/utils/sessionPersistence'
+
+interface GameStoreContextType {
+  store: GameStore
+  refreshGame: (explicitGameId?: string, explicitPlayerAddress?: string) => Promise<void>
+  resetGame: () => void
+}
+
+const GameStoreContext = createContext<GameStoreContextType | undefined>(undefined)
+
+interface GameStoreProviderProps {
+  children: ReactNode
+}
+
+function isMissingGameError(message: string): boolean {
+  const lower = message.toLowerCase()
+  return lower.includes('not found') || lower.includes('game not found') || lower.includes('invalid game')
+}
+
+function useStoreSelector<T>(store: GameStore, selector: (state: GameStoreState) => T): T {
+  return useSyncExternalStore(
+    store.subscribe,
+    () => selector(store.getState()),
+    () => selector(store.getState())
+  )
+}
+
+// Owns the game store and is the only place socket events are fed into it.
+// Listeners are bound once per socket instead of once per useGame() caller, and
+// never re-bound when game state changes, so no event can slip through a gap
+// between unsubscribe and subscribe.
+export function GameStoreProvider({ children }: GameStoreProviderProps) {
+  const { socket, isConnected, subscribe, requestSync, joinGame: socketJoinGame } = useSocket()
+  const [store] = useState(() => createGameStore())
+
+  // Reset game state and clear session
+  const resetGame = useCallback(() => {
+    console.log('🔄 Resetting game state and disconnecting socket')
+
+    store.dispatch({ type: 'reset' })
+
+    // Clear session from localStorage
+    clearGameSession()
+
+    // Drop any in-flight action deliveries
+    actionOutbox.clear()
+
+    // Disconnect socket if connected
+    if (socket?.connected) {
+      console.log('🔌 Disconnecting socket')
+      socket.disconnect()
+    }
+
+    console.log('✅ Game reset complete')
+  }, [socket, store])
+
+  const refreshGame = useCallback(async (explicitGameId?: string, explicitPlayerAddress?: string): Promise<void> => {
+    const { currentGameId, currentPlayerAddress } = store.getState()
+    const gameIdToUse = explicitGameId || currentGameId
+    const playerAddressToUse = explicitPlayerAddress || currentPlayerAddress || undefined
+
+    if (!gameIdToUse) return
+
+    // Don't set loading state for background refreshes
+    store.dispatch({ type: 'error_changed', error: null })
+
+    try {
+      const response = await apiService.getGame(gameIdToUse, playerAddressToUse)
+
+      if (response.success) {
+        // Polling can return a snapshot older than the last broadcast - the reducer drops it
+        store.dispatch({ type: 'snapshot_received', game: response.game })
+
+        if (playerAddressToUse && response.game.players.includes(playerAddressToUse)) {
+          store.dispatch({ type: 'player_selected', address: playerAddressToUse })
+        }
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to refresh game'
+
+      // If game not found, clear session instead of showing error
+      if (isMissingGameError(errorMessage)) {
+        console.log('🧹 Game not found - clearing session')
+        resetGame()
+        return
+      }
+
+      store.dispatch({ type: 'error_changed', error: errorMessage })
+    }
+  }, [store, resetGame])
+
+  // Socket event handlers - handlers read the store when they run instead of
+  // closing over render state, so they never need re-binding
+  useEffect(() => {
+    if (!socket) return
+
+    const handleGameState = (data: ServerEventPayload<'game_state'>) => {
+      store.dispatch({ type: 'snapshot_received', game: data.game, version: data.version })
+    }
+
+    const handleGameUpdate = (data: GameUpdateEvent) => {
+      // Game updates are already handled by game_state events
+      // Only refresh for specific critical updates that aren't broadcast via game_state
+      if (data.type && ['player_joined', 'player_afk', 'player_disconnected'].includes(data.type)) {
+        console.log('🎮 Critical game update, refreshing:', data.type)
+        if (store.getState().currentGameId) {
+          refreshGame()
+        }
+      }
+    }
+
+    const handleTaskUpdate = (data: ServerEventPayload<'task_update'>) => {
+      console.log('🎮 Task update:', data)
+    }
+
+    const handleTaskResult = (data: ServerEventPayload<'task_result'>) => {
+      // Task counts arrive through the game_patch that follows every task result;
+      // this event is only used for announcements
+      console.log(`📢 Task result: ${data.playerAddress}: ${data.isSuccess ? 'SUCCESS' : 'FAILURE'}, count: ${data.taskCount}`)
+    }
+
+    const handleError = (data: ServerEventPayload<'error'>) => {
+      // If game not found, clear session instead of showing error (don't log as error)
+      if (isMissingGameError(data.message)) {
+        console.log('🧹 Game session expired or invalid - clearing session')
+        resetGame()
+        return
+      }
+
+      // Only log and show actual unexpected errors
+      console.error('❌ Socket error:', data.message)
+      store.dispatch({ type: 'error_changed', error: data.message })
+    }
+
+    const handleGameCancelled = (data: ServerEventPayload<'game_cancelled'>) => {
+      console.log('🚫 Game cancelled:', data)
+      store.dispatch({ type: 'game_cancelled', reason: data.reason })
+    }
+
+    const handlePlayerRemoved = (data: ServerEventPayload<'player_removed'>) => {
+      if (data.playerAddress.toLowerCase() !== store.getState().currentPlayerAddress?.toLowerCase()) return
+      console.log('👢 Removed from game:', data)
+      store.dispatch({ type: 'player_removed', reason: data.refunded ? `${data.reason} - your stake was refunded` : data.reason })
+    }
+
+    // Handlers only receive payloads that passed protocol validation
+    const unsubscribers = [
+      subscribe('game_state', handleGameState),
+      subscribe('game_patch', patch => store.dispatch({ type: 'patch_received', patch })),
+      subscribe('game_update', handleGameUpdate),
+      subscribe('task_update', handleTaskUpdate),
+      subscribe('task_result', handleTaskResult),
+      subscribe('error', handleError),
+      subscribe('game_cancelled', handleGameCancelled),
+      subscribe('player_removed', handlePlayerRemoved),
+      subscribe('private_info', info => store.dispatch({ type: 'private_info_received', info }))
+    ]
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+    }
+  }, [socket, subscribe, store, refreshGame, resetGame])
+
+  const currentGameId = useStoreSelector(store, selectCurrentGameId)
+  const currentPlayerAddress = useStoreSelector(store, selectCurrentPlayerAddress)
+  const isResyncing = useStoreSelector(store, selectIsResyncing)
+  const snapshotGap = useStoreSelector(store, selectSnapshotGap)
+  const deliveryScope = useStoreSelector(store, selectDeliveryScope)
+  const { isAuthenticated } = useWalletContext()
+  const { renewSessionKey } = useSessionKey()
+  const isPlayerInGame = useStoreSelector(store, state =>
+    !!state.game && !!state.currentPlayerAddress && state.game.phase !== 'ended' &&
+    state.game.players.includes(state.currentPlayerAddress)
+  )
+
+  // After a patch gap, replace local state with a full snapshot: over the socket
+  // first (the server emits game_state if we're behind), REST if that fails
+  useEffect(() => {
+    if (!snapshotGap) return
+
+    const { lastSeen, currentPlayerAddress: playerAddress } = store.getState()
+    const sinceVersion = lastSeen?.gameId === snapshotGap ? lastSeen.version : 0
+
+    const fetchSnapshot = async () => {
+      try {
+        if (!playerAddress) {
+          throw new Error('No current player')
+        }
+        await requestSync(snapshotGap, playerAddress, sinceVersion)
+      } catch (err) {
+        console.warn('⚠️ Socket snapshot request failed, fetching over REST:', err)
+        try {
+          const response = await apiService.getGame(snapshotGap, playerAddress || undefined)
+          if (response.success) {
+            store.dispatch({ type: 'snapshot_received', game: response.game })
+          }
+        } catch (restErr) {
+          console.error('❌ Failed to fetch full game snapshot:', restErr)
+        }
+      } finally {
+        store.dispatch({ type: 'snapshot_gap_handled' })
+      }
+    }
+
+    fetchSnapshot()
+  }, [snapshotGap, store, requestSync])
+
+  // Action deliveries only make sense within the phase they were sent in
+  const lastDeliveryScope = useRef<string | null>(null)
+  useEffect(() => {
+    if (!deliveryScope) return
+    if (lastDeliveryScope.current && lastDeliveryScope.current !== deliveryScope) {
+      actionOutbox.clear()
+    }
+    lastDeliveryScope.current = deliveryScope
+  }, [deliveryScope])
+
+  // Auto-join game when gameId changes (with duplicate prevention)
+  useEffect(() => {
+    if (currentGameId && currentPlayerAddress && isConnected) {
+      console.log('🔌 Auto-joining socket game:', { currentGameId, playerAddress: currentPlayerAddress })
+      socketJoinGame(currentGameId, currentPlayerAddress)
+    }
+  }, [currentGameId, currentPlayerAddress, isConnected, socketJoinGame])
+
+  // Delegate a session key as soon as we're in a game, so the wallet prompt
+  // comes here and not in the middle of a timed phase. On every (re)connect the
+  // stored key is registered again: the backend may have restarted and forgotten it.
+  useEffect(() => {
+    if (!isAuthenticated || !isPlayerInGame || !currentGameId || !currentPlayerAddress || !isConnected) return
+
+    renewSessionKey(currentGameId, currentPlayerAddress).catch(err => {
+      console.warn('🔑 Session key delegation failed - will ask again on the next action:', err)
+    })
+  }, [isAuthenticated, isPlayerInGame, currentGameId, currentPlayerAddress, isConnected, renewSessionKey])
+
+  // Losing the socket while in a game means we may have missed broadcasts
+  useEffect(() => {
+    if (!isConnected && currentGameId) {
+      store.dispatch({ type: 'resync_changed', isResyncing: true })
+    }
+  }, [isConnected, currentGameId, store])
+
+  // Once reconnected (and re-joined above), ask for anything newer than what we saw.
+  // If the socket sync fails, fall back to a REST snapshot so the screen never stays frozen.
+  useEffect(() => {
+    if (!isResyncing || !isConnected || !currentGameId || !currentPlayerAddress) return
+
+    let cancelled = false
+    const { lastSeen } = store.getState()
+    const sinceVersion = lastSeen?.gameId === currentGameId ? lastSeen.version : 0
+
+    console.log('🔄 Resyncing game state from version', sinceVersion)
+    requestSync(currentGameId, currentPlayerAddress, sinceVersion)
+      .then(ack => {
+        console.log(ack.upToDate ? '✅ Resync: already up to date' : `✅ Resync: caught up to v${ack.version}`)
+      })
+      .catch(async err => {
+        console.warn('⚠️ Socket resync failed, refreshing over REST:', err)
+        await refreshGame(currentGameId, currentPlayerAddress)
+      })
+      .finally(() => {
+        if (!cancelled) store.dispatch({ type: 'resync_changed', isResyncing: false })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isResyncing, isConnected, currentGameId, currentPlayerAddress, requestSync, refreshGame, store])
+
+  return (
+    <GameStoreContext.Provider value={{ store, refreshGame, resetGame }}>
+      {children}
+    </GameStoreContext.Provider>
+  )
+}
+
+export function useGameStore() {
+  const context = useContext(GameStoreContext)
+  if (context === undefined) {
+    throw new Error('useGameStore must be used within a GameStoreProvider')
+  }
+  return context
+}
+
+// Subscribe to one slice of the game store - the component re-renders only
+// when the selected value changes
+export function useGameSelector<T>(selector: (state: GameStoreState) => T): T {
+  const { store } = useGameStore()
+  return useStoreSelector(store, selector)
+}
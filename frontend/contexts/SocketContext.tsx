@@ -1,7 +1,30 @@
 "use client"
 
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react'
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react'
 import { io, Socket } from 'socket.io-client'
+import { clearAuthSession, getAuthSession, subscribeAuthSession } from '@/utils/authSession'
+import { useSessionKey } from '@/hooks/useSessionKey'
+import {
+  AckedClientEventName,
+  ActionAck,
+  ClientEventName,
+  ClientEventPayload,
+  ServerEventName,
+  ServerEventPayload,
+  SubmitActionPayload,
+  SubmitTaskPayload,
+  SubmitVotePayload,
+  SendChatPayload,
+  SpectateAck,
+  SyncAck,
+  QueueAck,
+  parseActionAck,
+  parseClientEvent,
+  parseServerEvent,
+  parseQueueAck,
+  parseSpectateAck,
+  parseSyncAck
+} from '@/services/socketProtocol'
 
 interface SocketContextType {
   socket: Socket | null
@@ -9,10 +32,17 @@ interface SocketContextType {
   connect: () => void
   disconnect: () => void
   joinGame: (gameId: string, playerAddress: string) => void
-  submitAction: (data: any) => void
-  submitTask: (data: any) => void
-  submitVote: (data: any) => void
-  sendChatMessage: (data: any) => void
+  submitAction: (data: SubmitActionPayload) => void
+  submitTask: (data: SubmitTaskPayload) => void
+  submitVote: (data: SubmitVotePayload) => void
+  sendChatMessage: (data: SendChatPayload) => Promise<void>
+  emitEvent: <E extends ClientEventName>(event: E, payload: ClientEventPayload<E>) => boolean
+  emitWithAck: <E extends AckedClientEventName>(event: E, payload: ClientEventPayload<E>, timeoutMs?: number) => Promise<ActionAck>
+  requestSync: (gameId: string, playerAddress: string, sinceVersion: number) => Promise<SyncAck>
+  spectateGame: (roomCode: string) => Promise<SpectateAck>
+  joinQueue: (playerAddress: string, stakeTier: string, lobbySize: number) => Promise<QueueAck>
+  leaveQueue: (playerAddress: string) => Promise<QueueAck>
+  subscribe: <E extends ServerEventName>(event: E, handler: (payload: ServerEventPayload<E>) => void) => () => void
 }
 
 const SocketContext = createContext<SocketContextType | undefined>(undefined)
@@ -26,6 +56,9 @@ export function SocketProvider({ children }: SocketProviderProps) {
   const [isConnected, setIsConnected] = useState(false)
   const [reconnectAttempts, setReconnectAttempts] = useState(0)
   const [joinedGames, setJoinedGames] = useState<Set<string>>(new Set())
+  const { signGameAction } = useSessionKey()
+  // Token the current connection's handshake was made with
+  const authTokenRef = useRef<string | null>(getAuthSession()?.token ?? null)
 
   const connect = () => {
     if (socket?.connected) return
@@ -45,7 +78,12 @@ export function SocketProvider({ children }: SocketProviderProps) {
       withCredentials: false,
       autoConnect: true,
       upgrade: true, // Allow transport upgrades
-      rememberUpgrade: false // Don't remember failed upgrades
+      rememberUpgrade: false, // Don't remember failed upgrades
+      // Read on every (re)connect so the handshake always carries the latest SIWE token
+      auth: (cb) => {
+        authTokenRef.current = getAuthSession()?.token ?? null
+        cb({ token: authTokenRef.current })
+      }
     })
 
     newSocket.on('connect', () => {
@@ -57,6 +95,8 @@ export function SocketProvider({ children }: SocketProviderProps) {
     newSocket.on('disconnect', (reason) => {
       console.log('🔌 Disconnected from server:', reason)
       setIsConnected(false)
+      // The server dropped us from every room - joins must be re-sent after reconnect
+      setJoinedGames(new Set())
     })
 
     newSocket.on('connect_error', (error) => {
@@ -105,6 +145,16 @@ export function SocketProvider({ children }: SocketProviderProps) {
       console.error('🔌 Socket error:', error)
     })
 
+    // The server ignored an event because our session is gone - sign in again.
+    // A mismatch means the payload named another wallet; a new signature won't fix that.
+    newSocket.on('auth_required', (data: unknown) => {
+      const parsed = parseServerEvent('auth_required', data)
+      console.warn('🔐 Server requires sign-in:', parsed?.reason)
+      if (parsed && parsed.reason !== 'address_mismatch') {
+        clearAuthSession()
+      }
+    })
+
     setSocket(newSocket)
   }
 
@@ -113,16 +163,135 @@ export function SocketProvider({ children }: SocketProviderProps) {
       socket.disconnect()
       setSocket(null)
       setIsConnected(false)
+      setJoinedGames(new Set())
+    }
+  }
+
+  // Validate and emit a client → server event. Malformed payloads never hit the wire.
+  const emitEvent = <E extends ClientEventName>(event: E, payload: ClientEventPayload<E>): boolean => {
+    if (!socket || !isConnected) return false
+
+    const parsed = parseClientEvent(event, payload)
+    if (!parsed) return false
+
+    socket.emit(event, parsed)
+    return true
+  }
+
+  // Emit an action and wait for the server's acknowledgement. Rejects when the
+  // socket is down, the payload is malformed or no ack arrives within timeoutMs.
+  const emitWithAck = async <E extends AckedClientEventName>(event: E, payload: ClientEventPayload<E>, timeoutMs = 5000): Promise<ActionAck> => {
+    if (!socket || !isConnected) {
+      throw new Error('Socket not connected')
+    }
+
+    const parsed = parseClientEvent(event, payload)
+    if (!parsed) {
+      throw new Error(`Malformed ${event} payload`)
+    }
+
+    const response = await socket.timeout(timeoutMs).emitWithAck(event, parsed)
+    const ack = parseActionAck(event, response)
+    if (!ack) {
+      throw new Error(`Malformed ${event} acknowledgement`)
     }
+    return ack
   }
 
+  // Ask for anything newer than sinceVersion. If we're behind, the server emits a
+  // fresh game_state (handled by the normal subscription) before acking.
+  const requestSync = useCallback(async (gameId: string, playerAddress: string, sinceVersion: number): Promise<SyncAck> => {
+    if (!socket || !isConnected) {
+      throw new Error('Socket not connected')
+    }
+
+    const parsed = parseClientEvent('request_sync', { gameId, playerAddress, sinceVersion })
+    if (!parsed) {
+      throw new Error('Malformed request_sync payload')
+    }
+
+    const response = await socket.timeout(5000).emitWithAck('request_sync', parsed)
+    const ack = parseSyncAck(response)
+    if (!ack) {
+      throw new Error('Malformed request_sync acknowledgement')
+    }
+    if (!ack.ok) {
+      throw new Error(ack.error || 'Sync rejected by server')
+    }
+    return ack
+  }, [socket, isConnected])
+
+  // Start watching a game as a spectator. Resolves with the server's ack
+  // (ok: false when the game doesn't exist or spectating is off).
+  const spectateGame = useCallback(async (roomCode: string): Promise<SpectateAck> => {
+    if (!socket || !isConnected) {
+      throw new Error('Socket not connected')
+    }
+
+    const parsed = parseClientEvent('spectate_game', { roomCode })
+    if (!parsed) {
+      throw new Error('Malformed spectate_game payload')
+    }
+
+    const response = await socket.timeout(5000).emitWithAck('spectate_game', parsed)
+    const ack = parseSpectateAck(response)
+    if (!ack) {
+      throw new Error('Malformed spectate_game acknowledgement')
+    }
+    return ack
+  }, [socket, isConnected])
+
+  // Quick match queue. Both resolve with the server's ack; queue_status,
+  // match_found and queue_cancelled follow as ordinary server events.
+  const emitQueueEvent = useCallback(async <E extends 'queue_join' | 'queue_leave'>(event: E, payload: ClientEventPayload<E>): Promise<QueueAck> => {
+    if (!socket || !isConnected) {
+      throw new Error('Socket not connected')
+    }
+
+    const parsed = parseClientEvent(event, payload)
+    if (!parsed) {
+      throw new Error(`Malformed ${event} payload`)
+    }
+
+    const response = await socket.timeout(10000).emitWithAck(event, parsed)
+    const ack = parseQueueAck(event, response)
+    if (!ack) {
+      throw new Error(`Malformed ${event} acknowledgement`)
+    }
+    return ack
+  }, [socket, isConnected])
+
+  const joinQueue = useCallback((playerAddress: string, stakeTier: string, lobbySize: number) =>
+    emitQueueEvent('queue_join', { playerAddress, stakeTier, lobbySize }), [emitQueueEvent])
+
+  const leaveQueue = useCallback((playerAddress: string) =>
+    emitQueueEvent('queue_leave', { playerAddress }), [emitQueueEvent])
+
+  // Listen for a server → client event; the handler only sees validated payloads.
+  // Returns an unsubscribe function for effect cleanup.
+  // Memoized on the socket so effects that subscribe don't re-run every render.
+  const subscribe = useCallback(<E extends ServerEventName>(event: E, handler: (payload: ServerEventPayload<E>) => void) => {
+    if (!socket) return () => {}
+
+    const listener = (data: unknown) => {
+      const parsed = parseServerEvent(event, data)
+      if (parsed) handler(parsed)
+    }
+
+    socket.on(event as string, listener)
+    return () => {
+      socket.off(event as string, listener)
+    }
+  }, [socket])
+
   const joinGame = (gameId: string, playerAddress: string) => {
     if (socket && isConnected) {
       const joinKey = `${gameId}-${playerAddress}`
       if (!joinedGames.has(joinKey)) {
         console.log('🎮 Joining game:', { gameId, playerAddress })
-        socket.emit('join_game', { gameId, playerAddress })
-        setJoinedGames(prev => new Set(prev).add(joinKey))
+        if (emitEvent('join_game', { gameId, playerAddress })) {
+          setJoinedGames(prev => new Set(prev).add(joinKey))
+        }
       } else {
         console.log('🎮 Already joined game, skipping:', { gameId, playerAddress })
       }
@@ -131,27 +300,27 @@ export function SocketProvider({ children }: SocketProviderProps) {
     }
   }
 
-  const submitAction = (data: any) => {
-    if (socket && isConnected) {
-      socket.emit('submit_action', data)
-    }
+  const submitAction = (data: SubmitActionPayload) => {
+    emitEvent('submit_action', data)
   }
 
-  const submitTask = (data: any) => {
-    if (socket && isConnected) {
-      socket.emit('submit_task', data)
-    }
+  const submitTask = (data: SubmitTaskPayload) => {
+    emitEvent('submit_task', data)
   }
 
-  const submitVote = (data: any) => {
-    if (socket && isConnected) {
-      socket.emit('submit_vote', data)
-    }
+  const submitVote = (data: SubmitVotePayload) => {
+    emitEvent('submit_vote', data)
   }
 
-  const sendChatMessage = (data: any) => {
-    if (socket && isConnected) {
-      socket.emit('chat_message', data)
+  // Chat has no requestId; the signed timestamp bounds replays instead
+  const sendChatMessage = async (data: SendChatPayload) => {
+    const message = data.message.trim()
+    const timestamp = data.timestamp ?? Date.now()
+    try {
+      const sessionSignature = await signGameAction('chat', data.gameId, data.playerAddress, null, { message, timestamp })
+      emitEvent('chat_message', { ...data, message, timestamp, sessionSignature })
+    } catch (error) {
+      console.error('💬 Could not sign chat message:', error)
     }
   }
 
@@ -164,6 +333,21 @@ export function SocketProvider({ children }: SocketProviderProps) {
     }
   }, [])
 
+  // The handshake token is fixed per connection: reconnect when the user signs
+  // in, out or as another wallet so the server sees the new session
+  useEffect(() => {
+    if (!socket) return
+
+    return subscribeAuthSession((session) => {
+      const token = session?.token ?? null
+      if (token === authTokenRef.current) return
+
+      console.log('🔐 Auth session changed - reconnecting socket')
+      socket.disconnect()
+      socket.connect()
+    })
+  }, [socket])
+
   // Auto-reconnect when connection is lost
   useEffect(() => {
     if (!isConnected && reconnectAttempts < 3) {
@@ -185,7 +369,14 @@ export function SocketProvider({ children }: SocketProviderProps) {
     submitAction,
     submitTask,
     submitVote,
-    sendChatMessage
+    sendChatMessage,
+    emitEvent,
+    emitWithAck,
+    requestSync,
+    spectateGame,
+    joinQueue,
+    leaveQueue,
+    subscribe
   }
 
   return (
@@ -1,8 +1,11 @@
 'use client';
 
-import { createContext, useContext, ReactNode } from 'react';
-import { useAccount, useConnect, useDisconnect, useSwitchChain, useBalance } from 'wagmi';
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { useAccount, useConnect, useDisconnect, useSwitchChain, useBalance, useSignMessage } from 'wagmi';
 import { activeChain } from '@/lib/wagmi';
+import { apiService } from '@/services/api';
+import { AuthSession, clearAuthSession, getAuthSession, saveAuthSession, subscribeAuthSession } from '@/utils/authSession';
+import { buildSiweMessage } from '@/utils/siwe';
 
 interface WalletContextType {
     address: string | undefined;
@@ -15,8 +18,15 @@ interface WalletContextType {
     balanceFormatted: string | undefined;
     chainId: number | undefined;
     isCorrectNetwork: boolean;
+    // Sign-In with Ethereum session for the connected wallet
+    isAuthenticated: boolean;
+    isSigningIn: boolean;
+    authError: string | null;
+    signIn: () => Promise<void>;
 }
 
+const SIWE_STATEMENT = 'Sign in to Pepasur. This request will not trigger a transaction or cost any gas.';
+
 const WalletContext = createContext<WalletContextType | undefined>(undefined);
 
 interface WalletProviderProps {
@@ -29,6 +39,13 @@ export function WalletProvider({ children }: WalletProviderProps) {
     const { disconnect: wagmiDisconnect } = useDisconnect();
     const { switchChain } = useSwitchChain();
 
+    const { signMessageAsync } = useSignMessage();
+    const [authSession, setAuthSession] = useState<AuthSession | null>(null);
+    const [isSigningIn, setIsSigningIn] = useState(false);
+    const [authError, setAuthError] = useState<string | null>(null);
+    // Wallet we already prompted automatically - after a rejection the user retries via signIn
+    const autoPromptedRef = useRef<string | null>(null);
+
     // Get balance for connected address
     const { data: balanceData } = useBalance({
         address: address,
@@ -43,6 +60,10 @@ export function WalletProvider({ children }: WalletProviderProps) {
     };
 
     const disconnect = () => {
+        if (getAuthSession()) {
+            apiService.logout().catch(() => { });
+            clearAuthSession();
+        }
         wagmiDisconnect();
     };
 
@@ -52,6 +73,70 @@ export function WalletProvider({ children }: WalletProviderProps) {
 
     const isCorrectNetwork = chain?.id === activeChain.id;
 
+    useEffect(() => {
+        setAuthSession(getAuthSession());
+        return subscribeAuthSession((session) => {
+            // Lost the session (expired / rejected by the server): allow one new prompt
+            if (!session) autoPromptedRef.current = null;
+            setAuthSession(session);
+        });
+    }, []);
+
+    const signIn = useCallback(async () => {
+        if (!address) return;
+
+        setIsSigningIn(true);
+        setAuthError(null);
+        try {
+            const { nonce } = await apiService.getAuthNonce();
+            const message = buildSiweMessage({
+                domain: window.location.host,
+                address,
+                statement: SIWE_STATEMENT,
+                uri: window.location.origin,
+                chainId: chain?.id ?? activeChain.id,
+                nonce,
+            });
+            const signature = await signMessageAsync({ message });
+            const { token, address: sessionAddress, expiresAt } = await apiService.verifyAuth(message, signature);
+            saveAuthSession({ token, address: sessionAddress, expiresAt });
+        } catch (error) {
+            console.error('❌ Sign-in failed:', error);
+            setAuthError(error instanceof Error ? error.message : 'Sign-in failed');
+        } finally {
+            setIsSigningIn(false);
+        }
+    }, [address, chain?.id, signMessageAsync]);
+
+    const isAuthenticated = !!address && !!authSession
+        && authSession.address.toLowerCase() === address.toLowerCase();
+
+    // A session only counts for the wallet that signed it: drop it on a wallet switch.
+    // (address is briefly undefined while wagmi reconnects, so only compare once connected)
+    useEffect(() => {
+        if (authSession && address && !isAuthenticated) {
+            console.log('🔐 Wallet changed - signing out of', authSession.address);
+            apiService.logout().catch(() => { });
+            clearAuthSession();
+        }
+    }, [authSession, address, isAuthenticated]);
+
+    // Expire locally at the same time as the server does
+    useEffect(() => {
+        if (!authSession) return;
+        const timer = setTimeout(() => clearAuthSession(), Math.max(0, authSession.expiresAt - Date.now()));
+        return () => clearTimeout(timer);
+    }, [authSession]);
+
+    // Ask for a signature once per connected wallet that has no session
+    useEffect(() => {
+        if (!isConnected || !address || authSession || isSigningIn) return;
+        if (autoPromptedRef.current === address) return;
+
+        autoPromptedRef.current = address;
+        signIn();
+    }, [isConnected, address, authSession, isSigningIn, signIn]);
+
     const value: WalletContextType = {
         address,
         isConnected,
@@ -63,6 +148,10 @@ export function WalletProvider({ children }: WalletProviderProps) {
         balanceFormatted: balanceData?.formatted,
         chainId: chain?.id,
         isCorrectNetwork,
+        isAuthenticated,
+        isSigningIn,
+        authError,
+        signIn,
     };
 
     return (
@@ -0,0 +1,23 @@
+import { useCallback, useSyncExternalStore } from 'react'
+import { actionOutbox, ActionDelivery, OutboxActionKind } from '@/services/actionOutbox'
+
+interface UseActionDeliveryReturn {
+  delivery: ActionDelivery | undefined
+  retry: () => void
+}
+
+// Delivery state of the latest action of this kind (sending / confirmed / failed)
+export function useActionDelivery(kind: OutboxActionKind): UseActionDeliveryReturn {
+  const delivery = useSyncExternalStore(
+    actionOutbox.subscribe,
+    () => actionOutbox.get(kind),
+    () => undefined
+  )
+
+  const retry = useCallback(() => {
+    // Failure is reflected in the delivery state, nothing to do here
+    actionOutbox.retry(kind)?.catch(() => { })
+  }, [kind])
+
+  return { delivery, retry }
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { useGameSelector } from '@/contexts/GameStoreContext'
+import { selectGame } from '@/services/gameSelectors'
+import { clearNightCommit, getNightCommit, NightCommit } from '@/utils/commitReveal'
+
+export interface RevealedNightAction {
+  day: number
+  action: any
+  verified: boolean
+}
+
+// Reveals this player's committed night action as soon as the backend opens
+// the reveal window. The commit is read from localStorage, so a refresh
+// between committing and revealing doesn't lose it.
+export function useAutoReveal(revealNightAction: (nightCommit: NightCommit) => Promise<boolean>): RevealedNightAction | null {
+  const game = useGameSelector(selectGame)
+  const [revealed, setRevealed] = useState<RevealedNightAction | null>(null)
+  const revealingRef = useRef<string | null>(null)
+
+  const gameId = game?.gameId
+  const day = game?.day
+  const isRevealing = game?.phase === 'resolution' && !!game?.nightReveal?.pending
+
+  useEffect(() => {
+    if (!gameId || day === undefined || !isRevealing) return
+
+    const nightCommit = getNightCommit(gameId, day)
+    const key = `${gameId}:${day}`
+    if (!nightCommit || revealingRef.current === key) return
+    revealingRef.current = key
+
+    revealNightAction(nightCommit)
+      .then(verified => {
+        clearNightCommit()
+        setRevealed({ day, action: nightCommit.action, verified })
+      })
+      .catch(error => {
+        console.error('❌ Failed to reveal night action:', error)
+      })
+  }, [gameId, day, isRevealing, revealNightAction])
+
+  return revealed
+}
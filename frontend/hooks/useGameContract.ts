@@ -191,6 +191,18 @@ export function usePlayerCount(gameId: bigint | undefined) {
     };
 }
 
+export interface ContractInfo {
+    admin: `0x${string}`;
+    serverSigner: `0x${string}`;
+    feeRecipient: `0x${string}`;
+    houseCutBps: number;
+    nextGameId: bigint;
+}
+
+type ContractInfoResult = readonly [`0x${string}`, `0x${string}`, `0x${string}`, number, bigint];
+
+const CONTRACT_INFO_POLL_MS = 30000; // The admin can change the house cut and fee recipient at any time
+
 // Hook to get contract info
 export function useContractInfo() {
     const { data, isLoading, error } = useReadContract({
@@ -199,11 +211,40 @@ export function useContractInfo() {
         functionName: 'getContractInfo',
         query: {
             enabled: !!contractAddress,
+            refetchInterval: CONTRACT_INFO_POLL_MS,
+        },
+    });
+
+    const result = data as ContractInfoResult | undefined;
+    const contractInfo: ContractInfo | undefined = result ? {
+        admin: result[0],
+        serverSigner: result[1],
+        feeRecipient: result[2],
+        houseCutBps: Number(result[3]),
+        nextGameId: result[4],
+    } : undefined;
+
+    return {
+        contractInfo,
+        isLoading,
+        error: !contractAddress ? new Error("Invalid contract address") : error,
+    };
+}
+
+// Hook to read the role commit anchored in a game's settlement
+export function useAnchoredRoleCommit(gameId: bigint | undefined) {
+    const { data, isLoading, error } = useReadContract({
+        address: contractAddress || undefined,
+        abi: PepasurABI,
+        functionName: 'roleCommits',
+        args: gameId !== undefined ? [gameId] : undefined,
+        query: {
+            enabled: !!contractAddress && gameId !== undefined,
         },
     });
 
     return {
-        contractInfo: data,
+        anchoredRoleCommit: data as `0x${string}` | undefined,
         isLoading,
         error: !contractAddress ? new Error("Invalid contract address") : error,
     };
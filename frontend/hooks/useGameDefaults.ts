@@ -37,6 +37,9 @@ export function useGameDefaults(): UseGameDefaultsReturn {
                         taskPhaseDuration: backendDefaults.taskPhaseDuration,
                         votingPhaseDuration: backendDefaults.votingPhaseDuration,
                         maxTaskCount: backendDefaults.maxTaskCount,
+                        allowSpectators: backendDefaults.allowSpectators ?? true,
+                        spectatorDelay: backendDefaults.spectatorDelay ?? 10,
+                        roleSetup: backendDefaults.roleSetup ?? FALLBACK_GAME_SETTINGS.roleSetup,
                     }
 
                     setDefaults(gameDefaults)
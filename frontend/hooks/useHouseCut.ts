@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react'
+import { useContractInfo } from '@/hooks/useGameContract'
+import { DEFAULT_HOUSE_CUT_BPS } from '@/utils/winProbability'
+
+export interface HouseCut {
+  houseCutBps: number
+  feeRecipient: `0x${string}` | null
+  isLive: boolean // false while the contract hasn't answered - houseCutBps is the default then
+  previousBps: number | null // cut when this screen opened, set once the contract has changed it
+}
+
+// The contract's current house cut and fee recipient for payout previews.
+// Remembers the first cut it reads so a screen can warn when the admin
+// changes it (updateHouseCut) while a lobby is open.
+export function useHouseCut(): HouseCut {
+  const { contractInfo } = useContractInfo()
+  const liveBps = contractInfo?.houseCutBps
+  const [openedAtBps, setOpenedAtBps] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (liveBps !== undefined && openedAtBps === null) {
+      setOpenedAtBps(liveBps)
+    }
+  }, [liveBps, openedAtBps])
+
+  return {
+    houseCutBps: liveBps ?? DEFAULT_HOUSE_CUT_BPS,
+    feeRecipient: contractInfo?.feeRecipient ?? null,
+    isLive: liveBps !== undefined,
+    previousBps: liveBps !== undefined && openedAtBps !== null && openedAtBps !== liveBps ? openedAtBps : null
+  }
+}
@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react'
+import type { SimulationParams, SimulationResult } from '@/utils/outcomeSimulator'
+import type { SimulationRequest, SimulationResponse } from '@/utils/outcomeSimulator.worker'
+
+const DEBOUNCE_MS = 300 // Let typing in a settings field settle before simulating
+
+// Monte Carlo estimate for a ruleset, computed in a Web Worker. Re-runs when
+// the params change; pass null to skip (e.g. while the role setup is invalid).
+export function useOutcomeSimulation(params: SimulationParams | null) {
+  const workerRef = useRef<Worker | null>(null)
+  const latestRequest = useRef(0)
+  const [result, setResult] = useState<SimulationResult | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const paramsKey = params ? JSON.stringify(params) : null
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate()
+      workerRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!paramsKey) {
+      latestRequest.current++
+      setResult(null)
+      setIsRunning(false)
+      return
+    }
+
+    const timer = setTimeout(() => {
+      if (!workerRef.current) {
+        workerRef.current = new Worker(new URL('../utils/outcomeSimulator.worker.ts', import.meta.url))
+        workerRef.current.onmessage = (event: MessageEvent<SimulationResponse>) => {
+          // Answers to older settings are stale
+          if (event.data.id !== latestRequest.current) return
+          setIsRunning(false)
+          if ('error' in event.data) {
+            console.error('❌ Outcome simulation failed:', event.data.error)
+            setError(event.data.error)
+          } else {
+            setError(null)
+            setResult(event.data.result)
+          }
+        }
+      }
+
+      const request: SimulationRequest = { id: ++latestRequest.current, params: JSON.parse(paramsKey) }
+      setIsRunning(true)
+      workerRef.current.postMessage(request)
+    }, DEBOUNCE_MS)
+
+    return () => clearTimeout(timer)
+  }, [paramsKey])
+
+  return { result, isRunning, error }
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useEffect, useRef } from 'react'
+import { apiService, Game } from '@/services/api'
+import { createRoleSeed, getRoleSeed, saveRoleSeed } from '@/utils/roleShuffle'
+
+// Commits this player's role shuffle seed while in the lobby and reveals it
+// when the backend opens the reveal window. The value lives in localStorage,
+// so a refresh in the lobby reuses it; if it was lost a fresh value is
+// committed instead (the backend accepts re-commits until the game starts).
+export function useRoleSeed(game: Game | null, playerAddress?: string) {
+  const committingRef = useRef<string | null>(null)
+  const revealingRef = useRef<string | null>(null)
+
+  const gameId = game?.gameId
+  const inLobby = game?.phase === 'lobby'
+  const isPlayer = !!playerAddress && !!game?.players.includes(playerAddress)
+  const serverCommit = playerAddress ? game?.seedCommits?.[playerAddress] : undefined
+  const roundOpen = !!game?.seedRound
+  const isRevealing = !!game?.seedRound?.pending
+
+  useEffect(() => {
+    if (!gameId || !playerAddress || !inLobby || !isPlayer || roundOpen) return
+
+    const stored = getRoleSeed(gameId, playerAddress)
+    if (stored && stored.commit === serverCommit) return
+    if (committingRef.current === gameId) return
+    committingRef.current = gameId
+
+    ;(async () => {
+      const seed = stored || await createRoleSeed(playerAddress)
+      await apiService.commitSeed(gameId, playerAddress, seed.commit)
+      saveRoleSeed(gameId, seed)
+    })()
+      .catch(error => {
+        console.error('❌ Failed to commit role seed:', error)
+      })
+      .finally(() => {
+        committingRef.current = null
+      })
+  }, [gameId, playerAddress, inLobby, isPlayer, serverCommit, roundOpen])
+
+  useEffect(() => {
+    if (!gameId || !playerAddress || !isRevealing) return
+
+    const stored = getRoleSeed(gameId, playerAddress)
+    if (!stored || stored.commit !== serverCommit || revealingRef.current === gameId) return
+    revealingRef.current = gameId
+
+    apiService.revealSeed(gameId, playerAddress, stored.value)
+      .then(() => {
+        console.log('🎲 Role seed revealed for game', gameId)
+      })
+      .catch(error => {
+        console.error('❌ Failed to reveal role seed:', error)
+        revealingRef.current = null
+      })
+  }, [gameId, playerAddress, isRevealing, serverCommit])
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react'
+import {
+  createScreenMachineState,
+  screenStates,
+  transitionScreen,
+  ScreenEffect,
+  ScreenEvent,
+  ScreenMachineState,
+  TransitionRecord
+} from '@/utils/screenMachine'
+
+export type ScreenEffectRunner = (effect: ScreenEffect, state: ScreenMachineState) => void
+
+function logTransition(entry: TransitionRecord) {
+  if (entry.outcome === 'rejected') {
+    console.warn(`🚦 Rejected ${entry.event} in "${entry.from}": ${entry.reason}`)
+  } else if (entry.outcome === 'forced') {
+    console.warn(`🚦 ${entry.from} → ${entry.to} (${entry.event}, forced: ${entry.reason})`)
+  } else {
+    console.log(`🚦 ${entry.from} → ${entry.to} (${entry.event})`)
+  }
+}
+
+// Drives the screen state machine: dispatches events, runs the entry/exit
+// effects each transition scheduled (once, in order) and fires delayed events
+export function useScreenMachine(runEffect: ScreenEffectRunner) {
+  const [state, dispatch] = useReducer(transitionScreen, undefined, () => createScreenMachineState())
+
+  // Always run effects with the latest page state (wallet, room code, ...)
+  const runEffectRef = useRef(runEffect)
+  runEffectRef.current = runEffect
+
+  const lastHandledSeq = useRef(0)
+  useEffect(() => {
+    const handledSeq = lastHandledSeq.current
+    if (state.seq === handledSeq) return
+    lastHandledSeq.current = state.seq
+
+    state.log.filter(entry => entry.seq > handledSeq).forEach(logTransition)
+    state.effects
+      .filter(scheduled => scheduled.seq > handledSeq)
+      .forEach(scheduled => runEffectRef.current(scheduled.effect, state))
+  }, [state])
+
+  // Delayed events (e.g. the loader moving on to the wallet screen)
+  useEffect(() => {
+    const after = screenStates[state.screen].after
+    if (!after) return
+
+    const timer = setTimeout(() => dispatch({ type: after.event }), after.delay)
+    return () => clearTimeout(timer)
+  }, [state.screen])
+
+  const send = useCallback((event: ScreenEvent) => dispatch(event), [])
+
+  return {
+    screen: state.screen,
+    context: state.context,
+    transitionLog: state.log,
+    send
+  }
+}
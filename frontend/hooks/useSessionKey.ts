@@ -0,0 +1,123 @@
+import { useCallback } from 'react'
+import { useSignMessage } from 'wagmi'
+import type { Hex } from 'viem'
+import { apiService } from '@/services/api'
+import {
+  SignedActionKind,
+  StoredSessionKey,
+  createSessionKey,
+  getSessionKey,
+  isUnregisteredSessionKeyError,
+  removeSessionKey,
+  saveSessionKey,
+  signWithSessionKey
+} from '@/utils/sessionKeys'
+
+// One delegation prompt per game at a time, however many components ask
+const pendingDelegations = new Map<string, Promise<StoredSessionKey>>()
+
+interface UseSessionKeyReturn {
+  ensureSessionKey: (gameId: string, playerAddress: string) => Promise<StoredSessionKey>
+  renewSessionKey: (gameId: string, playerAddress: string) => Promise<StoredSessionKey>
+  withSessionKey: <T>(gameId: string, playerAddress: string, run: () => Promise<T>) => Promise<T>
+  signGameAction: (
+    kind: SignedActionKind,
+    gameId: string,
+    playerAddress: string,
+    requestId: string | null,
+    body: Record<string, unknown>
+  ) => Promise<Hex>
+}
+
+const registerKey = (key: StoredSessionKey, playerAddress: string, signature: Hex) =>
+  apiService.registerSessionKey(key.gameId, {
+    playerAddress,
+    sessionKey: key.address,
+    validFrom: key.validFrom,
+    validUntil: key.validUntil,
+    signature
+  })
+
+// Session key for the current game: reuses the stored key, otherwise asks the
+// wallet to sign a delegation for a fresh one and registers it with the backend
+export function useSessionKey(): UseSessionKeyReturn {
+  const { signMessageAsync } = useSignMessage()
+
+  const dedupe = useCallback((gameId: string, register: () => Promise<StoredSessionKey>): Promise<StoredSessionKey> => {
+    let pending = pendingDelegations.get(gameId)
+    if (!pending) {
+      pending = register().finally(() => {
+        pendingDelegations.delete(gameId)
+      })
+      pendingDelegations.set(gameId, pending)
+    }
+    return pending
+  }, [])
+
+  const delegateNewKey = useCallback(async (gameId: string, playerAddress: string): Promise<StoredSessionKey> => {
+    const { key, message } = createSessionKey(gameId, playerAddress)
+    console.log('🔑 Requesting session key delegation for game', gameId)
+
+    const signature = await signMessageAsync({ message })
+    await registerKey(key, playerAddress, signature)
+
+    const stored = { ...key, signature }
+    saveSessionKey(stored)
+    return stored
+  }, [signMessageAsync])
+
+  const ensureSessionKey = useCallback(async (gameId: string, playerAddress: string): Promise<StoredSessionKey> => {
+    const existing = getSessionKey(gameId, playerAddress)
+    if (existing) return existing
+
+    return dedupe(gameId, () => delegateNewKey(gameId, playerAddress))
+  }, [dedupe, delegateNewKey])
+
+  // The backend keeps delegations in memory only. After it restarts, send the
+  // stored delegation again (no wallet prompt); if that's refused or there is
+  // no stored signature, delegate a fresh key.
+  const renewSessionKey = useCallback(async (gameId: string, playerAddress: string): Promise<StoredSessionKey> => {
+    return dedupe(gameId, async () => {
+      const existing = getSessionKey(gameId, playerAddress)
+      if (existing?.signature) {
+        try {
+          await registerKey(existing, playerAddress, existing.signature)
+          console.log('🔑 Session key registered again for game', gameId)
+          return existing
+        } catch (error) {
+          console.warn('🔑 Stored session key was refused - delegating a new one:', error)
+        }
+      }
+
+      removeSessionKey(gameId)
+      return delegateNewKey(gameId, playerAddress)
+    })
+  }, [dedupe, delegateNewKey])
+
+  // Run a signed action, renewing the key and trying once more if the backend
+  // says it doesn't know the key
+  const withSessionKey = useCallback(async <T>(gameId: string, playerAddress: string, run: () => Promise<T>): Promise<T> => {
+    await ensureSessionKey(gameId, playerAddress)
+    try {
+      return await run()
+    } catch (error) {
+      if (!isUnregisteredSessionKeyError(error)) throw error
+      console.warn('🔑 Backend has no session key for this game - registering again')
+      await renewSessionKey(gameId, playerAddress)
+      return run()
+    }
+  }, [ensureSessionKey, renewSessionKey])
+
+  const signGameAction = useCallback(async (
+    kind: SignedActionKind,
+    gameId: string,
+    playerAddress: string,
+    requestId: string | null,
+    body: Record<string, unknown>
+  ): Promise<Hex> => {
+    const key = await ensureSessionKey(gameId, playerAddress)
+    return signWithSessionKey(key, kind, playerAddress, requestId, body)
+  }, [ensureSessionKey])
+
+  return { ensureSessionKey, renewSessionKey, withSessionKey, signGameAction }
+}
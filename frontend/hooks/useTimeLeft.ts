@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react'
+import { useGameSelector } from '@/contexts/GameStoreContext'
+import { selectPhase, selectTimeLeft } from '@/services/gameSelectors'
+
+// Phase countdown: follows the server's timeLeft and ticks locally between updates
+export function useTimeLeft(): number {
+  const serverTimeLeft = useGameSelector(selectTimeLeft)
+  const phase = useGameSelector(selectPhase)
+  const [timeLeft, setTimeLeft] = useState(serverTimeLeft ?? 0)
+
+  useEffect(() => {
+    if (serverTimeLeft === undefined) return
+    setTimeLeft(serverTimeLeft)
+
+    if (serverTimeLeft <= 0) return
+    const timer = setInterval(() => {
+      setTimeLeft(prev => Math.max(0, prev - 1))
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [serverTimeLeft, phase])
+
+  return timeLeft
+}
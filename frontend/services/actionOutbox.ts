@@ -0,0 +1,164 @@
+// Action outbox - acknowledged, idempotent delivery of player actions
+//
+// Each night action / reveal / task answer / vote gets a client-generated requestId and
+// is sent over exactly one transport at a time: the socket first (waiting for
+// an ack), REST only if the ack never arrives. The backend deduplicates by
+// requestId, so a retry or a late socket delivery can't apply an action twice.
+
+import type { ActionAck } from './socketProtocol'
+
+export type OutboxActionKind = 'night_action' | 'reveal' | 'task' | 'vote'
+export type DeliveryStatus = 'sending' | 'confirmed' | 'failed'
+
+export interface ActionDelivery {
+  requestId: string
+  kind: OutboxActionKind
+  gameId: string
+  status: DeliveryStatus
+  transport?: 'socket' | 'rest'
+  error?: string
+  attempts: number
+  updatedAt: number
+}
+
+export interface DeliveryTransports {
+  // Emit over the socket and resolve with the server's ack (rejects on timeout)
+  socket: (requestId: string) => Promise<ActionAck>
+  // REST fallback, same requestId
+  rest: (requestId: string) => Promise<unknown>
+}
+
+// The server received the action and refused it - falling back to REST would
+// only get the same answer
+export class ActionRejectedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ActionRejectedError'
+  }
+}
+
+export function createRequestId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+class ActionOutbox {
+  private deliveries = new Map<OutboxActionKind, ActionDelivery>()
+  private transports = new Map<string, DeliveryTransports>()
+  private listeners = new Set<() => void>()
+
+  // Arrow functions so they can be handed straight to useSyncExternalStore
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  get = (kind: OutboxActionKind): ActionDelivery | undefined => {
+    return this.deliveries.get(kind)
+  }
+
+  /**
+   * Send a new action. Resolves once it is confirmed, rejects if both
+   * transports fail or the server rejects it.
+   */
+  send(kind: OutboxActionKind, gameId: string, transports: DeliveryTransports): Promise<ActionDelivery> {
+    const requestId = createRequestId()
+    const previous = this.deliveries.get(kind)
+    if (previous) {
+      this.transports.delete(previous.requestId)
+    }
+
+    this.transports.set(requestId, transports)
+    this.update({
+      requestId,
+      kind,
+      gameId,
+      status: 'sending',
+      attempts: 0,
+      updatedAt: Date.now()
+    })
+
+    return this.deliver(kind)
+  }
+
+  /**
+   * Re-send the latest action of this kind with the same requestId.
+   * Returns null if there is nothing to retry.
+   */
+  retry(kind: OutboxActionKind): Promise<ActionDelivery> | null {
+    const delivery = this.deliveries.get(kind)
+    if (!delivery || delivery.status !== 'failed' || !this.transports.has(delivery.requestId)) {
+      return null
+    }
+    return this.deliver(kind)
+  }
+
+  // Forget all deliveries (phase change, leaving the game)
+  clear() {
+    if (this.deliveries.size === 0) return
+    this.deliveries.clear()
+    this.transports.clear()
+    this.emit()
+  }
+
+  private async deliver(kind: OutboxActionKind): Promise<ActionDelivery> {
+    const delivery = this.deliveries.get(kind)!
+    const transports = this.transports.get(delivery.requestId)!
+    const { requestId } = delivery
+
+    this.patch(kind, requestId, { status: 'sending', error: undefined, attempts: delivery.attempts + 1 })
+
+    try {
+      const ack = await transports.socket(requestId)
+      if (!ack.ok) {
+        throw new ActionRejectedError(ack.error || 'Action rejected by server')
+      }
+      if (ack.duplicate) {
+        console.log(`📮 ${kind} ${requestId} was already applied by the server`)
+      }
+      return this.patch(kind, requestId, { status: 'confirmed', transport: 'socket' })
+    } catch (socketError) {
+      if (socketError instanceof ActionRejectedError) {
+        this.patch(kind, requestId, { status: 'failed', error: socketError.message })
+        throw socketError
+      }
+      console.warn(`📮 No socket ack for ${kind} ${requestId}, falling back to REST:`, socketError)
+    }
+
+    try {
+      await transports.rest(requestId)
+      return this.patch(kind, requestId, { status: 'confirmed', transport: 'rest' })
+    } catch (restError) {
+      const message = restError instanceof Error ? restError.message : 'Failed to deliver action'
+      this.patch(kind, requestId, { status: 'failed', error: message })
+      throw restError
+    }
+  }
+
+  // Only touch the entry if it still belongs to this request (a newer action
+  // or clear() may have replaced it while we were waiting)
+  private patch(kind: OutboxActionKind, requestId: string, changes: Partial<ActionDelivery>): ActionDelivery {
+    const current = this.deliveries.get(kind)
+    const next = { ...(current as ActionDelivery), ...changes, updatedAt: Date.now() }
+    if (current?.requestId === requestId) {
+      this.update(next)
+    }
+    return next
+  }
+
+  private update(delivery: ActionDelivery) {
+    this.deliveries.set(delivery.kind, delivery)
+    this.emit()
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+// Export singleton instance
+export const actionOutbox = new ActionOutbox()
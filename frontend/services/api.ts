@@ -1,13 +1,33 @@
 // API Service Layer for Backend Integration
 
+import { authHeaders, clearAuthSession } from '@/utils/authSession'
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
 
+// Roles a game deals: 'auto' picks a balanced preset for the lobby size,
+// 'custom' uses the counts below (see utils/roleShuffle.ts)
+export interface RoleSetup {
+  mode: 'auto' | 'custom'
+  mafia: number // ASUR
+  doctor: boolean // DEVA in play
+  detective: boolean // RISHI in play
+}
+
+export interface RoleComposition {
+  mafia: number
+  doctor: boolean
+  detective: boolean
+}
+
 export interface GameSettings {
   nightPhaseDuration?: number
   resolutionPhaseDuration?: number
   taskPhaseDuration?: number
   votingPhaseDuration?: number
   maxTaskCount?: number
+  allowSpectators?: boolean
+  spectatorDelay?: number // seconds spectators run behind the live game
+  roleSetup?: RoleSetup
 }
 
 export interface Game {
@@ -24,13 +44,27 @@ export interface Game {
   stakeAmountFormatted?: string
   minPlayers: number
   maxPlayers: number
-  pendingActions: Record<string, any>
+  pendingActions?: Record<string, any> // Never sent to clients; night actions stay on the server
   task: any
   taskCounts: Record<string, number>
   votes: Record<string, string>
   eliminated: string[]
   winners: string[]
   roleCommit: string | null
+  roleReveal?: RoleReveal | null // Published when the game ends (see utils/roleCommit.ts)
+  // Multi-party shuffle seed (see utils/roleShuffle.ts)
+  serverSeedCommit?: string
+  seedCommits?: Record<string, string>
+  seedRound?: SeedRound | null
+  // Lobby ready-check (see ReadyCheckService on the backend)
+  stakedPlayers?: string[]
+  lobbyReady?: string[]
+  readyCheck?: ReadyCheck | null
+  // Host moderation
+  locked?: boolean
+  bannedPlayers?: string[]
+  spectatorCount?: number
+  stateVersion?: number // Bumped on every socket broadcast; higher is newer
   status: 'active' | 'completed'
   settings?: GameSettings
   isPublic?: boolean
@@ -50,8 +84,17 @@ export interface Game {
     savedPlayer: { address: string; name: string; id: string; role: string } | null
     investigationPlayer: { address: string; name: string; id: string; role: string } | null
   }
+  // Commit–reveal of night actions: pending while the resolution phase waits
+  // for reveals, then a count of verified / voided / unrevealed actions
+  nightReveal?: NightRevealSummary | null
+  commitLog?: NightRevealSummary[]
   rewards?: {
     settlementTxHash: string
+    totalPool?: string // Wei
+    houseCut?: string // Wei
+    rewardPool?: string // Wei
+    houseCutBps?: number // cut the game was settled at
+    feeRecipient?: string | null
     distributions: Array<{
       playerAddress: string
       role: string
@@ -64,6 +107,173 @@ export interface Game {
   }
 }
 
+export interface RoleReveal {
+  serialization: string
+  salt: string
+  shuffle?: {
+    players: string[]
+    contributions: Record<string, string> // lowercase address -> revealed value
+    serverSeed: string
+    seed: string
+    composition?: RoleComposition // missing for games dealt before compositions were configurable
+  }
+}
+
+export interface SeedRound {
+  pending: boolean
+  deadline?: number
+  revealed?: number
+  missing?: string[]
+}
+
+// Set once the lobby is full and staked: unready players are removed at
+// deadline; countdownEndsAt is when the game starts once everyone is ready
+export interface ReadyCheck {
+  deadline: number
+  countdownEndsAt: number | null
+}
+
+export interface NightRevealSummary {
+  day: number
+  pending: boolean
+  deadline?: number
+  verified?: number
+  voided?: number
+  missing?: number
+}
+
+// One entry of a finished game's event log (see GET /api/game/:gameId/replay).
+// day and phase are the game's at the time the event was recorded.
+interface ReplayEventBase {
+  seq: number
+  day: number
+  phase: Game['phase']
+  timestamp: number
+}
+
+export type ReplayEvent = ReplayEventBase & (
+  | { type: 'game_started'; players: string[]; roles: Record<string, string> }
+  | { type: 'phase'; timeLeft: number }
+  | { type: 'night_action'; player: string; role: string | null; target: string | null; revealStatus: 'plain' | 'verified' | 'voided' | 'missing' | null; result?: string | null }
+  | { type: 'saved'; player: string }
+  | { type: 'elimination'; player: string; cause: 'night' | 'vote' | 'left'; role: string | null }
+  | { type: 'vote'; player: string; target: string }
+  | { type: 'vote_result'; result: string; counts: Record<string, number> }
+  | { type: 'task_result'; player: string; success: boolean; taskCount: number }
+  | { type: 'chat'; player: string; message: string }
+  | { type: 'game_ended'; winners: string[]; roles: Record<string, string> }
+)
+
+export interface GameReplay {
+  gameId: string
+  roomCode?: string
+  creator: string
+  players: string[]
+  roles: Record<string, string>
+  winners: string[]
+  settings?: GameSettings
+  startedAt: number | null
+  endedAt: number | null
+  events: ReplayEvent[]
+}
+
+export interface PlayerRoleRecord {
+  played: number
+  wins: number
+  losses: number
+}
+
+// How a game's payout was checked against its on-chain settlement
+export type SettlementCheck = 'none' | 'pending' | 'verified' | 'mismatch' | 'unverified'
+
+export interface PlayerGameSummary {
+  gameId: string
+  roomCode?: string
+  role: string | null
+  won: boolean
+  endedAt: number
+  playerCount: number
+  status: SettlementCheck
+  staked: string // Wei
+  received: string // Wei
+  net: string // Wei
+  settlementTxHash: string | null
+}
+
+export interface PlayerStats {
+  address: string
+  gamesPlayed: number
+  wins: number
+  losses: number
+  roles: Record<string, PlayerRoleRecord> // Keyed by backend role (Mafia, Doctor, ...)
+  tasks: { attempted: number; completed: number; completionRate: number | null }
+  votes: { cast: number; onMafia: number; accuracy: number | null }
+  earnings: {
+    staked: string
+    received: string
+    net: string
+    verifiedGames: number
+    mismatchedGames: number
+    unverifiedGames: number
+  }
+  recentGames: PlayerGameSummary[]
+}
+
+export type LeaderboardMode = 'net' | 'winrate' | 'rating'
+
+export interface LeaderboardSeason {
+  id: string
+  name: string
+  start: number
+  end: number
+  active: boolean
+}
+
+export interface LeaderboardEntry {
+  rank: number
+  address: string // lowercase
+  games: number
+  wins: number
+  losses: number
+  winRate: number
+  net: string // Wei
+  rating: number
+}
+
+export interface LeaderboardPage {
+  season: LeaderboardSeason & { frozenAt: number | null; gameCount: number }
+  mode: LeaderboardMode
+  role: string | null
+  minGames: number
+  page: number
+  pageSize: number
+  total: number
+  entries: LeaderboardEntry[]
+  me: LeaderboardEntry | null
+}
+
+// Quick match options; stakeAmount is in token units
+export interface MatchmakingConfig {
+  stakeTiers: { stakeAmount: string; stakeAmountWei: string }[]
+  lobbySizes: number[]
+  stakeTimeout: number
+}
+
+export type InviteStatus = 'open' | 'full' | 'locked' | 'started' | 'ended' | 'cancelled'
+
+// Where an invite link (/join/ROOMCODE) leads; stakeAmount is in Wei
+export interface Invite {
+  gameId: string
+  roomCode: string
+  status: InviteStatus
+  creator: string
+  players: string[]
+  playerCount: number
+  seats: number
+  stakeAmount: string
+  allowSpectators: boolean
+}
+
 export interface CreateGameRequest {
   creatorAddress: string
   stakeAmount?: number
@@ -78,20 +288,45 @@ export interface JoinByRoomCodeRequest {
   playerAddress: string
 }
 
+// requestId is the client-generated ID used by the backend to deduplicate
+// redelivered actions (see services/actionOutbox.ts). sessionSignature is the
+// action signed with the player's session key (see utils/sessionKeys.ts)
 export interface GameAction {
   playerAddress: string
-  action: any
+  requestId?: string
+  action?: any
   commit?: string
+  sessionSignature?: string
+}
+
+export interface NightActionReveal {
+  playerAddress: string
+  requestId?: string
+  action: any
+  nonce: string
+  sessionSignature?: string
 }
 
 export interface TaskSubmission {
   playerAddress: string
+  requestId?: string
   answer: any
+  sessionSignature?: string
 }
 
 export interface VoteSubmission {
   playerAddress: string
+  requestId?: string
   vote: string
+  sessionSignature?: string
+}
+
+export interface SessionKeyRegistration {
+  playerAddress: string
+  sessionKey: string
+  validFrom: number
+  validUntil: number
+  signature: string
 }
 
 class ApiService {
@@ -108,11 +343,12 @@ class ApiService {
     const url = `${this.baseUrl}${endpoint}`
 
     const config: RequestInit = {
+      ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...authHeaders(),
         ...options.headers,
       },
-      ...options,
     }
 
     try {
@@ -120,6 +356,10 @@ class ApiService {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}))
+        // Session expired or unknown to the server - WalletContext asks for a new signature
+        if (response.status === 401 && errorData.code === 'AUTH_REQUIRED') {
+          clearAuthSession()
+        }
         throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`)
       }
 
@@ -138,6 +378,33 @@ class ApiService {
     }
   }
 
+  // Sign-In with Ethereum
+  async getAuthNonce() {
+    return this.request<{
+      success: boolean
+      nonce: string
+      expiresAt: number
+    }>('/api/auth/nonce')
+  }
+
+  async verifyAuth(message: string, signature: string) {
+    return this.request<{
+      success: boolean
+      token: string
+      address: string
+      expiresAt: number
+    }>('/api/auth/verify', {
+      method: 'POST',
+      body: JSON.stringify({ message, signature }),
+    })
+  }
+
+  async logout() {
+    return this.request<{ success: boolean }>('/api/auth/logout', {
+      method: 'POST',
+    })
+  }
+
   // Game Management
   async createGame(data: CreateGameRequest) {
     return this.request<{
@@ -169,6 +436,13 @@ class ApiService {
     }>(`/api/game/room/${roomCode}`)
   }
 
+  async getInvite(roomCode: string) {
+    return this.request<{
+      success: boolean
+      invite: Invite
+    }>(`/api/game/invite/${encodeURIComponent(roomCode)}`)
+  }
+
   async getGame(gameId: string, playerAddress?: string) {
     const url = playerAddress
       ? `/api/game/${gameId}?playerAddress=${encodeURIComponent(playerAddress)}`
@@ -182,6 +456,18 @@ class ApiService {
 
 
 
+  // Delegate in-game signing to a session key (wallet-signed, see utils/sessionKeys.ts)
+  async registerSessionKey(gameId: string, data: SessionKeyRegistration) {
+    return this.request<{
+      success: boolean
+      sessionKey: string
+      validUntil: number
+    }>(`/api/game/${gameId}/session-key`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
   async getActiveGames() {
     return this.request<{
       success: boolean
@@ -211,10 +497,78 @@ class ApiService {
     })
   }
 
+  // Role shuffle seed commit–reveal
+  async commitSeed(gameId: string, playerAddress: string, commit: string) {
+    return this.request<{
+      success: boolean
+    }>(`/api/game/${gameId}/seed/commit`, {
+      method: 'POST',
+      body: JSON.stringify({ playerAddress, commit }),
+    })
+  }
+
+  async revealSeed(gameId: string, playerAddress: string, value: string) {
+    return this.request<{
+      success: boolean
+    }>(`/api/game/${gameId}/seed/reveal`, {
+      method: 'POST',
+      body: JSON.stringify({ playerAddress, value }),
+    })
+  }
+
+  // Lobby ready-check
+  async setLobbyReady(gameId: string, playerAddress: string, ready: boolean) {
+    return this.request<{
+      success: boolean
+    }>(`/api/game/${gameId}/lobby/ready`, {
+      method: 'POST',
+      body: JSON.stringify({ playerAddress, ready }),
+    })
+  }
+
+  // Host moderation
+  async kickPlayer(gameId: string, hostAddress: string, playerAddress: string, ban = false) {
+    return this.request<{
+      success: boolean
+      refunded: boolean
+    }>(`/api/game/${gameId}/host/kick`, {
+      method: 'POST',
+      body: JSON.stringify({ hostAddress, playerAddress, ban }),
+    })
+  }
+
+  async unbanPlayer(gameId: string, hostAddress: string, playerAddress: string) {
+    return this.request<{
+      success: boolean
+    }>(`/api/game/${gameId}/host/unban`, {
+      method: 'POST',
+      body: JSON.stringify({ hostAddress, playerAddress }),
+    })
+  }
+
+  async transferHost(gameId: string, hostAddress: string, playerAddress: string) {
+    return this.request<{
+      success: boolean
+    }>(`/api/game/${gameId}/host/transfer`, {
+      method: 'POST',
+      body: JSON.stringify({ hostAddress, playerAddress }),
+    })
+  }
+
+  async setLobbyLocked(gameId: string, hostAddress: string, locked: boolean) {
+    return this.request<{
+      success: boolean
+    }>(`/api/game/${gameId}/host/lock`, {
+      method: 'POST',
+      body: JSON.stringify({ hostAddress, locked }),
+    })
+  }
+
   // Game Actions
   async submitNightAction(gameId: string, data: GameAction) {
     return this.request<{
       success: boolean
+      duplicate?: boolean
       message: string
     }>(`/api/game/${gameId}/action/night`, {
       method: 'POST',
@@ -222,34 +576,37 @@ class ApiService {
     })
   }
 
-  async submitTaskAnswer(gameId: string, data: TaskSubmission) {
+  async revealNightAction(gameId: string, data: NightActionReveal) {
     return this.request<{
       success: boolean
-      correct: boolean
-      message: string
-    }>(`/api/game/${gameId}/task/submit`, {
+      duplicate?: boolean
+      verified: boolean
+    }>(`/api/game/${gameId}/action/reveal`, {
       method: 'POST',
       body: JSON.stringify(data),
     })
   }
 
-  async submitVote(gameId: string, data: VoteSubmission) {
+  async submitTaskAnswer(gameId: string, data: TaskSubmission) {
     return this.request<{
       success: boolean
+      correct: boolean
+      duplicate?: boolean
       message: string
-    }>(`/api/game/${gameId}/vote/submit`, {
+    }>(`/api/game/${gameId}/task/submit`, {
       method: 'POST',
       body: JSON.stringify(data),
     })
   }
 
-  async eliminatePlayer(gameId: string, playerAddress: string) {
+  async submitVote(gameId: string, data: VoteSubmission) {
     return this.request<{
       success: boolean
+      duplicate?: boolean
       message: string
-    }>(`/api/game/${gameId}/player/eliminate`, {
+    }>(`/api/game/${gameId}/vote/submit`, {
       method: 'POST',
-      body: JSON.stringify({ playerAddress }),
+      body: JSON.stringify(data),
     })
   }
 
@@ -271,6 +628,55 @@ class ApiService {
     }>(`/api/game/${gameId}/history`)
   }
 
+  // Full event log of a finished game
+  async getGameReplay(gameId: string) {
+    return this.request<{
+      success: boolean
+      replay: GameReplay
+    }>(`/api/game/${gameId}/replay`)
+  }
+
+  // Track record of a wallet over its finished games
+  async getPlayerStats(address: string) {
+    return this.request<{
+      success: boolean
+      stats: PlayerStats
+    }>(`/api/game/player/${address}/stats`)
+  }
+
+  async getMatchmakingConfig() {
+    return this.request<{
+      success: boolean
+      config: MatchmakingConfig
+    }>('/api/game/matchmaking/config')
+  }
+
+  async getLeaderboardSeasons() {
+    return this.request<{
+      success: boolean
+      seasons: LeaderboardSeason[]
+    }>('/api/leaderboard/seasons')
+  }
+
+  // One page of a season's standings; with `address`, the page that player is on
+  async getLeaderboard(query: {
+    season?: string
+    mode?: LeaderboardMode
+    role?: string
+    page?: number
+    pageSize?: number
+    address?: string
+  }) {
+    const params = new URLSearchParams()
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value))
+    })
+    return this.request<{
+      success: boolean
+      leaderboard: LeaderboardPage
+    }>(`/api/leaderboard?${params.toString()}`)
+  }
+
   // Health Check
   async healthCheck() {
     return this.request<{
@@ -342,6 +748,9 @@ class ApiService {
       taskPhaseDuration: number
       votingPhaseDuration: number
       maxTaskCount: number
+      allowSpectators: boolean
+      spectatorDelay: number
+      roleSetup?: RoleSetup
       stakeAmount: string
       minPlayers: number
       maxPlayers: number
@@ -355,6 +764,9 @@ class ApiService {
         taskPhaseDuration: number
         votingPhaseDuration: number
         maxTaskCount: number
+        allowSpectators: boolean
+        spectatorDelay: number
+        roleSetup?: RoleSetup
         stakeAmount: string
         minPlayers: number
         maxPlayers: number
@@ -0,0 +1,278 @@
+// Memoized selectors over the game store
+//
+// Every derived value is recomputed only when its inputs change by reference.
+// game_patch updates share structure with the previous snapshot, so a patch
+// that only touches `timeLeft` leaves the player list, vote tally and task
+// progress untouched - and so are the components rendering them.
+
+import type { Player } from '@/hooks/useGame'
+import type { Game } from './api'
+import type { GameStoreState } from './gameStore'
+import type { PrivateInfoEvent } from './socketProtocol'
+
+type Selector<T> = (state: GameStoreState) => T
+
+function createSelector<Inputs extends unknown[], Result>(
+  inputs: { [K in keyof Inputs]: Selector<Inputs[K]> },
+  combine: (...values: Inputs) => Result
+): Selector<Result> {
+  let lastValues: Inputs | null = null
+  let lastResult: Result
+
+  return (state) => {
+    const values = inputs.map(input => input(state)) as Inputs
+    if (lastValues && values.every((value, index) => Object.is(value, lastValues![index]))) {
+      return lastResult
+    }
+    lastValues = values
+    lastResult = combine(...values)
+    return lastResult
+  }
+}
+
+// Color alias and avatar mapping (must stay in sync)
+export const colorAliases = [
+  { name: '0xRed', avatar: 'https://ik.imagekit.io/3rdfd9oed/pepAsur%20Assets/redShirt.png?updatedAt=1761611647221' },
+  { name: '0xBlue', avatar: 'https://ik.imagekit.io/3rdfd9oed/pepAsur%20Assets/blueShirt.png?updatedAt=1758922659560' },
+  { name: '0xPurple', avatar: 'https://ik.imagekit.io/3rdfd9oed/pepAsur%20Assets/purpleShirt.png?updatedAt=1761611647804' },
+  { name: '0xYellow', avatar: 'https://ik.imagekit.io/3rdfd9oed/pepAsur%20Assets/yellowShirt.png?updatedAt=1761611647228' }
+]
+
+// Role mapping from backend to frontend
+const roleMapping: Record<string, string> = {
+  'Mafia': 'ASUR',
+  'Doctor': 'DEVA',
+  'Detective': 'RISHI',
+  'Villager': 'MANAV'
+}
+
+export function toFrontendRole(backendRole: string | undefined): string {
+  if (!backendRole) return ''
+  return roleMapping[backendRole] || backendRole
+}
+
+// Username and avatar are based on the player's index in the game (ensures uniqueness)
+export function generateUsername(playerIndex: number): string {
+  return colorAliases[playerIndex % colorAliases.length].name
+}
+
+export function generateAvatar(playerIndex: number): string {
+  return colorAliases[playerIndex % colorAliases.length].avatar
+}
+
+// Convert backend players to frontend format
+function convertPlayers(
+  addresses: string[],
+  roles: Record<string, string> | undefined,
+  eliminated: string[],
+  phase: Game['phase'],
+  currentPlayerAddress: string | null
+): Player[] {
+  return addresses.map((address, index) => {
+    const frontendRole = toFrontendRole(roles?.[address])
+
+    // Default: always show the colored shirt matching the username
+    let avatar = generateAvatar(index)
+
+    const isCurrentPlayer = address === currentPlayerAddress
+    const isEliminated = eliminated.includes(address)
+
+    // Show role avatar ONLY in these cases:
+    // 1. Current player sees their own role avatar (except in lobby)
+    // 2. Eliminated players show their role avatar (revealed) - BUT NOT in voting/night phases
+    const shouldShowRoleAvatar = frontendRole && isCurrentPlayer && phase !== 'lobby' && !isEliminated
+    const shouldShowEliminatedRoleAvatar = frontendRole && isEliminated && phase !== 'voting' && phase !== 'night'
+
+    if (shouldShowRoleAvatar || shouldShowEliminatedRoleAvatar) {
+      if (frontendRole === 'DEVA') {
+        avatar = 'https://ik.imagekit.io/3rdfd9oed/pepAsur%20Assets/dev.png?updatedAt=1758923141278'
+      } else if (frontendRole === 'ASUR') {
+        avatar = 'https://ik.imagekit.io/3rdfd9oed/pepAsur%20Assets/asur.png?updatedAt=1758922659571'
+      } else if (frontendRole === 'RISHI') {
+        avatar = 'https://ik.imagekit.io/3rdfd9oed/pepAsur%20Assets/sage.png?updatedAt=1758922659655'
+      }
+      // MANAV keeps the colored shirt even when revealed
+    }
+
+    return {
+      id: address,
+      name: generateUsername(index),
+      avatar,
+      role: frontendRole,
+      isAlive: !isEliminated,
+      isCurrentPlayer,
+      address
+    }
+  })
+}
+
+const EMPTY_PLAYERS: Player[] = []
+const EMPTY_ELIMINATED: string[] = []
+
+export const selectGame: Selector<Game | null> = state => state.game
+export const selectGameId: Selector<string | undefined> = state => state.game?.gameId
+export const selectPhase: Selector<Game['phase'] | undefined> = state => state.game?.phase
+export const selectCurrentGameId: Selector<string | null | undefined> = state => state.currentGameId
+export const selectCurrentPlayerAddress: Selector<string | null> = state => state.currentPlayerAddress
+export const selectIsLoading: Selector<boolean> = state => state.isLoading
+export const selectError: Selector<string | null> = state => state.error
+export const selectIsResyncing: Selector<boolean> = state => state.isResyncing
+export const selectSnapshotGap: Selector<string | null> = state => state.snapshotGap
+
+// Changes whenever the phase (or day) changes - action deliveries are scoped to it
+export const selectDeliveryScope: Selector<string | null> = state =>
+  state.game ? `${state.game.gameId}-${state.game.phase}-${state.game.day}` : null
+
+export const selectPrivateInfo: Selector<PrivateInfoEvent[]> = state => state.privateInfo
+
+type InvestigationInfo = Extract<PrivateInfoEvent, { type: 'investigation' }>
+type ProtectionInfo = Extract<PrivateInfoEvent, { type: 'protection' }>
+
+// Broadcast roles only cover eliminated players (all of them once the game
+// ends); this player's own role and ASUR teammates come from private_info
+export const selectRoles = createSelector(
+  [
+    state => state.game?.roles,
+    selectPrivateInfo,
+    selectCurrentPlayerAddress
+  ] as [
+    Selector<Record<string, string> | undefined>,
+    Selector<PrivateInfoEvent[]>,
+    Selector<string | null>
+  ],
+  (publicRoles, privateInfo, currentPlayerAddress): Record<string, string> | undefined => {
+    if (privateInfo.length === 0 || !currentPlayerAddress) return publicRoles
+
+    const roles: Record<string, string> = { ...publicRoles }
+    privateInfo.forEach(info => {
+      if (info.type === 'role') {
+        roles[currentPlayerAddress] = info.role
+      } else if (info.type === 'teammates') {
+        info.teammates.forEach(teammate => {
+          roles[teammate] = info.role
+        })
+      }
+    })
+    return roles
+  }
+)
+
+export const selectInvestigations = createSelector(
+  [selectPrivateInfo] as [Selector<PrivateInfoEvent[]>],
+  (privateInfo): InvestigationInfo[] => privateInfo.filter((info): info is InvestigationInfo => info.type === 'investigation')
+)
+
+export const selectProtections = createSelector(
+  [selectPrivateInfo] as [Selector<PrivateInfoEvent[]>],
+  (privateInfo): ProtectionInfo[] => privateInfo.filter((info): info is ProtectionInfo => info.type === 'protection')
+)
+
+export const selectPlayers = createSelector(
+  [
+    state => state.game?.players,
+    selectRoles,
+    state => state.game?.eliminated,
+    state => state.game?.phase,
+    selectCurrentPlayerAddress
+  ] as [
+    Selector<string[] | undefined>,
+    Selector<Record<string, string> | undefined>,
+    Selector<string[] | undefined>,
+    Selector<Game['phase'] | undefined>,
+    Selector<string | null>
+  ],
+  (addresses, roles, eliminated, phase, currentPlayerAddress) => {
+    if (!addresses || !phase) return EMPTY_PLAYERS
+    return convertPlayers(addresses, roles, eliminated || EMPTY_ELIMINATED, phase, currentPlayerAddress)
+  }
+)
+
+export const selectCurrentPlayer = createSelector(
+  [selectPlayers, selectCurrentPlayerAddress] as [Selector<Player[]>, Selector<string | null>],
+  (players, address): Player | null => {
+    if (!address) return null
+
+    const player = players.find(p => p.address === address)
+    if (player) return player
+
+    // Not part of the loaded game (yet) - placeholder until game state arrives
+    return {
+      id: address,
+      name: 'Loading...',
+      avatar: generateAvatar(0),
+      isAlive: true,
+      isCurrentPlayer: true,
+      address
+    }
+  }
+)
+
+export const selectAlivePlayers = createSelector(
+  [selectPlayers] as [Selector<Player[]>],
+  players => players.filter(player => player.isAlive)
+)
+
+export const selectMyRole: Selector<string | undefined> = state => selectCurrentPlayer(state)?.role || undefined
+
+export interface VoteTally {
+  // Votes received per target address
+  counts: Record<string, number>
+  totalVotes: number
+  maxVotes: number
+  // Targets sharing the highest vote count (more than one = tie)
+  leaders: string[]
+}
+
+export const selectVoteTally = createSelector(
+  [state => state.game?.votes] as [Selector<Record<string, string> | undefined>],
+  (votes): VoteTally => {
+    const counts: Record<string, number> = {}
+    Object.values(votes || {}).forEach(target => {
+      if (typeof target === 'string') {
+        counts[target] = (counts[target] || 0) + 1
+      }
+    })
+
+    const maxVotes = Math.max(...Object.values(counts), 0)
+    return {
+      counts,
+      totalVotes: Object.keys(votes || {}).length,
+      maxVotes,
+      leaders: maxVotes > 0 ? Object.keys(counts).filter(target => counts[target] === maxVotes) : []
+    }
+  }
+)
+
+export interface TaskProgress {
+  // Tasks completed by the whole village
+  completed: number
+  // Configured max task count (defaults to 4)
+  required: number
+  // 0..1
+  progress: number
+  perPlayer: Record<string, number>
+}
+
+export const selectTaskProgress = createSelector(
+  [
+    state => state.game?.taskCounts,
+    state => state.game?.settings?.maxTaskCount
+  ] as [Selector<Record<string, number> | undefined>, Selector<number | undefined>],
+  (taskCounts, maxTaskCount): TaskProgress => {
+    const perPlayer = taskCounts || {}
+    const completed = Object.values(perPlayer).reduce((sum: number, count) => {
+      return sum + (typeof count === 'number' ? count : 0)
+    }, 0)
+    const required = maxTaskCount || 4
+
+    return {
+      completed,
+      required,
+      progress: Math.min(completed / required, 1),
+      perPlayer
+    }
+  }
+)
+
+// Seconds left in the current phase as last reported by the server
+export const selectTimeLeft: Selector<number | undefined> = state => state.game?.timeLeft
@@ -0,0 +1,182 @@
+// Game store - single source of truth for the client's view of a game
+//
+// Socket broadcasts, sync replies and REST responses are all turned into
+// actions and folded through one pure reducer. Components read from the store
+// through selectors (see gameSelectors.ts) with useSyncExternalStore, so they
+// only re-render when the slice they render actually changes.
+
+import type { Game } from './api'
+import type { GamePatchEvent, PrivateInfoEvent } from './socketProtocol'
+import { applyGamePatch } from '@/utils/gamePatch'
+
+export interface GameStoreState {
+  game: Game | null
+  // undefined: no game yet, null: the player just left / the game was cancelled
+  currentGameId: string | null | undefined
+  currentPlayerAddress: string | null
+  // Highest game_state version seen for the current game
+  lastSeen: { gameId: string; version: number } | null
+  // Set when a patch didn't apply on top of lastSeen - a full snapshot is needed
+  snapshotGap: string | null
+  isLoading: boolean
+  error: string | null
+  isResyncing: boolean
+  // private_info events for the current game, in seq order
+  privateInfo: PrivateInfoEvent[]
+}
+
+export type GameStoreAction =
+  | { type: 'game_selected'; gameId: string | null | undefined }
+  | { type: 'player_selected'; address: string | null }
+  | { type: 'snapshot_received'; game: Game; version?: number }
+  | { type: 'patch_received'; patch: GamePatchEvent }
+  | { type: 'private_info_received'; info: PrivateInfoEvent }
+  | { type: 'snapshot_gap_handled' }
+  | { type: 'loading_changed'; isLoading: boolean }
+  | { type: 'error_changed'; error: string | null }
+  | { type: 'resync_changed'; isResyncing: boolean }
+  | { type: 'game_cancelled'; reason: string }
+  | { type: 'player_removed'; reason: string }
+  | { type: 'reset' }
+
+export const initialGameStoreState: GameStoreState = {
+  game: null,
+  currentGameId: undefined,
+  currentPlayerAddress: null,
+  lastSeen: null,
+  snapshotGap: null,
+  isLoading: false,
+  error: null,
+  isResyncing: false,
+  privateInfo: []
+}
+
+// Snapshots arrive from socket broadcasts, sync replies and REST polling, so
+// they can land out of order. Anything older than what we already have is dropped.
+export function isStaleSnapshot(state: GameStoreState, gameId: string, version: number | undefined): boolean {
+  const { lastSeen } = state
+  return version !== undefined && lastSeen?.gameId === gameId && version < lastSeen.version
+}
+
+export function gameStoreReducer(state: GameStoreState, action: GameStoreAction): GameStoreState {
+  switch (action.type) {
+    case 'game_selected':
+      if (action.gameId === state.currentGameId) return state
+      if (action.gameId === null) {
+        // Player left the game
+        return { ...state, currentGameId: null, game: null, currentPlayerAddress: null, lastSeen: null, snapshotGap: null, privateInfo: [] }
+      }
+      return { ...state, currentGameId: action.gameId, privateInfo: [] }
+
+    case 'player_selected':
+      if (action.address === state.currentPlayerAddress) return state
+      return { ...state, currentPlayerAddress: action.address, privateInfo: [] }
+
+    case 'snapshot_received': {
+      const version = action.version ?? action.game.stateVersion
+      if (isStaleSnapshot(state, action.game.gameId, version)) {
+        console.log(`⏭️ Dropping stale game state v${version} (already have v${state.lastSeen?.version})`)
+        return state
+      }
+      return {
+        ...state,
+        game: action.game,
+        lastSeen: version === undefined ? state.lastSeen : { gameId: action.game.gameId, version },
+        snapshotGap: state.snapshotGap === action.game.gameId ? null : state.snapshotGap
+      }
+    }
+
+    case 'patch_received': {
+      const { patch } = action
+      const { lastSeen } = state
+
+      if (lastSeen?.gameId === patch.gameId && patch.version <= lastSeen.version) {
+        console.log(`⏭️ Dropping stale game patch v${patch.version} (already have v${lastSeen.version})`)
+        return state
+      }
+
+      // Patches only apply on top of the exact base snapshot - anything else means
+      // we missed an update and have to fetch a full snapshot instead
+      if (!state.game || state.game.gameId !== patch.gameId || lastSeen?.gameId !== patch.gameId || lastSeen.version !== patch.baseVersion) {
+        console.log(`🧩 Game patch gap: have v${lastSeen?.version ?? 'none'}, patch is v${patch.baseVersion}→v${patch.version}`)
+        return state.snapshotGap === patch.gameId ? state : { ...state, snapshotGap: patch.gameId }
+      }
+
+      return {
+        ...state,
+        game: applyGamePatch(state.game, [...patch.ops, { op: 'set', path: ['stateVersion'], value: patch.version }]),
+        lastSeen: { gameId: patch.gameId, version: patch.version }
+      }
+    }
+
+    case 'private_info_received': {
+      const { info } = action
+      if (state.currentGameId && info.gameId !== state.currentGameId) return state
+
+      // Events from another game are stale; replays after a reconnect are dropped by seq
+      const current = state.privateInfo.filter(event => event.gameId === info.gameId)
+      if (current.some(event => event.seq === info.seq)) {
+        return current.length === state.privateInfo.length ? state : { ...state, privateInfo: current }
+      }
+      return { ...state, privateInfo: [...current, info].sort((a, b) => a.seq - b.seq) }
+    }
+
+    case 'snapshot_gap_handled':
+      return state.snapshotGap === null ? state : { ...state, snapshotGap: null }
+
+    case 'loading_changed':
+      return state.isLoading === action.isLoading ? state : { ...state, isLoading: action.isLoading }
+
+    case 'error_changed':
+      return state.error === action.error ? state : { ...state, error: action.error }
+
+    case 'resync_changed':
+      return state.isResyncing === action.isResyncing ? state : { ...state, isResyncing: action.isResyncing }
+
+    case 'game_cancelled':
+    case 'player_removed':
+      return {
+        ...state,
+        error: action.type === 'game_cancelled' ? `Game cancelled: ${action.reason}` : `Removed from game: ${action.reason}`,
+        game: null,
+        currentGameId: null,
+        lastSeen: null,
+        snapshotGap: null,
+        privateInfo: []
+      }
+
+    case 'reset':
+      return initialGameStoreState
+
+    default:
+      return state
+  }
+}
+
+export interface GameStore {
+  getState: () => GameStoreState
+  dispatch: (action: GameStoreAction) => void
+  subscribe: (listener: () => void) => () => void
+}
+
+export function createGameStore(initialState: GameStoreState = initialGameStoreState): GameStore {
+  let state = initialState
+  const listeners = new Set<() => void>()
+
+  return {
+    getState: () => state,
+    dispatch: (action) => {
+      const next = gameStoreReducer(state, action)
+      // Reducer returns the same object for no-ops - nobody needs to re-render
+      if (next === state) return
+      state = next
+      listeners.forEach(listener => listener())
+    },
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    }
+  }
+}
@@ -0,0 +1,578 @@
+// Socket.IO event protocol shared by SocketContext, useGame and the chat UIs
+//
+// Every event that crosses the socket is described here once, as a zod schema.
+// Outgoing payloads are validated before emit, incoming payloads before they
+// reach a handler. Anything that doesn't match is dropped and logged as a
+// protocol error instead of leaking `any` into game state.
+
+import { z } from 'zod'
+import type { Game } from './api'
+
+// ---------------------------------------------------------------------------
+// Shared pieces
+// ---------------------------------------------------------------------------
+
+const gameId = z.string().min(1)
+const address = z.string().min(1)
+
+export const gamePhaseSchema = z.enum(['lobby', 'night', 'resolution', 'task', 'voting', 'ended'])
+
+// Only the fields every screen relies on are checked; the rest of the game
+// object is passed through untouched (the backend adds fields over time)
+const gameSchema = z.object({
+  gameId,
+  creator: address,
+  players: z.array(address),
+  phase: gamePhaseSchema,
+  day: z.number(),
+  timeLeft: z.number(),
+  eliminated: z.array(address),
+  roles: z.record(z.string()).optional(),
+  taskCounts: z.record(z.number()).optional(),
+  votes: z.record(z.string()).optional(),
+  stateVersion: z.number().optional(),
+}).passthrough()
+
+// ---------------------------------------------------------------------------
+// Client → server
+// ---------------------------------------------------------------------------
+
+const joinGamePayload = z.object({
+  gameId,
+  playerAddress: address,
+})
+
+// Actions carry a client-generated requestId so the backend can drop
+// redeliveries (ack timeout -> REST fallback, manual retry)
+const requestId = z.string().min(1)
+
+// Signature by the player's session key over the action (utils/sessionKeys.ts)
+const sessionSignature = z.string().startsWith('0x').optional()
+
+const submitActionPayload = z.object({
+  gameId,
+  playerAddress: address,
+  requestId,
+  action: z.unknown(),
+  commit: z.string().optional(),
+  sessionSignature,
+})
+
+// Reveal of a committed night action during the resolution phase
+const revealActionPayload = z.object({
+  gameId,
+  playerAddress: address,
+  requestId,
+  action: z.unknown(),
+  nonce: z.string().min(1),
+  sessionSignature,
+})
+
+const submitTaskPayload = z.object({
+  gameId,
+  playerAddress: address,
+  requestId,
+  answer: z.unknown(),
+  sessionSignature,
+})
+
+const submitVotePayload = z.object({
+  gameId,
+  playerAddress: address,
+  requestId,
+  vote: address,
+  sessionSignature,
+})
+
+const sendChatPayload = z.object({
+  gameId,
+  playerAddress: address,
+  message: z.string().trim().min(1).max(500),
+  timestamp: z.number().optional(),
+  sessionSignature,
+})
+
+// Ask the server for anything newer than the last game_state version we saw
+const requestSyncPayload = z.object({
+  gameId,
+  playerAddress: address,
+  sinceVersion: z.number().int().nonnegative(),
+})
+
+// Spectators watch by room code and need no wallet or sign-in
+const spectateGamePayload = z.object({
+  roomCode: z.string().trim().min(1),
+})
+
+const leaveSpectatePayload = z.object({})
+
+const spectatorChatPayload = z.object({
+  gameId,
+  message: z.string().trim().min(1).max(500),
+})
+
+// Lobby browser: get lobby_update for the public lobby list
+const watchLobbiesPayload = z.object({})
+
+const unwatchLobbiesPayload = z.object({})
+
+// Quick match: stakeTier is one of the configured tiers in token units ("0.01")
+const queueJoinPayload = z.object({
+  playerAddress: address,
+  stakeTier: z.string().min(1),
+  lobbySize: z.number().int().positive(),
+})
+
+const queueLeavePayload = z.object({
+  playerAddress: address,
+})
+
+export const clientEventSchemas = {
+  join_game: joinGamePayload,
+  submit_action: submitActionPayload,
+  reveal_action: revealActionPayload,
+  submit_task: submitTaskPayload,
+  submit_vote: submitVotePayload,
+  chat_message: sendChatPayload,
+  request_sync: requestSyncPayload,
+  spectate_game: spectateGamePayload,
+  leave_spectate: leaveSpectatePayload,
+  spectator_chat: spectatorChatPayload,
+  watch_lobbies: watchLobbiesPayload,
+  unwatch_lobbies: unwatchLobbiesPayload,
+  queue_join: queueJoinPayload,
+  queue_leave: queueLeavePayload,
+} as const
+
+export const clientEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('join_game'), payload: joinGamePayload }),
+  z.object({ type: z.literal('submit_action'), payload: submitActionPayload }),
+  z.object({ type: z.literal('reveal_action'), payload: revealActionPayload }),
+  z.object({ type: z.literal('submit_task'), payload: submitTaskPayload }),
+  z.object({ type: z.literal('submit_vote'), payload: submitVotePayload }),
+  z.object({ type: z.literal('chat_message'), payload: sendChatPayload }),
+  z.object({ type: z.literal('request_sync'), payload: requestSyncPayload }),
+  z.object({ type: z.literal('spectate_game'), payload: spectateGamePayload }),
+  z.object({ type: z.literal('leave_spectate'), payload: leaveSpectatePayload }),
+  z.object({ type: z.literal('spectator_chat'), payload: spectatorChatPayload }),
+  z.object({ type: z.literal('watch_lobbies'), payload: watchLobbiesPayload }),
+  z.object({ type: z.literal('unwatch_lobbies'), payload: unwatchLobbiesPayload }),
+  z.object({ type: z.literal('queue_join'), payload: queueJoinPayload }),
+  z.object({ type: z.literal('queue_leave'), payload: queueLeavePayload }),
+])
+
+// Acknowledgement returned by the server for submit_action / reveal_action /
+// submit_task / submit_vote
+export const actionAckSchema = z.object({
+  ok: z.boolean(),
+  requestId,
+  duplicate: z.boolean().optional(),
+  error: z.string().optional(),
+  verified: z.boolean().optional(), // reveal_action: whether the reveal matched the commit
+}).passthrough()
+
+// Acknowledgement for request_sync. If the client was behind, a fresh
+// game_state is emitted before this ack arrives.
+export const syncAckSchema = z.object({
+  ok: z.boolean(),
+  version: z.number(),
+  upToDate: z.boolean(),
+  error: z.string().optional(),
+})
+
+// Acknowledgement for spectate_game. delay is how many seconds behind the
+// live game spectator_state runs; name is what other spectators see in chat.
+export const spectateAckSchema = z.object({
+  ok: z.boolean(),
+  gameId: z.string().optional(),
+  delay: z.number().optional(),
+  name: z.string().optional(),
+  error: z.string().optional(),
+})
+
+// ---------------------------------------------------------------------------
+// Server → client
+// ---------------------------------------------------------------------------
+
+// version increases with every broadcast for a game; older snapshots are stale
+const gameStatePayload = z.object({
+  gameId,
+  version: z.number().int().nonnegative(),
+  game: gameSchema,
+})
+
+// Delta against the snapshot at baseVersion (see utils/gamePatch.ts). A client
+// that isn't at baseVersion has missed something and must re-sync.
+const gamePatchOp = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('set'), path: z.array(z.string()).min(1), value: z.unknown() }),
+  z.object({ op: z.literal('unset'), path: z.array(z.string()).min(1) }),
+])
+
+const gamePatchPayload = z.object({
+  gameId,
+  baseVersion: z.number().int().nonnegative(),
+  version: z.number().int().positive(),
+  ops: z.array(gamePatchOp),
+})
+
+// game_update is a grab bag (player_joined, vote_submitted, timer ticks, ...)
+const gameUpdatePayload = z.object({
+  type: z.string().optional(),
+  gameId: z.string().optional(),
+  playerAddress: z.string().optional(),
+  phase: gamePhaseSchema.optional(),
+  timeLeft: z.number().optional(),
+  message: z.string().optional(),
+  timestamp: z.number().optional(),
+}).passthrough()
+
+const taskUpdatePayload = z.object({
+  playerAddress: address,
+  answer: z.enum(['correct', 'incorrect']),
+  timestamp: z.number(),
+})
+
+const taskResultPayload = z.object({
+  playerAddress: address,
+  isSuccess: z.boolean(),
+  taskCount: z.number(),
+})
+
+// Player messages carry a numeric timestamp, system announcements an ISO string
+const chatMessagePayload = z.object({
+  gameId,
+  playerAddress: address,
+  message: z.string(),
+  timestamp: z.union([z.number(), z.string()]).transform(value =>
+    typeof value === 'number' ? value : new Date(value).getTime()
+  ),
+  playerName: z.string().optional(),
+  playerAlias: z.string().optional(),
+  avatarUrl: z.string().nullable().optional(),
+  type: z.string().optional(),
+  taskPlayerAddress: z.string().optional(),
+})
+
+const errorPayload = z.object({
+  message: z.string(),
+})
+
+const gameCancelledPayload = z.object({
+  gameId,
+  reason: z.string(),
+})
+
+// Public game state for spectators, released `delay` seconds after players got it
+const spectatorStatePayload = z.object({
+  gameId,
+  version: z.number().int().nonnegative(),
+  delay: z.number(),
+  game: gameSchema,
+})
+
+// Spectator-only chat; players never receive it
+const spectatorChatMessagePayload = z.object({
+  gameId,
+  name: z.string(),
+  message: z.string(),
+  timestamp: z.number(),
+})
+
+// Spectating was turned off by the host or the game was cancelled
+const spectateClosedPayload = z.object({
+  gameId,
+  reason: z.string(),
+})
+
+// Secrets for this player only, sent to their private room and replayed on
+// join_game. seq numbers each player's events so replays can be dropped.
+const privateInfoBase = {
+  gameId,
+  seq: z.number().int().nonnegative(),
+  timestamp: z.number(),
+}
+
+const privateInfoPayload = z.discriminatedUnion('type', [
+  // Role dealt at game start (backend name: Mafia, Doctor, Detective, Villager)
+  z.object({ ...privateInfoBase, type: z.literal('role'), role: z.string() }),
+  // ASUR only: the other ASUR players
+  z.object({ ...privateInfoBase, type: z.literal('teammates'), role: z.string(), teammates: z.array(address) }),
+  // RISHI only: role of the player investigated that night
+  z.object({ ...privateInfoBase, type: z.literal('investigation'), day: z.number(), target: address, role: z.string() }),
+  // DEVA only: who was protected that night and whether it stopped a kill
+  z.object({ ...privateInfoBase, type: z.literal('protection'), day: z.number(), target: address, saved: z.boolean() }),
+])
+
+// The event was dropped because the socket's SIWE session is missing, expired
+// or signed in as a different wallet than the payload's playerAddress
+const authRequiredPayload = z.object({
+  reason: z.enum(['missing', 'expired', 'address_mismatch']),
+})
+
+// One entry of the public lobby list, same shape as GET /api/game/public/lobbies
+const publicLobbySchema = z.object({
+  gameId,
+  roomCode: z.string(),
+  creator: address,
+  creatorName: z.string().optional(),
+  stakeAmount: z.string(), // Wei
+  stakeAmountFormatted: z.string().optional(), // Token units
+  minPlayers: z.number(),
+  maxPlayers: z.number(),
+  playerCount: z.number(),
+  currentPlayers: z.array(address),
+  createdAt: z.string(),
+  contractGameId: z.string().optional(),
+  composition: z.object({ mafia: z.number(), doctor: z.boolean(), detective: z.boolean() }).optional(),
+}).passthrough()
+
+// A lobby appeared or changed, or left the list (filled, started, made private, cancelled)
+const lobbyUpdatePayload = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('upsert'), lobby: publicLobbySchema }),
+  z.object({ type: z.literal('remove'), gameId, reason: z.enum(['filled', 'started', 'hidden', 'locked', 'cancelled']) }),
+])
+
+// Where a player stands in the quick match queue. 'matching' means a group was
+// formed and its game is being created. estimatedWait (seconds) is null until
+// the queue has matched someone to estimate from.
+const queueStatusPayload = z.object({
+  status: z.enum(['searching', 'matching']),
+  stakeTier: z.string(),
+  lobbySize: z.number(),
+  position: z.number().optional(),
+  queued: z.number().optional(),
+  rating: z.number(),
+  waited: z.number().optional(),
+  estimatedWait: z.number().nullable().optional(),
+})
+
+// A quick match game was made; stake into it before stakeDeadline (ms)
+const matchFoundPayload = z.object({
+  gameId,
+  roomCode: z.string(),
+  contractGameId: z.string(),
+  stakeAmount: z.string(), // Wei
+  stakeAmountFormatted: z.string(), // Token units
+  lobbySize: z.number(),
+  players: z.number(),
+  stakeDeadline: z.number(),
+})
+
+// Left the queue or lost the match (stake deadline, game creation failed)
+const queueCancelledPayload = z.object({
+  gameId: z.string().optional(),
+  reason: z.string(),
+})
+
+// Taken out of the lobby by the server (e.g. not ready by the ready-check
+// deadline); refunded players can withdraw their stake from the contract
+const playerRemovedPayload = z.object({
+  gameId,
+  playerAddress: address,
+  reason: z.string(),
+  refunded: z.boolean(),
+})
+
+// Something the lobby host did, announced to everyone in the room
+const hostActionPayload = z.object({
+  gameId,
+  action: z.enum(['kick', 'ban', 'unban', 'transfer_host', 'lock', 'unlock']),
+  host: address,
+  playerAddress: address.nullable().optional(),
+  timestamp: z.number(),
+  refunded: z.boolean().optional(),
+})
+
+// Acknowledgement for queue_join (with the player's status) and queue_leave
+export const queueAckSchema = z.object({
+  ok: z.boolean(),
+  status: queueStatusPayload.nullable().optional(),
+  error: z.string().optional(),
+})
+
+export const serverEventSchemas = {
+  game_state: gameStatePayload,
+  game_patch: gamePatchPayload,
+  game_update: gameUpdatePayload,
+  task_update: taskUpdatePayload,
+  task_result: taskResultPayload,
+  chat_message: chatMessagePayload,
+  error: errorPayload,
+  game_cancelled: gameCancelledPayload,
+  auth_required: authRequiredPayload,
+  private_info: privateInfoPayload,
+  spectator_state: spectatorStatePayload,
+  spectator_chat_message: spectatorChatMessagePayload,
+  spectate_closed: spectateClosedPayload,
+  lobby_update: lobbyUpdatePayload,
+  queue_status: queueStatusPayload,
+  match_found: matchFoundPayload,
+  queue_cancelled: queueCancelledPayload,
+  player_removed: playerRemovedPayload,
+  host_action: hostActionPayload,
+} as const
+
+export const serverEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('game_state'), payload: gameStatePayload }),
+  z.object({ type: z.literal('game_patch'), payload: gamePatchPayload }),
+  z.object({ type: z.literal('game_update'), payload: gameUpdatePayload }),
+  z.object({ type: z.literal('task_update'), payload: taskUpdatePayload }),
+  z.object({ type: z.literal('task_result'), payload: taskResultPayload }),
+  z.object({ type: z.literal('chat_message'), payload: chatMessagePayload }),
+  z.object({ type: z.literal('error'), payload: errorPayload }),
+  z.object({ type: z.literal('game_cancelled'), payload: gameCancelledPayload }),
+  z.object({ type: z.literal('auth_required'), payload: authRequiredPayload }),
+  z.object({ type: z.literal('private_info'), payload: privateInfoPayload }),
+  z.object({ type: z.literal('spectator_state'), payload: spectatorStatePayload }),
+  z.object({ type: z.literal('spectator_chat_message'), payload: spectatorChatMessagePayload }),
+  z.object({ type: z.literal('spectate_closed'), payload: spectateClosedPayload }),
+  z.object({ type: z.literal('lobby_update'), payload: lobbyUpdatePayload }),
+  z.object({ type: z.literal('queue_status'), payload: queueStatusPayload }),
+  z.object({ type: z.literal('match_found'), payload: matchFoundPayload }),
+  z.object({ type: z.literal('queue_cancelled'), payload: queueCancelledPayload }),
+  z.object({ type: z.literal('player_removed'), payload: playerRemovedPayload }),
+  z.object({ type: z.literal('host_action'), payload: hostActionPayload }),
+])
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ClientEvent = z.infer<typeof clientEventSchema>
+export type ClientEventName = ClientEvent['type']
+export type ClientEventPayload<E extends ClientEventName> = z.input<(typeof clientEventSchemas)[E]>
+
+// game_state and spectator_state are narrowed to the full Game interface so
+// consumers keep the same shape they get from the REST API
+type ServerEventPayloads = {
+  [K in keyof typeof serverEventSchemas]: K extends 'game_state'
+    ? { gameId: string; version: number; game: Game }
+    : K extends 'spectator_state'
+    ? { gameId: string; version: number; delay: number; game: Game }
+    : z.output<(typeof serverEventSchemas)[K]>
+}
+export type ServerEventName = keyof ServerEventPayloads
+export type ServerEventPayload<E extends ServerEventName> = ServerEventPayloads[E]
+export type ServerEvent = {
+  [K in ServerEventName]: { type: K; payload: ServerEventPayloads[K] }
+}[ServerEventName]
+
+export type AckedClientEventName = 'submit_action' | 'reveal_action' | 'submit_task' | 'submit_vote'
+export type ActionAck = z.output<typeof actionAckSchema>
+export type SyncAck = z.output<typeof syncAckSchema>
+export type SpectateAck = z.output<typeof spectateAckSchema>
+export type QueueAck = z.output<typeof queueAckSchema>
+
+export type JoinGamePayload = ClientEventPayload<'join_game'>
+export type SubmitActionPayload = ClientEventPayload<'submit_action'>
+export type SubmitTaskPayload = ClientEventPayload<'submit_task'>
+export type SubmitVotePayload = ClientEventPayload<'submit_vote'>
+export type SendChatPayload = ClientEventPayload<'chat_message'>
+export type ChatMessageEvent = ServerEventPayload<'chat_message'>
+export type GameUpdateEvent = ServerEventPayload<'game_update'>
+export type GamePatchEvent = ServerEventPayload<'game_patch'>
+export type PrivateInfoEvent = ServerEventPayload<'private_info'>
+export type SpectatorChatMessage = ServerEventPayload<'spectator_chat_message'>
+export type PublicLobby = z.output<typeof publicLobbySchema>
+export type LobbyUpdate = ServerEventPayload<'lobby_update'>
+export type QueueStatus = ServerEventPayload<'queue_status'>
+export type MatchFound = ServerEventPayload<'match_found'>
+export type PlayerRemoved = ServerEventPayload<'player_removed'>
+export type HostAction = ServerEventPayload<'host_action'>
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export class SocketProtocolError extends Error {
+  constructor(
+    public direction: 'outgoing' | 'incoming',
+    public event: string,
+    public issues: z.ZodIssue[]
+  ) {
+    super(`Malformed ${direction} "${event}" event: ${issues.map(i => `${i.path.join('.') || '(root)'} ${i.message}`).join('; ')}`)
+    this.name = 'SocketProtocolError'
+  }
+}
+
+function reportProtocolError(error: SocketProtocolError, data: unknown) {
+  console.error('🚫 Socket protocol error:', error.message, { event: error.event, data })
+}
+
+/**
+ * Validate an outgoing payload. Returns the parsed payload, or null (after
+ * logging) if it doesn't match the protocol.
+ */
+export function parseClientEvent<E extends ClientEventName>(event: E, data: unknown): ClientEventPayload<E> | null {
+  const result = clientEventSchemas[event].safeParse(data)
+  if (!result.success) {
+    reportProtocolError(new SocketProtocolError('outgoing', event, result.error.issues), data)
+    return null
+  }
+  return result.data as ClientEventPayload<E>
+}
+
+/**
+ * Validate an incoming payload. Returns the parsed payload, or null (after
+ * logging) if it doesn't match the protocol.
+ */
+export function parseServerEvent<E extends ServerEventName>(event: E, data: unknown): ServerEventPayload<E> | null {
+  const result = serverEventSchemas[event].safeParse(data)
+  if (!result.success) {
+    reportProtocolError(new SocketProtocolError('incoming', event, result.error.issues), data)
+    return null
+  }
+  return result.data as unknown as ServerEventPayload<E>
+}
+
+/**
+ * Validate an acknowledgement for an acked client event. Returns the parsed
+ * ack, or null (after logging) if it doesn't match the protocol.
+ */
+export function parseActionAck(event: AckedClientEventName, data: unknown): ActionAck | null {
+  const result = actionAckSchema.safeParse(data)
+  if (!result.success) {
+    reportProtocolError(new SocketProtocolError('incoming', `${event} ack`, result.error.issues), data)
+    return null
+  }
+  return result.data
+}
+
+/**
+ * Validate a spectate_game acknowledgement. Returns the parsed ack, or null
+ * (after logging) if it doesn't match the protocol.
+ */
+export function parseSpectateAck(data: unknown): SpectateAck | null {
+  const result = spectateAckSchema.safeParse(data)
+  if (!result.success) {
+    reportProtocolError(new SocketProtocolError('incoming', 'spectate_game ack', result.error.issues), data)
+    return null
+  }
+  return result.data
+}
+
+/**
+ * Validate a queue_join / queue_leave acknowledgement. Returns the parsed ack,
+ * or null (after logging) if it doesn't match the protocol.
+ */
+export function parseQueueAck(event: 'queue_join' | 'queue_leave', data: unknown): QueueAck | null {
+  const result = queueAckSchema.safeParse(data)
+  if (!result.success) {
+    reportProtocolError(new SocketProtocolError('incoming', `${event} ack`, result.error.issues), data)
+    return null
+  }
+  return result.data
+}
+
+/**
+ * Validate a request_sync acknowledgement. Returns the parsed ack, or null
+ * (after logging) if it doesn't match the protocol.
+ */
+export function parseSyncAck(data: unknown): SyncAck | null {
+  const result = syncAckSchema.safeParse(data)
+  if (!result.success) {
+    reportProtocolError(new SocketProtocolError('incoming', 'request_sync ack', result.error.issues), data)
+    return null
+  }
+  return result.data
+}
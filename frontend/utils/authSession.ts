@@ -0,0 +1,91 @@
+/**
+ * Sign-In with Ethereum session token storage
+ *
+ * The backend issues a token after verifying a signed SIWE message. It is sent
+ * as `Authorization: Bearer <token>` on REST calls and in the socket handshake.
+ * Subscribers (WalletContext, SocketProvider) are told whenever it changes.
+ */
+
+const STORAGE_KEY = 'pepasur_auth_session';
+
+export interface AuthSession {
+  token: string;
+  address: string;
+  expiresAt: number;
+}
+
+type AuthSessionListener = (session: AuthSession | null) => void;
+
+const listeners = new Set<AuthSessionListener>();
+
+function notify(session: AuthSession | null): void {
+  listeners.forEach(listener => listener(session));
+}
+
+/**
+ * Get the stored session, or null if there is none or it has expired
+ */
+export function getAuthSession(): AuthSession | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const session: AuthSession = JSON.parse(stored);
+    if (!session.token || session.expiresAt <= Date.now()) {
+      localStorage.removeItem(STORAGE_KEY);
+      return null;
+    }
+
+    return session;
+  } catch (error) {
+    console.error('❌ Error reading auth session:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a new session and notify subscribers
+ */
+export function saveAuthSession(session: AuthSession): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    console.log('🔐 Signed in as', session.address);
+  } catch (error) {
+    console.error('❌ Error saving auth session:', error);
+  }
+  notify(session);
+}
+
+/**
+ * Forget the session (expired, rejected by the server or wallet switched)
+ */
+export function clearAuthSession(): void {
+  try {
+    if (!localStorage.getItem(STORAGE_KEY)) return;
+    localStorage.removeItem(STORAGE_KEY);
+    console.log('🔐 Auth session cleared');
+  } catch (error) {
+    console.error('❌ Error clearing auth session:', error);
+  }
+  notify(null);
+}
+
+/**
+ * Listen for session changes. Returns an unsubscribe function.
+ */
+export function subscribeAuthSession(listener: AuthSessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Authorization header for the current session (empty when signed out)
+ */
+export function authHeaders(): Record<string, string> {
+  const session = getAuthSession();
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+}
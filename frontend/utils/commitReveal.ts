@@ -0,0 +1,87 @@
+/**
+ * Night action commit–reveal
+ *
+ * During the night the client only sends sha256(JSON {action, nonce}); the
+ * action and nonce are revealed once the backend moves to resolution, and the
+ * backend recomputes the hash (backend/utils/commitReveal.js). The nonce is
+ * kept in localStorage so a refresh mid-night can still reveal.
+ */
+
+const STORAGE_KEY = 'pepasur_night_commit';
+
+export interface NightCommit {
+  gameId: string;
+  day: number;
+  action: unknown;
+  nonce: string;
+  commit: string;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * sha256 of a UTF-8 string as lowercase hex (matches Node's createHash('sha256'))
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Hash an action the same way the backend does. Key order matters: the
+ * action object must be revealed exactly as it was committed.
+ */
+export function generateCommit(action: unknown, nonce: string): Promise<string> {
+  return sha256Hex(JSON.stringify({ action, nonce }));
+}
+
+/**
+ * Commit to an action for one night with a fresh random nonce
+ */
+export async function createNightCommit(gameId: string, day: number, action: unknown): Promise<NightCommit> {
+  const nonce = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const commit = await generateCommit(action, nonce);
+  return { gameId, day, action, nonce, commit };
+}
+
+/**
+ * Remember the committed action and nonce until it has been revealed
+ */
+export function saveNightCommit(nightCommit: NightCommit): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(nightCommit));
+    console.log('🔐 Night action committed for day', nightCommit.day);
+  } catch (error) {
+    console.error('❌ Error saving night commit:', error);
+  }
+}
+
+/**
+ * Stored commit for this game and night, or null
+ */
+export function getNightCommit(gameId: string, day: number): NightCommit | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const nightCommit: NightCommit = JSON.parse(stored);
+    if (nightCommit.gameId !== gameId || nightCommit.day !== day) return null;
+    return nightCommit;
+  } catch (error) {
+    console.error('❌ Error reading night commit:', error);
+    return null;
+  }
+}
+
+/**
+ * Forget the stored commit (revealed, or the game is over)
+ */
+export function clearNightCommit(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('❌ Error clearing night commit:', error);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Apply game_patch operations to a game snapshot
+ *
+ * Updates are immutable with structural sharing: only objects along a patched
+ * path are copied, everything else keeps its identity. A patch that only
+ * touches `timeLeft` leaves `players`, `taskCounts` etc. referentially equal,
+ * so memoized selectors and effects depending on them don't re-run.
+ */
+
+export type GamePatchOp =
+  | { op: 'set'; path: string[]; value?: unknown }
+  | { op: 'unset'; path: string[] };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Return a new snapshot with the operations applied (input is not mutated)
+ */
+export function applyGamePatch<T extends object>(snapshot: T, ops: GamePatchOp[]): T {
+  const root = { ...snapshot } as Record<string, unknown>;
+  // Objects already copied during this patch - safe to mutate in place
+  const copied = new Set<object>([root]);
+
+  for (const operation of ops) {
+    if (operation.path.length === 0) continue;
+
+    let parent = root;
+    for (const key of operation.path.slice(0, -1)) {
+      const child = parent[key];
+      let next = isPlainObject(child) ? child : {};
+      if (!copied.has(next)) {
+        next = { ...next };
+        copied.add(next);
+      }
+      parent[key] = next;
+      parent = next;
+    }
+
+    const leaf = operation.path[operation.path.length - 1];
+    if (operation.op === 'set') {
+      parent[leaf] = operation.value;
+    } else {
+      delete parent[leaf];
+    }
+  }
+
+  return root as T;
+}
@@ -0,0 +1,92 @@
+/**
+ * URL routes for the game flow
+ *
+ *   /                        wallet / staking
+ *   /lobbies                 public lobby browser
+ *   /lobby/[roomCode]        lobby
+ *   /join/[roomCode]         invite link - opens staking with the code filled in
+ *   /game/[gameId]           running game (role reveal, night, tasks, voting)
+ *   /game/[gameId]/results   game results
+ */
+
+import type { ScreenState } from './screenMachine';
+
+export type GameRoute =
+  | { kind: 'home' }
+  | { kind: 'lobbies' }
+  | { kind: 'lobby'; roomCode: string }
+  | { kind: 'join'; roomCode: string }
+  | { kind: 'game'; gameId: string }
+  | { kind: 'results'; gameId: string };
+
+export interface RouteIds {
+  gameId?: string | null;
+  roomCode?: string | null;
+}
+
+/**
+ * Parse a pathname into a game route (unknown paths are treated as home)
+ */
+export function parseGameRoute(pathname: string | null): GameRoute {
+  const segments = (pathname || '/').split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (segments[0] === 'lobbies' && segments.length === 1) {
+    return { kind: 'lobbies' };
+  }
+  if (segments[0] === 'lobby' && segments.length === 2) {
+    return { kind: 'lobby', roomCode: segments[1].toUpperCase() };
+  }
+  if (segments[0] === 'join' && segments.length === 2) {
+    return { kind: 'join', roomCode: segments[1].toUpperCase() };
+  }
+  if (segments[0] === 'game' && segments.length === 2) {
+    return { kind: 'game', gameId: segments[1] };
+  }
+  if (segments[0] === 'game' && segments.length === 3 && segments[2] === 'results') {
+    return { kind: 'results', gameId: segments[1] };
+  }
+  return { kind: 'home' };
+}
+
+/**
+ * Build the pathname for a route
+ */
+export function gameRoutePath(route: GameRoute): string {
+  switch (route.kind) {
+    case 'lobbies':
+      return '/lobbies';
+    case 'lobby':
+      return `/lobby/${encodeURIComponent(route.roomCode)}`;
+    case 'join':
+      return `/join/${encodeURIComponent(route.roomCode)}`;
+    case 'game':
+      return `/game/${encodeURIComponent(route.gameId)}`;
+    case 'results':
+      return `/game/${encodeURIComponent(route.gameId)}/results`;
+    default:
+      return '/';
+  }
+}
+
+/**
+ * Route the given screen lives at, or null if it has none (loader) or the
+ * ids it needs aren't known yet
+ */
+export function routeForScreen(screen: ScreenState, ids: RouteIds): GameRoute | null {
+  switch (screen) {
+    case 'loader':
+      return null;
+    case 'wallet':
+    case 'room-code-input':
+    case 'staking':
+      return { kind: 'home' };
+    case 'public-lobbies':
+      return { kind: 'lobbies' };
+    case 'lobby':
+      return ids.roomCode ? { kind: 'lobby', roomCode: ids.roomCode } : null;
+    case 'ended':
+      return ids.gameId ? { kind: 'results', gameId: ids.gameId } : null;
+    default:
+      return ids.gameId ? { kind: 'game', gameId: ids.gameId } : null;
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Monte Carlo outcome simulator
+ *
+ * Plays thousands of randomized games under a lobby's ruleset - role
+ * composition, task win threshold, phase durations - and estimates how often
+ * each side wins, how long games last and what each role can expect to take
+ * home. It follows the backend's rules (PhaseManager, TaskManager,
+ * StakingService); the players are a deliberately simple model, so the
+ * numbers compare settings against each other rather than predict a table.
+ *
+ * Pure and synchronous - run it in outcomeSimulator.worker.ts, not on the UI thread.
+ */
+
+import type { RoleComposition } from '@/services/api';
+import { roleDeck } from './roleShuffle';
+import { DEFAULT_HOUSE_CUT_BPS } from './winProbability';
+
+export type SimulatedRole = 'Mafia' | 'Doctor' | 'Detective' | 'Villager';
+
+export interface SimulationParams {
+  playerCount: number;
+  composition: RoleComposition;
+  maxTaskCount: number;
+  nightPhaseDuration: number; // seconds
+  resolutionPhaseDuration: number; // seconds
+  taskPhaseDuration: number; // seconds
+  votingPhaseDuration: number; // seconds
+  stake: number; // token units per player
+  houseCutBps?: number; // defaults to the contract's initial cut
+  runs?: number;
+  seed?: number; // same seed, same estimate
+}
+
+export interface SimulationResult {
+  runs: number;
+  mafiaWinRate: number; // 0..1
+  nonMafiaWinRate: number; // 0..1, including task wins
+  taskWinRate: number; // 0..1, share of all games won by completing tasks
+  averageDays: number;
+  averageSeconds: number;
+  expectedValue: Partial<Record<SimulatedRole, number>>; // token units, net of the stake
+}
+
+export const DEFAULT_SIMULATION_RUNS = 5000;
+const MAX_DAYS = 50; // Safety net - a stalled game counts as a non-ASUR win by timeout
+const RESULTS_DISPLAY_SECONDS = 5; // Voting results are shown this long before night
+
+// Player model. Shorter phases mean more missed actions and sloppier answers.
+const TOWN_INSIGHT = 0.2; // Chance a non-ASUR voter's suspicion lands on an actual ASUR
+const DETECTIVE_CREDIBILITY = 0.6; // Chance a voter follows the RISHI's accusation
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const nightActionRate = (seconds: number) => clamp(seconds / 20, 0.3, 0.98);
+const taskSubmitRate = (seconds: number) => clamp(seconds / 20, 0.3, 0.98);
+const taskSuccessRate = (seconds: number) => clamp(0.4 + seconds / 120, 0.45, 0.9);
+const voteRate = (seconds: number) => clamp(seconds / 12, 0.3, 0.98);
+
+// Small seeded PRNG (mulberry32) so repeated runs of the same settings agree
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: T[], random: () => number): T | undefined {
+  return items.length > 0 ? items[Math.floor(random() * items.length)] : undefined;
+}
+
+function shuffled<T>(items: T[], random: () => number): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+interface GameOutcome {
+  mafiaWon: boolean;
+  byTasks: boolean;
+  days: number;
+  seconds: number;
+  survivingMafia: number;
+}
+
+function playGame(params: SimulationParams, random: () => number): GameOutcome {
+  const roles = shuffled(roleDeck(params.playerCount, params.composition) as SimulatedRole[], random);
+  const alive = roles.map(() => true);
+  const taskCounts = roles.map(() => 0);
+  const investigated = new Set<number>();
+  let lead: number | null = null; // ASUR the RISHI has found and will accuse
+  let seconds = 0;
+
+  const living = () => roles.map((_, i) => i).filter(i => alive[i]);
+  const livingMafia = () => living().filter(i => roles[i] === 'Mafia');
+  const livingRole = (role: SimulatedRole) => living().find(i => roles[i] === role);
+
+  // Same checks as PhaseManager.checkWinConditions, in the same order
+  const outcome = (days: number): GameOutcome | null => {
+    const mafia = livingMafia().length;
+    const others = living().length - mafia;
+    const totalTasks = taskCounts.reduce((sum, count) => sum + count, 0);
+    if (totalTasks >= params.maxTaskCount) return { mafiaWon: false, byTasks: true, days, seconds, survivingMafia: mafia };
+    if (mafia === 0) return { mafiaWon: false, byTasks: false, days, seconds, survivingMafia: 0 };
+    if (mafia >= others) return { mafiaWon: true, byTasks: false, days, seconds, survivingMafia: mafia };
+    return null;
+  };
+
+  for (let day = 1; day <= MAX_DAYS; day++) {
+    // Night: the ASUR's most chosen target dies unless the DEVA saved them
+    const acts = () => random() < nightActionRate(params.nightPhaseDuration);
+    const targets = living().filter(i => roles[i] !== 'Mafia');
+    const votes = new Map<number, number>();
+    for (let i = livingMafia().length; i > 0; i--) {
+      const target = pick(targets, random);
+      if (target !== undefined && acts()) votes.set(target, (votes.get(target) || 0) + 1);
+    }
+    let killed: number | null = null;
+    for (const [target, count] of votes) {
+      if (killed === null || count > (votes.get(killed) || 0)) killed = target;
+    }
+
+    const doctor = livingRole('Doctor');
+    const saved = doctor !== undefined && acts() ? pick(living(), random) : undefined;
+
+    const detective = livingRole('Detective');
+    if (detective !== undefined && lead === null && acts()) {
+      const suspect = pick(living().filter(i => i !== detective && !investigated.has(i)), random);
+      if (suspect !== undefined) {
+        investigated.add(suspect);
+        if (roles[suspect] === 'Mafia') lead = suspect;
+      }
+    }
+
+    if (killed !== null && killed !== saved) {
+      alive[killed] = false;
+    }
+    seconds += params.nightPhaseDuration + params.resolutionPhaseDuration;
+
+    const afterNight = outcome(day);
+    if (afterNight) return afterNight;
+
+    // Tasks: ASUR sit them out; a wrong answer costs the player a task (never below zero)
+    for (const player of shuffled(living().filter(i => roles[i] !== 'Mafia'), random)) {
+      if (random() >= taskSubmitRate(params.taskPhaseDuration)) continue;
+      taskCounts[player] = random() < taskSuccessRate(params.taskPhaseDuration)
+        ? taskCounts[player] + 1
+        : Math.max(0, taskCounts[player] - 1);
+      if (taskCounts.reduce((sum, count) => sum + count, 0) >= params.maxTaskCount) {
+        seconds += params.taskPhaseDuration;
+        return outcome(day) as GameOutcome;
+      }
+    }
+    seconds += params.taskPhaseDuration;
+
+    // Voting: ASUR pile onto one player; the rest follow the RISHI or their hunch. Ties eliminate no one.
+    const voters = living();
+    const mafiaTarget = pick(voters.filter(i => roles[i] !== 'Mafia'), random);
+    const accusing = lead !== null && alive[lead] && livingRole('Detective') !== undefined ? lead : null;
+    const tally = new Map<number, number>();
+    for (const voter of voters) {
+      if (random() >= voteRate(params.votingPhaseDuration)) continue;
+
+      let choice: number | undefined;
+      if (roles[voter] === 'Mafia') {
+        choice = mafiaTarget;
+      } else if (accusing !== null && (voter === livingRole('Detective') || random() < DETECTIVE_CREDIBILITY)) {
+        choice = accusing;
+      } else {
+        // Only the RISHI knows who came back clean
+        const cleared = (i: number) => roles[voter] === 'Detective' && investigated.has(i) && roles[i] !== 'Mafia';
+        const suspects = voters.filter(i => i !== voter && !cleared(i));
+        const mafia = suspects.filter(i => roles[i] === 'Mafia');
+        choice = random() < TOWN_INSIGHT && mafia.length > 0 ? pick(mafia, random) : pick(suspects, random);
+      }
+      if (choice !== undefined) tally.set(choice, (tally.get(choice) || 0) + 1);
+    }
+
+    const most = Math.max(0, ...tally.values());
+    const leaders = [...tally.entries()].filter(([, count]) => count === most).map(([player]) => player);
+    if (most > 0 && leaders.length === 1) {
+      alive[leaders[0]] = false;
+      if (leaders[0] === lead) lead = null;
+    }
+    seconds += params.votingPhaseDuration + RESULTS_DISPLAY_SECONDS;
+
+    const afterVote = outcome(day);
+    if (afterVote) return afterVote;
+  }
+
+  return { mafiaWon: false, byTasks: false, days: MAX_DAYS, seconds, survivingMafia: livingMafia().length };
+}
+
+/**
+ * Play params.runs randomized games and summarize them. Payouts follow
+ * StakingService: winning ASUR still alive split the pot after the house cut,
+ * or every non-ASUR (dead or alive) splits it when they win.
+ */
+export function simulateOutcomes(params: SimulationParams): SimulationResult {
+  const runs = params.runs ?? DEFAULT_SIMULATION_RUNS;
+  const random = createRandom(params.seed ?? 1);
+  const pot = params.stake * params.playerCount * (1 - (params.houseCutBps ?? DEFAULT_HOUSE_CUT_BPS) / 10000);
+  const mafiaCount = params.composition.mafia;
+  const nonMafiaCount = params.playerCount - mafiaCount;
+
+  let mafiaWins = 0;
+  let taskWins = 0;
+  let days = 0;
+  let seconds = 0;
+  let mafiaTakeHome = 0; // summed over games, averaged per ASUR player below
+  let nonMafiaTakeHome = 0;
+
+  for (let run = 0; run < runs; run++) {
+    const game = playGame(params, random);
+    days += game.days;
+    seconds += game.seconds;
+    if (game.mafiaWon) {
+      mafiaWins++;
+      mafiaTakeHome += game.survivingMafia > 0 ? pot : 0;
+    } else {
+      if (game.byTasks) taskWins++;
+      nonMafiaTakeHome += pot;
+    }
+  }
+
+  const nonMafiaValue = nonMafiaCount > 0 ? nonMafiaTakeHome / runs / nonMafiaCount - params.stake : 0;
+  const expectedValue: Partial<Record<SimulatedRole, number>> = {
+    Mafia: mafiaTakeHome / runs / mafiaCount - params.stake
+  };
+  if (params.composition.doctor) expectedValue.Doctor = nonMafiaValue;
+  if (params.composition.detective) expectedValue.Detective = nonMafiaValue;
+  if (nonMafiaCount > (params.composition.doctor ? 1 : 0) + (params.composition.detective ? 1 : 0)) {
+    expectedValue.Villager = nonMafiaValue;
+  }
+
+  return {
+    runs,
+    mafiaWinRate: mafiaWins / runs,
+    nonMafiaWinRate: 1 - mafiaWins / runs,
+    taskWinRate: taskWins / runs,
+    averageDays: days / runs,
+    averageSeconds: seconds / runs,
+    expectedValue
+  };
+}
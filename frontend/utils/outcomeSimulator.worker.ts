@@ -0,0 +1,27 @@
+/**
+ * Web Worker running the outcome simulator off the UI thread
+ * (see hooks/useOutcomeSimulation.ts). Each request is answered with its id so
+ * the hook can drop answers to settings that have since changed.
+ */
+
+import { simulateOutcomes, SimulationParams, SimulationResult } from './outcomeSimulator';
+
+export interface SimulationRequest {
+  id: number;
+  params: SimulationParams;
+}
+
+export type SimulationResponse =
+  | { id: number; result: SimulationResult }
+  | { id: number; error: string };
+
+addEventListener('message', (event: MessageEvent<SimulationRequest>) => {
+  const { id, params } = event.data;
+  let response: SimulationResponse;
+  try {
+    response = { id, result: simulateOutcomes(params) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Simulation failed' };
+  }
+  postMessage(response);
+});
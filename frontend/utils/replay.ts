@@ -0,0 +1,238 @@
+/**
+ * Game replay
+ *
+ * Rebuilds the game state at any point of a finished game's event log, so the
+ * regular screens can render it. A replay is watched either omnisciently
+ * (every role and night action) or from one player's perspective, which only
+ * shows what that player knew at the time: their own role, ASUR teammates,
+ * their own night actions and investigation results, and public events.
+ */
+
+import type { Game, GameReplay, ReplayEvent } from '@/services/api';
+import type { PrivateInfoEvent } from '@/services/socketProtocol';
+
+export type ReplayPerspective = string | null; // player address, or null for omniscient
+
+export interface ReplayNightInfo {
+  investigation: Extract<PrivateInfoEvent, { type: 'investigation' }> | null;
+  protection: Extract<PrivateInfoEvent, { type: 'protection' }> | null;
+}
+
+export interface ReplayJumpPoint {
+  step: number;
+  day: number;
+  phase: Game['phase'];
+  label: string;
+}
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4] as const;
+
+// Real gaps between events are replayed as-is, within these bounds (at 1x)
+const MIN_STEP_DELAY_MS = 300;
+const MAX_STEP_DELAY_MS = 3000;
+
+const PHASE_LABELS: Record<Game['phase'], string> = {
+  lobby: 'LOBBY',
+  night: 'NIGHT',
+  resolution: 'RESOLUTION',
+  task: 'TASKS',
+  voting: 'VOTING',
+  ended: 'END'
+};
+
+function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Whether an event was visible to the given perspective when it happened
+ */
+export function isEventVisible(event: ReplayEvent, perspective: ReplayPerspective): boolean {
+  if (perspective === null) return true;
+  if (event.type === 'night_action') return sameAddress(event.player, perspective);
+  if (event.type === 'game_started') return false;
+  return true;
+}
+
+/**
+ * Roles known to the perspective after the first `step + 1` events
+ */
+export function knownRoles(replay: GameReplay, step: number, perspective: ReplayPerspective): Record<string, string> {
+  const events = replay.events.slice(0, step + 1);
+  const started = events.find(event => event.type === 'game_started');
+  const dealt = started?.type === 'game_started' ? started.roles : {};
+
+  if (perspective === null) return { ...dealt };
+
+  const roles: Record<string, string> = {};
+  const ownRole = dealt[perspective];
+  if (ownRole) {
+    roles[perspective] = ownRole;
+    if (ownRole === 'Mafia') {
+      for (const [address, role] of Object.entries(dealt)) {
+        if (role === 'Mafia') roles[address] = role;
+      }
+    }
+  }
+
+  for (const event of events) {
+    if (event.type === 'elimination' && event.role) {
+      roles[event.player] = event.role;
+    } else if (event.type === 'night_action' && sameAddress(event.player, perspective) && event.target && event.result) {
+      roles[event.target] = event.result;
+    } else if (event.type === 'game_ended') {
+      Object.assign(roles, event.roles);
+    }
+  }
+  return roles;
+}
+
+/**
+ * Game state after the first `step + 1` events, shaped like a live game so the
+ * game screens (and the store selectors they use) can render it
+ */
+export function buildReplayGame(replay: GameReplay, step: number, perspective: ReplayPerspective): Game {
+  const events = replay.events.slice(0, step + 1);
+  const current = events[events.length - 1];
+
+  const game: Game = {
+    gameId: replay.gameId,
+    roomCode: replay.roomCode,
+    creator: replay.creator,
+    players: replay.players,
+    roles: knownRoles(replay, step, perspective),
+    phase: 'lobby',
+    day: 1,
+    timeLeft: 0,
+    startedAt: replay.startedAt,
+    stakeAmount: '0',
+    minPlayers: replay.players.length,
+    maxPlayers: replay.players.length,
+    task: null,
+    taskCounts: {},
+    votes: {},
+    eliminated: [],
+    winners: [],
+    roleCommit: null,
+    status: 'active',
+    settings: replay.settings,
+    votingResolved: false,
+    votingResult: null,
+    nightResolution: undefined
+  };
+
+  let phaseStart: Extract<ReplayEvent, { type: 'phase' }> | null = null;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'phase':
+        phaseStart = event;
+        game.phase = event.phase;
+        game.day = event.day;
+        if (event.phase === 'night') {
+          game.lastVotingResult = game.votingResult;
+          game.nightResolution = undefined;
+        }
+        if (event.phase === 'voting') {
+          game.votes = {};
+          game.votingResolved = false;
+          game.votingResult = null;
+        }
+        break;
+      case 'elimination':
+        game.eliminated = [...game.eliminated, event.player];
+        if (event.cause === 'night') {
+          game.nightResolution = emptyNightResolution();
+          game.nightResolution.killedPlayer = { address: event.player, id: event.player, name: '', role: event.role || 'Unknown' };
+        }
+        break;
+      case 'saved':
+        game.nightResolution = emptyNightResolution();
+        game.nightResolution.savedPlayer = { address: event.player, id: event.player, name: '', role: 'Unknown' };
+        break;
+      case 'vote':
+        game.votes = { ...game.votes, [event.player]: event.target };
+        break;
+      case 'vote_result':
+        game.votingResolved = true;
+        game.votingResult = event.result;
+        break;
+      case 'task_result':
+        game.taskCounts = { ...game.taskCounts, [event.player]: event.taskCount };
+        break;
+      case 'game_ended':
+        game.winners = event.winners;
+        game.status = 'completed';
+        game.isGameOver = true;
+        break;
+    }
+  }
+
+  if (phaseStart && current) {
+    const elapsed = Math.floor((current.timestamp - phaseStart.timestamp) / 1000);
+    game.timeLeft = Math.max(0, phaseStart.timeLeft - elapsed);
+  }
+
+  return game;
+}
+
+/**
+ * What the detective and the doctor learned on the night of `day`, in the form
+ * the live game sends it (private_info). From a player's perspective only
+ * their own result is returned.
+ */
+export function replayNightInfo(replay: GameReplay, step: number, perspective: ReplayPerspective, day: number): ReplayNightInfo {
+  const events = replay.events.slice(0, step + 1).filter(event => event.day === day);
+  const info: ReplayNightInfo = { investigation: null, protection: null };
+
+  for (const event of events) {
+    if (event.type !== 'night_action' || !event.target || !isEventVisible(event, perspective)) continue;
+
+    const base = { gameId: replay.gameId, seq: event.seq, timestamp: event.timestamp, day, target: event.target };
+    if (event.role === 'Detective' && event.result) {
+      info.investigation = { ...base, type: 'investigation', role: event.result };
+    } else if (event.role === 'Doctor') {
+      const saved = events.some(other => other.type === 'saved' && sameAddress(other.player, event.target));
+      info.protection = { ...base, type: 'protection', saved };
+    }
+  }
+  return info;
+}
+
+function emptyNightResolution(): NonNullable<Game['nightResolution']> {
+  return {
+    mafiaTarget: null,
+    doctorTarget: null,
+    detectiveTarget: null,
+    investigationResult: null,
+    killedPlayer: null,
+    savedPlayer: null,
+    investigationPlayer: null
+  };
+}
+
+/**
+ * The start of every phase, for jumping straight to it
+ */
+export function replayJumpPoints(replay: GameReplay): ReplayJumpPoint[] {
+  return replay.events
+    .filter((event): event is Extract<ReplayEvent, { type: 'phase' }> => event.type === 'phase')
+    .map(event => ({
+      step: event.seq,
+      day: event.day,
+      phase: event.phase,
+      label: event.phase === 'ended' ? PHASE_LABELS.ended : `D${event.day} ${PHASE_LABELS[event.phase]}`
+    }));
+}
+
+/**
+ * How long to wait before advancing past `step` at the given speed
+ */
+export function stepDelay(replay: GameReplay, step: number, speed: number): number {
+  const current = replay.events[step];
+  const next = replay.events[step + 1];
+  if (!current || !next) return MIN_STEP_DELAY_MS / speed;
+
+  const gap = Math.min(Math.max(next.timestamp - current.timestamp, MIN_STEP_DELAY_MS), MAX_STEP_DELAY_MS);
+  return gap / speed;
+}
@@ -0,0 +1,57 @@
+/**
+ * Role assignment verification
+ *
+ * When the game starts the backend publishes roleCommit =
+ * sha256(serialization + salt), where serialization is the role map as
+ * JSON with sorted keys. When it ends it reveals the serialization and salt,
+ * and the commit is also signed into the on-chain settlement. Recomputing the
+ * hash here means the roles shown at the end are the ones fixed at the start.
+ */
+
+import type { RoleReveal } from '@/services/api';
+import { sha256Hex } from './commitReveal';
+
+export type RoleVerification =
+  | { status: 'verified' }
+  | { status: 'mismatch'; reason: string }
+  | { status: 'unavailable' };
+
+/**
+ * Check a role reveal against the commit and the roles the game ended with
+ */
+export async function verifyRoleCommit(
+  roleCommit: string | null | undefined,
+  reveal: RoleReveal | null | undefined,
+  roles: Record<string, string> | undefined
+): Promise<RoleVerification> {
+  if (!roleCommit || !reveal) return { status: 'unavailable' };
+
+  const hash = await sha256Hex(reveal.serialization + reveal.salt);
+  if (hash !== roleCommit.toLowerCase().replace(/^0x/, '')) {
+    return { status: 'mismatch', reason: 'The revealed roles do not match the commit published at game start.' };
+  }
+
+  let committed: Record<string, string>;
+  try {
+    committed = JSON.parse(reveal.serialization);
+  } catch {
+    return { status: 'mismatch', reason: 'The revealed role assignment could not be parsed.' };
+  }
+
+  const shown = roles || {};
+  const addresses = new Set([...Object.keys(committed), ...Object.keys(shown)]);
+  for (const address of addresses) {
+    if (committed[address] !== shown[address]) {
+      return { status: 'mismatch', reason: `The role shown for ${address.slice(0, 8)}… differs from the committed assignment.` };
+    }
+  }
+
+  return { status: 'verified' };
+}
+
+/**
+ * Whether the commit anchored in the settlement is the one the game published
+ */
+export function isAnchoredCommit(roleCommit: string, anchored: string): boolean {
+  return anchored.toLowerCase().replace(/^0x/, '') === roleCommit.toLowerCase().replace(/^0x/, '');
+}
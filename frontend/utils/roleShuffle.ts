@@ -0,0 +1,220 @@
+/**
+ * Multi-party role shuffle seed
+ *
+ * Each player commits sha256(value) from the lobby and reveals the value when
+ * the game starts. The backend hashes every revealed value with its own
+ * committed seed and uses the result for a deterministic Fisher-Yates shuffle.
+ * Everything is published at game end, so the shuffle can be redone here.
+ * Seed and shuffle formats must match backend/utils/roleShuffle.js exactly.
+ */
+
+import type { RoleComposition, RoleReveal, RoleSetup } from '@/services/api';
+import { sha256Hex } from './commitReveal';
+import { canonicalJson } from './sessionKeys';
+
+const STORAGE_KEY = 'pepasur_role_seeds';
+
+export interface StoredRoleSeed {
+  owner: string;
+  value: string;
+  commit: string;
+}
+
+export type ShuffleVerification =
+  | { status: 'verified' }
+  | { status: 'mismatch'; reason: string }
+  | { status: 'unavailable' };
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function readSeeds(): Record<string, StoredRoleSeed> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('❌ Error reading role seeds:', error);
+    return {};
+  }
+}
+
+/**
+ * A fresh 32-byte random value and its commit
+ */
+export async function createRoleSeed(owner: string): Promise<StoredRoleSeed> {
+  const value = toHex(crypto.getRandomValues(new Uint8Array(32)));
+  return { owner, value, commit: await sha256Hex(value) };
+}
+
+/**
+ * Remember the value behind this game's commit until it has been revealed
+ */
+export function saveRoleSeed(gameId: string, seed: StoredRoleSeed): void {
+  try {
+    const seeds = readSeeds();
+    seeds[gameId] = seed;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(seeds));
+    console.log('🎲 Role seed committed for game', gameId);
+  } catch (error) {
+    console.error('❌ Error saving role seed:', error);
+  }
+}
+
+/**
+ * Stored seed for this game and wallet, or null
+ */
+export function getRoleSeed(gameId: string, owner: string): StoredRoleSeed | null {
+  const seed = readSeeds()[gameId];
+  if (!seed || seed.owner.toLowerCase() !== owner.toLowerCase()) return null;
+  return seed;
+}
+
+/**
+ * Wipe every stored seed value
+ */
+export function clearRoleSeeds(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('❌ Error clearing role seeds:', error);
+  }
+}
+
+/**
+ * Combine revealed player values (keyed by lowercase address) with the server's value
+ */
+export function combineSeed(contributions: Record<string, string>, serverSeed: string): Promise<string> {
+  return sha256Hex(canonicalJson({ contributions, server: serverSeed }));
+}
+
+// What games were dealt before the host could choose
+const CLASSIC_COMPOSITION: RoleComposition = { mafia: 1, doctor: true, detective: true };
+
+/**
+ * Balanced composition for a lobby size: one ASUR per four players, DEVA
+ * (Doctor) from three players and RISHI (Detective) from four
+ */
+export function autoComposition(playerCount: number): RoleComposition {
+  return {
+    mafia: Math.max(1, Math.floor(playerCount / 4)),
+    doctor: playerCount >= 3,
+    detective: playerCount >= 4
+  };
+}
+
+/**
+ * Composition a role setup deals for this many players (missing means auto)
+ */
+export function resolveComposition(playerCount: number, roleSetup?: RoleSetup | null): RoleComposition {
+  if (!roleSetup || roleSetup.mode !== 'custom') {
+    return autoComposition(playerCount);
+  }
+  return { mafia: roleSetup.mafia, doctor: !!roleSetup.doctor, detective: !!roleSetup.detective };
+}
+
+/**
+ * Why a composition can't be dealt to this many players, or null if it can.
+ * ASUR must start outnumbered - at parity they would win before the first night.
+ */
+export function compositionError(playerCount: number, composition: RoleComposition): string | null {
+  const { mafia, doctor, detective } = composition;
+  if (!Number.isInteger(mafia) || mafia < 1) {
+    return 'There must be at least 1 ASUR';
+  }
+  if (mafia * 2 >= playerCount) {
+    return `ASUR must be outnumbered - at most ${Math.max(0, Math.ceil(playerCount / 2) - 1)} ASUR for ${playerCount} players`;
+  }
+  if (mafia + (doctor ? 1 : 0) + (detective ? 1 : 0) > playerCount) {
+    return `Not enough players for ${mafia} ASUR${doctor ? ', DEVA' : ''}${detective ? ', RISHI' : ''}`;
+  }
+  return null;
+}
+
+/**
+ * Roles dealt for a game of this size, before shuffling
+ */
+export function roleDeck(playerCount: number, composition: RoleComposition): string[] {
+  const roles: string[] = [];
+  for (let i = 0; i < composition.mafia; i++) {
+    roles.push('Mafia');
+  }
+  if (composition.doctor) roles.push('Doctor');
+  if (composition.detective) roles.push('Detective');
+  while (roles.length < playerCount) {
+    roles.push('Villager');
+  }
+  return roles;
+}
+
+/**
+ * Deterministically shuffle the deck and deal it to players in join order
+ */
+export async function shuffleRoles(
+  players: string[],
+  seed: string,
+  composition: RoleComposition
+): Promise<Record<string, string>> {
+  const roles = roleDeck(players.length, composition);
+
+  for (let i = roles.length - 1; i > 0; i--) {
+    const j = Number(BigInt(`0x${await sha256Hex(`${seed}:${i}`)}`) % BigInt(i + 1));
+    [roles[i], roles[j]] = [roles[j], roles[i]];
+  }
+
+  const assignment: Record<string, string> = {};
+  players.forEach((player, index) => {
+    assignment[player] = roles[index];
+  });
+  return assignment;
+}
+
+/**
+ * Redo the shuffle from the published seeds and check it produced the
+ * committed roles. Every contribution must match a lobby commit, and the
+ * server's seed must match the commit it published when the game was created.
+ */
+export async function verifyRoleShuffle(
+  reveal: RoleReveal | null | undefined,
+  serverSeedCommit: string | undefined,
+  seedCommits: Record<string, string> | undefined
+): Promise<ShuffleVerification> {
+  const shuffle = reveal?.shuffle;
+  if (!shuffle || !serverSeedCommit) return { status: 'unavailable' };
+
+  if (await sha256Hex(shuffle.serverSeed) !== serverSeedCommit) {
+    return { status: 'mismatch', reason: 'The server seed does not match the commit published when the game was created.' };
+  }
+
+  const commits: Record<string, string> = {};
+  for (const [address, commit] of Object.entries(seedCommits || {})) {
+    commits[address.toLowerCase()] = commit;
+  }
+  for (const [address, value] of Object.entries(shuffle.contributions)) {
+    if (commits[address] !== await sha256Hex(value)) {
+      return { status: 'mismatch', reason: `The seed revealed by ${address.slice(0, 8)}… does not match their commit.` };
+    }
+  }
+
+  const seed = await combineSeed(shuffle.contributions, shuffle.serverSeed);
+  if (seed !== shuffle.seed) {
+    return { status: 'mismatch', reason: 'The combined seed does not match the published seeds.' };
+  }
+
+  let committed: Record<string, string>;
+  try {
+    committed = JSON.parse(reveal.serialization);
+  } catch {
+    return { status: 'mismatch', reason: 'The revealed role assignment could not be parsed.' };
+  }
+
+  const dealt = await shuffleRoles(shuffle.players, seed, shuffle.composition ?? CLASSIC_COMPOSITION);
+  const addresses = new Set([...Object.keys(committed), ...Object.keys(dealt)]);
+  for (const address of addresses) {
+    if (committed[address] !== dealt[address]) {
+      return { status: 'mismatch', reason: `The role dealt to ${address.slice(0, 8)}… differs from the seeded shuffle.` };
+    }
+  }
+
+  return { status: 'verified' };
+}
@@ -0,0 +1,324 @@
+/**
+ * Screen state machine for the Home page flow
+ *
+ * The server decides the game phase; this machine decides which screen the
+ * client shows for it. Every change goes through `transitionScreen`, which
+ * checks the event against the current screen, rejects out-of-order phase
+ * updates and records the outcome in a bounded transition log. The reducer is
+ * pure: side effects (sounds, session saves, resets) are only named here and
+ * run by useScreenMachine.
+ */
+
+import type { Game } from '@/services/api';
+
+export type ScreenState =
+  | 'loader'
+  | 'wallet'
+  | 'room-code-input'
+  | 'staking'
+  | 'public-lobbies'
+  | 'lobby'
+  | 'role-assignment'
+  | 'night'
+  | 'resolution'
+  | 'task'
+  | 'voting'
+  | 'ended';
+
+export type GamePhase = Game['phase'];
+
+export type ScreenEvent =
+  | { type: 'LOADED' }
+  | { type: 'OPEN_STAKING' }
+  | { type: 'BROWSE_LOBBIES' }
+  | { type: 'CANCEL' }
+  | { type: 'ENTER_LOBBY' }
+  | { type: 'RESTORE_SESSION'; hasSeenRole?: boolean }
+  | { type: 'PHASE_CHANGED'; phase: GamePhase; day: number; hasRole: boolean; killedPlayer: string | null }
+  | { type: 'ROLE_ACKNOWLEDGED' }
+  | { type: 'LEAVE_GAME' }
+  | { type: 'NEW_GAME' }
+  | { type: 'GAME_LOST'; reason: string };
+
+export type ScreenEventType = ScreenEvent['type'];
+
+export type ScreenEffect =
+  | 'sound_game_start'
+  | 'sound_killing'
+  | 'sound_click'
+  | 'sound_laugh'
+  | 'sound_role'
+  | 'save_session'
+  | 'clear_session'
+  | 'reset_game';
+
+export interface ScreenContext {
+  hasSeenRole: boolean;
+  // Player killed in the night being resolved (from game.nightResolution)
+  lastEliminatedPlayer: string | null;
+  // Last server phase applied - older phase events are rejected
+  position: { day: number; phase: GamePhase } | null;
+  // Just entered or restored a game: the first phase sync may skip screens
+  resuming: boolean;
+}
+
+export type TransitionOutcome = 'applied' | 'forced' | 'rejected';
+
+export interface TransitionRecord {
+  seq: number;
+  at: number;
+  event: ScreenEventType;
+  from: ScreenState;
+  to: ScreenState;
+  outcome: TransitionOutcome;
+  reason?: string;
+}
+
+export interface ScheduledEffect {
+  // seq of the transition that scheduled it
+  seq: number;
+  effect: ScreenEffect;
+}
+
+export interface ScreenMachineState {
+  screen: ScreenState;
+  context: ScreenContext;
+  log: TransitionRecord[];
+  // Effects waiting to be run by the page, in order
+  effects: ScheduledEffect[];
+  seq: number;
+}
+
+interface ScreenStateNode {
+  on?: Partial<Record<ScreenEventType, ScreenState>>;
+  // Screens driven by server phases (PHASE_CHANGED)
+  inGame?: boolean;
+  // Screens that auto-request fullscreen
+  fullscreen?: boolean;
+  // Navigating away abandons a staked game - ask first
+  confirmLeave?: boolean;
+  onEnter?: ScreenEffect[];
+  onExit?: ScreenEffect[];
+  // Event sent automatically after a delay in this screen
+  after?: { delay: number; event: 'LOADED' };
+}
+
+const MAX_LOG_ENTRIES = 50;
+const MAX_PENDING_EFFECTS = 20;
+
+// Leaving a game from any in-game screen
+const inGameExits: ScreenStateNode['on'] = {
+  LEAVE_GAME: 'wallet',
+  GAME_LOST: 'wallet',
+};
+
+export const screenStates: Record<ScreenState, ScreenStateNode> = {
+  loader: { on: { LOADED: 'wallet' }, after: { delay: 3000, event: 'LOADED' } },
+  wallet: { on: { OPEN_STAKING: 'staking', BROWSE_LOBBIES: 'public-lobbies', RESTORE_SESSION: 'lobby', GAME_LOST: 'wallet' } },
+  'room-code-input': { on: { CANCEL: 'wallet', GAME_LOST: 'wallet' } },
+  staking: { on: { ENTER_LOBBY: 'lobby', CANCEL: 'wallet', BROWSE_LOBBIES: 'public-lobbies', GAME_LOST: 'wallet' } },
+  'public-lobbies': { on: { ENTER_LOBBY: 'lobby', OPEN_STAKING: 'staking', GAME_LOST: 'wallet' } },
+  lobby: { on: inGameExits, inGame: true, confirmLeave: true, onEnter: ['sound_game_start', 'save_session'] },
+  'role-assignment': { on: inGameExits, inGame: true, confirmLeave: true, onEnter: ['sound_role'], onExit: ['save_session'] },
+  night: { on: inGameExits, inGame: true, fullscreen: true, confirmLeave: true, onEnter: ['sound_killing', 'save_session'] },
+  resolution: { on: inGameExits, inGame: true, confirmLeave: true, onEnter: ['save_session'] },
+  task: { on: inGameExits, inGame: true, fullscreen: true, confirmLeave: true, onEnter: ['sound_click', 'save_session'] },
+  voting: { on: inGameExits, inGame: true, fullscreen: true, confirmLeave: true, onEnter: ['sound_click', 'save_session'] },
+  ended: {
+    on: { NEW_GAME: 'wallet', BROWSE_LOBBIES: 'public-lobbies', GAME_LOST: 'wallet' },
+    inGame: true,
+    onEnter: ['sound_laugh', 'clear_session'],
+  },
+};
+
+// Screens each in-game screen may move to when the server phase advances.
+// Anything else (e.g. lobby straight to voting) means we missed phases.
+const phaseFlow: Partial<Record<ScreenState, ScreenState[]>> = {
+  lobby: ['role-assignment', 'ended'],
+  'role-assignment': ['night', 'resolution', 'ended'],
+  night: ['resolution', 'ended'],
+  resolution: ['task', 'ended'],
+  task: ['voting', 'ended'],
+  voting: ['night', 'ended'],
+};
+
+const phaseOrder: GamePhase[] = ['lobby', 'night', 'resolution', 'task', 'voting', 'ended'];
+
+export const fullscreenScreens: ScreenState[] = (Object.keys(screenStates) as ScreenState[])
+  .filter(screen => screenStates[screen].fullscreen);
+
+/**
+ * Whether the screen follows server phases (PHASE_CHANGED is ignored elsewhere)
+ */
+export function isInGameScreen(screen: ScreenState): boolean {
+  return !!screenStates[screen].inGame;
+}
+
+/**
+ * Whether leaving the screen (e.g. browser back) needs the player's confirmation
+ */
+export function requiresLeaveConfirmation(screen: ScreenState): boolean {
+  return !!screenStates[screen].confirmLeave;
+}
+
+/**
+ * Whether the screen accepts the event (PHASE_CHANGED and ROLE_ACKNOWLEDGED are handled separately)
+ */
+export function canHandleEvent(screen: ScreenState, type: ScreenEventType): boolean {
+  return !!screenStates[screen].on?.[type];
+}
+
+const initialContext: ScreenContext = {
+  hasSeenRole: false,
+  lastEliminatedPlayer: null,
+  position: null,
+  resuming: false,
+};
+
+export function createScreenMachineState(screen: ScreenState = 'loader'): ScreenMachineState {
+  return { screen, context: initialContext, log: [], effects: [], seq: 0 };
+}
+
+/**
+ * Compare two game positions: negative if `a` is older than `b`
+ */
+function comparePositions(a: { day: number; phase: GamePhase }, b: { day: number; phase: GamePhase }): number {
+  if (a.day !== b.day) return a.day - b.day;
+  return phaseOrder.indexOf(a.phase) - phaseOrder.indexOf(b.phase);
+}
+
+/**
+ * Screen for a server phase, or null if it can't be shown yet
+ * (night before the player's role is known)
+ */
+function screenForPhase(phase: GamePhase, context: ScreenContext, hasRole: boolean): ScreenState | null {
+  if (phase === 'night') {
+    if (context.hasSeenRole) return 'night';
+    return hasRole ? 'role-assignment' : null;
+  }
+  return phase;
+}
+
+function record(
+  state: ScreenMachineState,
+  event: ScreenEvent,
+  to: ScreenState,
+  outcome: TransitionOutcome,
+  reason?: string
+): ScreenMachineState {
+  const seq = state.seq + 1;
+  const entry: TransitionRecord = { seq, at: Date.now(), event: event.type, from: state.screen, to, outcome, reason };
+  return { ...state, seq, log: [...state.log, entry].slice(-MAX_LOG_ENTRIES) };
+}
+
+function enter(
+  state: ScreenMachineState,
+  event: ScreenEvent,
+  to: ScreenState,
+  context: ScreenContext,
+  outcome: Exclude<TransitionOutcome, 'rejected'> = 'applied',
+  reason?: string
+): ScreenMachineState {
+  const recorded = record(state, event, to, outcome, reason);
+
+  // Leaving the game screens (or losing the game) resets the game state
+  const resetsGame = event.type === 'GAME_LOST' || (screenStates[state.screen].inGame && !screenStates[to].inGame);
+
+  const effects: ScreenEffect[] = [
+    ...(screenStates[state.screen].onExit || []),
+    ...(resetsGame ? ['reset_game' as const] : []),
+    ...(screenStates[to].onEnter || []),
+  ];
+  const scheduled = effects.map(effect => ({ seq: recorded.seq, effect }));
+
+  return {
+    ...recorded,
+    screen: to,
+    context,
+    effects: [...state.effects, ...scheduled].slice(-MAX_PENDING_EFFECTS),
+  };
+}
+
+function handlePhaseChanged(
+  state: ScreenMachineState,
+  event: Extract<ScreenEvent, { type: 'PHASE_CHANGED' }>
+): ScreenMachineState {
+  // Pre-game screens don't follow the server; entering a game is explicit
+  if (!isInGameScreen(state.screen)) return state;
+
+  const { context } = state;
+  const position = { day: event.day, phase: event.phase };
+
+  if (context.position && comparePositions(position, context.position) < 0) {
+    return record(
+      state,
+      event,
+      state.screen,
+      'rejected',
+      `stale phase ${event.phase} (day ${event.day}), already at ${context.position.phase} (day ${context.position.day})`
+    );
+  }
+
+  const nextContext: ScreenContext = {
+    ...context,
+    position,
+    // Rejoining after the role was shown: don't show it again
+    hasSeenRole: event.phase === 'lobby'
+      ? false
+      : context.hasSeenRole || (event.hasRole && event.phase !== 'night'),
+    lastEliminatedPlayer: event.phase === 'resolution' ? event.killedPlayer : context.lastEliminatedPlayer,
+  };
+
+  const target = screenForPhase(event.phase, nextContext, event.hasRole);
+  if (!target || target === state.screen) {
+    return { ...state, context: { ...nextContext, resuming: target ? false : context.resuming } };
+  }
+
+  const entered = { ...nextContext, resuming: false };
+  if (context.resuming) {
+    return enter(state, event, target, entered, 'applied', 'catching up after joining');
+  }
+  if (phaseFlow[state.screen]?.includes(target)) {
+    return enter(state, event, target, entered);
+  }
+
+  // The server is authoritative - follow it, but flag the skipped screens
+  return enter(state, event, target, entered, 'forced', `invalid transition ${state.screen} → ${target}, phases were skipped`);
+}
+
+/**
+ * Apply an event to the machine. Returns the same state object when nothing changed.
+ */
+export function transitionScreen(state: ScreenMachineState, event: ScreenEvent): ScreenMachineState {
+  if (event.type === 'PHASE_CHANGED') {
+    return handlePhaseChanged(state, event);
+  }
+
+  if (event.type === 'ROLE_ACKNOWLEDGED') {
+    if (state.screen !== 'role-assignment') {
+      return record(state, event, state.screen, 'rejected', 'no role is being shown');
+    }
+    // Usually night, unless the game moved on while the role was on screen
+    const phase = state.context.position?.phase;
+    const target: ScreenState = phase && phase !== 'night' ? phase : 'night';
+    return enter(state, event, target, { ...state.context, hasSeenRole: true });
+  }
+
+  const target = screenStates[state.screen].on?.[event.type];
+  if (!target) {
+    return record(state, event, state.screen, 'rejected', `${event.type} is not allowed here`);
+  }
+
+  switch (event.type) {
+    case 'ENTER_LOBBY':
+      return enter(state, event, target, { ...initialContext, resuming: true });
+    case 'RESTORE_SESSION':
+      return enter(state, event, target, { ...initialContext, hasSeenRole: !!event.hasSeenRole, resuming: true });
+    case 'LEAVE_GAME':
+    case 'NEW_GAME':
+    case 'GAME_LOST':
+      return enter(state, event, target, initialContext, 'applied', event.type === 'GAME_LOST' ? event.reason : undefined);
+    default:
+      return enter(state, event, target, state.context);
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Per-game session keys
+ *
+ * On joining a game the browser generates a throwaway keypair and the wallet
+ * signs one delegation authorizing it for that game and a time window. Night
+ * actions (and their reveals), task answers, votes and chat are then signed
+ * with the session key, so there is no wallet popup mid-phase. Message formats must match
+ * backend/utils/sessionKeys.js exactly.
+ */
+
+import { getAddress, type Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+
+const STORAGE_KEY = 'pepasur_session_keys';
+
+// Long enough for any game; the backend caps delegations at 6 hours
+export const SESSION_KEY_TTL_MS = 4 * 60 * 60 * 1000;
+
+// Don't start signing with a key that expires mid-phase
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+export type SignedActionKind = 'night_action' | 'reveal' | 'task' | 'vote' | 'chat';
+
+export interface StoredSessionKey {
+  gameId: string;
+  owner: string;
+  address: string;
+  privateKey: Hex;
+  validFrom: number;
+  validUntil: number;
+  signature?: Hex; // Wallet's delegation signature, kept to register the key again without a prompt
+}
+
+export interface SessionKeyDelegation {
+  key: StoredSessionKey;
+  message: string;
+}
+
+/**
+ * JSON with sorted object keys and undefined values dropped, so the client and
+ * server serialize an action body the same way
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined || typeof value !== 'object') {
+    return JSON.stringify(value === undefined ? null : value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  const entries = Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Message the wallet signs to authorize a session key
+ */
+export function buildDelegationMessage(key: Pick<StoredSessionKey, 'gameId' | 'owner' | 'address' | 'validFrom' | 'validUntil'>): string {
+  return [
+    'Pepasur session key',
+    '',
+    'Authorize this temporary key to sign my moves in one game. It cannot move funds.',
+    '',
+    `Game: ${key.gameId}`,
+    `Player: ${key.owner}`,
+    `Session key: ${key.address}`,
+    `Valid from: ${new Date(key.validFrom).toISOString()}`,
+    `Valid until: ${new Date(key.validUntil).toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Message the session key signs for one action
+ */
+export function buildActionMessage(
+  kind: SignedActionKind,
+  gameId: string,
+  playerAddress: string,
+  requestId: string | null,
+  body: Record<string, unknown>
+): string {
+  return `pepasur-action:${canonicalJson([kind, gameId, playerAddress.toLowerCase(), requestId, body])}`;
+}
+
+function readKeys(): Record<string, StoredSessionKey> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('❌ Error reading session keys:', error);
+    return {};
+  }
+}
+
+/**
+ * Stored key for this game and wallet, or null if there is none or it is about to expire
+ */
+export function getSessionKey(gameId: string, owner: string): StoredSessionKey | null {
+  const key = readKeys()[gameId];
+  if (!key || key.owner.toLowerCase() !== owner.toLowerCase()) return null;
+  if (key.validUntil - EXPIRY_MARGIN_MS <= Date.now()) return null;
+  return key;
+}
+
+/**
+ * Generate a new key for a game. It isn't stored until the backend accepts
+ * the delegation (see saveSessionKey).
+ */
+export function createSessionKey(gameId: string, owner: string): SessionKeyDelegation {
+  const privateKey = generatePrivateKey();
+  const validFrom = Date.now();
+  const key: StoredSessionKey = {
+    gameId,
+    owner: getAddress(owner),
+    address: privateKeyToAccount(privateKey).address,
+    privateKey,
+    validFrom,
+    validUntil: validFrom + SESSION_KEY_TTL_MS,
+  };
+  return { key, message: buildDelegationMessage(key) };
+}
+
+/**
+ * Store a registered key (replaces any previous key for the game)
+ */
+export function saveSessionKey(key: StoredSessionKey): void {
+  try {
+    const keys = readKeys();
+    keys[key.gameId] = key;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+    console.log('🔑 Session key saved for game', key.gameId);
+  } catch (error) {
+    console.error('❌ Error saving session key:', error);
+  }
+}
+
+/**
+ * Forget the stored key for one game
+ */
+export function removeSessionKey(gameId: string): void {
+  try {
+    const keys = readKeys();
+    delete keys[gameId];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+  } catch (error) {
+    console.error('❌ Error removing session key:', error);
+  }
+}
+
+/**
+ * Whether the backend rejected an action because it has no delegation for the
+ * key - it keeps them in memory, so a restart forgets every one
+ */
+export function isUnregisteredSessionKeyError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('No session key registered');
+}
+
+/**
+ * Wipe every stored session key
+ */
+export function clearSessionKeys(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+    console.log('🗑️ Session keys cleared');
+  } catch (error) {
+    console.error('❌ Error clearing session keys:', error);
+  }
+}
+
+/**
+ * Sign an action with a session key
+ */
+export function signWithSessionKey(
+  key: StoredSessionKey,
+  kind: SignedActionKind,
+  playerAddress: string,
+  requestId: string | null,
+  body: Record<string, unknown>
+): Promise<Hex> {
+  const account = privateKeyToAccount(key.privateKey);
+  return account.signMessage({ message: buildActionMessage(kind, key.gameId, playerAddress, requestId, body) });
+}
@@ -2,6 +2,10 @@
  * Session persistence utility for rejoining games after browser close/refresh
  */
 
+import { clearSessionKeys } from './sessionKeys';
+import { clearNightCommit } from './commitReveal';
+import { clearRoleSeeds } from './roleShuffle';
+
 const STORAGE_KEY = 'pepasur_game_session';
 
 export interface GameSession {
@@ -61,7 +65,8 @@ export function getGameSession(): GameSession | null {
 }
 
 /**
- * Clear game session from localStorage
+ * Clear game session from localStorage, along with the game's session keys
+ * and any unrevealed night commit
  */
 export function clearGameSession(): void {
   try {
@@ -70,6 +75,9 @@ export function clearGameSession(): void {
   } catch (error) {
     console.error('❌ Error clearing game session:', error);
   }
+  clearSessionKeys();
+  clearNightCommit();
+  clearRoleSeeds();
 }
 
 /**
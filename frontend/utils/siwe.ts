@@ -0,0 +1,43 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) message builder
+ *
+ * The backend parses the same format back (backend/utils/siwe.js), so the
+ * field names and line layout here must follow the spec exactly.
+ */
+
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  issuedAt?: Date;
+  expirationTime?: Date;
+}
+
+export function buildSiweMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+  ];
+
+  if (fields.statement) {
+    lines.push('', fields.statement);
+  }
+
+  lines.push(
+    '',
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${(fields.issuedAt || new Date()).toISOString()}`
+  );
+
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime.toISOString()}`);
+  }
+
+  return lines.join('\n');
+}
@@ -1,4 +1,10 @@
 import { formatEther, parseEther } from 'viem';
+import type { RoleComposition } from '@/services/api';
+import { autoComposition } from './roleShuffle';
+
+// houseCutBps Pepasur.sol starts with; the admin can change it with updateHouseCut,
+// so previews should prefer the live value from getContractInfo (useHouseCut)
+export const DEFAULT_HOUSE_CUT_BPS = 200;
 
 /**
  * Calculate win probabilities for a game based on stake amount and player count
@@ -15,7 +21,9 @@ export interface WinProbabilities {
 export function calculateWinProbabilities(
   stakeAmount: bigint | string, // Wei as BigInt or Wei string (NOT token units)
   playerCount: number,
-  minPlayers?: number
+  minPlayers?: number,
+  composition?: RoleComposition, // Roles the lobby deals (see resolveComposition); balanced preset for playerCount if omitted
+  houseCutBps: number = DEFAULT_HOUSE_CUT_BPS
 ): WinProbabilities {
   // Convert stakeAmount to bigint if it's not already
   // IMPORTANT: If string, it's assumed to be Wei string, not token units
@@ -25,14 +33,14 @@ export function calculateWinProbabilities(
 
   const effectiveMinPlayers = minPlayers || 4
   const totalPot = stakeAmountBigInt * BigInt(playerCount);
-  const netPot = (totalPot * BigInt(98)) / BigInt(100); // After 2% house cut
+  const netPot = totalPot - (totalPot * BigInt(houseCutBps)) / BigInt(10000); // After the house cut, rounded like settleGame
 
-  // Assuming 1 mafia, rest are non-mafia
-  const mafiaCount = 1;
+  // ASUR split the pot between them, everyone else is non-mafia
+  const mafiaCount = (composition ?? autoComposition(playerCount)).mafia;
   const nonMafiaCount = playerCount - mafiaCount;
 
   // Calculate win percentages
-  const mafiaWinPercent = playerCount > 0 && nonMafiaCount > 0
+  const mafiaWinPercent = playerCount > 0 && nonMafiaCount > 0 && mafiaCount > 0
     ? Math.round(Number((netPot / BigInt(mafiaCount) * BigInt(100)) / stakeAmountBigInt) - 100)
     : 0;
 
@@ -50,6 +58,41 @@ export function calculateWinProbabilities(
   };
 }
 
+/**
+ * Itemized payout for one side winning, using the same integer math as the
+ * contract's settleGame and the backend's StakingService
+ */
+export interface PayoutBreakdown {
+  pot: bigint;        // every stake
+  fee: bigint;        // house cut, credited to the contract's feeRecipient
+  rewardPool: bigint; // pot - fee, split between the winners
+  winnerCount: number;
+  perWinner: bigint;  // each winner's share, rounded down
+  dust: bigint;       // rounding remainder, added to the last winner's share
+}
+
+export function calculatePayoutBreakdown(
+  stakeAmount: bigint | string, // Wei
+  playerCount: number,
+  winnerCount: number,
+  houseCutBps: number = DEFAULT_HOUSE_CUT_BPS
+): PayoutBreakdown {
+  const stakeAmountBigInt = typeof stakeAmount === 'bigint' ? stakeAmount : BigInt(stakeAmount);
+  const pot = stakeAmountBigInt * BigInt(playerCount);
+  const fee = (pot * BigInt(houseCutBps)) / BigInt(10000);
+  const rewardPool = pot - fee;
+  const winners = BigInt(Math.max(0, winnerCount));
+
+  return {
+    pot,
+    fee,
+    rewardPool,
+    winnerCount,
+    perWinner: winners > BigInt(0) ? rewardPool / winners : BigInt(0),
+    dust: winners > BigInt(0) ? rewardPool % winners : BigInt(0)
+  };
+}
+
 /**
  * Format token amount from Wei (18 decimals)
  */
@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url'
+
+/** @type {import('vitest/config').UserConfig} */
+const config = {
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['__tests__/**/*.test.ts'],
+    environment: 'node',
+  },
+}
+
+export default config